@@ -4,6 +4,7 @@ import { AuthProvider } from './lib/auth-context';
 import { MicrophoneProvider } from './lib/microphone-context';
 import { ThemeProvider } from './lib/theme-context';
 import { NavigationGuardProvider } from './lib/navigation-guard-context';
+import { SyncProvider } from './lib/sync-context';
 import './app/global.css';
 
 // Pages
@@ -15,6 +16,7 @@ import ForgotPasswordPage from './app/account/forgot-password/page';
 import ResetPasswordPage from './app/account/reset-password/page';
 import DashboardPage from './app/dashboard/page';
 import ProfilePage from './app/profile/page';
+import LeaderboardPage from './app/leaderboard/page';
 import StudyPage from './app/study/page';
 import DeckDetailPage from './app/decks/[id]/page';
 import CreateSetPage from './app/admin/create-set/page';
@@ -35,6 +37,7 @@ export default function App() {
   return (
     <ThemeProvider>
     <AuthProvider>
+    <SyncProvider>
       <MicrophoneProvider>
       <NavigationGuardProvider>
       <Toaster position="bottom-right" />
@@ -52,6 +55,7 @@ export default function App() {
         {/* Protected routes */}
         <Route path="/dashboard" element={<DashboardPage />} />
         <Route path="/profile" element={<ProfilePage />} />
+        <Route path="/leaderboard" element={<LeaderboardPage />} />
         <Route path="/study" element={<StudyPage />} />
         <Route path="/decks/:id" element={<DeckDetailPage />} />
         
@@ -80,6 +84,7 @@ export default function App() {
       </Routes>
       </NavigationGuardProvider>
       </MicrophoneProvider>
+    </SyncProvider>
     </AuthProvider>
     </ThemeProvider>
   );
@@ -1,43 +1,70 @@
-// @ts-nocheck
 import { useState, useEffect, useMemo } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import DashboardLayout from "@/shared/components/DashboardLayout";
 import ColorPicker from "@/shared/components/ColorPicker";
-import { BookOpen, Plus, Upload, X, ArrowLeft, Trash2, AlertCircle } from "lucide-react";
-import { api } from "@/config/api";
+import { BookOpen, Plus, X, ArrowLeft, Trash2, AlertCircle } from "lucide-react";
+import { api, PlanLimitError } from "@/config/api";
+import { joinAlternates, splitAlternates } from "@/lib/answer-matching";
+import DeckImport from "@/shared/components/DeckImport";
+import useCardImport from "@/shared/hooks/useCardImport";
+import type { CreateCardBody } from "@/types/api.types";
+
+/** One row of the card editor */
+type CardRow = {
+  id: string | null;
+  spanish: string;
+  english: string;
+  notes?: string;
+  /** Spanish answer when it differs from the prompt; not shown in the row editor */
+  answer?: string;
+  alternatesEs?: string;
+  alternatesEn?: string;
+  distractors?: Pick<CreateCardBody, "distractor_1_es" | "distractor_2_es" | "distractor_3_es">;
+};
+
+type EditableField = "spanish" | "english" | "notes" | "alternatesEs" | "alternatesEn";
+
+const emptyRow = (): CardRow => ({ id: null, spanish: "", english: "", notes: "" });
+
+const toCardPayload = (card: CardRow): CreateCardBody => ({
+  prompt_es: card.spanish.trim(),
+  answer_es: card.answer?.trim() || card.spanish.trim(),
+  translation_en: card.english.trim(),
+  notes: card.notes ? card.notes.trim() : "",
+  accepted_es: splitAlternates(card.alternatesEs || ""),
+  accepted_en: splitAlternates(card.alternatesEn || ""),
+  // Only set by file imports; the row editor doesn't show distractors
+  ...card.distractors,
+});
 
 export default function CreateSetPage() {
   const navigate = useNavigate();
-  const [setId, setSetId] = useState(null);
+  const [setId, setSetId] = useState<string | null>(null);
   const [isEditMode, setIsEditMode] = useState(false);
   const [setTitle, setSetTitle] = useState("");
   const [setDescription, setSetDescription] = useState("");
   const [setColor, setSetColor] = useState("#0EA5E9"); // default blue
   const [mode, setMode] = useState("line-by-line");
-  const [cards, setCards] = useState([
-    { id: null, spanish: "", english: "", notes: "" },
-    { id: null, spanish: "", english: "", notes: "" },
-    { id: null, spanish: "", english: "", notes: "" },
-  ]);
-  const [bulkText, setBulkText] = useState("");
-  const [importSummary, setImportSummary] = useState(null);
+  const [cards, setCards] = useState<CardRow[]>([emptyRow(), emptyRow(), emptyRow()]);
+  const [importSummary, setImportSummary] = useState<{ imported: number } | null>(null);
   const [saving, setSaving] = useState(false);
+  const { importCards, progress: saveProgress, reset: resetSaveProgress } = useCardImport();
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState(null);
-  const [successMessage, setSuccessMessage] = useState(null);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [showUpgradeModal, setShowUpgradeModal] = useState(false);
   const [upgradeMessage, setUpgradeMessage] = useState("");
 
   // Detect duplicate cards based on Spanish word (case-insensitive)
   const duplicateIndices = useMemo(() => {
-    const seen = new Map();
-    const duplicates = new Set();
+    const seen = new Map<string, number>();
+    const duplicates = new Set<number>();
     
     cards.forEach((card, index) => {
       const spanishKey = card.spanish.trim().toLowerCase();
       if (spanishKey && card.spanish.trim()) {
         if (seen.has(spanishKey)) {
-          duplicates.add(seen.get(spanishKey));
+          duplicates.add(seen.get(spanishKey)!);
           duplicates.add(index);
         } else {
           seen.set(spanishKey, index);
@@ -50,6 +77,8 @@ export default function CreateSetPage() {
 
   const hasDuplicates = duplicateIndices.size > 0;
 
+  const existingSpanish = useMemo(() => cards.map((card) => card.spanish).filter((spanish) => spanish.trim()), [cards]);
+
   useEffect(() => {
     if (typeof window !== "undefined") {
       const params = new URLSearchParams(window.location.search);
@@ -64,14 +93,14 @@ export default function CreateSetPage() {
     }
   }, []);
 
-  const fetchSet = async (id) => {
+  const fetchSet = async (id: string) => {
     try {
       const [setData, cardsData] = await Promise.all([
         api.decks.get(id),
         api.cards.list(id),
       ]);
 
-      setSetTitle(setData.title);
+      setSetTitle(setData.title || "");
       setSetDescription(setData.description || "");
       setSetColor(setData.primary_color_hex || "#0EA5E9");
 
@@ -82,8 +111,11 @@ export default function CreateSetPage() {
               spanish: c.prompt_es || c.question || "",
               english: c.translation_en || c.answer || "",
               notes: c.notes || "",
+              answer: c.answer_es && c.answer_es !== c.prompt_es ? c.answer_es : undefined,
+              alternatesEs: joinAlternates(c.accepted_es),
+              alternatesEn: joinAlternates(c.accepted_en),
             }))
-          : [{ id: null, spanish: "", english: "", notes: "" }],
+          : [emptyRow()],
       );
     } catch (error) {
       console.error("Error fetching set:", error);
@@ -94,10 +126,10 @@ export default function CreateSetPage() {
   };
 
   const addRow = () => {
-    setCards([...cards, { id: null, spanish: "", english: "", notes: "" }]);
+    setCards([...cards, emptyRow()]);
   };
 
-  const removeRow = async (index) => {
+  const removeRow = async (index: number) => {
     const cardToRemove = cards[index];
     
     // If it's an existing card (has an ID), delete it from the backend
@@ -118,75 +150,48 @@ export default function CreateSetPage() {
     const newCards = cards.filter((_, i) => i !== index);
     if (newCards.length === 0) {
       // If all cards are removed, add one empty card
-      setCards([{ id: null, spanish: "", english: "" }]);
+      setCards([emptyRow()]);
     } else {
       setCards(newCards);
     }
   };
 
-  const updateCard = (index, field, value) => {
+  const updateCard = (index: number, field: EditableField, value: string) => {
     const updated = [...cards];
     updated[index][field] = value;
     setCards(updated);
   };
 
-  const handleBulkImport = () => {
-    const lines = bulkText.split("\n");
-    const imported = [];
-    let skipped = 0;
-
-    lines.forEach((line) => {
-      const trimmed = line.trim();
-      if (!trimmed) return;
-
-      // Split by '=' to support format: Spanish = English = Notes
-      const parts = trimmed.split("=").map(p => p.trim());
-      
-      if (parts.length < 2) {
-        skipped++;
-        return;
-      }
-
-      const spanish = parts[0];
-      const english = parts[1];
-      const notes = parts.length >= 3 ? parts.slice(2).join("=").trim() : "";
-
-      if (!spanish) {
-        skipped++;
-        return;
-      }
-
-      // Truncate notes to 150 characters
-      const truncatedNotes = notes.length > 150 ? notes.substring(0, 150) : notes;
-
-      imported.push({ id: null, spanish, english, notes: truncatedNotes });
-    });
+  const handleImportRows = (importedCards: CreateCardBody[]) => {
+    const imported = importedCards.map((card): CardRow => ({
+      id: null,
+      spanish: card.prompt_es,
+      english: card.translation_en,
+      notes: card.notes || "",
+      answer: card.answer_es,
+      alternatesEs: joinAlternates(card.accepted_es),
+      alternatesEn: joinAlternates(card.accepted_en),
+      distractors: {
+        distractor_1_es: card.distractor_1_es,
+        distractor_2_es: card.distractor_2_es,
+        distractor_3_es: card.distractor_3_es,
+      },
+    }));
 
     // Append imported cards to existing cards instead of replacing
     // Filter out empty cards first
     const existingCards = cards.filter(c => c.spanish.trim() || c.english.trim() || c.id);
-    const newCards = [...existingCards, ...imported];
-    
-    // If no existing cards and no imported cards, keep one empty card
-    setCards(
-      newCards.length > 0 ? newCards : [{ id: null, spanish: "", english: "", notes: "" }],
-    );
-    
+    setCards([...existingCards, ...imported]);
+
     // Switch to line-by-line view after import
     setMode("line-by-line");
-    
-    // Clear bulk text
-    setBulkText("");
-    
-    setImportSummary({
-      imported: imported.length,
-      skipped,
-    });
+
+    setImportSummary({ imported: imported.length });
   };
 
   const handleRemoveDuplicates = () => {
-    const seen = new Map();
-    const uniqueCards = [];
+    const seen = new Map<string, boolean>();
+    const uniqueCards: CardRow[] = [];
     
     cards.forEach((card) => {
       const spanishKey = card.spanish.trim().toLowerCase();
@@ -197,7 +202,7 @@ export default function CreateSetPage() {
     });
     
     if (uniqueCards.length === 0) {
-      setCards([{ id: null, spanish: "", english: "", notes: "" }]);
+      setCards([emptyRow()]);
     } else {
       setCards(uniqueCards);
     }
@@ -206,6 +211,7 @@ export default function CreateSetPage() {
   const handleSaveSet = async () => {
     setError(null);
     setSuccessMessage(null);
+    resetSaveProgress();
 
     if (!setTitle.trim()) {
       setError("Set title is required");
@@ -242,9 +248,10 @@ export default function CreateSetPage() {
     setSaving(true);
 
     try {
-      let deckId = setId;
+      let deckId: string;
 
-      if (isEditMode) {
+      if (isEditMode && setId) {
+        deckId = setId;
         await api.decks.update(setId, {
           title: setTitle,
           description: setDescription,
@@ -264,26 +271,19 @@ export default function CreateSetPage() {
         }
         
         // Update existing cards that have IDs and are valid
-        const existingValidCards = cards.filter((c) => c.id && c.spanish.trim() && c.english.trim());
+        const existingValidCards = cards.filter(
+          (c): c is CardRow & { id: string } => !!c.id && !!c.spanish.trim() && !!c.english.trim(),
+        );
         for (const card of existingValidCards) {
-          await api.cards.update(card.id, {
-            prompt_es: card.spanish.trim(),
-            answer_es: card.spanish.trim(),
-            translation_en: card.english.trim(),
-            notes: card.notes ? card.notes.trim() : "",
-          });
+          await api.cards.update(card.id, toCardPayload(card));
         }
         
         // Only create new cards (those without IDs) that are valid
         const newCards = validCards.filter((c) => !c.id);
         if (newCards.length > 0) {
-          const newCardsData = newCards.map((card) => ({
-            prompt_es: card.spanish.trim(),
-            answer_es: card.spanish.trim(),
-            translation_en: card.english.trim(),
-            notes: card.notes ? card.notes.trim() : "",
-          }));
-          await api.cards.bulkCreate(deckId, newCardsData);
+          const newCardsData = newCards.map(toCardPayload);
+          const result = await importCards(deckId, newCardsData);
+          if (result.error) throw result.error;
         }
         
         // Redirect to dashboard after successful save
@@ -300,8 +300,7 @@ export default function CreateSetPage() {
           });
           deckId = deck.id;
         } catch (error) {
-          // Check if this is a limit error (backend returns limit_exceeded)
-          if (error instanceof Error && error.message.includes("limit")) {
+          if (error instanceof PlanLimitError) {
             setUpgradeMessage(error.message);
             setShowUpgradeModal(true);
             setSaving(false);
@@ -311,31 +310,26 @@ export default function CreateSetPage() {
         }
       }
 
-      const cardsData = validCards.map((card) => ({
-        prompt_es: card.spanish.trim(),
-        answer_es: card.spanish.trim(),
-        translation_en: card.english.trim(),
-        notes: card.notes ? card.notes.trim() : "",
-      }));
+      const cardsData = validCards.map(toCardPayload);
 
       console.log('🔍 [DEBUG] Cards data being sent:', JSON.stringify(cardsData, null, 2));
 
       try {
-        await api.cards.bulkCreate(deckId, cardsData);
+        const result = await importCards(deckId, cardsData);
+        if (result.error) throw result.error;
         
         // Redirect to dashboard after successful save
         setSaving(false);
         navigate("/dashboard");
       } catch (error) {
-        // Check if this is a limit error
-        if (error instanceof Error && error.message.includes("limit")) {
+        if (error instanceof PlanLimitError) {
           setUpgradeMessage(error.message);
           setShowUpgradeModal(true);
           setSaving(false);
           
           // If the deck was deleted by backend (first batch exceeded limit), 
           // reset the form state
-          if (error.message.includes("deck") || !isEditMode) {
+          if (error.limit.resource === "deck" || !isEditMode) {
             setSetId(null);
             setIsEditMode(false);
           }
@@ -345,13 +339,14 @@ export default function CreateSetPage() {
       }
     } catch (err) {
       console.error("Error saving set:", err);
-      setError(err.message || "Failed to save set");
+      setError(err instanceof Error && err.message ? err.message : "Failed to save set");
       setSaving(false);
     }
   };
 
   const handleDeleteSet = async () => {
     if (
+      !setId ||
       !confirm(
         "Are you sure you want to delete this set? This cannot be undone.",
       )
@@ -618,6 +613,28 @@ export default function CreateSetPage() {
                               <X size={16} />
                             </button>
                           </div>
+                          <div className="flex gap-2 items-start mb-2 pr-10">
+                            <input
+                              type="text"
+                              value={card.alternatesEs || ""}
+                              onChange={(e) => updateCard(index, "alternatesEs", e.target.value)}
+                              placeholder="Also accept (e.g. estar / quedar)"
+                              title="Other Spanish answers that count as correct, separated by /"
+                              className="flex-1 min-w-0 px-3 py-1.5 border border-gray-200 dark:border-gray-600 rounded-lg
+                                bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-xs
+                                focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+                            />
+                            <input
+                              type="text"
+                              value={card.alternatesEn || ""}
+                              onChange={(e) => updateCard(index, "alternatesEn", e.target.value)}
+                              placeholder="Also accept (e.g. to stay / to remain)"
+                              title="Other English meanings that count as correct, separated by /"
+                              className="flex-1 min-w-0 px-3 py-1.5 border border-gray-200 dark:border-gray-600 rounded-lg
+                                bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-xs
+                                focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+                            />
+                          </div>
                           <div className="flex gap-2 items-start">
                             <textarea
                               value={card.notes || ""}
@@ -661,44 +678,12 @@ export default function CreateSetPage() {
 
               {mode === "bulk" && (
                 <div className="space-y-4">
-                  <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-xl p-4">
-                    <p className="text-sm text-blue-700 dark:text-blue-300 mb-1.5">
-                      <strong>Format:</strong> One entry per line as{" "}
-                      <code className="bg-blue-100 dark:bg-blue-800/40 px-1.5 py-0.5 rounded text-xs">
-                        Spanish = English
-                      </code>
-                    </p>
-                    <p className="text-xs text-blue-600 dark:text-blue-400 font-mono leading-relaxed">
-                      hola = hello<br />
-                      adiós = goodbye<br />
-                      gracias = thank you
-                    </p>
-                  </div>
-
-                  <textarea
-                    value={bulkText}
-                    onChange={(e) => setBulkText(e.target.value)}
-                    placeholder="hola = hello&#10;adiós = goodbye&#10;gracias = thank you"
-                    rows={10}
-                    className="w-full px-4 py-3 border border-gray-200 dark:border-gray-600 rounded-xl
-                      bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-gray-100
-                      focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm transition-colors"
-                  />
-
-                  <button
-                    onClick={handleBulkImport}
-                    className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2.5 rounded-xl hover:bg-blue-700 font-semibold text-sm transition-colors"
-                  >
-                    <Upload size={16} />
-                    Import Cards
-                  </button>
+                  <DeckImport existingSpanish={existingSpanish} onRows={handleImportRows} />
 
                   {importSummary && (
                     <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-xl p-4">
                       <p className="text-sm text-green-700 dark:text-green-300">
                         <strong>Imported {importSummary.imported} cards</strong>
-                        {importSummary.skipped > 0 &&
-                          `, skipped ${importSummary.skipped} invalid lines`}
                       </p>
                       <p className="text-xs text-green-600 dark:text-green-400 mt-1">
                         Switch to "Line by line" to view them.
@@ -726,7 +711,9 @@ export default function CreateSetPage() {
           className="px-6 py-2.5 bg-blue-600 text-white rounded-xl hover:bg-blue-700 font-semibold text-sm disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
         >
           {saving
-            ? isEditMode ? "Saving..." : "Creating Set..."
+            ? saveProgress && saveProgress.total > 0
+              ? `Saving cards ${saveProgress.done}/${saveProgress.total}...`
+              : isEditMode ? "Saving..." : "Creating Set..."
             : isEditMode ? "Save Set" : "Create Set"}
         </button>
       </div>
@@ -4,16 +4,7 @@ import { api } from "@/config/api";
 import DashboardLayout from "@/shared/components/DashboardLayout";
 import { Search, Shield, Crown, Trash2 } from "lucide-react";
 import { withAdminAuth } from "@/shared/hoc/withAuth";
-
-type AdminUser = {
-  id: string;
-  email: string;
-  display_name: string | null;
-  role: "user" | "teacher" | "admin" | string;
-  plan: "free" | "premium" | null;
-  is_premium: boolean;
-  created_at: string;
-};
+import type { AdminUser } from "@/types/api.types";
 
 function AdminUsersPage() {
   const { data: currentUser } = useUser();
@@ -50,7 +41,7 @@ function AdminUsersPage() {
     }
   };
 
-  const handleChangeRole = async (user: AdminUser, newRole: "admin" | "user" | string) => {
+  const handleChangeRole = async (user: AdminUser, newRole: AdminUser["role"]) => {
     if (newRole === user.role) return;
     setConfirmDialog({
       title: "Change Role?",
@@ -223,7 +214,7 @@ function AdminUsersPage() {
                       <td className="px-4 md:px-6 py-4 whitespace-nowrap">
                         <select
                           value={user.role}
-                          onChange={(e) => handleChangeRole(user, e.target.value)}
+                          onChange={(e) => handleChangeRole(user, e.target.value as AdminUser["role"])}
                           className="text-sm border border-gray-200 dark:border-gray-600 rounded-lg px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
                           disabled={user.id === currentUser?.id}
                         >
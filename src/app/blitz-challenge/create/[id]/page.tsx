@@ -2,9 +2,12 @@ import { useState, useEffect } from "react";
 import { Link, useParams } from "react-router-dom";
 import DashboardLayout from "@/shared/components/DashboardLayout";
 import useUser from "@/shared/hooks/useUser";
-import { ArrowLeft, Clock, HelpCircle, Users, Mic, Keyboard } from "lucide-react";
+import { ArrowLeft, Clock, HelpCircle, Users, Mic, Keyboard, Monitor, Timer, User } from "lucide-react";
 import { api } from "@/config/api";
-import type { DbDeck } from "@/types/api.types";
+import type { DbDeck, PlaySessionTeamBody, SessionPacing } from "@/types/api.types";
+import { TEAM_LIMITS, defaultTeams } from "@/domain/blitz-teams";
+
+const TEAM_COUNTS = Array.from({ length: TEAM_LIMITS.MAX - TEAM_LIMITS.MIN + 1 }, (_, i) => TEAM_LIMITS.MIN + i);
 
 export default function CreateBlitzChallengePage() {
   const { id } = useParams<{ id: string }>();
@@ -17,6 +20,12 @@ export default function CreateBlitzChallengePage() {
   const [timeLimit, setTimeLimit] = useState("5");
   const [isHost, setIsHost] = useState(false);
   const [requireMic, setRequireMic] = useState(false);
+  const [pacing, setPacing] = useState<SessionPacing>("self");
+  const [questionSeconds, setQuestionSeconds] = useState("20");
+  // Empty for an individual game
+  const [teams, setTeams] = useState<PlaySessionTeamBody[]>([]);
+  // Only a teacher who isn't playing can pace the room
+  const hostPaced = isHost && pacing === "host";
   const [creating, setCreating] = useState(false);
   const [challengeCode, setChallengeCode] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -55,9 +64,14 @@ export default function CreateBlitzChallengePage() {
       const result = await api.playSessions.create({
         deckId,
         questionCount: Number(numQuestions),
-        timeLimitMinutes: Number(timeLimit),
+        ...(hostPaced
+          ? { pacing: "host" as const, questionSeconds: Number(questionSeconds) }
+          : { pacing: "self" as const, timeLimitMinutes: Number(timeLimit) }),
         isTeacher: isHost,
         requireMic,
+        ...(teams.length > 0 && {
+          teams: teams.map((team, i) => ({ ...team, name: team.name.trim() || defaultTeams(teams.length)[i].name })),
+        }),
       });
       setChallengeCode(result.code);
     } catch (err) {
@@ -140,7 +154,7 @@ export default function CreateBlitzChallengePage() {
             </div>
             <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-3 shadow-sm">
               <p className="font-semibold text-gray-800 dark:text-gray-200">Puntaje</p>
-              <p className="text-gray-600 dark:text-gray-400 mt-1">Correcto +2 · Incorrecto -1. Todos ven las mismas preguntas, cada uno a su ritmo.</p>
+              <p className="text-gray-600 dark:text-gray-400 mt-1">Correcto 50–100 pts según rapidez, con bonus de racha · Incorrecto 0. Todos ven las mismas preguntas, cada uno a su ritmo.</p>
             </div>
             <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-3 shadow-sm">
               <p className="font-semibold text-gray-800 dark:text-gray-200">Fin del juego</p>
@@ -178,29 +192,55 @@ export default function CreateBlitzChallengePage() {
               </div>
 
               {/* Time Limit */}
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
-                  Time Limit (minutes)
-                </label>
-                <div className="grid grid-cols-4 gap-3">
-                  {["3", "5", "7", "10"].map((time) => (
-                    <button
-                      key={time}
-                      type="button"
-                      onClick={() => setTimeLimit(time)}
-                      className={`px-4 py-3 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2 ${
-                        timeLimit === time
-                          ? "bg-purple-600 text-white"
-                          : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
-                      }`}
-                    >
-                      <Clock size={18} />
-                      {time}m
-                    </button>
-                  ))}
+              {hostPaced ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                    Time per Question (seconds)
+                  </label>
+                  <div className="grid grid-cols-4 gap-3">
+                    {["10", "20", "30", "60"].map((seconds) => (
+                      <button
+                        key={seconds}
+                        type="button"
+                        onClick={() => setQuestionSeconds(seconds)}
+                        className={`px-4 py-3 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2 ${
+                          questionSeconds === seconds
+                            ? "bg-purple-600 text-white"
+                            : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                        }`}
+                      >
+                        <Timer size={18} />
+                        {seconds}s
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">Cuenta atrás de cada pregunta. Tú decides cuándo pasar a la siguiente.</p>
                 </div>
-                <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">El juego finaliza al agotar el tiempo o cuando todos los jugadores terminan.</p>
-              </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                    Time Limit (minutes)
+                  </label>
+                  <div className="grid grid-cols-4 gap-3">
+                    {["3", "5", "7", "10"].map((time) => (
+                      <button
+                        key={time}
+                        type="button"
+                        onClick={() => setTimeLimit(time)}
+                        className={`px-4 py-3 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2 ${
+                          timeLimit === time
+                            ? "bg-purple-600 text-white"
+                            : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                        }`}
+                      >
+                        <Clock size={18} />
+                        {time}m
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">El juego finaliza al agotar el tiempo o cuando todos los jugadores terminan.</p>
+                </div>
+              )}
 
               {error && (
                 <div className="text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg p-3">
@@ -231,6 +271,43 @@ export default function CreateBlitzChallengePage() {
                     </p>
                   </div>
                 </label>
+
+                {isHost && (
+                  <div className="grid sm:grid-cols-2 gap-3 mt-4 pl-8">
+                    <button
+                      type="button"
+                      onClick={() => setPacing("self")}
+                      className={`text-left px-4 py-3 rounded-lg border-2 transition-colors ${
+                        pacing === "self"
+                          ? "border-purple-600 bg-white dark:bg-gray-800"
+                          : "border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600"
+                      }`}
+                    >
+                      <span className="flex items-center gap-2 font-semibold text-gray-900 dark:text-gray-100">
+                        <Users size={18} /> Each at their own pace
+                      </span>
+                      <span className="block text-xs text-gray-600 dark:text-gray-400 mt-1">
+                        Students see the questions on their devices and race through them.
+                      </span>
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setPacing("host")}
+                      className={`text-left px-4 py-3 rounded-lg border-2 transition-colors ${
+                        pacing === "host"
+                          ? "border-purple-600 bg-white dark:bg-gray-800"
+                          : "border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600"
+                      }`}
+                    >
+                      <span className="flex items-center gap-2 font-semibold text-gray-900 dark:text-gray-100">
+                        <Monitor size={18} /> Projector mode
+                      </span>
+                      <span className="block text-xs text-gray-600 dark:text-gray-400 mt-1">
+                        Your screen shows each question and how the class answers; you move everyone on together.
+                      </span>
+                    </button>
+                  </div>
+                )}
               </div>
 
               {/* Answer Mode */}
@@ -271,6 +348,63 @@ export default function CreateBlitzChallengePage() {
                 </p>
               </div>
 
+              {/* Teams */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                  Teams
+                </label>
+                <div className="grid grid-cols-3 sm:grid-cols-6 gap-3">
+                  <button
+                    type="button"
+                    onClick={() => setTeams([])}
+                    className={`px-3 py-3 rounded-lg font-semibold transition-colors flex items-center justify-center gap-1 ${
+                      teams.length === 0
+                        ? "bg-purple-600 text-white"
+                        : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                    }`}
+                  >
+                    <User size={18} /> Solo
+                  </button>
+                  {TEAM_COUNTS.map((count) => (
+                    <button
+                      key={count}
+                      type="button"
+                      onClick={() => setTeams(defaultTeams(count))}
+                      className={`px-3 py-3 rounded-lg font-semibold transition-colors flex items-center justify-center gap-1 ${
+                        teams.length === count
+                          ? "bg-purple-600 text-white"
+                          : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                      }`}
+                    >
+                      <Users size={18} /> {count}
+                    </button>
+                  ))}
+                </div>
+                {teams.length > 0 && (
+                  <div className="grid sm:grid-cols-2 gap-2 mt-3">
+                    {teams.map((team, i) => (
+                      <div key={team.color} className="flex items-center gap-2">
+                        <span className="w-4 h-4 rounded-full flex-shrink-0" style={{ backgroundColor: team.color }} />
+                        <input
+                          type="text"
+                          value={team.name}
+                          maxLength={30}
+                          onChange={(e) =>
+                            setTeams((prev) => prev.map((t, j) => (j === i ? { ...t, name: e.target.value } : t)))
+                          }
+                          className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                  {teams.length > 0
+                    ? "Players pick a team in the lobby; anyone left over is balanced in when you start. Team score is the sum of its players' points."
+                    : "Everyone plays for themselves."}
+                </p>
+              </div>
+
               {/* Action Buttons */}
               <div className="flex gap-3 pt-4">
                 <Link
@@ -0,0 +1,101 @@
+// Post-game report for the host of a Blitz Challenge: maps the session's
+// questions onto the report's answer categories, turns missed questions back
+// into cards for a practice deck, and writes the report as CSV.
+
+import type { AnswerCategory, GameReport, ReportQuestion } from "@/domain/blitz-report";
+import type { CreateCardBody, PlaySessionQuestion } from "@/types/api.types";
+import { csvCell } from "../../decks/lib/deckExport";
+import {
+  QUESTION_TYPES,
+  getEnglishAnswer,
+  getSpanishPrompt,
+  type QuestionType,
+} from "../../play/lib/quizUtils";
+
+const CSV_CATEGORY_LABELS: Record<AnswerCategory, string> = {
+  audio: "Audio",
+  speech: "Speech",
+  written: "Written",
+  mc: "Multiple choice",
+};
+
+export function answerCategory(questionType: QuestionType | null | undefined): AnswerCategory {
+  switch (questionType) {
+    case QUESTION_TYPES.SPANISH_AUDIO_TO_ENGLISH_TEXT:
+      return "audio";
+    case QUESTION_TYPES.ENGLISH_TEXT_TO_SPANISH_SPEECH:
+      return "speech";
+    case QUESTION_TYPES.ENGLISH_TEXT_TO_SPANISH_WRITTEN:
+      return "written";
+    default:
+      return "mc";
+  }
+}
+
+/**
+ * Report questions in game order. Types come from the host's copy of the
+ * seeded quiz; a player without a mic who got a speech question as text
+ * still counts under "speech".
+ */
+export function toReportQuestions(
+  questions: readonly PlaySessionQuestion[],
+  questionTypeOf: (questionId: string) => QuestionType | null | undefined,
+): ReportQuestion[] {
+  return questions.map((q) => ({
+    id: q.id,
+    position: q.position,
+    prompt: getSpanishPrompt(q),
+    answer: getEnglishAnswer(q),
+    category: answerCategory(questionTypeOf(q.id)),
+  }));
+}
+
+/** Session cards as new cards for a practice deck, alternatives and all */
+export function toPracticeCards(cards: readonly PlaySessionQuestion[]): CreateCardBody[] {
+  return cards.map((card) => ({
+    prompt_es: getSpanishPrompt(card),
+    translation_en: getEnglishAnswer(card),
+    distractor_1_es: card.distractor_1_es || undefined,
+    distractor_2_es: card.distractor_2_es || undefined,
+    distractor_3_es: card.distractor_3_es || undefined,
+    notes: card.notes || undefined,
+    accepted_es: card.accepted_es?.length ? card.accepted_es : undefined,
+    accepted_en: card.accepted_en?.length ? card.accepted_en : undefined,
+  }));
+}
+
+const percent = (part: number, total: number) => (total ? `${Math.round((part / total) * 100)}%` : "");
+
+/**
+ * Two tables in one file, separated by a blank row: questions (most missed
+ * first, with the wrong answers given) and players (accuracy per category).
+ */
+export function gameReportToCsv(report: GameReport): string {
+  const categories = Object.keys(CSV_CATEGORY_LABELS) as AnswerCategory[];
+  const questionRows = [
+    ["#", "Spanish", "English", "Type", "Answered", "Correct", "Missed", "Miss rate", "Wrong answers"],
+    ...report.questions.map((q) => [
+      String(q.position),
+      q.prompt,
+      q.answer,
+      CSV_CATEGORY_LABELS[q.category],
+      String(q.answered),
+      String(q.correct),
+      String(q.missed),
+      percent(q.missed, q.answered),
+      q.wrongAnswers.map((w) => (w.count > 1 ? `${w.text} (${w.count})` : w.text)).join(" / "),
+    ]),
+  ];
+  const playerRows = [
+    ["Player", "Answered", "Correct", "Accuracy", ...categories.map((c) => CSV_CATEGORY_LABELS[c])],
+    ...report.players.map((p) => [
+      p.name,
+      String(p.answered),
+      String(p.correct),
+      percent(p.correct, p.answered),
+      ...categories.map((c) => percent(p.byCategory[c].correct, p.byCategory[c].answered)),
+    ]),
+  ];
+  const lines = [...questionRows, [], ...playerRows].map((row) => row.map(csvCell).join(","));
+  return "\uFEFF" + lines.join("\r\n") + "\r\n";
+}
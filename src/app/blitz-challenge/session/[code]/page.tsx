@@ -4,33 +4,66 @@ import { Link, useParams, useNavigate } from "react-router-dom";
 import { motion, AnimatePresence } from "motion/react";
 import DashboardLayout from "@/shared/components/DashboardLayout";
 import useUser from "@/shared/hooks/useUser";
-import { Trophy, Crown, Medal, Zap, Users, Clock, ArrowLeft, Timer, Play, Mic } from "lucide-react";
-import { api, API_BASE_URL } from "@/config/api";
+import useBlitzRealtime from "@/shared/hooks/useBlitzRealtime";
+import useBlitzResume from "@/shared/hooks/useBlitzResume";
+import { Trophy, Crown, Medal, Zap, Users, Clock, ArrowLeft, Timer, Play, Mic, WifiOff } from "lucide-react";
+import { api } from "@/config/api";
+import type { AnswerKind, DbClassroom } from "@/types/api.types";
 import { withAuth } from "@/shared/hoc/withAuth";
 import TTSButton from "@/shared/components/TTSButton";
 import SpeechRecognition from "@/shared/components/SpeechRecognition";
 import BlitzMicModal from "@/shared/components/BlitzMicModal";
-import WrittenAnswer, { type WrittenResult, evaluateWrittenAnswer } from "@/shared/components/WrittenAnswer";
+import WrittenAnswer, { type WrittenResult, hasUsefulDiff } from "@/shared/components/WrittenAnswer";
+import AnswerDiff from "@/shared/components/AnswerDiff";
+import BlitzProjector from "@/shared/components/BlitzProjector";
+import StreakMeter from "@/shared/components/StreakMeter";
+import PointsBurst from "@/shared/components/PointsBurst";
+import ReconnectingOverlay from "@/shared/components/ReconnectingOverlay";
+import BlitzReport, { type AssignMissedWordsInput } from "@/shared/components/BlitzReport";
+import TeamPicker from "@/shared/components/TeamPicker";
+import TeamStandings from "@/shared/components/TeamStandings";
+import IntegrityFlags from "@/shared/components/IntegrityFlags";
+import useCountdown from "@/shared/hooks/useCountdown";
 import { useMicrophone } from "@/lib/microphone-context";
 import { useNavigationGuard } from "@/lib/navigation-guard-context";
 import {
   QUESTION_TYPES,
   getSpanishPrompt,
   getSpanishAnswer,
-  getEnglishAnswer,
-  buildOptions,
+  getSpanishAnswers,
+  isAcceptedOption,
   getQuestionPrompt as computeQuestionPrompt,
   getQuestionTypeLabel as computeQuestionTypeLabel,
-  normalizeSpanish,
   isSpeechQuestion,
   isAudioQuestion,
   isWrittenQuestion,
-  deriveQuestionTypeByPosition,
+  NotEnoughCardsError,
 } from "../../../play/lib/quizUtils";
+import { generateQuiz } from "../../../play/lib/quizGenerator";
+import { bestStreak, currentStreak, streakMultiplier } from "@/domain/blitz-scoring";
+import { buildGameReport, missedQuestions } from "@/domain/blitz-report";
+import { balanceTeams, teamRankByPlayer, teamStandings } from "@/domain/blitz-teams";
+import { CreateAssignmentUseCase } from "@/domain/use-cases/assignment";
+import { AssignmentRepository } from "@/infrastructure/repositories/AssignmentRepository";
+import { AuthService } from "@/infrastructure/services/AuthService";
+import { gameReportToCsv, toPracticeCards, toReportQuestions } from "../../lib/gameReport";
+import { downloadFile, exportFileName } from "../../../decks/lib/deckExport";
+
+/** What the player answered; the server grades it */
+type GameAnswer = {
+  answerText: string | null;
+  answerKind: AnswerKind;
+  responseTimeMs: number;
+  /** Times the tab was hidden or lost focus while the question was up */
+  focusLosses: number;
+};
+
+/** Points the server gave the last answer, for the "+N" animation */
+type AnswerAward = { key: string; points: number; multiplier: number };
 
 function GameView({
   question,
-  questions,
+  options,
   questionType,
   totalQuestions,
   score,
@@ -40,87 +73,102 @@ function GameView({
   userLocale,
   userId,
   micEnabled,
+  accentSensitive,
+  controlsOnly = false,
+  streak,
+  award,
+  shownAt,
+  verdict,
 }: {
   question: any;
-  questions: any[];
+  options: string[];
   questionType: string | null;
   totalQuestions: number;
   score: number;
   answeredCount: number;
-  onAnswer: (isCorrect: boolean, answerText?: string | null) => void;
+  onAnswer: (answer: GameAnswer) => void;
   isTeacher: boolean;
   userLocale: string;
   userId?: string;
   micEnabled: boolean;
+  accentSensitive: boolean;
+  /** Host-paced: the question is on the projector, so only show the answer controls */
+  controlsOnly?: boolean;
+  /** Correct answers in a row so far */
+  streak: number;
+  award: AnswerAward | null;
+  /** When this question first appeared (epoch ms); survives a reload */
+  shownAt: number;
+  /** The server's grading of the last answer; until it arrives the answer shows as pending */
+  verdict: { questionId: string; isCorrect: boolean } | null;
 }) {
   const [selectedOption, setSelectedOption] = useState<string | null>(null);
-  const [feedback, setFeedback] = useState<"correct" | "incorrect" | null>(null);
+  const [feedback, setFeedback] = useState<"pending" | "correct" | "incorrect" | null>(null);
+  const [writtenResult, setWrittenResult] = useState<WrittenResult | null>(null);
   const [currentOptions, setCurrentOptions] = useState<string[]>([]);
+  // Leaving the tab while the question is up is reported to the host
+  const focusLossesRef = useRef(0);
+  const answeredRef = useRef(false);
 
   useEffect(() => {
     setSelectedOption(null);
     setFeedback(null);
-    if (!isSpeechQuestion(questionType) && !isWrittenQuestion(questionType) && question && questionType) {
-      setCurrentOptions(
-        buildOptions({
-          question,
-          questions,
-          questionType,
-        }),
-      );
-    } else {
-      setCurrentOptions([]);
-    }
+    setCurrentOptions(options);
+    focusLossesRef.current = 0;
+    answeredRef.current = false;
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [question?.id, questionType]);
 
+  useEffect(() => {
+    // A tab switch fires both blur and visibilitychange; count it once
+    let away = false;
+    const leave = () => {
+      if (away || answeredRef.current) return;
+      away = true;
+      focusLossesRef.current += 1;
+    };
+    const back = () => {
+      away = false;
+    };
+    const handleVisibility = () => (document.hidden ? leave() : back());
+    window.addEventListener("blur", leave);
+    window.addEventListener("focus", back);
+    document.addEventListener("visibilitychange", handleVisibility);
+    return () => {
+      window.removeEventListener("blur", leave);
+      window.removeEventListener("focus", back);
+      document.removeEventListener("visibilitychange", handleVisibility);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (verdict && verdict.questionId === question?.id) setFeedback(verdict.isCorrect ? "correct" : "incorrect");
+  }, [verdict, question?.id]);
+
+  const submit = (answerText: string | null, answerKind: AnswerKind, responseTimeMs: number) => {
+    answeredRef.current = true;
+    setSelectedOption(answerText);
+    setFeedback("pending");
+    onAnswer({ answerText, answerKind, responseTimeMs, focusLosses: focusLossesRef.current });
+  };
+
   const handleSelectOption = (option: string) => {
     if (selectedOption) return;
-    setSelectedOption(option);
-
-    let correctAnswer;
-    switch (questionType) {
-      case QUESTION_TYPES.SPANISH_TEXT_TO_ENGLISH_TEXT:
-      case QUESTION_TYPES.SPANISH_AUDIO_TO_ENGLISH_TEXT:
-        correctAnswer = getEnglishAnswer(question);
-        break;
-      case QUESTION_TYPES.ENGLISH_TEXT_TO_SPANISH_TEXT:
-      case QUESTION_TYPES.ENGLISH_TEXT_TO_SPANISH_SPEECH:
-        correctAnswer = getSpanishAnswer(question);
-        break;
-    }
-
-    const isCorrect = option === correctAnswer;
-    setFeedback(isCorrect ? "correct" : "incorrect");
-    onAnswer(isCorrect, option);
+    submit(option, "option", elapsed());
   };
 
-  const handleSpeechAnswer = async (transcript: string, confidence?: number) => {
-    const target = getSpanishAnswer(question);
+  // Speed scoring: from the question first appearing, across reloads
+  const elapsed = () => Date.now() - shownAt;
 
-    try {
-      // Use lenient matching evaluation from backend
-      const result = await api.speech.evaluate(transcript, target, confidence);
-      const isCorrect = result.accepted;
-      setSelectedOption(transcript);
-      setFeedback(isCorrect ? "correct" : "incorrect");
-      onAnswer(isCorrect, transcript);
-    } catch (err) {
-      console.error("Error evaluating speech:", err);
-      // Fallback to simple comparison
-      const normalized = normalizeSpanish(transcript);
-      const correctAnswer = normalizeSpanish(target);
-      const isCorrect = normalized === correctAnswer;
-      setSelectedOption(transcript);
-      setFeedback(isCorrect ? "correct" : "incorrect");
-      onAnswer(isCorrect, transcript);
-    }
+  // The server grades the transcript, alternates included
+  const handleSpeechAnswer = (transcript: string) => {
+    submit(transcript, "speech", elapsed());
   };
 
   const handleWrittenAnswer = (result: WrittenResult) => {
-    setSelectedOption(result.userAnswer);
-    setFeedback(result.isCorrect ? "correct" : "incorrect");
-    onAnswer(result.isCorrect, result.userAnswer);
+    // Kept for the diff; correctness comes from the server
+    setWrittenResult(result);
+    submit(result.userAnswer, "text", elapsed());
   };
 
   const getQuestionPromptText = () => computeQuestionPrompt(question, questionType);
@@ -130,10 +178,12 @@ function GameView({
   return (
     <div className="space-y-4">
       <div className="bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg p-3 flex items-center justify-between flex-wrap sm:flex-nowrap gap-2">
-        <div className="text-center sm:text-left">
+        <div className="relative text-center sm:text-left pr-16">
           <p className="text-xs text-gray-500 dark:text-gray-400">Your score</p>
           <p className="text-xl font-semibold text-gray-900 dark:text-gray-100">{score}</p>
+          <PointsBurst burstKey={award?.key ?? null} points={award?.points ?? 0} multiplier={award?.multiplier} />
         </div>
+        <StreakMeter streak={streak} />
         <div className="text-center sm:text-right text-sm text-gray-600 dark:text-gray-300">
           Progress {answeredCount}/{totalQuestions}
         </div>
@@ -148,15 +198,21 @@ function GameView({
         exit={{ opacity: 0, y: -12, scale: 0.98 }}
         transition={{ duration: 0.3, ease: [0.4, 0, 0.2, 1] }}
         className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4 mb-4 shadow-sm">
-        <div className="block px-3 py-1 bg-purple-100 dark:bg-purple-900/40 text-purple-800 dark:text-purple-300 rounded-full text-xs font-medium mb-3 mx-auto text-center">
-          {getQuestionTypeLabelText()}
-        </div>
+        {controlsOnly ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4 text-center">Mira la pantalla del profesor y responde aquí</p>
+        ) : (
+          <>
+            <div className="block px-3 py-1 bg-purple-100 dark:bg-purple-900/40 text-purple-800 dark:text-purple-300 rounded-full text-xs font-medium mb-3 mx-auto text-center">
+              {getQuestionTypeLabelText()}
+            </div>
 
-        {getQuestionPromptText() && (
-          <h2 className="text-xl sm:text-2xl font-semibold text-gray-900 dark:text-gray-100 mb-4 text-center">{getQuestionPromptText()}</h2>
+            {getQuestionPromptText() && (
+              <h2 className="text-xl sm:text-2xl font-semibold text-gray-900 dark:text-gray-100 mb-4 text-center">{getQuestionPromptText()}</h2>
+            )}
+          </>
         )}
 
-        {isAudioQuestion(questionType) && (
+        {isAudioQuestion(questionType) && !controlsOnly && (
           <div className="mb-4 flex flex-col items-center">
             <TTSButton text={getSpanishAnswer(question)} locale={userLocale} />
             <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">Tap to hear the Spanish phrase and choose the meaning</p>
@@ -167,29 +223,20 @@ function GameView({
           <div className="space-y-3">
             {currentOptions.map((option, index) => {
               const isSelected = selectedOption === option;
-              let correctAnswer;
-              switch (questionType) {
-                case QUESTION_TYPES.SPANISH_TEXT_TO_ENGLISH_TEXT:
-                case QUESTION_TYPES.SPANISH_AUDIO_TO_ENGLISH_TEXT:
-                  correctAnswer = getEnglishAnswer(question);
-                  break;
-                case QUESTION_TYPES.ENGLISH_TEXT_TO_SPANISH_TEXT:
-                  correctAnswer = getSpanishAnswer(question);
-                  break;
-              }
-
-              const isCorrect = option === correctAnswer;
-              const showResult = selectedOption !== null;
+              const showResult = feedback === "correct" || feedback === "incorrect";
 
               let bgColor = "bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600 text-gray-900 dark:text-gray-100";
               let hoverEffect = showResult ? "" : "hover:bg-gray-100 dark:hover:bg-gray-600";
 
-              if (showResult && isSelected && isCorrect) {
+              // The chosen option takes the server's verdict; the right one is only revealed after it
+              if (isSelected && feedback === "correct") {
                 bgColor = "bg-green-100 dark:bg-green-900/40 border-green-500 text-green-900 dark:text-green-200";
-              } else if (showResult && isSelected && !isCorrect) {
+              } else if (isSelected && feedback === "incorrect") {
                 bgColor = "bg-red-100 dark:bg-red-900/40 border-red-500 text-red-900 dark:text-red-200";
-              } else if (showResult && isCorrect) {
+              } else if (showResult && isAcceptedOption(option, question, questionType)) {
                 bgColor = "bg-green-50 dark:bg-green-900/20 border-green-300 dark:border-green-700 text-green-900 dark:text-green-200";
+              } else if (isSelected) {
+                bgColor = "bg-blue-50 dark:bg-blue-900/30 border-blue-400 text-blue-900 dark:text-blue-200";
               }
 
               return (
@@ -226,22 +273,38 @@ function GameView({
           <div className="space-y-4 mt-4">
             <WrittenAnswer
               correctAnswer={getSpanishAnswer(question)}
+              alternates={getSpanishAnswers(question)}
               onResult={handleWrittenAnswer}
+              accentSensitive={accentSensitive}
             />
           </div>
         )}
 
-        {isWrittenQuestion(questionType) && selectedOption && (
+        {(isWrittenQuestion(questionType) || (micEnabled && isSpeechQuestion(questionType))) && feedback === "pending" && (
+          <div className="mt-4 p-3 rounded-lg bg-gray-50 dark:bg-gray-700 border-2 border-gray-200 dark:border-gray-600">
+            <p className="text-xs text-gray-600 dark:text-gray-400 mb-1">Checking your answer…</p>
+            <p className="font-medium text-gray-900 dark:text-gray-100">{selectedOption}</p>
+          </div>
+        )}
+
+        {isWrittenQuestion(questionType) && selectedOption && feedback !== "pending" && (
           <div className="space-y-3 mt-4">
             {feedback === "correct" ? (
               <div className="p-3 rounded-lg bg-green-100 dark:bg-green-900/40 border-2 border-green-500">
                 <p className="font-medium text-green-800 dark:text-green-300">✓ Correct!</p>
+                {writtenResult && hasUsefulDiff(writtenResult) && (
+                  <AnswerDiff diff={writtenResult.diff} hints={writtenResult.hints} className="mt-2" />
+                )}
               </div>
             ) : (
               <>
                 <div className="p-3 rounded-lg bg-red-100 dark:bg-red-900/40 border-2 border-red-500">
                   <p className="text-xs text-gray-600 dark:text-gray-400 mb-1">You typed:</p>
-                  <p className="font-medium text-gray-900 dark:text-gray-100">{selectedOption}</p>
+                  {writtenResult && hasUsefulDiff(writtenResult) ? (
+                    <AnswerDiff diff={writtenResult.diff} hints={writtenResult.hints} />
+                  ) : (
+                    <p className="font-medium text-gray-900 dark:text-gray-100">{selectedOption}</p>
+                  )}
                 </div>
                 <div className="p-3 bg-blue-50 dark:bg-blue-900/30 rounded-lg">
                   <p className="text-xs text-gray-600 dark:text-gray-400 mb-1">Correct answer:</p>
@@ -252,7 +315,7 @@ function GameView({
           </div>
         )}
 
-        {micEnabled && isSpeechQuestion(questionType) && selectedOption && (
+        {micEnabled && isSpeechQuestion(questionType) && selectedOption && feedback !== "pending" && (
           <div className="space-y-3 mt-4">
             {feedback === "correct" ? (
               <div className="p-3 rounded-lg bg-green-100 dark:bg-green-900/40 border-2 border-green-500">
@@ -285,14 +348,15 @@ function BlitzSessionPage() {
   const { micEnabled, resetMic } = useMicrophone();
   const [showMicGate, setShowMicGate] = useState(true);
   const [state, setState] = useState(null);
-  const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [timeLeft, setTimeLeft] = useState<number | null>(null);
-  const pollingRef = useRef<NodeJS.Timeout | null>(null);
-  const wsRef = useRef<WebSocket | null>(null);
-  const reconnectRef = useRef<number>(0);
   const [xpFinalized, setXpFinalized] = useState(false);
   const [showExitModal, setShowExitModal] = useState(false);
+  const [award, setAward] = useState<AnswerAward | null>(null);
+  const [verdict, setVerdict] = useState<{ questionId: string; isCorrect: boolean } | null>(null);
+  const [classrooms, setClassrooms] = useState<DbClassroom[] | null>(null);
+  const [pickingTeamId, setPickingTeamId] = useState<string | null>(null);
+  const [balancing, setBalancing] = useState(false);
   const navigate = useNavigate();
   const { setGuard } = useNavigationGuard();
   const pendingBackRef = useRef(false);
@@ -307,19 +371,35 @@ function BlitzSessionPage() {
   // Admin can always see ranking, or if you're the host
   const canSeeRanking = isAdmin || isHost;
 
-  // Derive question types consistently by position to ensure same experience for all players
-  // When mic is not enabled, fallback speech questions to a text-based type
-  const deriveQuestionType = (question) => {
-    const qt = deriveQuestionTypeByPosition(question);
-    if (!micEnabled && isSpeechQuestion(qt)) {
-      return QUESTION_TYPES.ENGLISH_TEXT_TO_SPANISH_TEXT;
+  // Seeded by the session so every player gets the same question types, distractors and option order.
+  // When mic is not enabled, speech questions fall back to a text-based type for this player only.
+  const questionIdsKey = (state?.questions ?? []).map((q) => q.id).join(",");
+  const quiz = useMemo(() => {
+    if (!sessionId || !state?.questions?.length) return { byId: new Map(), error: null };
+    try {
+      const questions = generateQuiz(state.questions, {
+        seed: sessionId,
+        // The projector shows the questions as written, whatever the teacher's own mic
+        substitutions: micEnabled || isTeacherHost
+          ? {}
+          : { [QUESTION_TYPES.ENGLISH_TEXT_TO_SPANISH_SPEECH]: QUESTION_TYPES.ENGLISH_TEXT_TO_SPANISH_TEXT },
+      });
+      return { byId: new Map(questions.map((q) => [q.card.id, q])), error: null };
+    } catch (err) {
+      if (!(err instanceof NotEnoughCardsError)) throw err;
+      return { byId: new Map(), error: err.message };
     }
-    return qt;
-  };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sessionId, questionIdsKey, micEnabled, isTeacherHost]);
 
   const currentAnswers = state?.currentPlayerAnswers ?? [];
+  const myStreak = me?.streak ?? currentStreak(currentAnswers);
+  const hostPaced = state?.session?.pacing === 'host';
+  const currentPosition = state?.session?.current_position ?? null;
   const currentQuestion = useMemo(() => {
     if (!state?.questions) return null;
+    // Host-paced: everyone is on the question the host has put up
+    if (hostPaced) return state.questions.find((q) => q.position === currentPosition) ?? null;
     const answeredIds = new Set(currentAnswers.map((a) => a.question_id));
     return state.questions.find((q) => !answeredIds.has(q.id)) ?? null;
   }, [state, currentAnswers]);
@@ -346,40 +426,41 @@ function BlitzSessionPage() {
     return `${m}:${s.toString().padStart(2, "0")}`;
   };
 
-  async function joinSession() {
-    setLoading(true);
-    setError(null);
-    try {
-      const data = await api.playSessions.join(code, user?.display_name || user?.email || "Guest");
-      setState(data);
-    } catch (e) {
-      setError(e instanceof Error ? e.message : "Failed to join session");
-    } finally {
-      setLoading(false);
-    }
-  }
-
-  async function fetchState() {
-    if (!sessionId) return;
-    try {
-      const data = await api.playSessions.getState(sessionId);
-      setState(data);
-    } catch (e) {
-      /* ignore polling error */
-    }
-  }
+  // Joins on load and rejoins after a reload or a dropped connection, resending an answer in flight
+  const resume = useBlitzResume({
+    code,
+    displayName: user?.display_name || user?.email || "Guest",
+    enabled: !!user,
+    setState,
+    onError: setError,
+    onAnswerSent: () => {
+      // While live, the answer comes back as an event
+      if (connection !== 'live') refresh();
+    },
+  });
+  const { loading } = resume;
+
+  const { connection, refresh } = useBlitzRealtime({
+    sessionId,
+    setState,
+    initialSeq: state?.seq,
+    selfPlayerId: me?.id,
+    onEvent: (event) => {
+      if (event.type === 'answer:submitted' && event.playerId === me?.id) {
+        applyVerdict(event.questionId, event.isCorrect, event.points ?? 0);
+      }
+      if (event.type === 'player:kicked' && event.playerId === me?.id) {
+        resume.forget();
+        setError('El organizador te ha expulsado de la sesión');
+      }
+    },
+  });
 
   // Auth handled by withAuth HOC
 
   useEffect(() => {
-    if (user && code) {
-      joinSession();
-    }
-    return () => {
-      if (pollingRef.current) clearInterval(pollingRef.current);
-    };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user, code]);
+    if (me?.id) resume.rememberPlayer(me.id);
+  }, [me?.id, resume.rememberPlayer]);
 
   // Timer countdown effect - updates every second and ends game when time runs out
   useEffect(() => {
@@ -394,7 +475,7 @@ function BlitzSessionPage() {
         clearInterval(timerInterval);
         setTimeLeft(0);
         // Force refresh to get final state
-        fetchState();
+        refresh();
       } else {
         setTimeLeft(newTimeLeft);
       }
@@ -403,67 +484,46 @@ function BlitzSessionPage() {
     return () => clearInterval(timerInterval);
   }, [state?.session?.status, state?.session?.ends_at]);
 
-  useEffect(() => {
-    if (sessionId) {
-      if (pollingRef.current) clearInterval(pollingRef.current);
-      pollingRef.current = setInterval(fetchState, 5000);
-      fetchState();
-
-      // setup websocket for real-time refresh signals
-      // Use API_BASE_URL to connect to the backend WebSocket server
-      const wsUrl = import.meta.env.VITE_WS_URL || API_BASE_URL.replace(/^https?/, (match) => match === 'https' ? 'wss' : 'ws');
-
-      const connect = () => {
-        const ws = new WebSocket(wsUrl);
-        wsRef.current = ws;
-
-        ws.onopen = () => {
-          reconnectRef.current = 0;
-          ws.send(JSON.stringify({ type: 'subscribe', sessionId }));
-        };
-
-        ws.onmessage = (event) => {
-          try {
-            const msg = JSON.parse(event.data);
-            if (msg?.type === 'session:refresh' && msg.sessionId === sessionId) {
-              fetchState();
-            }
-          } catch (e) {
-            /* ignore */
-          }
-        };
-
-        ws.onclose = () => {
-          const timeout = Math.min(8000, 1000 * 2 ** reconnectRef.current);
-          reconnectRef.current += 1;
-          setTimeout(connect, timeout);
-        };
-
-        ws.onerror = () => {
-          ws.close();
-        };
-      };
-
-      connect();
-    }
-    return () => {
-      if (pollingRef.current) clearInterval(pollingRef.current);
-      if (wsRef.current) wsRef.current.close();
-    };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [sessionId]);
+  // Verdict and "+N" for our own answer, from the submit response or, for a resent answer, its event
+  const gradedIdRef = useRef<string | null>(null);
+  const applyVerdict = (questionId: string, isCorrect: boolean, points: number, streak?: number | null) => {
+    if (gradedIdRef.current === questionId) return;
+    gradedIdRef.current = questionId;
+    setVerdict({ questionId, isCorrect });
+    const newStreak = streak ?? (isCorrect ? myStreak + 1 : 0);
+    setAward({ key: questionId, points, multiplier: isCorrect ? streakMultiplier(newStreak) : 1 });
+  };
 
-  const handleAnswer = async (isCorrect: boolean, answerText: string | null = null) => {
+  const handleAnswer = async ({ answerText, answerKind, responseTimeMs, focusLosses }: GameAnswer) => {
     if (!sessionId || !currentQuestion) return;
+    const questionId = currentQuestion.id;
     try {
-      await api.playSessions.answer(sessionId, currentQuestion.id, isCorrect, answerText);
-      fetchState();
+      // Only the raw answer: the server grades it, scores it and flags it.
+      // A dropped connection keeps the answer and resends it after rejoining
+      const graded = await resume.submitAnswer(sessionId, {
+        questionId,
+        answerText,
+        answerKind,
+        questionType: quiz.byId.get(questionId)?.questionType ?? null,
+        nonce: currentQuestion.nonce ?? null,
+        responseTimeMs: Math.max(0, Math.round(responseTimeMs)),
+        focusLosses,
+      });
+      // Queued for a resend: the answer stays pending until its verdict arrives
+      if (!graded) return;
+      applyVerdict(questionId, graded.isCorrect, graded.points, graded.streak);
     } catch (e) {
       setError(e instanceof Error ? e.message : "Failed to answer");
     }
   };
 
-  const allAnswered = !currentQuestion && currentAnswers.length > 0;
+  // Host-paced players wait for the host, who ends the session after the last question
+  const allAnswered = !hostPaced && !currentQuestion && currentAnswers.length > 0;
+  const currentAnswer = hostPaced && currentQuestion
+    ? currentAnswers.find((a) => a.question_id === currentQuestion.id) ?? null
+    : null;
+  const questionSecondsLeft = useCountdown(hostPaced ? state?.session?.question_ends_at : null);
+  const [advancing, setAdvancing] = useState(false);
   const status = state?.session?.status;
 
   const isSessionActive = status === 'active' && !allAnswered;
@@ -501,14 +561,20 @@ function BlitzSessionPage() {
     };
   }, [isSessionActive]);
 
+  // Nothing left to resume once the game is over
+  useEffect(() => {
+    if (status === 'completed' || status === 'finished') resume.forget();
+  }, [status, resume.forget]);
+
   const handleConfirmExit = useCallback(() => {
+    resume.forget();
     if (pendingBackRef.current) {
       pendingBackRef.current = false;
       window.history.go(-2);
     } else {
       navigate('/blitz-challenge');
     }
-  }, [navigate]);
+  }, [navigate, resume.forget]);
 
   // Auto-finalize XP when game completes
   useEffect(() => {
@@ -530,23 +596,152 @@ function BlitzSessionPage() {
     })
     .sort((a, b) => b.score - a.score);
 
+  // Team mode: standings sum the member scores
+  const teams = state?.teams ?? [];
+  const teamMode = teams.length > 0;
+  const standings = useMemo(
+    () => teamStandings(teams, playerProgress),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [state?.teams, state?.players],
+  );
+  const myStanding = standings.find((s) => s.team.id === me?.team_id) ?? null;
+
+  // Post-game report: the host gets every player's answers with the state
+  const canAssign = user?.role === 'teacher' || user?.role === 'admin';
+  const report = useMemo(() => {
+    if (status !== 'completed' || !isHost || !state?.questionAnswers) return null;
+    return buildGameReport({
+      questions: toReportQuestions(state.questions ?? [], (id) => quiz.byId.get(id)?.questionType),
+      players: playerProgress.map((p) => ({ id: p.id, name: p.display_name || p.email?.split('@')[0] || 'Jugador' })),
+      answers: state.questionAnswers,
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status, isHost, state, quiz]);
+
+  useEffect(() => {
+    if (!report || !canAssign || classrooms) return;
+    api.classrooms
+      .list()
+      .then(setClassrooms)
+      .catch((e) => {
+        console.error('Error loading classrooms:', e);
+        setClassrooms([]);
+      });
+  }, [report, canAssign, classrooms]);
+
+  const downloadReport = () => {
+    if (!report) return;
+    const title = `${state?.session?.deck_title || 'blitz'} informe ${state?.session?.code ?? ''}`;
+    downloadFile(exportFileName({ title }, 'csv'), gameReportToCsv(report), 'text/csv;charset=utf-8');
+  };
+
+  // Practice deck with the missed cards, assigned through the classroom use case
+  const assignMissedWords = async ({ classroomId, onlyMissedBy, dueDate }: AssignMissedWordsInput) => {
+    if (!report) throw new Error('El informe aún no está listo');
+    const missed = missedQuestions(report);
+    const missedIds = new Set(missed.map((q) => q.id));
+    let studentIds: string[] | undefined;
+    if (onlyMissedBy) {
+      const missedBy = new Set(missed.flatMap((q) => q.missedBy));
+      const userIds = new Set(playerProgress.filter((p) => missedBy.has(p.id)).map((p) => p.user_id));
+      const students = await api.classrooms.students(classroomId);
+      studentIds = students.filter((s) => userIds.has(s.id)).map((s) => s.id);
+      if (studentIds.length === 0) {
+        throw new Error('Ninguno de los alumnos que fallaron está en esta clase');
+      }
+    }
+
+    const deckTitle = state?.session?.deck_title || 'Blitz Challenge';
+    const deck = await api.decks.create({
+      title: `Repaso: ${deckTitle}`,
+      description: `Palabras falladas en el Blitz Challenge ${state?.session?.code ?? ''}`.trim(),
+      accent_sensitive: !!state?.session?.accent_sensitive,
+    });
+    try {
+      const missedCards = (state?.questions ?? []).filter((q) => missedIds.has(q.id));
+      await api.cards.bulkCreate(deck.id, toPracticeCards(missedCards));
+
+      const createAssignment = new CreateAssignmentUseCase(new AssignmentRepository(), new AuthService());
+      await createAssignment.execute({
+        classroomId,
+        deckId: deck.id,
+        title: `Repaso: ${deckTitle}`,
+        description: `Practica las ${missed.length} palabras falladas en el Blitz Challenge`,
+        dueDate,
+        studentIds,
+      });
+    } catch (e) {
+      // No half-built deck left behind, so a retry doesn't leave duplicates
+      await api.decks.delete(deck.id).catch((cleanupError) => {
+        console.error('Error deleting practice deck:', cleanupError);
+      });
+      throw e;
+    }
+  };
+
+  const pickTeam = async (teamId: string) => {
+    if (!sessionId || pickingTeamId) return;
+    setPickingTeamId(teamId);
+    try {
+      await api.playSessions.setTeam(sessionId, teamId);
+      if (connection !== 'live') refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'No se pudo cambiar de equipo');
+    } finally {
+      setPickingTeamId(null);
+    }
+  };
+
+  // Everyone without a team gets one and team sizes end up within one of each other
+  const balance = async () => {
+    const assignments = balanceTeams(playerProgress, teams.map((t) => t.id));
+    if (!sessionId || assignments.length === 0) return;
+    await api.playSessions.assignTeams(sessionId, assignments);
+    if (connection !== 'live') refresh();
+  };
+
+  const balanceTeamsNow = async () => {
+    setBalancing(true);
+    try {
+      await balance();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'No se pudieron equilibrar los equipos');
+    } finally {
+      setBalancing(false);
+    }
+  };
+
   const startSession = async () => {
     if (!sessionId) return;
     try {
+      if (teamMode) await balance();
       await api.playSessions.start(sessionId);
-      fetchState();
+      refresh();
     } catch (e) {
       setError(e instanceof Error ? e.message : 'No se pudo iniciar la sesión');
     }
   };
 
+  const advanceQuestion = async () => {
+    if (!sessionId || advancing) return;
+    setAdvancing(true);
+    try {
+      await api.playSessions.advance(sessionId, (currentPosition ?? 0) + 1);
+      if (connection !== 'live') refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'No se pudo pasar a la siguiente pregunta');
+    } finally {
+      setAdvancing(false);
+    }
+  };
+
   const kickPlayer = async (playerId: string, playerName: string) => {
     if (!sessionId) return;
     if (!confirm(`¿Expulsar a ${playerName} de la sesión?`)) return;
 
     try {
       await api.playSessions.kickPlayer(sessionId, playerId);
-      fetchState();
+      refresh();
     } catch (e) {
       setError(e instanceof Error ? e.message : 'No se pudo expulsar al jugador');
     }
@@ -558,10 +753,12 @@ function BlitzSessionPage() {
     
     try {
       // Prepare results for XP calculation
+      const teamRanks = teamMode ? teamRankByPlayer(standings) : null;
       const results = playerProgress.map((p, idx) => ({
         userId: p.user_id,
         rank: idx + 1,
         participated: p.answered > 0,
+        ...(teamRanks?.has(p.id) && { teamRank: teamRanks.get(p.id) }),
       }));
 
       await api.xp.finalizeBlitzChallenge(sessionId, results);
@@ -573,7 +770,7 @@ function BlitzSessionPage() {
       await refetchUser();
       
       // Fetch state again to get updated XP values
-      await fetchState();
+      await refresh();
     } catch (e) {
       console.error('Error finalizing XP:', e);
       // Don't show error to user, XP is not critical for game completion
@@ -617,6 +814,14 @@ function BlitzSessionPage() {
               <div className="px-3 py-1 rounded-full text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 capitalize">
                 {status === 'pending' ? 'Esperando' : status === 'active' ? 'En curso' : 'Finalizado'}
               </div>
+              {connection === 'polling' && status !== 'completed' && status !== 'finished' && (
+                <div
+                  className="flex items-center gap-1 px-3 py-1 rounded-full text-sm bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300"
+                  title="Sin conexión en tiempo real; actualizando cada 5 segundos"
+                >
+                  <WifiOff size={14} /> Reconectando…
+                </div>
+              )}
             </div>
           </div>
 
@@ -630,11 +835,13 @@ function BlitzSessionPage() {
               </div>
               <div className="bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg p-3">
                 <p className="font-semibold text-gray-800 dark:text-gray-200">Puntuación</p>
-                <p className="text-gray-600 dark:text-gray-400 mt-1">Correcta +2 · Incorrecta -1. Preguntas tipo Solo Blitz.</p>
+                <p className="text-gray-600 dark:text-gray-400 mt-1">Correcta 50–100 pts según rapidez, hasta x1.5 con racha · Incorrecta 0 y corta la racha. Preguntas tipo Solo Blitz.</p>
               </div>
               <div className="bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg p-3">
                 <p className="font-semibold text-gray-800 dark:text-gray-200">Final del juego</p>
-                <p className="text-gray-600 dark:text-gray-400 mt-1">Termina cuando todos acaben o se agote el tiempo.</p>
+                <p className="text-gray-600 dark:text-gray-400 mt-1">
+                  {hostPaced ? 'Termina cuando pases la última pregunta.' : 'Termina cuando todos acaben o se agote el tiempo.'}
+                </p>
               </div>
             </div>
           )}
@@ -673,6 +880,13 @@ function BlitzSessionPage() {
                 </p>
               </div>
 
+              {teamMode && (
+                <div className="mt-8 px-2">
+                  <h3 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-6">🏁 Equipos</h3>
+                  <TeamStandings standings={standings} myTeamId={me?.team_id} variant="podium" />
+                </div>
+              )}
+
               {/* Top 3 Podium - Responsive */}
               <div className="mt-8 md:mt-12 mb-6 md:mb-8 px-2">
                 <div className="flex items-end justify-center gap-2 sm:gap-4 md:gap-6 max-w-4xl mx-auto">
@@ -745,6 +959,42 @@ function BlitzSessionPage() {
                 );
               })()}
 
+              {/* Streak and points per question for Current User */}
+              {me && !isTeacherHost && currentAnswers.length > 0 && (() => {
+                const timed = currentAnswers.filter((a) => typeof a.response_time_ms === 'number');
+                const avgMs = timed.length
+                  ? timed.reduce((sum, a) => sum + a.response_time_ms, 0) / timed.length
+                  : null;
+                return (
+                  <div className="max-w-md mx-auto mb-8 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl p-5 space-y-4">
+                    <h3 className="text-lg font-bold text-gray-900 dark:text-gray-100">Tu partida</h3>
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <StreakMeter streak={me.best_streak ?? bestStreak(currentAnswers)} label="Mejor racha" />
+                      {avgMs !== null && (
+                        <span className="text-sm text-gray-600 dark:text-gray-300">
+                          Media {(avgMs / 1000).toFixed(1)} s
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-1.5">
+                      {currentAnswers.map((a, i) => (
+                        <span
+                          key={a.question_id}
+                          title={`Pregunta ${i + 1}`}
+                          className={`px-2 py-0.5 rounded text-xs font-semibold tabular-nums ${
+                            a.is_correct
+                              ? "bg-green-100 dark:bg-green-900/40 text-green-700 dark:text-green-300"
+                              : "bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300"
+                          }`}
+                        >
+                          {typeof a.points === 'number' ? (a.points >= 0 ? `+${a.points}` : a.points) : a.is_correct ? "✓" : "✗"}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })()}
+
               {/* Full Ranking Table - Responsive */}
               <div className="w-full max-w-5xl mx-auto mt-12 px-4">
                 <h3 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-4">📊 Ranking Completo</h3>
@@ -864,6 +1114,17 @@ function BlitzSessionPage() {
                 </div>
               </div>
 
+              {report && (
+                <div className="w-full max-w-5xl mx-auto mt-12 px-4">
+                  <IntegrityFlags players={playerProgress} answers={state?.questionAnswers ?? []} className="mb-6" />
+                  <BlitzReport
+                    report={report}
+                    onDownloadCsv={downloadReport}
+                    assign={canAssign ? { classrooms, onAssign: assignMissedWords } : undefined}
+                  />
+                </div>
+              )}
+
               {/* Action Button */}
               <div className="mt-8">
                 <Link
@@ -908,6 +1169,20 @@ function BlitzSessionPage() {
                       </div>
                     </div>
 
+                    {teamMode && (
+                      <div className="max-w-3xl mx-auto">
+                        <TeamPicker
+                          teams={teams}
+                          players={playerProgress}
+                          myPlayerId={isTeacherHost ? null : me?.id}
+                          onPick={pickTeam}
+                          pickingTeamId={pickingTeamId}
+                          onBalance={isHost ? balanceTeamsNow : undefined}
+                          balancing={balancing}
+                        />
+                      </div>
+                    )}
+
                     {/* Players List */}
                     <div className="max-w-3xl mx-auto">
                       <div className="bg-white dark:bg-gray-800 border-2 border-gray-200 dark:border-gray-700 rounded-lg p-4 sm:p-6">
@@ -1034,6 +1309,16 @@ function BlitzSessionPage() {
                         </p>
                       </div>
                     </div>
+
+                    {teamMode && (
+                      <TeamPicker
+                        teams={teams}
+                        players={playerProgress}
+                        myPlayerId={me?.id}
+                        onPick={pickTeam}
+                        pickingTeamId={pickingTeamId}
+                      />
+                    )}
                   </div>
                 )
               ) : allAnswered && status === 'active' ? (
@@ -1129,7 +1414,8 @@ function BlitzSessionPage() {
                     </p>
                   </div>
                 </div>
-              ) : isTeacherHost ? (
+              ) : isTeacherHost && !hostPaced ? (
+                /* Self-paced teacher: watches progress; host-paced teachers get the projector below */
                 <div className="space-y-6 py-8">
                   <div className="bg-blue-50 dark:bg-blue-900/30 border-2 border-blue-200 dark:border-blue-800 text-blue-800 dark:text-blue-300 rounded-lg p-6 text-center">
                     <h3 className="text-lg font-semibold mb-2">👨‍🏫 Modo Profesor</h3>
@@ -1153,20 +1439,107 @@ function BlitzSessionPage() {
                     ))}
                   </div>
                 </div>
-              ) : currentQuestion ? (
-                <GameView
-                  question={currentQuestion}
-                  questions={state?.questions || []}
-                  questionType={deriveQuestionType(currentQuestion)}
-                  totalQuestions={totalQuestions}
-                  score={me?.score ?? 0}
-                  answeredCount={me?.answered_count ?? 0}
-                  onAnswer={handleAnswer}
-                  isTeacher={isTeacherHost}
-                  userLocale={user?.preferred_locale || "es-ES"}
-                  userId={user?.id}
-                  micEnabled={micEnabled}
-                />
+              ) : quiz.error ? (
+                <div className="text-center py-12 text-gray-600 dark:text-gray-400">
+                  <p className="text-lg">{quiz.error}</p>
+                </div>
+              ) : hostPaced && isTeacherHost ? (
+                currentQuestion && quiz.byId.has(currentQuestion.id) ? (
+                  (() => {
+                    const { options, questionType } = quiz.byId.get(currentQuestion.id);
+                    const typedAnswer = isSpeechQuestion(questionType) || isWrittenQuestion(questionType);
+                    return (
+                      <BlitzProjector
+                        key={currentQuestion.id}
+                        position={currentQuestion.position}
+                        totalQuestions={totalQuestions}
+                        typeLabel={computeQuestionTypeLabel(questionType)}
+                        prompt={computeQuestionPrompt(currentQuestion, questionType)}
+                        audioText={isAudioQuestion(questionType) ? getSpanishAnswer(currentQuestion) : null}
+                        locale={user?.preferred_locale || "es-ES"}
+                        options={typedAnswer ? [] : options.map((text) => ({ text, correct: isAcceptedOption(text, currentQuestion, questionType) }))}
+                        correctAnswer={getSpanishAnswer(currentQuestion)}
+                        answers={(state?.questionAnswers ?? []).filter((a) => a.question_id === currentQuestion.id)}
+                        playerCount={playerProgress.length}
+                        endsAt={state?.session?.question_ends_at ?? null}
+                        onAdvance={advanceQuestion}
+                        advancing={advancing}
+                      />
+                    );
+                  })()
+                ) : (
+                  <div className="text-center py-12 space-y-6">
+                    <p className="text-xl text-gray-700 dark:text-gray-300">
+                      {playerProgress.length} jugadores listos. Cuando quieras, muestra la primera pregunta.
+                    </p>
+                    <button
+                      onClick={advanceQuestion}
+                      disabled={advancing}
+                      className="inline-flex items-center gap-2 bg-purple-600 text-white px-8 py-4 rounded-lg hover:bg-purple-700 disabled:opacity-60 text-xl font-semibold shadow-lg"
+                    >
+                      <Play size={24} /> Mostrar primera pregunta
+                    </button>
+                  </div>
+                )
+              ) : hostPaced && (!currentQuestion || currentAnswer || questionSecondsLeft === 0) ? (
+                /* Host-paced player between questions */
+                <div className="text-center py-16 space-y-4">
+                  {currentAnswer ? (
+                    currentAnswer.is_correct ? (
+                      <p className="text-3xl font-bold text-green-600 dark:text-green-400">✓ ¡Correcto!</p>
+                    ) : (
+                      <p className="text-3xl font-bold text-red-600 dark:text-red-400">✗ Incorrecto</p>
+                    )
+                  ) : currentQuestion ? (
+                    <p className="text-3xl font-bold text-amber-600 dark:text-amber-400">⏱ ¡Se acabó el tiempo!</p>
+                  ) : null}
+                  <p className="text-lg text-gray-600 dark:text-gray-400">
+                    {currentQuestion
+                      ? "Esperando a que el profesor pase a la siguiente pregunta..."
+                      : "Esperando a que el profesor muestre la primera pregunta..."}
+                  </p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">Tu puntuación: {me?.score ?? 0}</p>
+                </div>
+              ) : currentQuestion && quiz.byId.has(currentQuestion.id) ? (
+                <>
+                  {hostPaced && questionSecondsLeft !== null && (
+                    <div className={`flex items-center justify-center gap-2 mb-3 text-2xl font-bold tabular-nums ${
+                      questionSecondsLeft <= 5 ? "text-red-600 dark:text-red-400" : "text-gray-800 dark:text-gray-200"
+                    }`}>
+                      <Timer size={22} /> {questionSecondsLeft}
+                    </div>
+                  )}
+                  {myStanding && (
+                    <div className="flex items-center justify-center gap-2 mb-3 text-sm text-gray-700 dark:text-gray-300">
+                      <span className="w-3 h-3 rounded-full" style={{ backgroundColor: myStanding.team.color }} />
+                      <span>
+                        Equipo <strong>{myStanding.team.name}</strong> · {myStanding.score} pts · #{myStanding.rank} de {standings.length}
+                      </span>
+                    </div>
+                  )}
+                  <GameView
+                    question={currentQuestion}
+                    options={quiz.byId.get(currentQuestion.id).options}
+                    questionType={quiz.byId.get(currentQuestion.id).questionType}
+                    totalQuestions={totalQuestions}
+                    score={me?.score ?? 0}
+                    answeredCount={me?.answered_count ?? 0}
+                    onAnswer={handleAnswer}
+                    isTeacher={isTeacherHost}
+                    userLocale={user?.preferred_locale || "es-ES"}
+                    userId={user?.id}
+                    micEnabled={micEnabled}
+                    accentSensitive={!!state?.session?.accent_sensitive}
+                    controlsOnly={hostPaced}
+                    streak={myStreak}
+                    award={award}
+                    shownAt={resume.shownAt(currentQuestion.id)}
+                    verdict={
+                      verdict ??
+                      (currentAnswer ? { questionId: currentAnswer.question_id, isCorrect: !!currentAnswer.is_correct } : null)
+                    }
+                  />
+                </>
               ) : (
                 <div className="text-center py-12 text-gray-600 dark:text-gray-400">
                   <p className="text-lg">Cargando preguntas...</p>
@@ -1187,6 +1560,8 @@ function BlitzSessionPage() {
                   </div>
                 </div>
 
+                {teamMode && <TeamStandings standings={standings} className="mb-4" />}
+
                 <div className="space-y-2">
                   {playerProgress.map((p, idx) => {
                     const medal = idx === 0 ? '🥇' : idx === 1 ? '🥈' : idx === 2 ? '🥉' : '';
@@ -1239,6 +1614,11 @@ function BlitzSessionPage() {
                     );
                   })}
                 </div>
+
+                {/* Not on the projector: the class can see it */}
+                {!hostPaced && state?.questionAnswers && (
+                  <IntegrityFlags players={playerProgress} answers={state.questionAnswers} className="mt-4" />
+                )}
               </div>
             )}
           </div>
@@ -1246,6 +1626,8 @@ function BlitzSessionPage() {
       </div>
 
       {/* Exit Confirmation Modal */}
+      {resume.reconnecting && <ReconnectingOverlay pendingAnswer={resume.hasPendingAnswer} />}
+
       <AnimatePresence>
         {showExitModal && (
           <motion.div
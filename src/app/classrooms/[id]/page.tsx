@@ -4,36 +4,13 @@ import DashboardLayout from "@/shared/components/DashboardLayout";
 import useUser from "../../../shared/hooks/useUser";
 import { ArrowLeft, BookOpen, Calendar, Clock, CheckCircle, Loader2, ArrowRight } from "lucide-react";
 import { api } from "../../../config/api";
-
-interface Assignment {
-  id: string;
-  title: string;
-  description: string | null;
-  deck_id: string | null;
-  deck_title: string | null;
-  due_date: string | null;
-  completed: boolean;
-  completed_at: string | null;
-  required_repetitions: number;
-  repetitions_completed: number;
-  xp_goal?: number | null;
-  xp_reward?: number | null;
-  xp_progress?: number;
-}
-
-interface Classroom {
-  id: string;
-  name: string;
-  description: string | null;
-  code: string;
-  teacher_name: string | null;
-}
+import type { DbAssignment, DbClassroom } from "@/types/api.types";
 
 export default function StudentClassroomPage() {
   const { id } = useParams();
   const { user, loading: userLoading } = useUser();
-  const [classroom, setClassroom] = useState<Classroom | null>(null);
-  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [classroom, setClassroom] = useState<DbClassroom | null>(null);
+  const [assignments, setAssignments] = useState<DbAssignment[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
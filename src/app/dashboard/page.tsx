@@ -5,12 +5,14 @@ import WelcomeModal from "@/shared/components/WelcomeModal";
 import FelicitacionesPopup from "@/shared/components/FelicitacionesPopup";
 import {
   BookOpen, Search, Plus, Swords, Gamepad2,
-  Clock, CheckCircle, ChevronRight,
+  Clock, CheckCircle, ChevronRight, History,
 } from "lucide-react";
 import useUser from "@/shared/hooks/useUser";
+import useAchievements from "@/shared/hooks/useAchievements";
 import type { DbDeck } from "@/types/api.types";
-import { api } from "@/config/api";
+import { useApi, isAbortError } from "@/hooks/useApi";
 import { withAuth } from "@/shared/hoc/withAuth";
+import { MISTAKE_REVIEW_DEFAULTS, buildMistakePool } from "@/domain/mistake-review";
 
 /* ─── Brand colors ─── */
 const DARK_BLUE = "#084178";
@@ -140,8 +142,10 @@ function PendingTasksPanel({ assignments, loading }: { assignments: Assignment[]
    ═══════════════════════════════════════════════════════ */
 function DashboardPage() {
   const navigate = useNavigate();
+  const api = useApi();
   const location = useLocation();
   const { data: user } = useUser();
+  const { celebrate, dismissCelebration } = useAchievements({ unlock: true });
   const [decks, setDecks] = useState<DbDeck[]>([]);
   const [stats, setStats] = useState({
     cardsStudied: 0, accuracy: 0, streak: 0, streakName: '',
@@ -154,6 +158,7 @@ function DashboardPage() {
   const [showWelcome, setShowWelcome] = useState(false);
   const [assignments, setAssignments] = useState<Assignment[]>([]);
   const [assignmentsLoading, setAssignmentsLoading] = useState(true);
+  const [mistakeCount, setMistakeCount] = useState(0);
 
   // Auth is handled by withAuth HOC
 
@@ -176,6 +181,7 @@ function DashboardPage() {
   useEffect(() => {
     if (!user) return;
     fetchAssignments();
+    fetchMistakeCount();
   }, [user]);
 
   const handleDismissWelcome = async () => {
@@ -202,7 +208,7 @@ function DashboardPage() {
       setDecks(decksData);
       setStats(statsData);
     } catch (error) {
-      console.error("Error fetching data:", error);
+      if (!isAbortError(error)) console.error("Error fetching data:", error);
     } finally {
       setLoading(false);
     }
@@ -232,6 +238,17 @@ function DashboardPage() {
     }
   };
 
+  // Cards missed recently that "Review my mistakes" would bring back
+  const fetchMistakeCount = async () => {
+    try {
+      const since = new Date(Date.now() - MISTAKE_REVIEW_DEFAULTS.LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+      const events = await api.studyEvents.list({ since: since.toISOString() });
+      setMistakeCount(buildMistakePool(events).length);
+    } catch (error) {
+      if (!isAbortError(error)) console.error("Error fetching study history:", error);
+    }
+  };
+
   /* ─── Loading state ─── */
   if (loading) {
     return (
@@ -250,7 +267,7 @@ function DashboardPage() {
       )}
 
       {/* Felicitaciones popup — shown when student has unviewed teacher recognitions */}
-      <FelicitacionesPopup />
+      <FelicitacionesPopup badges={celebrate} onBadgesSeen={dismissCelebration} />
 
       <div className="flex flex-col xl:flex-row gap-6">
         {/* ═══ CENTER COLUMN ═══ */}
@@ -357,7 +374,7 @@ function DashboardPage() {
           )}
 
           {/* Quick Actions */}
-          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className={`grid grid-cols-1 gap-4 ${mistakeCount > 0 ? "sm:grid-cols-3" : "sm:grid-cols-2"}`}>
             <Link
               to="/blitz-challenge"
               className="rounded-2xl p-5 text-white hover:opacity-90 transition-opacity"
@@ -376,6 +393,19 @@ function DashboardPage() {
               <h3 className="text-lg font-bold">Solo Blitz</h3>
               <p className="text-blue-200 text-sm">Test yourself with quizzes and voice</p>
             </Link>
+            {mistakeCount > 0 && (
+              <Link
+                to="/study?mode=mistakes"
+                className="rounded-2xl p-5 text-white hover:opacity-90 transition-opacity"
+                style={{ background: `linear-gradient(135deg, #c2410c 0%, #f97316 100%)` }}
+              >
+                <History size={24} className="mb-2" />
+                <h3 className="text-lg font-bold">Review My Mistakes</h3>
+                <p className="text-orange-100 text-sm">
+                  {mistakeCount} {mistakeCount === 1 ? "card" : "cards"} you missed recently
+                </p>
+              </Link>
+            )}
           </div>
 
           {/* Your Sets */}
@@ -1,13 +1,37 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useParams, Link } from "react-router-dom";
 import DashboardLayout from "@/shared/components/DashboardLayout";
-import { Plus, X, BookOpen } from "lucide-react";
-import { api } from "@/config/api";
-import type { DbDeck, DbCard } from "@/types/api.types";
+import { Plus, X, BookOpen, Download, ChevronDown, Target } from "lucide-react";
+import { PlanLimitError } from "@/config/api";
+import { useApi, isAbortError } from "@/hooks/useApi";
+import { joinAlternates, splitAlternates } from "@/lib/answer-matching";
+import DeckImport from "@/shared/components/DeckImport";
+import MasteryHeatmap, { MASTERY_STYLES } from "@/shared/components/MasteryHeatmap";
+import { CARD_MASTERY_STATES, buildCardMastery, masteryCounts, masteryFor, type CardMasteryState } from "@/domain/card-mastery";
+import type { DbDeck, DbCard, DbStudyEvent } from "@/types/api.types";
+import {
+  deckToCsv,
+  deckToJson,
+  deckToPrintableHtml,
+  downloadFile,
+  exportFileName,
+  openPrintWindow,
+  type PrintLayout,
+} from "../lib/deckExport";
+
+const EXPORT_OPTIONS: { kind: "csv" | "json" | PrintLayout; label: string; description: string }[] = [
+  { kind: "csv", label: "CSV spreadsheet", description: "Opens in Excel or Sheets, imports back in" },
+  { kind: "json", label: "JSON backup", description: "Everything, including alternates" },
+  { kind: "cards", label: "Printable flashcards", description: "Front/back grid to cut out" },
+  { kind: "fold", label: "Printable vocab list", description: "Fold-over list for self-testing" },
+];
+
+type CardFilter = "all" | "weak" | CardMasteryState;
 
 export default function DeckDetailPage() {
   const { id } = useParams<{ id: string }>();
   const deckId = id!;
+  const api = useApi();
 
   const [deck, setDeck] = useState<DbDeck | null>(null);
   const [cards, setCards] = useState<DbCard[]>([]);
@@ -17,20 +41,37 @@ export default function DeckDetailPage() {
   const [showUpgradeModal, setShowUpgradeModal] = useState(false);
   const [upgradeMessage, setUpgradeMessage] = useState("");
   const [formError, setFormError] = useState("");
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [studyEvents, setStudyEvents] = useState<DbStudyEvent[]>([]);
+  const [cardFilter, setCardFilter] = useState<CardFilter>("all");
 
   const [cardForm, setCardForm] = useState({
     prompt_es: "",
     answer_es: "",
     translation_en: "",
+    // Alternates as typed, separated by "/"
+    accepted_es: "",
+    accepted_en: "",
   });
 
-  const [bulkText, setBulkText] = useState("");
-  const [bulkResult, setBulkResult] = useState<{ created: number; skipped: number } | null>(null);
+  const existingSpanish = useMemo(() => cards.map((card) => card.prompt_es || card.question || ""), [cards]);
+
+  // Per-card mastery from the current user's answers in this deck
+  const mastery = useMemo(() => buildCardMastery(studyEvents), [studyEvents]);
+  const counts = useMemo(() => masteryCounts(cards, mastery), [cards, mastery]);
+  const visibleCards = useMemo(() => {
+    if (cardFilter === "all") return cards;
+    return cards.filter((card) => {
+      const entry = masteryFor(mastery, card.id);
+      return cardFilter === "weak" ? entry.weak : entry.state === cardFilter;
+    });
+  }, [cards, mastery, cardFilter]);
 
   useEffect(() => {
     if (deckId) {
       fetchDeck();
       fetchCards();
+      fetchStudyEvents();
     }
   }, [deckId]);
 
@@ -39,7 +80,7 @@ export default function DeckDetailPage() {
       const deckData = await api.decks.get(deckId);
       setDeck(deckData);
     } catch (error) {
-      console.error("Error fetching deck:", error);
+      if (!isAbortError(error)) console.error("Error fetching deck:", error);
     } finally {
       setLoading(false);
     }
@@ -50,7 +91,17 @@ export default function DeckDetailPage() {
       const cardsData = await api.cards.list(deckId);
       setCards(cardsData);
     } catch (error) {
-      console.error("Error fetching cards:", error);
+      if (!isAbortError(error)) console.error("Error fetching cards:", error);
+    }
+  };
+
+  const fetchStudyEvents = async () => {
+    try {
+      const events = await api.studyEvents.list({ deck_id: deckId });
+      setStudyEvents(events);
+    } catch (error) {
+      // Without history every card just shows as new
+      if (!isAbortError(error)) console.error("Error fetching study history:", error);
     }
   };
 
@@ -73,9 +124,11 @@ export default function DeckDetailPage() {
         await api.cards.create(deckId, {
           prompt_es: trimmedPrompt,
           translation_en: trimmedTranslation,
+          accepted_es: splitAlternates(cardForm.accepted_es),
+          accepted_en: splitAlternates(cardForm.accepted_en),
         });
-      } catch (error: any) {
-        if (error.message?.includes('limit')) {
+      } catch (error) {
+        if (error instanceof PlanLimitError) {
           setUpgradeMessage(error.message);
           setShowUpgradeModal(true);
           return;
@@ -85,7 +138,7 @@ export default function DeckDetailPage() {
 
       await fetchCards();
       await fetchDeck();
-      setCardForm({ prompt_es: "", answer_es: "", translation_en: "" });
+      setCardForm({ prompt_es: "", answer_es: "", translation_en: "", accepted_es: "", accepted_en: "" });
 
       if (closeAfter) {
         setShowCreateSet(false);
@@ -95,36 +148,39 @@ export default function DeckDetailPage() {
     }
   };
 
-  const handleBulkAdd = async () => {
-    try {
-      // Parse bulk text
-      const lines = bulkText.split('\n').filter(line => line.trim());
-      const parsedCards = lines.map(line => {
-        const [spanish, english] = line.split('=').map(s => s.trim());
-        if (!spanish || !english) return null;
-        return {
-          prompt_es: spanish,
-          translation_en: english,
-        };
-      }).filter((card): card is { prompt_es: string; translation_en: string } => card !== null);
+  const handleImported = async () => {
+    await fetchCards();
+    await fetchDeck();
+  };
 
-      try {
-        await api.cards.bulkCreate(deckId, parsedCards);
-        setBulkResult({ created: parsedCards.length, skipped: lines.length - parsedCards.length });
-      } catch (error: any) {
-        if (error.message?.includes('limit')) {
-          setUpgradeMessage(error.message);
-          setShowUpgradeModal(true);
-          return;
-        }
-        throw error;
-      }
+  const handleImportPlanLimit = (error: PlanLimitError) => {
+    setUpgradeMessage(error.message);
+    setShowUpgradeModal(true);
+  };
 
-      await fetchCards();
-      await fetchDeck();
-      setBulkText("");
+  const handleExport = (kind: "csv" | "json" | PrintLayout) => {
+    setShowExportMenu(false);
+    if (!deck) return;
+    if (kind === "csv") {
+      downloadFile(exportFileName(deck, "csv"), deckToCsv(cards), "text/csv;charset=utf-8");
+    } else if (kind === "json") {
+      downloadFile(exportFileName(deck, "json"), deckToJson(deck, cards), "application/json");
+    } else {
+      const html = deckToPrintableHtml(deck, cards, kind);
+      // Popup blocked: save the page instead, it prints the same from a file
+      if (!openPrintWindow(html)) downloadFile(exportFileName(deck, "html"), html, "text/html;charset=utf-8");
+    }
+  };
+
+  const handleToggleAccents = async () => {
+    if (!deck) return;
+    const accent_sensitive = !deck.accent_sensitive;
+    setDeck({ ...deck, accent_sensitive });
+    try {
+      await api.decks.update(deckId, { accent_sensitive });
     } catch (error) {
-      console.error("Error bulk creating cards:", error);
+      console.error("Error updating accent setting:", error);
+      setDeck({ ...deck });
     }
   };
 
@@ -210,8 +266,74 @@ export default function DeckDetailPage() {
           </Link>
         </div>
 
+        {cards.length > 0 && (
+          <div className="bg-white rounded-lg shadow p-6 mb-6">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">Your Progress</h2>
+                <p className="text-sm text-gray-600">
+                  {counts.mastered} of {cards.length} mastered
+                  {counts.weak > 0 && ` · ${counts.weak} weak`}
+                </p>
+              </div>
+              {counts.weak > 0 && (
+                <Link
+                  to={`/study?deck=${deck.id}&focus=weak`}
+                  className="inline-flex items-center gap-2 bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 text-sm font-semibold"
+                >
+                  <Target size={16} />
+                  Study only weak cards
+                </Link>
+              )}
+            </div>
+            <MasteryHeatmap cards={cards} mastery={mastery} weakOnly={cardFilter === "weak"} />
+          </div>
+        )}
+
         <div className="bg-white rounded-lg shadow p-6">
-          <h2 className="text-xl font-bold text-gray-900 mb-4">Cards</h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-bold text-gray-900">Cards</h2>
+            <div className="flex items-center gap-4">
+              <label
+                className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer"
+                title="When on, typed answers with missing accents are marked wrong"
+              >
+                <input
+                  type="checkbox"
+                  checked={!!deck.accent_sensitive}
+                  onChange={handleToggleAccents}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Require accents
+              </label>
+              {cards.length > 0 && (
+                <div className="relative">
+                  <button
+                    onClick={() => setShowExportMenu(!showExportMenu)}
+                    className="flex items-center gap-2 border border-gray-300 text-gray-700 px-3 py-1.5 rounded-lg text-sm hover:bg-gray-50"
+                  >
+                    <Download size={16} />
+                    Export
+                    <ChevronDown size={14} />
+                  </button>
+                  {showExportMenu && (
+                    <div className="absolute right-0 mt-2 w-56 bg-white border border-gray-200 rounded-lg shadow-lg z-10 py-1">
+                      {EXPORT_OPTIONS.map((option) => (
+                        <button
+                          key={option.kind}
+                          onClick={() => handleExport(option.kind)}
+                          className="w-full text-left px-4 py-2 hover:bg-gray-50"
+                        >
+                          <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                          <span className="block text-xs text-gray-500">{option.description}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
 
           {cards.length === 0 ? (
             <div className="text-center py-12">
@@ -225,23 +347,58 @@ export default function DeckDetailPage() {
               </button>
             </div>
           ) : (
-            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {cards.map((card) => (
-                <div
-                  key={card.id}
-                  className="border border-gray-200 rounded-lg p-4 hover:border-blue-500 hover:shadow transition-all"
-                >
-                  <p className="font-medium text-gray-900 mb-1">
-                    {card.prompt_es}
-                  </p>
-                  {card.translation_en && (
-                    <p className="text-sm text-blue-600">
-                      → {card.translation_en}
-                    </p>
-                  )}
-                </div>
-              ))}
-            </div>
+            <>
+              <div className="flex flex-wrap gap-2 mb-4">
+                {(["all", "weak", ...CARD_MASTERY_STATES] as CardFilter[]).map((filter) => {
+                  const count = filter === "all" ? cards.length : counts[filter];
+                  const label = filter === "all" ? "All" : filter === "weak" ? "Weak only" : MASTERY_STYLES[filter].label;
+                  return (
+                    <button
+                      key={filter}
+                      onClick={() => setCardFilter(filter)}
+                      disabled={filter !== "all" && count === 0}
+                      className={`px-3 py-1 rounded-full text-sm font-medium border transition-colors disabled:opacity-40 ${
+                        cardFilter === filter
+                          ? "bg-blue-600 border-blue-600 text-white"
+                          : "border-gray-300 text-gray-700 hover:bg-gray-50"
+                      }`}
+                    >
+                      {label} ({count})
+                    </button>
+                  );
+                })}
+              </div>
+              <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {visibleCards.map((card) => {
+                  const entry = masteryFor(mastery, card.id);
+                  return (
+                    <div
+                      key={card.id}
+                      className="border border-gray-200 rounded-lg p-4 hover:border-blue-500 hover:shadow transition-all"
+                    >
+                      <div className="flex items-start justify-between gap-2 mb-1">
+                        <p className="font-medium text-gray-900">
+                          {card.prompt_es}
+                        </p>
+                        <span className={`flex-shrink-0 px-2 py-0.5 rounded-full text-xs font-medium ${MASTERY_STYLES[entry.state].chip}`}>
+                          {entry.weak ? "Weak" : MASTERY_STYLES[entry.state].label}
+                        </span>
+                      </div>
+                      {card.translation_en && (
+                        <p className="text-sm text-blue-600">
+                          → {card.translation_en}
+                        </p>
+                      )}
+                      {(card.accepted_es?.length || card.accepted_en?.length) ? (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Also accepts: {[joinAlternates(card.accepted_es), joinAlternates(card.accepted_en)].filter(Boolean).join(" · ")}
+                        </p>
+                      ) : null}
+                    </div>
+                  );
+                })}
+              </div>
+            </>
           )}
         </div>
       </div>
@@ -252,10 +409,7 @@ export default function DeckDetailPage() {
             <div className="sticky top-0 bg-white border-b border-gray-200 p-6 flex items-center justify-between">
               <h2 className="text-2xl font-bold text-gray-900">Create Set</h2>
               <button
-                onClick={() => {
-                  setShowCreateSet(false);
-                  setBulkResult(null);
-                }}
+                onClick={() => setShowCreateSet(false)}
                 className="text-gray-400 hover:text-gray-600"
               >
                 <X size={24} />
@@ -282,7 +436,7 @@ export default function DeckDetailPage() {
                       : "text-gray-600 hover:text-gray-900"
                   }`}
                 >
-                  Bulk Add
+                  Import
                 </button>
               </div>
 
@@ -341,6 +495,40 @@ export default function DeckDetailPage() {
                     />
                   </div>
 
+                  <div className="grid sm:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Other Spanish answers (optional)
+                      </label>
+                      <input
+                        type="text"
+                        value={cardForm.accepted_es}
+                        onChange={(e) =>
+                          setCardForm({ ...cardForm, accepted_es: e.target.value })
+                        }
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="e.g., buenas / qué tal"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Other English meanings (optional)
+                      </label>
+                      <input
+                        type="text"
+                        value={cardForm.accepted_en}
+                        onChange={(e) =>
+                          setCardForm({ ...cardForm, accepted_en: e.target.value })
+                        }
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="e.g., hi / hey"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500 -mt-2">
+                    Separate alternates with "/". Any of them counts as correct when playing.
+                  </p>
+
                   {formError && (
                     <p className="text-sm text-red-600">{formError}</p>
                   )}
@@ -364,63 +552,12 @@ export default function DeckDetailPage() {
               )}
 
               {activeTab === "bulk-add" && (
-                <div className="space-y-4">
-                  <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                    <p className="text-sm text-blue-800 mb-2">
-                      <strong>Instructions:</strong>
-                    </p>
-                    <p className="text-sm text-blue-700">
-                      Add one entry per line using the format:{" "}
-                      <code className="bg-blue-100 px-1 py-0.5 rounded">
-                        Spanish = English
-                      </code>
-                    </p>
-                    <p className="text-sm text-blue-700 mt-1">
-                      Example:{" "}
-                      <code className="bg-blue-100 px-1 py-0.5 rounded">
-                        hola = hello
-                      </code>
-                    </p>
-                  </div>
-
-                  <textarea
-                    value={bulkText}
-                    onChange={(e) => setBulkText(e.target.value)}
-                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
-                    rows={12}
-                    placeholder="hola = hello&#10;adiós = goodbye&#10;gracias = thank you"
-                  />
-
-                  {bulkResult && (
-                    <div
-                      className={`p-4 rounded-lg ${
-                        bulkResult.created > 0
-                          ? "bg-green-50 border border-green-200"
-                          : "bg-yellow-50 border border-yellow-200"
-                      }`}
-                    >
-                      <p
-                        className={`font-medium ${
-                          bulkResult.created > 0
-                            ? "text-green-800"
-                            : "text-yellow-800"
-                        }`}
-                      >
-                        Created {bulkResult.created} cards.{" "}
-                        {bulkResult.skipped > 0
-                          ? `Skipped ${bulkResult.skipped} invalid lines.`
-                          : ""}
-                      </p>
-                    </div>
-                  )}
-
-                  <button
-                    onClick={handleBulkAdd}
-                    className="w-full bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 font-medium"
-                  >
-                    Create cards
-                  </button>
-                </div>
+                <DeckImport
+                  deckId={deckId}
+                  existingSpanish={existingSpanish}
+                  onImported={handleImported}
+                  onPlanLimit={handleImportPlanLimit}
+                />
               )}
             </div>
           </div>
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { applyHeaderRow, buildImportRows, guessMapping, looksLikeHeaderRow, parseImportText } from "@/domain/deck-import";
+import { deckToCsv } from "./deckExport";
+
+describe("deckToCsv", () => {
+  it("imports back in with every column mapped", () => {
+    const csv = deckToCsv([
+      {
+        id: "1",
+        prompt_es: "estar cansado",
+        answer_es: "estar cansado / estar cansada",
+        translation_en: "to be tired",
+        accepted_es: ["cansado"],
+        accepted_en: ["tired", "worn out"],
+        notes: "Con estar, no ser",
+        distractor_1_es: "ser cansado",
+      },
+    ]);
+
+    const parsed = parseImportText(csv, undefined, "deck.csv");
+    expect(looksLikeHeaderRow(parsed.rows[0])).toBe(true);
+    const table = applyHeaderRow(parsed, true);
+    const [row] = buildImportRows(table, guessMapping(table));
+
+    expect(row.issues).toEqual([]);
+    expect(row.card).toEqual({
+      prompt_es: "estar cansado",
+      translation_en: "to be tired",
+      answer_es: "estar cansado / estar cansada",
+      accepted_es: ["cansado"],
+      accepted_en: ["tired", "worn out"],
+      notes: "Con estar, no ser",
+      distractor_1_es: "ser cansado",
+    });
+  });
+});
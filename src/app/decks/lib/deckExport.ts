@@ -0,0 +1,245 @@
+// Deck export: CSV and JSON files for backup and sharing, and a printable
+// flashcard sheet / fold-over vocab list rendered as a standalone HTML page.
+// Cards go through the same normalization helpers as the quiz, so an exported
+// card says exactly what the games would ask and accept.
+
+import type { DbDeck } from "@/types/api.types";
+import {
+  getEnglishAnswers,
+  getSpanishAnswers,
+  getSpanishPrompt,
+  type Card,
+} from "../../play/lib/quizUtils";
+
+/** Bumped when the JSON layout changes in a way importers must know about */
+export const DECK_EXPORT_VERSION = 1;
+
+export type PrintLayout = "cards" | "fold";
+
+export type ExportCard = {
+  spanish: string;
+  english: string;
+  /** Spanish answer when it differs from the prompt */
+  answer: string | null;
+  notes: string | null;
+  distractors: string[];
+  acceptedSpanish: string[];
+  acceptedEnglish: string[];
+};
+
+/** Flashcards per printed sheet (3 across, 4 down) */
+const CARDS_PER_SHEET = 12;
+const CARDS_PER_ROW = 3;
+
+const CSV_HEADERS = [
+  "Spanish",
+  "English",
+  "Notes",
+  "Distractor 1",
+  "Distractor 2",
+  "Distractor 3",
+  "Spanish answer",
+  "Also accept (Spanish)",
+  "Also accept (English)",
+];
+
+export function toExportCards(cards: readonly Card[]): ExportCard[] {
+  return cards.map((card) => {
+    const spanish = getSpanishPrompt(card);
+    const [answer, ...acceptedSpanish] = getSpanishAnswers(card);
+    const [english = "", ...acceptedEnglish] = getEnglishAnswers(card);
+    return {
+      spanish,
+      english,
+      answer: answer && answer !== spanish ? answer : null,
+      notes: card.notes?.trim() || null,
+      distractors: [card.distractor_1_es, card.distractor_2_es, card.distractor_3_es]
+        .map((d) => (typeof d === "string" ? d.trim() : ""))
+        .filter(Boolean),
+      acceptedSpanish,
+      acceptedEnglish,
+    };
+  });
+}
+
+export function csvCell(value: string): string {
+  return /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * CSV with a header row; the import reads it back with columns already mapped.
+ * Starts with a byte-order mark so Excel opens accents correctly.
+ */
+export function deckToCsv(cards: readonly Card[]): string {
+  const rows = toExportCards(cards).map((card) => [
+    card.spanish,
+    card.english,
+    card.notes ?? "",
+    card.distractors[0] ?? "",
+    card.distractors[1] ?? "",
+    card.distractors[2] ?? "",
+    card.answer ?? "",
+    card.acceptedSpanish.join(" / "),
+    card.acceptedEnglish.join(" / "),
+  ]);
+  return "\uFEFF" + [CSV_HEADERS, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+export function deckToJson(deck: DbDeck, cards: readonly Card[]): string {
+  return JSON.stringify(
+    {
+      version: DECK_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      deck: {
+        title: deck.title ?? "",
+        description: deck.description ?? null,
+        primary_color_hex: deck.primary_color_hex ?? null,
+        accent_sensitive: !!deck.accent_sensitive,
+      },
+      cards: toExportCards(cards),
+    },
+    null,
+    2,
+  );
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function chunk<T>(items: readonly T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+const PRINT_STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: #111827; margin: 0; padding: 24px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .meta { color: #6b7280; font-size: 12px; margin: 0 0 16px; }
+  .toolbar { display: flex; gap: 8px; align-items: center; margin-bottom: 16px; padding: 12px; background: #eff6ff; border-radius: 8px; font-size: 13px; }
+  .toolbar button { background: #2563eb; color: white; border: 0; border-radius: 6px; padding: 8px 14px; font-weight: 600; cursor: pointer; }
+  .sheet-label { font-size: 11px; color: #6b7280; margin: 0 0 6px; }
+  .grid { display: grid; grid-template-columns: repeat(${CARDS_PER_ROW}, 1fr); grid-auto-rows: 58mm; border-top: 1px dashed #9ca3af; border-left: 1px dashed #9ca3af; margin-bottom: 24px; }
+  .card { border-right: 1px dashed #9ca3af; border-bottom: 1px dashed #9ca3af; display: flex; flex-direction: column; align-items: center; justify-content: center; padding: 8mm 5mm; text-align: center; }
+  .card .word { font-size: 20px; font-weight: 700; overflow-wrap: anywhere; }
+  .card .extra { font-size: 11px; color: #4b5563; margin-top: 6px; }
+  .card.blank { visibility: hidden; }
+  table.fold { width: 100%; border-collapse: collapse; font-size: 14px; }
+  table.fold th { text-align: left; font-size: 11px; text-transform: uppercase; letter-spacing: 0.05em; color: #6b7280; padding: 6px 10px; border-bottom: 2px solid #111827; }
+  table.fold td { padding: 8px 10px; border-bottom: 1px solid #e5e7eb; vertical-align: top; width: 50%; }
+  table.fold td + td, table.fold th + th { border-left: 2px dashed #9ca3af; }
+  table.fold .extra { display: block; font-size: 11px; color: #6b7280; margin-top: 2px; }
+  @page { margin: 12mm; }
+  @media print {
+    body { padding: 0; }
+    .toolbar { display: none; }
+    .sheet { break-after: page; page-break-after: always; }
+    .sheet:last-child { break-after: auto; page-break-after: auto; }
+    table.fold tr { break-inside: avoid; page-break-inside: avoid; }
+  }
+`;
+
+function cardFace(word: string, extra: string | null): string {
+  if (!word) return `<div class="card blank"></div>`;
+  return `<div class="card"><div class="word">${escapeHtml(word)}</div>${extra ? `<div class="extra">${escapeHtml(extra)}</div>` : ""}</div>`;
+}
+
+/**
+ * Fronts on one page, backs on the next. Each row of backs is mirrored so the
+ * two sides line up when the sheet is printed double-sided (long edge).
+ */
+function flashcardSheets(cards: ExportCard[]): string {
+  return chunk(cards, CARDS_PER_SHEET)
+    .map((sheet, index) => {
+      const padded = [...sheet, ...Array<ExportCard | null>((CARDS_PER_ROW - (sheet.length % CARDS_PER_ROW)) % CARDS_PER_ROW).fill(null)];
+      const fronts = padded.map((card) => (card ? cardFace(card.spanish, null) : cardFace("", null))).join("");
+      const backs = chunk(padded, CARDS_PER_ROW)
+        .flatMap((row) => [...row].reverse())
+        .map((card) => (card ? cardFace(card.english, card.notes) : cardFace("", null)))
+        .join("");
+      return `
+        <section class="sheet"><p class="sheet-label">Sheet ${index + 1} · Spanish (front)</p><div class="grid">${fronts}</div></section>
+        <section class="sheet"><p class="sheet-label">Sheet ${index + 1} · English (back)</p><div class="grid">${backs}</div></section>`;
+    })
+    .join("");
+}
+
+/** Two columns with a fold line: fold the page to quiz yourself one way or the other */
+function foldList(cards: ExportCard[]): string {
+  const rows = cards
+    .map(
+      (card) => `<tr><td>${escapeHtml(card.spanish)}${card.answer ? `<span class="extra">${escapeHtml(card.answer)}</span>` : ""}</td><td>${escapeHtml(card.english)}${card.notes ? `<span class="extra">${escapeHtml(card.notes)}</span>` : ""}</td></tr>`,
+    )
+    .join("");
+  return `<table class="fold"><thead><tr><th>Español</th><th>English</th></tr></thead><tbody>${rows}</tbody></table>`;
+}
+
+/**
+ * A self-contained page (inline styles, no app CSS) ready to print or save as PDF
+ */
+export function deckToPrintableHtml(deck: DbDeck, cards: readonly Card[], layout: PrintLayout): string {
+  const exportCards = toExportCards(cards).filter((card) => card.spanish || card.english);
+  const title = deck.title || "Spanish Blitz set";
+  const hint =
+    layout === "cards"
+      ? "Print double-sided (flip on long edge), then cut along the dashed lines."
+      : "Fold along the dashed line to hide one column.";
+  return `<!doctype html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<div class="toolbar"><button type="button" onclick="window.print()">Print / Save as PDF</button><span>${hint}</span></div>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">${exportCards.length} cards${deck.description ? ` · ${escapeHtml(deck.description)}` : ""}</p>
+${layout === "cards" ? flashcardSheets(exportCards) : foldList(exportCards)}
+</body>
+</html>`;
+}
+
+/** "Mi Vocabulario #1" → "mi-vocabulario-1.csv" */
+export function exportFileName(deck: Pick<DbDeck, "title">, extension: string): string {
+  const slug = (deck.title || "deck")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "deck"}.${extension}`;
+}
+
+export function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Open the printable page in a new tab. Returns false when a popup blocker
+ * stopped it, so the caller can fall back to downloading the HTML.
+ */
+export function openPrintWindow(html: string): boolean {
+  const printWindow = window.open("", "_blank");
+  if (!printWindow) return false;
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  return true;
+}
@@ -0,0 +1,267 @@
+import { useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { Trophy, Globe, Users, UserPlus, UserCheck, Loader2 } from "lucide-react";
+import DashboardLayout from "@/shared/components/DashboardLayout";
+import useUser from "@/shared/hooks/useUser";
+import { useClassroomsQuery, useFollowsQuery, useLeaderboardQuery } from "@/shared/hooks/useUserQuery";
+import { api } from "@/config/api";
+import { withAuth } from "@/shared/hoc/withAuth";
+import { LEADERBOARD_DEFAULTS, leaderboardView, type LeaderboardRow } from "@/domain/leaderboard";
+import type { LeaderboardPeriod, LeaderboardScope } from "@/types/api.types";
+
+const DARK_BLUE = "#084178";
+
+const PERIODS: { value: LeaderboardPeriod; label: string }[] = [
+  { value: "week", label: "This Week" },
+  { value: "month", label: "This Month" },
+  { value: "all", label: "All Time" },
+];
+
+const SCOPES: { value: LeaderboardScope; label: string; icon: typeof Globe }[] = [
+  { value: "global", label: "Global", icon: Globe },
+  { value: "classroom", label: "My Classroom", icon: Users },
+  { value: "following", label: "Following", icon: UserCheck },
+];
+
+function parsePeriod(value: string | null): LeaderboardPeriod {
+  return value === "week" || value === "month" ? value : "all";
+}
+
+function parseScope(value: string | null): LeaderboardScope {
+  return value === "classroom" || value === "following" ? value : "global";
+}
+
+function RankBadge({ rank }: { rank: number }) {
+  const medal = rank === 1 ? "🥇" : rank === 2 ? "🥈" : rank === 3 ? "🥉" : null;
+  return (
+    <span className="w-10 text-center flex-shrink-0 font-bold text-gray-500 dark:text-gray-400">
+      {medal ? <span className="text-2xl">{medal}</span> : `#${rank}`}
+    </span>
+  );
+}
+
+function LeaderboardRowItem({
+  row,
+  following,
+  onToggleFollow,
+  busy,
+}: {
+  row: LeaderboardRow;
+  following: boolean;
+  onToggleFollow: (row: LeaderboardRow) => void;
+  busy: boolean;
+}) {
+  const name = row.isMe ? `${row.displayName || "You"} (you)` : row.displayName || "Student";
+  return (
+    <li
+      className={`flex items-center gap-3 px-4 py-3 rounded-xl ${
+        row.isMe
+          ? "bg-[#10A5C3]/10 border-2 border-[#10A5C3]"
+          : "bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700"
+      }`}
+    >
+      <RankBadge rank={row.rank} />
+      {row.avatarUrl ? (
+        <img src={row.avatarUrl} alt="" className="w-9 h-9 rounded-full object-cover flex-shrink-0" />
+      ) : (
+        <div className="w-9 h-9 rounded-full flex items-center justify-center text-white font-bold text-sm flex-shrink-0 bg-[#10A5C3]">
+          {(row.displayName || "?")[0]?.toUpperCase()}
+        </div>
+      )}
+      <span className="flex-1 min-w-0 truncate font-semibold text-gray-900 dark:text-gray-100">{name}</span>
+      <span className="font-bold flex-shrink-0" style={{ color: DARK_BLUE }}>
+        <span className="dark:text-blue-300">{row.xp.toLocaleString()} XP</span>
+      </span>
+      {!row.isMe && (
+        <button
+          onClick={() => onToggleFollow(row)}
+          disabled={busy}
+          title={following ? "Unfollow" : "Follow"}
+          aria-label={following ? `Unfollow ${name}` : `Follow ${name}`}
+          className={`p-2 rounded-lg flex-shrink-0 transition-colors disabled:opacity-50 ${
+            following
+              ? "text-[#10A5C3] hover:bg-gray-100 dark:hover:bg-gray-700"
+              : "text-gray-400 hover:text-gray-700 hover:bg-gray-100 dark:hover:text-gray-200 dark:hover:bg-gray-700"
+          }`}
+        >
+          {following ? <UserCheck size={18} /> : <UserPlus size={18} />}
+        </button>
+      )}
+    </li>
+  );
+}
+
+function LeaderboardPage() {
+  const { data: user } = useUser();
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [followBusy, setFollowBusy] = useState<string | null>(null);
+
+  const period = parsePeriod(searchParams.get("period"));
+  const scope = parseScope(searchParams.get("scope"));
+
+  const { data: classrooms = [] } = useClassroomsQuery();
+  const classroomId = searchParams.get("classroom") || classrooms[0]?.id;
+  const { data: follows = [] } = useFollowsQuery();
+  const followedIds = new Set(follows.map((f) => f.id));
+
+  const needsClassroom = scope === "classroom" && !classroomId;
+  const { data, isLoading, isError } = useLeaderboardQuery(
+    {
+      limit: LEADERBOARD_DEFAULTS.LIMIT,
+      period,
+      scope,
+      ...(scope === "classroom" ? { classroomId } : {}),
+    },
+    !needsClassroom
+  );
+  const view = data && user ? leaderboardView(data.entries, user, data.position) : null;
+
+  const setParam = (key: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    next.set(key, value);
+    setSearchParams(next, { replace: true });
+  };
+
+  const handleToggleFollow = async (row: LeaderboardRow) => {
+    setFollowBusy(row.id);
+    try {
+      if (followedIds.has(row.id)) await api.follows.remove(row.id);
+      else await api.follows.add(row.id);
+      await queryClient.invalidateQueries({ queryKey: ["follows"] });
+      if (scope === "following") await queryClient.invalidateQueries({ queryKey: ["leaderboard"] });
+    } catch (error) {
+      console.error("Error updating follow:", error);
+    } finally {
+      setFollowBusy(null);
+    }
+  };
+
+  const emptyMessage =
+    scope === "following"
+      ? "You're not following anyone yet. Follow players from the Global board to compare your progress."
+      : period === "all"
+        ? "No XP earned yet."
+        : `No XP earned ${period === "week" ? "this week" : "this month"} yet. Be the first!`;
+
+  return (
+    <DashboardLayout>
+      <div className="max-w-3xl mx-auto">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="p-3 bg-yellow-100 dark:bg-yellow-900/30 rounded-xl">
+            <Trophy className="text-yellow-600 dark:text-yellow-400" size={28} />
+          </div>
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-gray-900 dark:text-gray-100">Leaderboard</h1>
+            <p className="text-gray-600 dark:text-gray-400 text-sm">See how your XP stacks up</p>
+          </div>
+        </div>
+
+        {/* Period tabs */}
+        <div className="inline-flex rounded-xl bg-gray-100 dark:bg-gray-800 p-1 mb-4" role="tablist">
+          {PERIODS.map((p) => (
+            <button
+              key={p.value}
+              role="tab"
+              aria-selected={period === p.value}
+              onClick={() => setParam("period", p.value)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                period === p.value
+                  ? "bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 shadow-sm"
+                  : "text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200"
+              }`}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Scopes */}
+        <div className="flex flex-wrap items-center gap-2 mb-6">
+          {SCOPES.map((s) => (
+            <button
+              key={s.value}
+              onClick={() => setParam("scope", s.value)}
+              className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+                scope === s.value
+                  ? "border-[#10A5C3] bg-[#10A5C3]/10 text-[#084178] dark:text-sky-300"
+                  : "border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400 hover:border-[#10A5C3]"
+              }`}
+            >
+              <s.icon size={14} />
+              {s.label}
+            </button>
+          ))}
+          {scope === "classroom" && classrooms.length > 1 && (
+            <select
+              value={classroomId}
+              onChange={(e) => setParam("classroom", e.target.value)}
+              aria-label="Classroom"
+              className="px-3 py-1.5 rounded-lg text-sm border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+            >
+              {classrooms.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        {needsClassroom ? (
+          <div className="text-center py-12 bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700">
+            <p className="text-gray-500 dark:text-gray-400 mb-4">You're not in a class yet.</p>
+            <Link
+              to="/profile"
+              className="inline-block bg-blue-600 text-white px-4 py-2 rounded-xl hover:bg-blue-700 font-medium"
+            >
+              Join a Class
+            </Link>
+          </div>
+        ) : isLoading || !user ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="animate-spin text-gray-400" size={32} />
+          </div>
+        ) : isError || !view ? (
+          <div className="text-center py-12 text-red-600 dark:text-red-400">
+            Couldn't load the leaderboard. Please try again.
+          </div>
+        ) : view.rows.length === 0 ? (
+          <div className="text-center py-12 bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400 px-6">
+            {emptyMessage}
+          </div>
+        ) : (
+          <>
+            <ol className="space-y-2">
+              {view.rows.map((row) => (
+                <LeaderboardRowItem
+                  key={row.id}
+                  row={row}
+                  following={followedIds.has(row.id)}
+                  onToggleFollow={handleToggleFollow}
+                  busy={followBusy === row.id}
+                />
+              ))}
+            </ol>
+            {view.me && (
+              <>
+                <div className="text-center text-gray-400 py-2" aria-hidden="true">⋯</div>
+                <ol>
+                  <LeaderboardRowItem row={view.me} following={false} onToggleFollow={handleToggleFollow} busy={false} />
+                </ol>
+                {data?.position && (
+                  <p className="text-center text-xs text-gray-500 dark:text-gray-400 mt-2">
+                    Out of {data.position.players.toLocaleString()} players
+                  </p>
+                )}
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
+
+export default withAuth(LeaderboardPage);
@@ -0,0 +1,97 @@
+// Distractor ranking for multiple-choice questions.
+// Random wrong answers from the deck are usually easy to rule out ("el perro"
+// vs "comer"), so candidates are scored by how much they look like the correct
+// answer: similar length, same article, same verb ending, small edit distance.
+
+import { editDistance, normalizeAnswer } from "@/lib/answer-matching";
+import { shuffle, type Rng } from "./random";
+
+export type DistractorLanguage = "spanish" | "english";
+
+export type DistractorPickerParams = {
+  correct: string;
+  /** Wrong answers to choose from — already unique and never equal to `correct` */
+  candidates: string[];
+  count: number;
+  language: DistractorLanguage;
+  rng: Rng;
+};
+
+/** Strategy used by `buildOptions` to choose which wrong answers to show */
+export type DistractorPicker = (params: DistractorPickerParams) => string[];
+
+const SPANISH_ARTICLES = ["el", "la", "los", "las", "un", "una", "unos", "unas"];
+const ENGLISH_ARTICLES = ["the", "a", "an", "to"];
+const VERB_ENDINGS = ["ar", "er", "ir"];
+
+const WEIGHTS = {
+  LENGTH: 1,
+  ARTICLE: 1.5,
+  VERB_ENDING: 1.5,
+  EDIT_DISTANCE: 2,
+};
+
+/**
+ * Candidates scoring within this margin of the last pick count as a tie and
+ * are chosen at random, so a card doesn't always get exactly the same distractors
+ */
+const TIE_MARGIN = 0.25;
+
+function splitArticle(text: string, language: DistractorLanguage): { article: string | null; head: string } {
+  const articles = language === "spanish" ? SPANISH_ARTICLES : ENGLISH_ARTICLES;
+  const [first, ...rest] = text.split(/\s+/);
+  if (rest.length > 0 && articles.includes(first)) {
+    return { article: first, head: rest.join(" ") };
+  }
+  return { article: null, head: text };
+}
+
+function verbEnding(head: string): string | null {
+  // Only single words look like infinitives ("hablar", not "el mar azul")
+  if (/\s/.test(head)) return null;
+  return VERB_ENDINGS.find((ending) => head.length > ending.length + 1 && head.endsWith(ending)) ?? null;
+}
+
+/**
+ * Similarity of a candidate to the correct answer, from 0 (nothing alike) upward
+ */
+export function scoreDistractor(correct: string, candidate: string, language: DistractorLanguage): number {
+  const a = normalizeAnswer(correct);
+  const b = normalizeAnswer(candidate);
+  const longest = Math.max(a.length, b.length) || 1;
+
+  const target = splitArticle(a, language);
+  const other = splitArticle(b, language);
+
+  let score = WEIGHTS.LENGTH * (1 - Math.abs(a.length - b.length) / longest);
+
+  if (target.article !== null && target.article === other.article) {
+    score += WEIGHTS.ARTICLE;
+  }
+
+  if (language === "spanish") {
+    const ending = verbEnding(target.head);
+    if (ending !== null && ending === verbEnding(other.head)) {
+      score += WEIGHTS.VERB_ENDING;
+    }
+  }
+
+  score += WEIGHTS.EDIT_DISTANCE * (1 - editDistance(target.head, other.head) / longest);
+
+  return score;
+}
+
+/**
+ * Prefer the candidates that look most like the correct answer
+ */
+export const rankedDistractors: DistractorPicker = ({ correct, candidates, count, language, rng }) => {
+  const ranked = candidates
+    .map((candidate) => ({ candidate, score: scoreDistractor(correct, candidate, language) }))
+    .sort((x, y) => y.score - x.score);
+  if (ranked.length <= count) return shuffle(ranked, rng).map((entry) => entry.candidate);
+
+  const cutoff = ranked[count - 1].score;
+  const clearlyBetter = ranked.filter((entry) => entry.score > cutoff + TIE_MARGIN);
+  const tied = ranked.filter((entry) => Math.abs(entry.score - cutoff) <= TIE_MARGIN);
+  return [...clearlyBetter, ...shuffle(tied, rng)].slice(0, count).map((entry) => entry.candidate);
+};
@@ -0,0 +1,76 @@
+// Deterministic quiz generation shared by Solo and Blitz Challenge.
+// Given the same seed, deck and config, every player gets the same card order,
+// question types, distractors and option order.
+
+import {
+  NotEnoughCardsError,
+  QUESTION_TYPE_LIST,
+  buildOptions,
+  isSpeechQuestion,
+  isWrittenQuestion,
+  type Card,
+  type QuestionType,
+} from "./quizUtils";
+import { rankedDistractors, type DistractorPicker } from "./distractors";
+import { createRng, pick, shuffle } from "./random";
+
+/** Smallest deck that can produce a multiple-choice question */
+export const MIN_QUIZ_CARDS = 2;
+
+export type QuizConfig = {
+  /** Same seed + deck + config ⇒ same quiz */
+  seed: string;
+  /** Question types to draw from (defaults to all of them) */
+  questionTypes?: readonly QuestionType[];
+  /** Shuffle the card order; Blitz keeps the order the server sent */
+  shuffleCards?: boolean;
+  /**
+   * Types swapped in after the draw, e.g. speech → text for a player without a mic.
+   * Substituting after drawing keeps every other question identical to everyone else's.
+   */
+  substitutions?: Partial<Record<QuestionType, QuestionType>>;
+  /** How wrong answers are chosen (defaults to similarity ranking) */
+  distractors?: DistractorPicker;
+};
+
+export type QuizQuestion<C extends Card = Card> = {
+  card: C;
+  questionType: QuestionType;
+  /** Multiple-choice options; empty for speech and written questions */
+  options: string[];
+};
+
+/**
+ * Build the full question list for a game.
+ * Throws `NotEnoughCardsError` when the deck can't produce real distractors.
+ */
+export function generateQuiz<C extends Card>(cards: readonly C[], config: QuizConfig): QuizQuestion<C>[] {
+  const {
+    seed,
+    questionTypes = QUESTION_TYPE_LIST,
+    shuffleCards = false,
+    substitutions = {},
+    distractors = rankedDistractors,
+  } = config;
+
+  if (cards.length < MIN_QUIZ_CARDS) {
+    throw new NotEnoughCardsError(MIN_QUIZ_CARDS, cards.length);
+  }
+  if (questionTypes.length === 0) {
+    throw new Error("At least one question type is required");
+  }
+
+  const ordered = shuffleCards ? shuffle(cards, createRng(seed)) : [...cards];
+
+  return ordered.map((card) => {
+    // One generator per card, so a question doesn't change if another card is added or answered
+    const rng = createRng(`${seed}:${card.id}`);
+    const drawn = pick(questionTypes, rng);
+    const questionType = substitutions[drawn] ?? drawn;
+    const options =
+      isSpeechQuestion(questionType) || isWrittenQuestion(questionType)
+        ? []
+        : buildOptions({ question: card, questions: cards as C[], questionType, rng, pickDistractors: distractors });
+    return { card, questionType, options };
+  });
+}
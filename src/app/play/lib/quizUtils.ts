@@ -1,6 +1,10 @@
 // Shared quiz utilities for Solo and Blitz Challenge
 // Centralizes question types, card normalization, option building, and helpers.
 
+import { normalizeAnswer, parseAcceptedAnswers } from "@/lib/answer-matching";
+import type { DistractorPicker } from "./distractors";
+import { shuffle, type Rng } from "./random";
+
 export const QUESTION_TYPES = {
   SPANISH_TEXT_TO_ENGLISH_TEXT: "spanish_text_to_english_text",
   SPANISH_AUDIO_TO_ENGLISH_TEXT: "spanish_audio_to_english_text",
@@ -15,11 +19,13 @@ export type QuestionType = (typeof QUESTION_TYPE_LIST)[number];
 
 export type Card = {
   id: string | number;
-  question?: string;
-  answer?: string;
-  prompt_es?: string;
-  answer_es?: string;
-  translation_en?: string;
+  question?: string | null;
+  answer?: string | null;
+  prompt_es?: string | null;
+  answer_es?: string | null;
+  translation_en?: string | null;
+  accepted_es?: string[] | null;
+  accepted_en?: string[] | null;
   position?: number;
   [key: string]: any;
 };
@@ -31,28 +37,94 @@ export const getSpanishAnswer = (card: Card) =>
   safeTrim(card?.answer_es || card?.prompt_es || card?.question || card?.answer || "");
 export const getEnglishAnswer = (card: Card) => safeTrim(card?.translation_en || card?.answer || "");
 
-export function normalizeSpanish(text: string) {
-  return text
-    .toLowerCase()
-    .normalize("NFD")
-    .replace(/[\u0300-\u036f]/g, "")
-    .replace(/[^\wñ\s]/g, "")
-    .trim();
-}
+const withAlternates = (main: string, alternates: unknown) => {
+  const extra = Array.isArray(alternates) ? alternates.map(safeTrim) : [];
+  return Array.from(new Set([main, ...extra].filter(Boolean)));
+};
 
-export function deriveQuestionTypeByPosition(card: Card | null | undefined): QuestionType | null {
-  if (!card) return null;
-  const idx = (card.position ?? 0) % QUESTION_TYPE_LIST.length;
-  return QUESTION_TYPE_LIST[idx];
+/** Every Spanish answer the card accepts, main answer first */
+export const getSpanishAnswers = (card: Card) => withAlternates(getSpanishAnswer(card), card?.accepted_es);
+/** Every English meaning the card accepts, main answer first */
+export const getEnglishAnswers = (card: Card) => withAlternates(getEnglishAnswer(card), card?.accepted_en);
+
+/** Normalized forms of every accepted answer, with "/" alternatives and optional parts expanded */
+const answerKeys = (answers: readonly string[]) =>
+  new Set(answers.flatMap(parseAcceptedAnswers).map(normalizeAnswer).filter(Boolean));
+
+const sharesAnswer = (text: string, keys: Set<string>) =>
+  parseAcceptedAnswers(text).some((alternative) => keys.has(normalizeAnswer(alternative)));
+
+/** Number of choices shown for a multiple-choice question (1 correct + distractors) */
+export const OPTION_COUNT = 4;
+
+/**
+ * The deck is too small (or too repetitive) to build a fair question.
+ * Thrown instead of padding options with duplicates or placeholders.
+ */
+export class NotEnoughCardsError extends Error {
+  readonly required: number;
+  readonly available: number;
+
+  constructor(required: number, available: number) {
+    super(
+      `This set needs at least ${required} cards with different answers to play (it has ${available}).`,
+    );
+    this.name = "NotEnoughCardsError";
+    this.required = required;
+    this.available = available;
+  }
 }
 
 export type BuildOptionsParams = {
   question: Card;
   questions: Card[];
   questionType: QuestionType | null;
+  /** Source of randomness — pass a seeded generator to make the result reproducible */
+  rng?: Rng;
+  /** Chooses which wrong answers to show (defaults to a uniform random pick) */
+  pickDistractors?: DistractorPicker;
+};
+
+/** The language a question is answered in */
+const answerLanguage = (questionType: QuestionType | null): "english" | "spanish" | null => {
+  switch (questionType) {
+    case QUESTION_TYPES.SPANISH_TEXT_TO_ENGLISH_TEXT:
+    case QUESTION_TYPES.SPANISH_AUDIO_TO_ENGLISH_TEXT:
+      return "english";
+    case QUESTION_TYPES.ENGLISH_TEXT_TO_SPANISH_TEXT:
+    case QUESTION_TYPES.ENGLISH_TEXT_TO_SPANISH_SPEECH:
+    case QUESTION_TYPES.ENGLISH_TEXT_TO_SPANISH_WRITTEN:
+      return "spanish";
+    default:
+      return null;
+  }
 };
 
-export function buildOptions({ question, questions, questionType }: BuildOptionsParams) {
+/**
+ * Every answer that counts as correct for this card and question type,
+ * main answer first
+ */
+export function getAcceptedAnswers(card: Card, questionType: QuestionType | null): string[] {
+  const language = answerLanguage(questionType);
+  if (language === "spanish") return getSpanishAnswers(card);
+  if (language === "english") return getEnglishAnswers(card);
+  return [];
+}
+
+/** Whether a multiple-choice option is one of the card's accepted answers */
+export function isAcceptedOption(option: string, card: Card, questionType: QuestionType | null) {
+  return sharesAnswer(option, answerKeys(getAcceptedAnswers(card, questionType)));
+}
+
+const pickRandomDistractors: DistractorPicker = ({ candidates, count, rng }) => shuffle(candidates, rng).slice(0, count);
+
+export function buildOptions({
+  question,
+  questions,
+  questionType,
+  rng = Math.random,
+  pickDistractors = pickRandomDistractors,
+}: BuildOptionsParams) {
   if (!question || !questionType) return [] as string[];
 
   let correctAnswer: string | undefined;
@@ -62,11 +134,11 @@ export function buildOptions({ question, questions, questionType }: BuildOptions
     case QUESTION_TYPES.SPANISH_TEXT_TO_ENGLISH_TEXT:
     case QUESTION_TYPES.SPANISH_AUDIO_TO_ENGLISH_TEXT:
       {
-        const spanishSide = normalizeSpanish(getSpanishAnswer(question));
+        const spanishSide = normalizeAnswer(getSpanishAnswer(question));
         const englishCandidates = [question.translation_en, question.answer, question.question]
           .map((v) => (v ?? "").toString().trim())
           .filter(Boolean)
-          .filter((v) => normalizeSpanish(v) !== spanishSide);
+          .filter((v) => normalizeAnswer(v) !== spanishSide);
 
         correctAnswer = englishCandidates[0] || getEnglishAnswer(question);
       }
@@ -87,39 +159,48 @@ export function buildOptions({ question, questions, questionType }: BuildOptions
     correctAnswer = distractorType === "english" ? getSpanishAnswer(question) : getEnglishAnswer(question);
   }
 
-  const spanishSideCurrent = normalizeSpanish(getSpanishAnswer(question));
+  const spanishSideCurrent = normalizeAnswer(getSpanishAnswer(question));
 
-  const otherCards = (questions || []).filter((c) => c.id !== question.id);
+  // Cards with the same meaning as the prompt ("to be" → ser, "to be" → estar) would
+  // make their answer a second valid option, so they can't supply distractors
+  const promptKeys = answerKeys(distractorType === "english" ? getSpanishAnswers(question) : getEnglishAnswers(question));
+  const otherCards = (questions || []).filter(
+    (c) =>
+      c.id !== question.id &&
+      !(distractorType === "english" ? getSpanishAnswers(c) : getEnglishAnswers(c)).some((a) => sharesAnswer(a, promptKeys)),
+  );
 
   // Primary pool: same language as question type
   const primaryPool = otherCards
     .map((c) => (distractorType === "english" ? getEnglishAnswer(c) : getSpanishAnswer(c)))
     .filter(Boolean)
-    .filter((v) => (distractorType === "english" ? normalizeSpanish(v) !== spanishSideCurrent : true));
-
-  // Build a unique pool of wrong answers (exclude the correct answer always)
-  const uniquePool = Array.from(new Set(primaryPool)).filter(
-    (val) => val && val !== correctAnswer,
-  );
-
-  const shuffled = uniquePool.sort(() => Math.random() - 0.5);
-  let distractors = shuffled.slice(0, 3);
-
-  // If we still have fewer than 3, duplicate existing WRONG distractors (never the correct one)
-  let j = 0;
-  while (distractors.length < 3 && distractors.length > 0) {
-    distractors.push(distractors[j % distractors.length]);
-    j += 1;
-  }
-
-  // Absolute fallback: if there were zero wrong options at all, synthesize placeholders that are not equal to the correct answer
-  if (distractors.length === 0) {
-    const fillers = ["Option A", "Option B", "Option C"].filter((f) => f !== correctAnswer);
-    distractors = fillers.slice(0, 3);
+    .filter((v) => (distractorType === "english" ? normalizeAnswer(v) !== spanishSideCurrent : true));
+
+  // Build a unique pool of wrong answers. Compare normalized forms so "el café" and
+  // "El cafe" count as the same option, and never offer one that is also a right
+  // answer ("estar" when the card accepts "ser / estar").
+  const acceptedKeys = answerKeys([correctAnswer, ...getAcceptedAnswers(question, questionType)]);
+  const seen = new Set<string>();
+  const uniquePool = primaryPool.filter((val) => {
+    const key = normalizeAnswer(val);
+    if (!key || seen.has(key) || sharesAnswer(val, acceptedKeys)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  // Need at least one wrong answer; a question with only the right answer isn't a question
+  if (uniquePool.length === 0) {
+    throw new NotEnoughCardsError(2, otherCards.length + 1);
   }
 
-  const options = [correctAnswer, ...distractors].slice(0, 4);
-  return options.sort(() => Math.random() - 0.5);
+  const distractors = pickDistractors({
+    correct: correctAnswer,
+    candidates: uniquePool,
+    count: OPTION_COUNT - 1,
+    language: distractorType,
+    rng,
+  });
+  return shuffle([correctAnswer, ...distractors], rng);
 }
 
 export function getQuestionPrompt(question: Card, questionType: QuestionType | null) {
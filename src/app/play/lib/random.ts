@@ -0,0 +1,58 @@
+// Seedable randomness for quiz generation.
+// Every player in a Blitz session seeds with the same value, so they all see
+// the same question types, distractors and option orders.
+
+/** Returns a float in [0, 1), like Math.random */
+export type Rng = () => number;
+
+/**
+ * Hash an arbitrary string seed to a 32-bit integer (FNV-1a)
+ */
+export function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * mulberry32 — small, fast and good enough for shuffling a deck
+ */
+export function createRng(seed: string | number): Rng {
+  let state = typeof seed === "number" ? seed >>> 0 : hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Fresh seed for a game that doesn't need to be reproduced by anyone else
+ */
+export function createSeed(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Unbiased Fisher–Yates shuffle; returns a new array
+ */
+export function shuffle<T>(items: readonly T[], rng: Rng = Math.random): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Uniform pick from a non-empty list
+ */
+export function pick<T>(items: readonly T[], rng: Rng = Math.random): T {
+  return items[Math.floor(rng() * items.length)];
+}
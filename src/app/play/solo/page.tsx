@@ -5,35 +5,33 @@ import DashboardLayout from "@/shared/components/DashboardLayout";
 import TTSButton from "@/shared/components/TTSButton";
 import SpeechRecognition from "@/shared/components/SpeechRecognition";
 import MicPermissionModal from "@/shared/components/MicPermissionModal";
-import WrittenAnswer, { type WrittenResult } from "@/shared/components/WrittenAnswer";
+import WrittenAnswer, { type WrittenResult, hasUsefulDiff } from "@/shared/components/WrittenAnswer";
+import AnswerDiff from "@/shared/components/AnswerDiff";
 import { Trophy, Target, Clock, BookOpen, ArrowRight, ArrowLeft } from "lucide-react";
-import { api } from "@/config/api";
+import { useApi, isAbortError } from "@/hooks/useApi";
+import { deliver } from "@/lib/outbox";
+import { getDeckCached, listCardsCached } from "@/lib/offline-cache";
 import useUser from "@/shared/hooks/useUser";
 import { useMicrophone } from "@/lib/microphone-context";
 import { useNavigationGuard } from "@/lib/navigation-guard-context";
+import { matchAnswer } from "@/lib/answer-matching";
 import type { DbDeck, DbCard } from "@/types/api.types";
 
 import {
-  QUESTION_TYPES,
   QUESTION_TYPE_LIST,
   getSpanishPrompt,
   getSpanishAnswer,
-  getEnglishAnswer,
-  normalizeSpanish,
-  buildOptions,
+  getSpanishAnswers,
+  isAcceptedOption,
   getQuestionPrompt,
   getQuestionTypeLabel,
   isSpeechQuestion,
   isAudioQuestion,
   isWrittenQuestion,
-  type QuestionType,
+  NotEnoughCardsError,
 } from "../lib/quizUtils";
-
-
-interface CardQuestion {
-  card: DbCard;
-  questionType: QuestionType;
-}
+import { generateQuiz, type QuizQuestion } from "../lib/quizGenerator";
+import { createSeed } from "../lib/random";
 
 export default function PlaySoloPage() {
   const [searchParams] = useSearchParams();
@@ -46,12 +44,14 @@ export default function PlaySoloPage() {
   const [availableSets, setAvailableSets] = useState<DbDeck[]>([]);
   const [deck, setDeck] = useState<DbDeck | null>(null);
   const [cards, setCards] = useState<DbCard[]>([]);
-  const [cardQuestions, setCardQuestions] = useState<CardQuestion[]>([]);
+  const [cardQuestions, setCardQuestions] = useState<QuizQuestion<DbCard>[]>([]);
+  const [quizError, setQuizError] = useState<string | null>(null);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [score, setScore] = useState(0);
   const [answeredCards, setAnsweredCards] = useState(0);
   const [selectedOption, setSelectedOption] = useState<string | null>(null);
   const [feedback, setFeedback] = useState<"correct" | "incorrect" | null>(null);
+  const [writtenResult, setWrittenResult] = useState<WrittenResult | null>(null);
   const [loading, setLoading] = useState(true);
   const [gameEnded, setGameEnded] = useState(false);
   const [startTime, setStartTime] = useState<number | null>(null);
@@ -61,6 +61,7 @@ export default function PlaySoloPage() {
   const [xpTotal, setXpTotal] = useState<number>(0);
   const [showExitModal, setShowExitModal] = useState(false);
   const navigate = useNavigate();
+  const api = useApi();
   const { setGuard } = useNavigationGuard();
   const pendingBackRef = useRef(false);
 
@@ -112,6 +113,24 @@ export default function PlaySoloPage() {
     }
   }, [navigate]);
 
+  // Build a fresh seeded quiz (no speech questions without a mic)
+  const startQuiz = (deckCards: DbCard[]) => {
+    try {
+      setCardQuestions(
+        generateQuiz(deckCards, {
+          seed: createSeed(),
+          shuffleCards: true,
+          questionTypes: availableQuestionTypes,
+        }),
+      );
+      setQuizError(null);
+    } catch (error) {
+      if (!(error instanceof NotEnoughCardsError)) throw error;
+      setCardQuestions([]);
+      setQuizError(error.message);
+    }
+  };
+
   useEffect(() => {
     // Reset game state when deck changes
     setCurrentIndex(0);
@@ -141,7 +160,7 @@ export default function PlaySoloPage() {
       const decksData = await api.decks.list({ filter: 'owned' });
       setAvailableSets(decksData);
     } catch (error) {
-      console.error("Error fetching sets:", error);
+      if (!isAbortError(error)) console.error("Error fetching sets:", error);
     }
   };
 
@@ -150,16 +169,16 @@ export default function PlaySoloPage() {
       const user = await api.users.current();
       setUserLocale(user.preferred_locale || "es-ES");
     } catch (error) {
-      console.error("Error fetching user locale:", error);
+      if (!isAbortError(error)) console.error("Error fetching user locale:", error);
     }
   };
 
   const fetchDeck = async (deckId: string) => {
     try {
-      const deckData = await api.decks.get(deckId);
+      const deckData = await getDeckCached(deckId, api);
       setDeck(deckData);
     } catch (error) {
-      console.error("Error fetching deck:", error);
+      if (!isAbortError(error)) console.error("Error fetching deck:", error);
     }
   };
 
@@ -170,25 +189,11 @@ export default function PlaySoloPage() {
 
   const fetchCards = async (deckId: string) => {
     try {
-      const cardsData = await api.cards.list(deckId);
-      // Shuffle cards
-      const shuffled = cardsData.sort(() => Math.random() - 0.5);
-      setCards(shuffled);
-
-      // Assign random question type to each card (filter speech types if no mic)
-      const typesToUse = micEnabled
-        ? QUESTION_TYPE_LIST
-        : QUESTION_TYPE_LIST.filter((qt) => !isSpeechQuestion(qt));
-      const questions = shuffled.map((card: DbCard) => ({
-        card,
-        questionType:
-          typesToUse[
-            Math.floor(Math.random() * typesToUse.length)
-          ],
-      }));
-      setCardQuestions(questions);
+      const cardsData = await listCardsCached(deckId, api);
+      setCards(cardsData);
+      startQuiz(cardsData);
     } catch (error) {
-      console.error("Error fetching cards:", error);
+      if (!isAbortError(error)) console.error("Error fetching cards:", error);
     } finally {
       setLoading(false);
     }
@@ -197,15 +202,7 @@ export default function PlaySoloPage() {
   // Re-assign question types after voice prompt is dismissed (mic choice is now final)
   useEffect(() => {
     if (!showVoicePrompt && cards.length > 0) {
-      const typesToUse = micEnabled
-        ? QUESTION_TYPE_LIST
-        : QUESTION_TYPE_LIST.filter((qt) => !isSpeechQuestion(qt));
-      const questions = cards.map((card: DbCard) => ({
-        card,
-        questionType:
-          typesToUse[Math.floor(Math.random() * typesToUse.length)],
-      }));
-      setCardQuestions(questions);
+      startQuiz(cards);
       setCurrentIndex(0);
       setScore(0);
       setAnsweredCards(0);
@@ -219,40 +216,17 @@ export default function PlaySoloPage() {
   const currentCard = currentQuestion?.card;
   const questionType = currentQuestion?.questionType;
 
-  // Generate options when card changes (skip speech and written questions)
+  // Options come pre-built with the quiz (empty for speech and written questions)
   useEffect(() => {
-    if (currentCard && questionType && !isSpeechQuestion(questionType) && !isWrittenQuestion(questionType)) {
-      const newOptions = buildOptions({
-        question: currentCard,
-        questions: cards,
-        questionType,
-      });
-      setCurrentOptions(newOptions);
-    } else {
-      setCurrentOptions([]);
-    }
+    setCurrentOptions(currentQuestion?.options ?? []);
   }, [currentIndex, currentCard?.id, questionType]);
 
-  // Options now generated via shared helper above
-
   const handleSelectOption = async (option: string) => {
     if (selectedOption || !currentCard) return; // Already answered
 
     setSelectedOption(option);
 
-    let correctAnswer: string = '';
-    switch (questionType) {
-      case QUESTION_TYPES.SPANISH_TEXT_TO_ENGLISH_TEXT:
-      case QUESTION_TYPES.SPANISH_AUDIO_TO_ENGLISH_TEXT:
-        correctAnswer = getEnglishAnswer(currentCard);
-        break;
-      case QUESTION_TYPES.ENGLISH_TEXT_TO_SPANISH_TEXT:
-      case QUESTION_TYPES.ENGLISH_TEXT_TO_SPANISH_SPEECH:
-        correctAnswer = getSpanishAnswer(currentCard);
-        break;
-    }
-
-    const isCorrect = option === correctAnswer;
+    const isCorrect = isAcceptedOption(option, currentCard, questionType);
     setFeedback(isCorrect ? "correct" : "incorrect");
 
     if (isCorrect) {
@@ -276,6 +250,7 @@ export default function PlaySoloPage() {
     const isCorrect = result.isCorrect;
     setFeedback(isCorrect ? "correct" : "incorrect");
     setSelectedOption(result.userAnswer);
+    setWrittenResult(result);
 
     if (isCorrect) {
       setScore(score + 1);
@@ -298,11 +273,13 @@ export default function PlaySoloPage() {
     if (!currentCard) return;
     
     const target = getSpanishAnswer(currentCard);
+    const accepted = getSpanishAnswers(currentCard);
 
     try {
-      // Use lenient matching evaluation from backend
+      // Use lenient matching evaluation from backend; it only knows the main answer,
+      // so alternates are checked locally
       const result = await api.speech.evaluate(transcript, target, confidence);
-      const isCorrect = result.accepted;
+      const isCorrect = result.accepted || (accepted.length > 1 && matchAnswer(transcript, accepted).isCorrect);
 
       setFeedback(isCorrect ? "correct" : "incorrect");
       setSelectedOption(transcript);
@@ -326,10 +303,8 @@ export default function PlaySoloPage() {
       }, 2000);
     } catch (err) {
       console.error("Error evaluating speech:", err);
-      // Fallback to simple comparison
-      const normalized = normalizeSpanish(transcript);
-      const correctAnswer = normalizeSpanish(target);
-      const isCorrect = normalized === correctAnswer;
+      // Fallback to local matching
+      const isCorrect = matchAnswer(transcript, accepted).isCorrect;
 
       setFeedback(isCorrect ? "correct" : "incorrect");
       setSelectedOption(transcript);
@@ -368,7 +343,7 @@ export default function PlaySoloPage() {
     if (!deck || !currentCard) return;
     
     try {
-      await api.studyEvents.create({
+      await deliver("study_event", {
         deck_id: deck.id,
         card_id: currentCard.id,
         result,
@@ -390,11 +365,17 @@ export default function PlaySoloPage() {
     
     // Award XP for Solo Blitz (1 XP per correct answer)
     try {
-      const xpResponse = await api.xp.awardSoloBlitz({
+      const { queued, data: xpResponse } = await deliver("xp_solo_blitz", {
         setId: deckId || undefined,
         sessionId: `solo-${Date.now()}`,
         correctAnswers: scoreToUse,
+        totalQuestions: cardQuestions.length,
       });
+      if (queued) {
+        // Offline — XP is awarded once the outbox syncs
+        setXpEarned(scoreToUse);
+        return;
+      }
       setXpEarned(xpResponse.xpEarned || scoreToUse);
       setXpTotal(xpResponse.xpTotal || 0);
       
@@ -418,20 +399,8 @@ export default function PlaySoloPage() {
     setXpEarned(0);
     setXpTotal(0);
 
-    // Re-shuffle and re-assign question types (filter speech types if no mic)
-    const typesToUse = micEnabled
-      ? QUESTION_TYPE_LIST
-      : QUESTION_TYPE_LIST.filter((qt) => !isSpeechQuestion(qt));
-    const shuffled = cards.sort(() => Math.random() - 0.5);
-    setCards(shuffled);
-    const questions = shuffled.map((card: DbCard) => ({
-      card,
-      questionType:
-        typesToUse[
-          Math.floor(Math.random() * typesToUse.length)
-        ],
-    }));
-    setCardQuestions(questions);
+    // New seed: new card order, question types and options
+    startQuiz(cards);
   };
 
   // Get question prompt based on type
@@ -549,6 +518,33 @@ export default function PlaySoloPage() {
     );
   }
 
+  if (quizError) {
+    return (
+      <DashboardLayout>
+        <div className="max-w-4xl mx-auto py-12 text-center">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-4">
+            Not Enough Cards
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mb-6">{quizError}</p>
+          <div className="flex justify-center gap-3">
+            <Link
+              to={`/decks/${deck.id}`}
+              className="inline-block bg-blue-600 text-white px-6 py-3 rounded-xl hover:bg-blue-700"
+            >
+              Add Cards
+            </Link>
+            <Link
+              to="/play/solo"
+              className="inline-block border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 px-6 py-3 rounded-xl hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              Choose Another Set
+            </Link>
+          </div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
   if (gameEnded) {
     const accuracy = Math.round((score / cards.length) * 100);
 
@@ -704,19 +700,7 @@ export default function PlaySoloPage() {
             <div className="space-y-3 min-h-[300px]">
               {currentOptions.map((option, index) => {
                 const isSelected = selectedOption === option;
-                let correctAnswer;
-
-                switch (questionType) {
-                  case QUESTION_TYPES.SPANISH_TEXT_TO_ENGLISH_TEXT:
-                  case QUESTION_TYPES.SPANISH_AUDIO_TO_ENGLISH_TEXT:
-                    correctAnswer = getEnglishAnswer(currentCard);
-                    break;
-                  case QUESTION_TYPES.ENGLISH_TEXT_TO_SPANISH_TEXT:
-                    correctAnswer = getSpanishAnswer(currentCard);
-                    break;
-                }
-
-                const isCorrect = option === correctAnswer;
+                const isCorrect = isAcceptedOption(option, currentCard, questionType);
                 const showResult = selectedOption !== null;
 
                 let bgColor = "bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600 text-gray-900 dark:text-gray-100";
@@ -772,7 +756,9 @@ export default function PlaySoloPage() {
             <div className="space-y-4">
               <WrittenAnswer
                 correctAnswer={getSpanishAnswer(currentCard)}
+                alternates={getSpanishAnswers(currentCard)}
                 onResult={handleWrittenAnswer}
+                accentSensitive={!!deck.accent_sensitive}
               />
             </div>
           )}
@@ -783,12 +769,19 @@ export default function PlaySoloPage() {
               {feedback === "correct" ? (
                 <div className="p-4 rounded-lg bg-green-100 dark:bg-green-900/40 border-2 border-green-500">
                   <p className="font-medium text-green-800 dark:text-green-300">✓ Correct!</p>
+                  {writtenResult && hasUsefulDiff(writtenResult) && (
+                    <AnswerDiff diff={writtenResult.diff} hints={writtenResult.hints} className="mt-2" />
+                  )}
                 </div>
               ) : (
                 <>
                   <div className="p-4 rounded-lg bg-red-100 dark:bg-red-900/40 border-2 border-red-500">
                     <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">You typed:</p>
-                    <p className="font-medium text-gray-900 dark:text-gray-100">{selectedOption}</p>
+                    {writtenResult && hasUsefulDiff(writtenResult) ? (
+                      <AnswerDiff diff={writtenResult.diff} hints={writtenResult.hints} />
+                    ) : (
+                      <p className="font-medium text-gray-900 dark:text-gray-100">{selectedOption}</p>
+                    )}
                   </div>
                   <div className="p-4 bg-blue-50 dark:bg-blue-900/30 rounded-lg">
                     <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Correct answer:</p>
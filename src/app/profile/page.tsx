@@ -1,18 +1,28 @@
 import { useState, useEffect, useMemo, useCallback, useRef } from "react";
 import { useNavigate, Link } from "react-router-dom";
 import DashboardLayout from "@/shared/components/DashboardLayout";
-import { User, Globe, LogOut, Users, Plus, BookOpen, Settings, Mic, Camera, Clock, CheckCircle, ChevronRight } from "lucide-react";
+import { User, Globe, LogOut, Users, Plus, BookOpen, Settings, Mic, Camera, Clock, CheckCircle, ChevronRight, Target, History, Award } from "lucide-react";
 import useAuth from "@/shared/hooks/useAuth";
+import useStudyActivity from "@/shared/hooks/useStudyActivity";
+import useAchievements from "@/shared/hooks/useAchievements";
+import DailyGoalPicker from "@/shared/components/DailyGoalPicker";
+import StreakCalendar from "@/shared/components/StreakCalendar";
+import XpTimeline from "@/shared/components/XpTimeline";
+import BadgeShelf from "@/shared/components/BadgeShelf";
 import { useAuth as useAuthContext } from "@/lib/auth-context";
-import { api } from "@/config/api";
+import { useSync } from "@/lib/sync-context";
+import { api, NotFoundError } from "@/config/api";
 import type { DbUser } from "@/types/api.types";
 import { withAuth } from "@/shared/hoc/withAuth";
+import { freezableDay, resolveDailyGoal, type DailyGoal } from "@/domain/daily-goals";
 import { JoinClassroomUseCase } from "@/domain/use-cases/classroom/JoinClassroom";
 import { ClassroomRepository } from "@/infrastructure/repositories/ClassroomRepository";
 import { AuthService } from "@/infrastructure/services/AuthService";
 
 const DARK_BLUE = "#084178";
 const LIGHT_BLUE = "#10A5C3";
+/** Months of history the streak calendar can page back through */
+const CALENDAR_MONTHS = 6;
 
 function ProfilePage() {
   const navigate = useNavigate();
@@ -24,7 +34,7 @@ function ProfilePage() {
   const [stats, setStats] = useState({
     cardsStudied: 0, accuracy: 0, streak: 0, streakName: '',
     wordsMastered: 0, masteryLevel: { name: '', current: 0, min: 0, max: 249, progress: 0 },
-    xpRank: 0, setsCreated: 0,
+    xpRank: 0, setsCreated: 0, frozenDays: [] as string[],
   });
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -36,9 +46,18 @@ function ProfilePage() {
   const [assignments, setAssignments] = useState<any[]>([]);
   const [assignmentsLoading, setAssignmentsLoading] = useState(true);
   const [uploadingAvatar, setUploadingAvatar] = useState(false);
+  const [savingGoal, setSavingGoal] = useState(false);
+  const [freezing, setFreezing] = useState(false);
   const avatarInputRef = useRef<HTMLInputElement>(null);
   const { signOut } = useAuth();
+  const { pending: unsynced } = useSync();
   const { refetch: refetchAuthUser } = useAuthContext();
+  const calendarStart = useMemo(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth() - (CALENDAR_MONTHS - 1), 1);
+  }, []);
+  const { activity } = useStudyActivity(calendarStart);
+  const { badges } = useAchievements();
 
   useEffect(() => {
     let mounted = true;
@@ -56,7 +75,7 @@ function ProfilePage() {
         setDisplayName(userData.display_name || '');
         setPreferredLocale(userData.preferred_locale || 'es-ES');
         setPreferredVoiceGender((userData as any).preferred_voice_gender || 'female');
-        setStats(statsData);
+        setStats({ ...statsData, frozenDays: statsData.frozenDays ?? [] });
         setClassrooms(classroomsData);
         
         // Check if Google Cloud TTS is configured
@@ -153,7 +172,49 @@ function ProfilePage() {
     }
   }, [displayName, preferredLocale, preferredVoiceGender, refetchAuthUser]);
 
+  const handleGoalChange = async (goal: DailyGoal) => {
+    setSavingGoal(true);
+    try {
+      const updated = await api.users.patch({
+        daily_goal_type: goal.type,
+        daily_goal_target: goal.target,
+      });
+      setUser(updated);
+      // The layout's goal ring reads the user from AuthContext
+      await refetchAuthUser();
+    } catch (error) {
+      console.error("❌ [Profile] Error updating daily goal:", error);
+      setMessage("Error updating your daily goal. Please try again.");
+      setTimeout(() => setMessage(""), 3000);
+    } finally {
+      setSavingGoal(false);
+    }
+  };
+
+  const handleFreeze = async (day: string) => {
+    setFreezing(true);
+    try {
+      const result = await api.streak.freeze(day);
+      setStats((prev) => ({ ...prev, streak: result.streak, frozenDays: result.frozenDays }));
+      setUser((prev) => (prev ? { ...prev, streak_freezes: result.streakFreezes } : prev));
+    } catch (error) {
+      console.error("❌ [Profile] Error using streak freeze:", error);
+      setMessage("Couldn't use a streak freeze. Please try again.");
+      setTimeout(() => setMessage(""), 3000);
+    } finally {
+      setFreezing(false);
+    }
+  };
+
   const handleSignOut = async () => {
+    if (
+      unsynced > 0 &&
+      !confirm(
+        `You have ${unsynced} unsynced change${unsynced === 1 ? "" : "s"}. They'll stay on this device and sync the next time you sign in. Sign out anyway?`,
+      )
+    ) {
+      return;
+    }
     await signOut();
     window.location.href = "/";
   };
@@ -237,7 +298,7 @@ function ProfilePage() {
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : "Failed to join class";
       // Make error messages more user-friendly
-      if (errorMessage.includes("Invalid classroom code") || errorMessage.includes("not found")) {
+      if (err instanceof NotFoundError || errorMessage.includes("Invalid classroom code")) {
         setJoinMessage("Classroom not found. Please check the code and try again.");
       } else {
         setJoinMessage(errorMessage);
@@ -263,6 +324,9 @@ function ProfilePage() {
     );
   }
 
+  const dailyGoal = resolveDailyGoal(user);
+  const isPremium = user?.plan === "premium" || user?.plan === "gold" || !!user?.is_premium;
+
   const planLabel = user?.plan === "premium" ? "Premium" : user?.plan === "gold" ? "Gold" : "Free";
   const planColor = user?.plan === "premium" ? "from-yellow-400 to-orange-500" : user?.plan === "gold" ? "from-yellow-300 to-yellow-500" : "from-gray-400 to-gray-500";
 
@@ -399,7 +463,10 @@ function ProfilePage() {
           </div>
         )}
         {stats.xpRank > 0 && (
-          <div className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 p-5 flex items-center gap-4">
+          <Link
+            to="/leaderboard"
+            className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 p-5 flex items-center gap-4 hover:shadow-md transition-shadow"
+          >
             <span className="text-3xl">🏆</span>
             <div>
               <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Global XP Rank</p>
@@ -407,10 +474,72 @@ function ProfilePage() {
                 <span className="dark:text-blue-300">#{stats.xpRank}</span>
               </p>
             </div>
-          </div>
+          </Link>
         )}
       </div>
 
+      {/* ─── Badges ─── */}
+      {badges.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 overflow-hidden mb-8">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center gap-2">
+            <Award size={18} className="text-gray-500" />
+            <h2 className="font-bold text-gray-900 dark:text-gray-100">Badges</h2>
+          </div>
+          <div className="p-6">
+            <BadgeShelf badges={badges} />
+          </div>
+        </div>
+      )}
+
+      {/* ─── Daily Goal & Streak ─── */}
+      <div id="daily-goal" className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 overflow-hidden mb-8 scroll-mt-20">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center gap-2">
+          <Target size={18} className="text-gray-500" />
+          <h2 className="font-bold text-gray-900 dark:text-gray-100">Daily Goal & Streak</h2>
+        </div>
+        <div className="p-6 grid md:grid-cols-2 gap-8">
+          <div>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+              How much do you want to practise each day? Your progress shows in the ring next to the menu.
+            </p>
+            <DailyGoalPicker goal={dailyGoal} onChange={handleGoalChange} disabled={savingGoal} />
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-5">
+              Current streak: <span className="font-bold text-orange-500">{stats.streak} 🔥</span>
+              {isPremium && (
+                <span className="ml-2">· {user?.streak_freezes ?? 0} ❄️ freezes left</span>
+              )}
+            </p>
+          </div>
+          <StreakCalendar
+            activity={activity}
+            goal={dailyGoal}
+            frozenDays={stats.frozenDays}
+            minMonth={calendarStart}
+            freezable={freezableDay(activity, stats.frozenDays)}
+            freezesLeft={user?.streak_freezes ?? 0}
+            isPremium={isPremium}
+            onFreeze={handleFreeze}
+            freezing={freezing}
+          />
+        </div>
+      </div>
+
+      {/* ─── XP History ─── */}
+      <div className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 overflow-hidden mb-8">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <History size={18} className="text-gray-500" />
+            <h2 className="font-bold text-gray-900 dark:text-gray-100">XP History</h2>
+          </div>
+          <Link to="/leaderboard" className="flex items-center gap-1 text-sm font-medium hover:underline" style={{ color: LIGHT_BLUE }}>
+            Leaderboard <ChevronRight size={16} />
+          </Link>
+        </div>
+        <div className="p-6">
+          <XpTimeline />
+        </div>
+      </div>
+
       {/* ─── Main Content Grid ─── */}
       <div className="grid lg:grid-cols-2 gap-6">
         {/* Settings Card */}
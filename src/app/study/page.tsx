@@ -5,15 +5,25 @@ import DashboardLayout from "@/shared/components/DashboardLayout";
 import TTSButton from "@/shared/components/TTSButton";
 import SpeechRecognition, { type SpeechRecognitionHandle } from "@/shared/components/SpeechRecognition";
 import MicPermissionModal from "@/shared/components/MicPermissionModal";
-import WrittenAnswer, { type WrittenResult } from "@/shared/components/WrittenAnswer";
-import { ArrowLeft, Check, X, Zap, Trophy, RefreshCw, RotateCw, Undo2 } from "lucide-react";
-import { api } from "@/config/api";
+import WrittenAnswer, { type WrittenResult, hasUsefulDiff } from "@/shared/components/WrittenAnswer";
+import AnswerDiff from "@/shared/components/AnswerDiff";
+import PronunciationFeedback from "@/shared/components/PronunciationFeedback";
+import ShadowingPanel from "@/shared/components/ShadowingPanel";
+import { ArrowLeft, Check, X, Zap, Trophy, RefreshCw, RotateCw, Undo2, History, Headphones } from "lucide-react";
+import { useApi, isAbortError } from "@/hooks/useApi";
+import { deliver } from "@/lib/outbox";
+import { getDeckCached, listCardsCached } from "@/lib/offline-cache";
 import { withAuth } from "@/shared/hoc/withAuth";
 import useUser from "@/shared/hooks/useUser";
 import { useMicrophone } from "@/lib/microphone-context";
 import { useNavigationGuard } from "@/lib/navigation-guard-context";
+import { alignWords, matchAnswer, type WordAlignment } from "@/lib/answer-matching";
 import { usePrefetchVocabularyAudio } from "@/shared/hooks/usePrefetchAudio";
-import type { DbDeck, DbCard } from "@/types/api.types";
+import { applyReview, buildSchedules, createCardSchedule, gradeFromEvent, planStudySession, type CardSchedule } from "@/domain/srs";
+import { MISTAKE_REVIEW_DEFAULTS, buildMistakePool, pickMistakeCards, type MistakeEvent } from "@/domain/mistake-review";
+import { buildCardMastery, masteryFor } from "@/domain/card-mastery";
+import { attemptsFromEvents, cardAttempts, pronunciationScore, type PronunciationAttempt } from "@/domain/pronunciation";
+import type { DbDeck, DbCard, DbStudyEvent } from "@/types/api.types";
 
 // Variant types
 const VARIANT_A = "spanish_to_english"; // Listening + Meaning
@@ -29,21 +39,6 @@ const COMPLETION_PHRASES = [
   "✅ Excellente!",
 ];
 
-// Normalize text for comparison
-function normalizeForComparison(text: string): string {
-  return text
-    .toLowerCase()
-    .trim()
-    .replace(/[¿?¡!.,;:\"']/g, "") // remove punctuation
-    .replace(/á/g, "a")
-    .replace(/é/g, "e")
-    .replace(/í/g, "i")
-    .replace(/ó/g, "o")
-    .replace(/ú/g, "u")
-    .replace(/ü/g, "u");
-  // Note: ñ is kept as is (not normalized)
-}
-
 // Shuffle array helper
 function shuffleArray<T>(array: T[]): T[] {
   const shuffled = [...array];
@@ -56,15 +51,23 @@ function shuffleArray<T>(array: T[]): T[] {
 
 function StudyPage() {
   const navigate = useNavigate();
+  const api = useApi();
   const { user } = useUser();
   const { micEnabled, resetMic } = useMicrophone();
   const [showMicPrompt, setShowMicPrompt] = useState(true);
   const userLocale = user?.preferred_locale || 'es-ES';
   
   const [deckId, setDeckId] = useState<string | null>(null);
+  // "Review my mistakes": a virtual deck of recently missed cards from every deck
+  const [reviewingMistakes, setReviewingMistakes] = useState(false);
+  const mistakeEventsRef = useRef<MistakeEvent[]>([]);
+  const [mistakeResult, setMistakeResult] = useState<{ cleared: number; left: number } | null>(null);
+  // "Study only weak cards" from the deck page
+  const [weakOnly, setWeakOnly] = useState(false);
   const [classroomId, setClassroomId] = useState<string | null>(null);
   const [assignmentId, setAssignmentId] = useState<string | null>(null);
   const [deck, setDeck] = useState<DbDeck | null>(null);
+  const [deckCards, setDeckCards] = useState<DbCard[]>([]);
   const [cards, setCards] = useState<DbCard[]>([]);
   const [currentCardIndex, setCurrentCardIndex] = useState(0);
   const [isFlipped, setIsFlipped] = useState(false);
@@ -74,13 +77,29 @@ function StudyPage() {
   const [speechFeedback, setSpeechFeedback] = useState<{
     transcript: string;
     isCorrect: boolean;
+    target: string;
+    alignment: WordAlignment[];
+    score: number;
+    confidence: number | null;
   } | null>(null);
+  // Speech attempts from the loaded history plus this session, for the per-card trend
+  const [speechAttempts, setSpeechAttempts] = useState<PronunciationAttempt[]>([]);
+  // Shadowing: record-and-compare against the model audio once a card is flipped
+  const [shadowing, setShadowing] = useState(false);
   const [writtenFeedback, setWrittenFeedback] = useState<WrittenResult | null>(null);
   const [isCompleted, setIsCompleted] = useState(false);
 
   // Variant assignment for each card
   const [cardVariants, setCardVariants] = useState<Variant[]>([]);
 
+  // Spaced-repetition schedules per card (replayed from study events, updated as we go)
+  const [schedules, setSchedules] = useState<Map<string, CardSchedule>>(new Map());
+  const [sessionPlan, setSessionPlan] = useState<{ due: number; fresh: number; ahead: boolean }>({
+    due: 0,
+    fresh: 0,
+    ahead: false,
+  });
+
   // Track hard cards and their repetition count
   const [hardCardRepetitions, setHardCardRepetitions] = useState<Record<string, number>>({});
 
@@ -172,15 +191,24 @@ function StudyPage() {
       const id = params.get("deck");
       const classroom = params.get("classroom");
       const assignment = params.get("assignment");
+
+      if (params.get("mode") === "mistakes") {
+        setReviewingMistakes(true);
+        fetchMistakes();
+        fetchUser();
+        return;
+      }
       
       if (!id) {
         navigate("/dashboard", { replace: true });
         return;
       }
+      const focusWeak = params.get("focus") === "weak" && !assignment;
       setDeckId(id);
       setClassroomId(classroom);
       setAssignmentId(assignment);
-      fetchDeckAndCards(id, classroom, assignment);
+      setWeakOnly(focusWeak);
+      fetchDeckAndCards(id, classroom, assignment, focusWeak);
       fetchUser();
     }
   }, []);
@@ -190,15 +218,25 @@ function StudyPage() {
       const data = await api.users.current();
       setUserId(data.id);
     } catch (err) {
-      console.error("Error fetching user:", err);
+      if (!isAbortError(err)) console.error("Error fetching user:", err);
     }
   };
 
-  const fetchDeckAndCards = async (id: string, classroom?: string | null, assignment?: string | null) => {
+  const fetchDeckAndCards = async (
+    id: string,
+    classroom?: string | null,
+    assignment?: string | null,
+    focusWeak = false
+  ) => {
     try {
       const promises: Promise<any>[] = [
-        api.decks.get(id),
-        api.cards.list(id),
+        getDeckCached(id, api),
+        listCardsCached(id, api),
+        // Review history feeds the scheduler — study still works without it
+        api.studyEvents.list({ deck_id: id }).catch((err) => {
+          if (!isAbortError(err)) console.error("Error fetching study history:", err);
+          return [];
+        }),
       ];
 
       // If this is an assignment, fetch assignment details to get repetitions
@@ -209,7 +247,8 @@ function StudyPage() {
       const results = await Promise.all(promises);
       const deckData = results[0];
       const cardsData = results[1];
-      const assignmentsData = results[2];
+      const eventsData: DbStudyEvent[] = results[2] || [];
+      const assignmentsData = results[3];
 
       // If we have assignment data, find this assignment and get repetitions
       if (assignmentsData && assignment) {
@@ -230,16 +269,79 @@ function StudyPage() {
         return;
       }
 
+      // Weak cards only: the whole subset, whatever is due
+      const mastery = focusWeak ? buildCardMastery(eventsData) : null;
+      const studyCards = mastery ? cardsData.filter((card: DbCard) => masteryFor(mastery, card.id).weak) : cardsData;
+      if (studyCards.length === 0) {
+        setError("No weak cards in this set right now — nice work!");
+        setLoading(false);
+        return;
+      }
+
+      const scheduleMap = buildSchedules(eventsData);
+      setSpeechAttempts(attemptsFromEvents(eventsData));
       setDeck(deckData);
-      initializeStudySession(cardsData);
+      setDeckCards(studyCards);
+      setSchedules(scheduleMap);
+      initializeStudySession(studyCards, scheduleMap, !!assignment || focusWeak);
       setLoading(false);
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error("Error fetching deck:", err);
       setError(err instanceof Error ? err.message : "Failed to load deck");
       setLoading(false);
     }
   };
 
+  const fetchMistakes = async () => {
+    try {
+      const since = new Date(Date.now() - MISTAKE_REVIEW_DEFAULTS.LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+      const eventsData = await api.studyEvents.list({ since: since.toISOString() });
+      const pool = buildMistakePool(eventsData);
+      if (pool.length === 0) {
+        setError("No mistakes to review. Cards you miss in any set will show up here.");
+        setLoading(false);
+        return;
+      }
+
+      // Only the decks the session will use; a deck that fails to load just drops its cards
+      const deckIds = [
+        ...new Set(
+          pool
+            .slice(0, MISTAKE_REVIEW_DEFAULTS.MAX_CARDS * 2)
+            .map((entry) => entry.deckId)
+            .filter((id): id is string => !!id)
+        ),
+      ];
+      const cardLists = await Promise.all(
+        deckIds.map((id) =>
+          listCardsCached(id, api).catch((err) => {
+            if (!isAbortError(err)) console.error("Error fetching cards for deck:", id, err);
+            return [] as DbCard[];
+          })
+        )
+      );
+      const queue = pickMistakeCards(pool, cardLists.flat());
+      if (queue.length === 0) {
+        setError("The cards you missed are no longer available.");
+        setLoading(false);
+        return;
+      }
+
+      mistakeEventsRef.current = eventsData;
+      setSpeechAttempts(attemptsFromEvents(eventsData));
+      setDeckCards(queue);
+      setSchedules(buildSchedules(eventsData));
+      startMistakeReview(queue);
+      setLoading(false);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Error fetching mistakes:", err);
+      setError(err instanceof Error ? err.message : "Failed to load your mistakes");
+      setLoading(false);
+    }
+  };
+
   // ⚠️ PREFETCH DESHABILITADO: Causaba rate limiting de Microsoft Edge TTS
   // El audio ahora se carga on-demand cuando el usuario presiona el botón
   // Mantiene caché local para reproducción instantánea en segunda vez
@@ -270,11 +372,27 @@ function StudyPage() {
     }
   }, [showMicPrompt]);
 
-  const initializeStudySession = (cardsData: DbCard[]) => {
-    // Shuffle cards and assign random variants
+  const initializeStudySession = (
+    cardsData: DbCard[],
+    scheduleMap: Map<string, CardSchedule>,
+    coverAll: boolean
+  ) => {
+    // Order cards by the SRS plan: due reviews first, then today's new cards.
+    // Assignments and weak-card sessions always cover every card they were
+    // given; free study only falls back to ahead-of-schedule cards when
+    // nothing is due.
+    const plan = planStudySession(cardsData, scheduleMap);
+    const scheduled = [...plan.due, ...shuffleArray(plan.fresh)];
+    const practiceAhead = scheduled.length === 0;
+    const queue = coverAll || practiceAhead
+      ? [...scheduled, ...plan.ahead]
+      : scheduled;
+
+    setSessionPlan({ due: plan.due.length, fresh: plan.fresh.length, ahead: practiceAhead });
+
+    // Assign random variants
     // When mic is disabled, force only Variant A (Listening) — Variant B requires speaking
-    const shuffled = shuffleArray(cardsData);
-    const variants: Variant[] = shuffled.map(() => {
+    const variants: Variant[] = queue.map(() => {
       const rand = Math.random();
       if (micEnabled) {
         return rand < 0.33 ? VARIANT_A : rand < 0.66 ? VARIANT_B : VARIANT_C;
@@ -282,7 +400,7 @@ function StudyPage() {
       return rand < 0.5 ? VARIANT_A : VARIANT_C;
     });
 
-    setCards(shuffled);
+    setCards(queue);
     setCardVariants(variants);
     setCurrentCardIndex(0);
     setIsFlipped(false);
@@ -297,16 +415,74 @@ function StudyPage() {
     }
   };
 
+  // Mistakes come in pool order (most missed, most recent first), not the SRS plan
+  const startMistakeReview = (queue: DbCard[]) => {
+    setSessionPlan({ due: queue.length, fresh: 0, ahead: false });
+    const variants: Variant[] = queue.map(() => {
+      const rand = Math.random();
+      if (micEnabled) {
+        return rand < 0.33 ? VARIANT_A : rand < 0.66 ? VARIANT_B : VARIANT_C;
+      }
+      return rand < 0.5 ? VARIANT_A : VARIANT_C;
+    });
+
+    setCards(queue);
+    setCardVariants(variants);
+    setCurrentCardIndex(0);
+    setIsFlipped(false);
+    setIsCompleted(false);
+    setSpeechFeedback(null);
+    setWrittenFeedback(null);
+    setHardCardRepetitions({});
+    setHardCardsCount(0);
+    setMistakeResult(null);
+    if (speechRecognitionRef.current?.isListening()) {
+      speechRecognitionRef.current.stop();
+    }
+  };
+
+  // A card is cleared once it has been answered correctly enough times in a row
+  const finishMistakeReview = () => {
+    const remaining = new Set(buildMistakePool(mistakeEventsRef.current).map((entry) => entry.cardId));
+    const reviewed = new Set(cards.map((card) => card.id));
+    const left = [...reviewed].filter((id) => remaining.has(id)).length;
+    setMistakeResult({ cleared: reviewed.size - left, left });
+  };
+
   const handleStudyAgain = () => {
-    initializeStudySession(cards);
+    if (reviewingMistakes) {
+      // What's left of the pool, including this session's answers
+      const queue = pickMistakeCards(buildMistakePool(mistakeEventsRef.current), deckCards);
+      if (queue.length > 0) startMistakeReview(queue);
+      else navigate("/dashboard");
+      return;
+    }
+    initializeStudySession(deckCards, schedules, !!assignmentId || weakOnly);
+  };
+
+  // Fold an answer into the local schedule so "Study Again" reflects this session
+  const recordReview = (cardId: string, result: 'correct' | 'incorrect', responseType: string) => {
+    if (reviewingMistakes) {
+      const card = cards.find((c) => c.id === cardId);
+      mistakeEventsRef.current = [
+        ...mistakeEventsRef.current,
+        { card_id: cardId, deck_id: card?.deck_id ?? null, result, created_at: new Date().toISOString() },
+      ];
+    }
+    setSchedules((prev) => {
+      const next = new Map(prev);
+      const current = prev.get(cardId) ?? createCardSchedule(cardId);
+      next.set(cardId, applyReview(current, gradeFromEvent({ result, response_type: responseType }), new Date()));
+      return next;
+    });
   };
 
   const markAssignmentComplete = async () => {
     if (!classroomId || !assignmentId) return;
     
     try {
-      const result = await api.classrooms.completeAssignment(classroomId, assignmentId);
-      // Update local state with the server's authoritative count
+      const { data: result } = await deliver("assignment_complete", { classroomId, assignmentId });
+      // Update local state with the server's authoritative count (not available while queued offline)
       if (result && typeof result.repetitions_completed === 'number') {
         setCompletedRepetitions(result.repetitions_completed);
       }
@@ -316,6 +492,8 @@ function StudyPage() {
   };
 
   const currentCard = cards[currentCardIndex];
+  // Mistake review mixes decks, so each event goes to its card's own deck
+  const eventDeckId = deckId ?? currentCard?.deck_id ?? null;
   const currentVariant = cardVariants[currentCardIndex];
   const isLastCard = currentCardIndex === cards.length - 1;
 
@@ -330,11 +508,13 @@ function StudyPage() {
   };
 
   const handleMarkCard = async (difficulty: 'correct' | 'hard') => {
-    if (!userId || !currentCard || !deckId) return;
+    if (!userId || !currentCard || !eventDeckId) return;
+
+    recordReview(currentCard.id, difficulty === 'correct' ? 'correct' : 'incorrect', "tap");
 
     try {
-      await api.studyEvents.create({
-        deck_id: deckId,
+      await deliver("study_event", {
+        deck_id: eventDeckId,
         card_id: currentCard.id,
         result: difficulty === 'correct' ? 'correct' : 'incorrect',
         mode: "study",
@@ -403,6 +583,7 @@ function StudyPage() {
     // Move to next card or show completion
     if (currentCardIndex >= cards.length - 1) {
       setIsCompleted(true);
+      if (reviewingMistakes) finishMistakeReview();
       // Mark assignment as completed if this is from a classroom
       if (classroomId && assignmentId) {
         // Only increment if not already at the required count (prevents 4/3)
@@ -427,19 +608,44 @@ function StudyPage() {
   const speechRecognitionRef = useRef<SpeechRecognitionHandle>(null);
 
   const handleSpeechResult = async (transcript: string, confidence?: number) => {
-    if (!currentCard || !deckId) return;
-
-    const target = currentCard.prompt_es || currentCard.question;
+    if (!currentCard || !eventDeckId) return;
 
-    // Use lenient matching evaluation from backend
-    try {
-      const result = await api.speech.evaluate(transcript, target, confidence);
-      const isCorrect = result.accepted;
+    const target = currentCard.prompt_es || currentCard.question || "";
+    const accepted = [target, ...(currentCard.accepted_es ?? [])];
+    const local = matchAnswer(transcript, accepted);
 
+    // Word-by-word feedback against the closest accepted answer
+    const alignment = alignWords(transcript, local.matchedAnswer);
+    const score = pronunciationScore(alignment);
+    const showFeedback = (isCorrect: boolean) => {
       setSpeechFeedback({
         transcript,
         isCorrect,
+        target: local.matchedAnswer,
+        alignment,
+        score,
+        confidence: confidence ?? null,
       });
+      setSpeechAttempts((prev) => [
+        ...prev,
+        {
+          cardId: currentCard.id,
+          at: new Date().toISOString(),
+          transcript,
+          score,
+          confidence: confidence ?? null,
+          accepted: isCorrect,
+        },
+      ]);
+    };
+
+    // Use lenient matching evaluation from backend; it only knows the main answer,
+    // so alternates are checked locally
+    try {
+      const result = await api.speech.evaluate(transcript, target, confidence);
+      const isCorrect = result.accepted || (accepted.length > 1 && local.isCorrect);
+
+      showFeedback(isCorrect);
 
       // Stop microphone if answer is correct
       if (isCorrect && speechRecognitionRef.current) {
@@ -449,14 +655,17 @@ function StudyPage() {
 
       // Record study event with speech
       if (userId) {
+        recordReview(currentCard.id, isCorrect ? "correct" : "incorrect", "speech");
         try {
-          await api.studyEvents.create({
-            deck_id: deckId,
+          await deliver("study_event", {
+            deck_id: eventDeckId,
             card_id: currentCard.id,
             result: isCorrect ? "correct" : "incorrect",
             mode: "study",
             response_type: "speech",
             transcript_es: transcript,
+            speech_confidence: confidence,
+            pronunciation_score: score,
           });
         } catch (err) {
           console.error("Error recording speech event:", err);
@@ -464,28 +673,22 @@ function StudyPage() {
       }
     } catch (err) {
       console.error("Error evaluating speech:", err);
-      // Fallback to simple comparison if backend fails
-      const expected = normalizeForComparison(target);
-      const actual = normalizeForComparison(transcript);
-      const isCorrect = expected === actual;
-      
-      setSpeechFeedback({
-        transcript,
-        isCorrect,
-      });
+      // Fallback to local matching if backend fails
+      showFeedback(local.isCorrect);
     }
   };
 
   const handleWrittenResult = async (result: WrittenResult) => {
-    if (!currentCard || !deckId) return;
+    if (!currentCard || !eventDeckId) return;
 
     setWrittenFeedback(result);
 
     // Record study event with written answer
     if (userId) {
+      recordReview(currentCard.id, result.isCorrect ? "correct" : "incorrect", "written");
       try {
-        await api.studyEvents.create({
-          deck_id: deckId,
+        await deliver("study_event", {
+          deck_id: eventDeckId,
           card_id: currentCard.id,
           result: result.isCorrect ? "correct" : "incorrect",
           mode: "study",
@@ -592,6 +795,15 @@ function StudyPage() {
                 You studied <strong>{cards.length} cards</strong> ·{" "}
                 <strong>{hardCardsCount} marked Hard</strong>
               </p>
+
+              {mistakeResult && (
+                <p className="mt-3 text-gray-600 dark:text-gray-400">
+                  <strong className="text-green-600">{mistakeResult.cleared} cleared</strong> ·{" "}
+                  {mistakeResult.left === 0
+                    ? "all of them are off your mistakes list!"
+                    : `${mistakeResult.left} still need practice`}
+                </p>
+              )}
               
               {isAssignment && (
                 <div className="mt-6">
@@ -667,9 +879,9 @@ function StudyPage() {
                   className="flex items-center justify-center gap-2 bg-blue-600 text-white font-bold py-4 px-8 rounded-lg hover:bg-blue-700 transition-colors shadow-lg"
                 >
                   <RefreshCw size={20} />
-                  Study Again
+                  {reviewingMistakes ? (mistakeResult?.left ? "Keep Reviewing" : "Back to Dashboard") : "Study Again"}
                 </button>
-                {!isAssignment && (
+                {!isAssignment && !reviewingMistakes && (
                   <Link
                     to={`/play/solo?deck=${deckId}`}
                     className="flex items-center justify-center gap-2 bg-gray-200 text-gray-700 font-bold py-4 px-8 rounded-lg hover:bg-gray-300 transition-colors shadow-lg"
@@ -681,10 +893,16 @@ function StudyPage() {
               </div>
             )}
 
-            {!isAssignment && (
+            {reviewingMistakes ? (
               <div className="mt-8 bg-gradient-to-r from-purple-50 to-pink-50 border border-purple-200 rounded-lg p-4">
                 <p className="text-sm text-purple-800 text-center">
-                  <span className="font-semibold">💡 Tip:</span> "Study Again" will shuffle the cards and give you a fresh mix of listening and speaking practice!
+                  <span className="font-semibold">💡 Tip:</span> A card leaves your mistakes list after {MISTAKE_REVIEW_DEFAULTS.CLEAR_AFTER_CORRECT} correct answers in a row, in any mode.
+                </p>
+              </div>
+            ) : !isAssignment && (
+              <div className="mt-8 bg-gradient-to-r from-purple-50 to-pink-50 border border-purple-200 rounded-lg p-4">
+                <p className="text-sm text-purple-800 text-center">
+                  <span className="font-semibold">💡 Tip:</span> Cards come back on a spaced-repetition schedule — the ones you find hard show up sooner. "Study Again" runs another round with a fresh mix of listening and speaking practice!
                 </p>
               </div>
             )}
@@ -708,12 +926,30 @@ function StudyPage() {
           </button>
           <div className="bg-white dark:bg-white/10 backdrop-blur-sm rounded-xl p-5 border border-gray-200 dark:border-white/10 shadow-sm">
             <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-1">
-              Study Mode: {deck?.title}
+              {reviewingMistakes ? (
+                <span className="inline-flex items-center gap-2"><History size={22} /> Review My Mistakes</span>
+              ) : (
+                <>Study Mode: {deck?.title}</>
+              )}
             </h1>
             <div className="flex items-center justify-between text-gray-500 dark:text-blue-100 text-sm">
               <span>
                 Card {currentCardIndex + 1} of {cards.length}
               </span>
+              {micEnabled && (
+                <button
+                  onClick={() => setShadowing((v) => !v)}
+                  aria-pressed={shadowing}
+                  className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-semibold transition-colors ${
+                    shadowing
+                      ? "bg-purple-600 text-white"
+                      : "bg-gray-100 text-gray-600 hover:bg-gray-200 dark:bg-white/10 dark:text-blue-100 dark:hover:bg-white/20"
+                  }`}
+                >
+                  <Headphones size={14} />
+                  Shadowing {shadowing ? "on" : "off"}
+                </button>
+              )}
               <span className="text-sm">
                 {currentVariant === VARIANT_A
                   ? "🎧 Listening + Meaning"
@@ -722,6 +958,15 @@ function StudyPage() {
                     : "💬 Recall + Pronunciation"}
               </span>
             </div>
+            <p className="mt-2 text-xs text-gray-400 dark:text-blue-200/80">
+              {reviewingMistakes
+                ? `${sessionPlan.due} cards you missed recently, from all your sets`
+                : weakOnly
+                  ? `Weak cards only · ${deckCards.length} to practice`
+                  : sessionPlan.ahead
+                    ? "Nothing due today — practicing ahead of schedule"
+                    : `${sessionPlan.due} due for review · ${sessionPlan.fresh} new`}
+            </p>
           </div>
         </div>
 
@@ -760,7 +1005,7 @@ function StudyPage() {
                     </p>
                     <div className="flex justify-center">
                       <TTSButton
-                        text={currentCard.prompt_es || currentCard.question}
+                        text={currentCard.prompt_es || currentCard.question || ""}
                         locale={userLocale}
                         size="large"
                       />
@@ -777,8 +1022,10 @@ function StudyPage() {
                     </p>
                     <div className="mt-6 max-w-md mx-auto">
                       <WrittenAnswer
-                        correctAnswer={currentCard.prompt_es || currentCard.question}
+                        correctAnswer={currentCard.prompt_es || currentCard.question || ""}
+                        alternates={currentCard.accepted_es ?? []}
                         onResult={handleWrittenResult}
+                        accentSensitive={!!deck?.accent_sensitive}
                       />
                     </div>
                   </>
@@ -841,10 +1088,14 @@ function StudyPage() {
                               : '✓ Correct!'
                             : '💡 Review the correct answer above'}
                         </p>
-                        {!writtenFeedback.isCorrect && (
-                          <p className="text-sm text-gray-600 mt-1">
-                            You wrote: "{writtenFeedback.userAnswer}"
-                          </p>
+                        {hasUsefulDiff(writtenFeedback) ? (
+                          <AnswerDiff diff={writtenFeedback.diff} hints={writtenFeedback.hints} className="mt-2" />
+                        ) : (
+                          !writtenFeedback.isCorrect && (
+                            <p className="text-sm text-gray-600 mt-1">
+                              You wrote: "{writtenFeedback.userAnswer}"
+                            </p>
+                          )
                         )}
                       </div>
                     )}
@@ -873,30 +1124,15 @@ function StudyPage() {
                     )}
 
                     {micEnabled && speechFeedback && (
-                      <div
-                        className={`mt-4 p-4 rounded-lg ${
-                          speechFeedback.isCorrect
-                            ? "bg-green-50 border border-green-200"
-                            : "bg-yellow-50 border border-yellow-200"
-                        }`}
-                      >
-                        <p
-                          className={`font-medium ${
-                            speechFeedback.isCorrect
-                              ? "text-green-800"
-                              : "text-yellow-800"
-                          }`}
-                        >
-                          {speechFeedback.isCorrect
-                            ? "✓ Correct!"
-                            : "Try again - keep practicing!"}
-                        </p>
-                        {!speechFeedback.isCorrect && (
-                          <p className="text-sm text-gray-600 mt-1">
-                            You said: "{speechFeedback.transcript}"
-                          </p>
-                        )}
-                      </div>
+                      <PronunciationFeedback
+                        target={speechFeedback.target}
+                        alignment={speechFeedback.alignment}
+                        score={speechFeedback.score}
+                        confidence={speechFeedback.confidence}
+                        accepted={speechFeedback.isCorrect}
+                        history={cardAttempts(speechAttempts, currentCard.id)}
+                        locale={userLocale}
+                      />
                     )}
                   </>
                 )}
@@ -906,6 +1142,17 @@ function StudyPage() {
         </motion.div>
         </AnimatePresence>
 
+        {micEnabled && shadowing && isFlipped && (
+          <div className="mb-6">
+            <ShadowingPanel
+              key={currentCard.id}
+              cardId={currentCard.id}
+              text={currentCard.prompt_es || currentCard.question || ""}
+              locale={userLocale}
+            />
+          </div>
+        )}
+
         {/* Action buttons */}
         <div className="flex gap-4">
           {!isFlipped ? (
@@ -4,46 +4,20 @@ import DashboardLayout from "@/shared/components/DashboardLayout";
 import useUser from "@/shared/hooks/useUser";
 import { ArrowLeft, Users, Trash2, Plus, Calendar, Loader2, Copy, Check, BookOpen } from "lucide-react";
 import { api } from "@/config/api";
-import type { DbClassroom, DbDeck } from "@/types/api.types";
+import type { ClassroomStudent, DbAssignment, DbClassroom, DbDeck } from "@/types/api.types";
 import { withTeacherAuth } from "@/shared/hoc/withAuth";
 import { CreateAssignmentUseCase, DeleteAssignmentUseCase } from "@/domain/use-cases/assignment";
 import { AssignmentRepository } from "@/infrastructure/repositories/AssignmentRepository";
 import { AuthService } from "@/infrastructure/services/AuthService";
 
-interface Student {
-  id: string;
-  email: string;
-  display_name: string | null;
-  xp_total: number;
-  joined_at: Date;
-  is_active: boolean;
-}
-
-interface Assignment {
-  id: string;
-  classroom_id: string;
-  deck_id: string | null;
-  title: string;
-  description: string | null;
-  due_date: Date | null;
-  created_at: Date;
-  deck_title?: string;
-  completed_count?: number;
-  total_students?: number;
-  required_repetitions: number;
-  xp_reward?: number | null;
-  xp_goal?: number | null;
-  xp_progress?: number;
-}
-
 function ClassroomDetailPage() {
   const { id } = useParams<{ id: string }>();
   const classroomId = id!;
   const { user } = useUser();
   
   const [classroom, setClassroom] = useState<DbClassroom | null>(null);
-  const [students, setStudents] = useState<Student[]>([]);
-  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [students, setStudents] = useState<ClassroomStudent[]>([]);
+  const [assignments, setAssignments] = useState<DbAssignment[]>([]);
   const [decks, setDecks] = useState<DbDeck[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
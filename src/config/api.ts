@@ -2,10 +2,45 @@
  * API Configuration for Spanish Blitz
  * Central configuration for all backend API calls
  */
+import { ValidationError } from 'yup';
 import { WS_URL, API_BASE_URL } from './env';
+import { endpoints, type Endpoint } from './endpoints';
+import {
+  ApiError,
+  ApiSchemaError,
+  NetworkError,
+  TimeoutError,
+  createApiError,
+  isAbortError,
+  parseRetryAfter,
+} from './errors';
+import type {
+  AdminUserListQuery,
+  ApiErrorBody,
+  AssignTeamsBody,
+  AwardSoloBlitzBody,
+  CreateAssignmentBody,
+  CreateCardBody,
+  CreateClassroomBody,
+  CreateDeckBody,
+  CreatePlaySessionBody,
+  CreateStudyEventBody,
+  DeckListQuery,
+  FinalizeBlitzChallengeBody,
+  SendFelicitacionBody,
+  StudyEventListQuery,
+  SubmitAnswerBody,
+  UpdateCardBody,
+  UpdateClassroomBody,
+  UpdateDeckBody,
+  UpdateUserAdminBody,
+  UpdateUserBody,
+  XpLeaderboardQuery,
+} from '@/types/api.types';
 
 // Re-export for consumers that import from this module
 export { API_BASE_URL };
+export * from './errors';
 
 // ─── Token Storage ─────────────────────────────────────────────────────────
 // Safari/iOS blocks cross-origin cookies via ITP (Intelligent Tracking Prevention).
@@ -25,16 +60,113 @@ export function clearStoredToken(): void {
   try { localStorage.removeItem(TOKEN_KEY); } catch { /* noop */ }
 }
 
+// ─── Request Policy ────────────────────────────────────────────────────────
+// Only idempotent GETs are retried. Writes fail fast and are left to the
+// caller (or the offline outbox) so they never get applied twice.
+export const REQUEST_POLICY = {
+  TIMEOUT_MS: 15_000,
+  GET_RETRIES: 2,
+  BACKOFF_BASE_MS: 500,
+  BACKOFF_MAX_MS: 8_000,
+};
+
+export interface ApiFetchOptions extends RequestInit {
+  /** Retry attempts after the first one (defaults to `GET_RETRIES` for GETs, 0 otherwise) */
+  retries?: number;
+  /** Abort the attempt after this many milliseconds */
+  timeoutMs?: number;
+}
+
+/**
+ * Exponential backoff with full jitter; a server-provided Retry-After wins
+ */
+function backoffDelay(attempt: number, retryAfterMs: number | null): number {
+  if (retryAfterMs !== null) return Math.min(retryAfterMs, REQUEST_POLICY.BACKOFF_MAX_MS);
+  const cap = Math.min(REQUEST_POLICY.BACKOFF_MAX_MS, REQUEST_POLICY.BACKOFF_BASE_MS * 2 ** attempt);
+  return Math.random() * cap;
+}
+
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function isRetryable(err: unknown): boolean {
+  if (err instanceof ApiError) return err.retryable;
+  return err instanceof NetworkError || err instanceof TimeoutError;
+}
+
 /**
- * Fetch wrapper with authentication and error handling
+ * Single attempt: times out via its own AbortController, which also follows
+ * the caller's signal so unmounting a page cancels the request.
  */
-export async function apiFetch(endpoint: string, options: RequestInit = {}) {
+async function fetchOnce<T>(url: string, endpoint: string, init: RequestInit, timeoutMs: number): Promise<T> {
+  const controller = new AbortController();
+  const callerSignal = init.signal;
+  const abortFromCaller = () => controller.abort(callerSignal?.reason);
+  if (callerSignal?.aborted) abortFromCaller();
+  callerSignal?.addEventListener('abort', abortFromCaller, { once: true });
+
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal });
+    } catch (err) {
+      if (timedOut) throw new TimeoutError(endpoint, timeoutMs);
+      if (isAbortError(err)) throw err;
+      throw new NetworkError(endpoint, err);
+    }
+
+    if (!response.ok) {
+      const body: ApiErrorBody = await response.json().catch(() => ({ error: 'Request failed' }));
+
+      // For 401 errors, clear the stale token
+      if (response.status === 401) clearStoredToken();
+
+      throw createApiError(response.status, body, {
+        endpoint,
+        retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+      });
+    }
+
+    return await response.json();
+  } finally {
+    clearTimeout(timer);
+    callerSignal?.removeEventListener('abort', abortFromCaller);
+  }
+}
+
+/**
+ * Fetch wrapper with authentication, timeouts, retries and typed errors.
+ * Throws an `ApiError` subclass for HTTP failures, `NetworkError`/`TimeoutError`
+ * for transport failures, and the caller's `AbortError` when cancelled.
+ */
+export async function apiFetch<T = any>(endpoint: string, options: ApiFetchOptions = {}): Promise<T> {
+  const { retries, timeoutMs = REQUEST_POLICY.TIMEOUT_MS, ...init } = options;
   const url = `${API_BASE_URL}${endpoint}`;
+  const method = (init.method ?? 'GET').toUpperCase();
+  const maxRetries = retries ?? (method === 'GET' ? REQUEST_POLICY.GET_RETRIES : 0);
 
   // Build headers — always include Authorization if we have a stored token
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
-    ...(options.headers as Record<string, string> || {}),
+    ...(init.headers as Record<string, string> || {}),
   };
 
   const token = getStoredToken();
@@ -42,595 +174,571 @@ export async function apiFetch(endpoint: string, options: RequestInit = {}) {
     headers['Authorization'] = `Bearer ${token}`;
   }
 
-  const defaultOptions: RequestInit = {
+  const requestInit: RequestInit = {
     credentials: 'include', // Still send cookies for browsers that support them
+    ...init,
     headers,
   };
 
-  const response = await fetch(url, { ...defaultOptions, ...options, headers });
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchOnce<T>(url, `${method} ${endpoint}`, requestInit, timeoutMs);
+    } catch (err) {
+      if (attempt >= maxRetries || !isRetryable(err)) throw err;
+      await wait(backoffDelay(attempt, err instanceof ApiError ? err.retryAfterMs : null), init.signal);
+    }
+  }
+}
 
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: 'Request failed' }));
-    const errorMessage = error.error || error.message || `Request failed with status ${response.status}`;
-    
-    // For 401 errors, clear stale token and use a specific message
-    if (response.status === 401) {
-      clearStoredToken();
-      throw new Error('Not authenticated');
+/**
+ * Fill `:name` segments of an endpoint path and append the query string
+ */
+function buildUrl(path: string, params: Record<string, string> = {}, query?: object): string {
+  const filled = path.replace(/:(\w+)/g, (_, name: string) => {
+    const value = params[name];
+    if (value === undefined) throw new Error(`Missing path parameter "${name}" for ${path}`);
+    return encodeURIComponent(value);
+  });
+
+  if (!query) return filled;
+  const search = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) search.set(key, String(value));
+  });
+  const qs = search.toString();
+  return qs ? `${filled}?${qs}` : filled;
+}
+
+export interface RequestOptions<TBody, TQuery> {
+  params?: Record<string, string>;
+  body?: TBody;
+  query?: TQuery;
+  /** Cancels the request (and any pending retries) when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Call an endpoint from the registry.
+ * In development the response is validated against the endpoint's schema
+ * and drift is raised as an `ApiSchemaError`.
+ */
+export async function request<TResponse, TBody, TQuery>(
+  endpoint: Endpoint<TResponse, TBody, TQuery>,
+  options: RequestOptions<TBody, TQuery> = {}
+): Promise<TResponse> {
+  const url = buildUrl(endpoint.path, options.params, options.query as object | undefined);
+  const data = await apiFetch(url, {
+    method: endpoint.method,
+    signal: options.signal,
+    timeoutMs: endpoint.timeoutMs,
+    ...(options.body !== undefined ? { body: JSON.stringify(options.body) } : {}),
+  });
+
+  if (import.meta.env.DEV) {
+    try {
+      await endpoint.response.validate(data, { strict: true, abortEarly: false });
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        throw new ApiSchemaError(`${endpoint.method} ${endpoint.path}`, err.errors, data);
+      }
+      throw err;
     }
-    
-    throw new Error(errorMessage);
   }
 
-  return response.json();
+  return data as TResponse;
+}
+
+export interface ApiClientOptions {
+  /** Every request made through the client is cancelled when this aborts */
+  signal?: AbortSignal;
+  /** Like `signal`, but read when each request starts (for scopes that get renewed) */
+  getSignal?: () => AbortSignal | undefined;
 }
 
 /**
- * API Client with all endpoints organized by domain
+ * API Client with all endpoints organized by domain.
+ * Pass a signal to get a client whose requests are cancelled together,
+ * e.g. when the page that owns them unmounts (see `useApi`).
  */
-export const api = {
-  // ============================================================================
-  // Health Check
-  // ============================================================================
-  health: () => apiFetch('/api/health'),
-
-  // ============================================================================
-  // Authentication
-  // ============================================================================
-  auth: {
-    /**
-     * Sign in with email and password
-     */
-    signIn: (email: string, password: string) =>
-      apiFetch('/api/auth/signin', {
-        method: 'POST',
-        body: JSON.stringify({ email, password }),
-      }),
-    
-    /**
-     * Sign up with email, password, and optional display name
-     */
-    signUp: (email: string, password: string, opts?: { firstName?: string; lastName?: string; displayName?: string }) =>
-      apiFetch('/api/auth/signup', {
-        method: 'POST',
-        body: JSON.stringify({ email, password, ...opts }),
-      }),
-    
-    /**
-     * Sign out current user
-     */
-    signOut: () =>
-      apiFetch('/api/auth/signout', { method: 'POST' }),
-    
-    /**
-     * Get current JWT token
-     */
-    token: () => apiFetch('/api/auth/token'),
-    
-    /**
-     * Request password reset email
-     */
-    forgotPassword: (email: string) => 
-      apiFetch('/api/auth/forgot-password', {
-        method: 'POST',
-        body: JSON.stringify({ email }),
-      }),
-    
-    /**
-     * Reset password with token
-     */
-    resetPassword: (email: string, token: string, newPassword: string) =>
-      apiFetch('/api/auth/reset-password', {
-        method: 'POST',
-        body: JSON.stringify({ email, token, newPassword }),
-      }),
-  },
-
-  // ============================================================================
-  // Users
-  // ============================================================================
-  users: {
-    /**
-     * Get current authenticated user
-     */
-    current: () => apiFetch('/api/users/current'),
-    
-    /**
-     * Update current user profile
-     */
-    patch: (data: { display_name?: string; first_name?: string; last_name?: string; avatar_url?: string; preferred_locale?: string; preferred_voice_gender?: 'male' | 'female' }) => 
-      apiFetch('/api/users/current', {
-        method: 'PATCH',
-        body: JSON.stringify(data),
-      }),
-    
-    /**
-     * Mark welcome modal as seen
-     */
-    markWelcomeSeen: () =>
-      apiFetch('/api/users/mark-welcome-seen', { method: 'POST' }),
-  },
-
-  // ============================================================================
-  // Decks
-  // ============================================================================
-  decks: {
-    /**
-     * List all decks with optional filters
-     */
-    list: (params?: { search?: string; filter?: 'all' | 'owned' | 'assigned' | 'public' }) => {
-      const query = params ? new URLSearchParams(params as any).toString() : '';
-      return apiFetch(`/api/decks${query ? `?${query}` : ''}`);
-    },
+export function createApiClient({ signal, getSignal }: ApiClientOptions = {}) {
+  const call = <TResponse, TBody, TQuery>(
+    endpoint: Endpoint<TResponse, TBody, TQuery>,
+    options: RequestOptions<TBody, TQuery> = {}
+  ) => request(endpoint, { signal: getSignal?.() ?? signal, ...options });
+
+  return {
+    // ============================================================================
+    // Health Check
+    // ============================================================================
+    health: () => call(endpoints.health),
+
+    // ============================================================================
+    // Authentication
+    // ============================================================================
+    auth: {
+      /**
+       * Sign in with email and password
+       */
+      signIn: (email: string, password: string) =>
+        call(endpoints.auth.signIn, { body: { email, password } }),
+    
+      /**
+       * Sign up with email, password, and optional display name
+       */
+      signUp: (email: string, password: string, opts?: { firstName?: string; lastName?: string; displayName?: string }) =>
+        call(endpoints.auth.signUp, { body: { email, password, ...opts } }),
+    
+      /**
+       * Sign out current user
+       */
+      signOut: () => call(endpoints.auth.signOut),
     
-    /**
-     * Get a specific deck by ID
-     */
-    get: (id: string) => apiFetch(`/api/decks/${id}`),
-    
-    /**
-     * Create a new deck
-     */
-    create: (data: { title: string; description?: string; is_public?: boolean; primary_color_hex?: string }) =>
-      apiFetch('/api/decks', {
-        method: 'POST',
-        body: JSON.stringify(data),
-      }),
-    
-    /**
-     * Update a deck
-     */
-    update: (id: string, data: { title?: string; description?: string; is_public?: boolean; primary_color_hex?: string }) =>
-      apiFetch(`/api/decks/${id}`, {
-        method: 'PATCH',
-        body: JSON.stringify(data),
-      }),
-    
-    /**
-     * Delete a deck
-     */
-    delete: (id: string) =>
-      apiFetch(`/api/decks/${id}`, { method: 'DELETE' }),
-  },
-
-  // ============================================================================
-  // Cards
-  // ============================================================================
-  cards: {
-    /**
-     * List all cards in a deck
-     */
-    list: (deckId: string) => apiFetch(`/api/decks/${deckId}/cards`),
-    
-    /**
-     * Get a specific card
-     */
-    get: (id: string) => apiFetch(`/api/cards/${id}`),
-    
-    /**
-     * Create a new card in a deck
-     */
-    create: (deckId: string, data: { 
-      prompt_es: string; 
-      translation_en: string;
-      distractor_1_es?: string;
-      distractor_2_es?: string;
-      distractor_3_es?: string;
-      notes?: string;
-    }) =>
-      apiFetch(`/api/decks/${deckId}/cards`, {
-        method: 'POST',
-        body: JSON.stringify(data),
-      }),
-    
-    /**
-     * Create multiple cards at once
-     */
-    bulkCreate: (deckId: string, cards: Array<{
-      prompt_es: string;
-      translation_en: string;
-      distractor_1_es?: string;
-      distractor_2_es?: string;
-      distractor_3_es?: string;
-      notes?: string;
-    }>) =>
-      apiFetch(`/api/decks/${deckId}/cards/bulk`, {
-        method: 'POST',
-        body: JSON.stringify({ cards }),
-      }),
-    
-    /**
-     * Update a card
-     */
-    update: (id: string, data: {
-      prompt_es?: string;
-      translation_en?: string;
-      answer_es?: string;
-      distractor_1_es?: string;
-      distractor_2_es?: string;
-      distractor_3_es?: string;
-      notes?: string;
-    }) =>
-      apiFetch(`/api/cards/${id}`, {
-        method: 'PATCH',
-        body: JSON.stringify(data),
-      }),
-    
-    /**
-     * Delete a card
-     */
-    delete: (id: string) =>
-      apiFetch(`/api/cards/${id}`, { method: 'DELETE' }),
-  },
-
-  // ============================================================================
-  // Play Sessions (Blitz Challenges)
-  // ============================================================================
-  playSessions: {
-    /**
-     * Create a new play session (premium only)
-     */
-    create: (data: {
-      deckId: string;
-      questionCount?: number;
-      timeLimitMinutes?: number;
-      isTeacher?: boolean;
-      requireMic?: boolean;
-    }) =>
-      apiFetch('/api/play-sessions', {
-        method: 'POST',
-        body: JSON.stringify(data),
-      }),
-    
-    /**
-     * Join a play session using a code
-     */
-    join: (code: string, displayName: string) =>
-      apiFetch('/api/play-sessions/join', {
-        method: 'POST',
-        body: JSON.stringify({ code, displayName }),
-      }),
-    
-    /**
-     * Get current state of a play session
-     */
-    getState: (id: string) => apiFetch(`/api/play-sessions/${id}/state`),
-    
-    /**
-     * Start a play session (host only)
-     */
-    start: (id: string) =>
-      apiFetch(`/api/play-sessions/${id}/start`, { method: 'POST' }),
-    
-    /**
-     * Submit an answer to a question
-     */
-    answer: (id: string, questionId: string, isCorrect: boolean, answerText?: string) =>
-      apiFetch(`/api/play-sessions/${id}/answer`, {
-        method: 'POST',
-        body: JSON.stringify({ questionId, isCorrect, answerText }),
-      }),
-    
-    /**
-     * Kick a player from session (host/admin only)
-     */
-    kickPlayer: (sessionId: string, playerId: string) =>
-      apiFetch(`/api/play-sessions/${sessionId}/players/${playerId}`, {
-        method: 'DELETE',
-      }),
-  },
-
-  // ============================================================================
-  // Stats
-  // ============================================================================
-  stats: {
-    /**
-     * Get user statistics
-     */
-    get: () => apiFetch('/api/stats'),
-  },
-
-  // ============================================================================
-  // Study Events
-  // ============================================================================
-  studyEvents: {
-    /**
-     * Record a study event
-     */
-    create: (data: {
-      deck_id?: string;
-      card_id: string;
-      result: 'correct' | 'incorrect';
-      mode?: string;
-      response_type?: string;
-      transcript_es?: string;
-    }) =>
-      apiFetch('/api/study-events', {
-        method: 'POST',
-        body: JSON.stringify(data),
-      }),
-  },
-
-  // ============================================================================
-  // Admin
-  // ============================================================================
-  admin: {
+      /**
+       * Get current JWT token
+       */
+      token: () => call(endpoints.auth.token),
+    
+      /**
+       * Request password reset email
+       */
+      forgotPassword: (email: string) =>
+        call(endpoints.auth.forgotPassword, { body: { email } }),
+    
+      /**
+       * Reset password with token
+       */
+      resetPassword: (email: string, token: string, newPassword: string) =>
+        call(endpoints.auth.resetPassword, { body: { email, token, newPassword } }),
+    },
+
+    // ============================================================================
+    // Users
+    // ============================================================================
     users: {
       /**
-       * List all users (admin only)
+       * Get current authenticated user
        */
-      list: (params?: { search?: string; role?: string; plan?: string }) => {
-        const query = params ? new URLSearchParams(params as any).toString() : '';
-        return apiFetch(`/api/admin/users${query ? `?${query}` : ''}`);
-      },
-      
+      current: () => call(endpoints.users.current),
+    
+      /**
+       * Update current user profile
+       */
+      patch: (data: UpdateUserBody) => call(endpoints.users.patch, { body: data }),
+    
+      /**
+       * Mark welcome modal as seen
+       */
+      markWelcomeSeen: () => call(endpoints.users.markWelcomeSeen),
+    },
+
+    // ============================================================================
+    // Decks
+    // ============================================================================
+    decks: {
+      /**
+       * List all decks with optional filters
+       */
+      list: (params?: DeckListQuery) => call(endpoints.decks.list, { query: params }),
+    
+      /**
+       * Get a specific deck by ID
+       */
+      get: (id: string) => call(endpoints.decks.get, { params: { id } }),
+    
+      /**
+       * Create a new deck
+       */
+      create: (data: CreateDeckBody) => call(endpoints.decks.create, { body: data }),
+    
+      /**
+       * Update a deck
+       */
+      update: (id: string, data: UpdateDeckBody) =>
+        call(endpoints.decks.update, { params: { id }, body: data }),
+    
+      /**
+       * Delete a deck
+       */
+      delete: (id: string) => call(endpoints.decks.delete, { params: { id } }),
+    },
+
+    // ============================================================================
+    // Cards
+    // ============================================================================
+    cards: {
+      /**
+       * List all cards in a deck
+       */
+      list: (deckId: string) => call(endpoints.cards.list, { params: { deckId } }),
+    
+      /**
+       * Get a specific card
+       */
+      get: (id: string) => call(endpoints.cards.get, { params: { id } }),
+    
+      /**
+       * Create a new card in a deck
+       */
+      create: (deckId: string, data: CreateCardBody) =>
+        call(endpoints.cards.create, { params: { deckId }, body: data }),
+    
+      /**
+       * Create multiple cards at once
+       */
+      bulkCreate: (deckId: string, cards: CreateCardBody[]) =>
+        call(endpoints.cards.bulkCreate, { params: { deckId }, body: { cards } }),
+    
+      /**
+       * Update a card
+       */
+      update: (id: string, data: UpdateCardBody) =>
+        call(endpoints.cards.update, { params: { id }, body: data }),
+    
+      /**
+       * Delete a card
+       */
+      delete: (id: string) => call(endpoints.cards.delete, { params: { id } }),
+    },
+
+    // ============================================================================
+    // Play Sessions (Blitz Challenges)
+    // ============================================================================
+    playSessions: {
+      /**
+       * Create a new play session (premium only)
+       */
+      create: (data: CreatePlaySessionBody) => call(endpoints.playSessions.create, { body: data }),
+    
+      /**
+       * Join a play session using a code
+       */
+      join: (code: string, displayName: string) =>
+        call(endpoints.playSessions.join, { body: { code, displayName } }),
+    
+      /**
+       * Get current state of a play session
+       */
+      getState: (id: string) => call(endpoints.playSessions.getState, { params: { id } }),
+    
+      /**
+       * Start a play session (host only)
+       */
+      start: (id: string) => call(endpoints.playSessions.start, { params: { id } }),
+
+      /**
+       * Move a host-paced session to a question (host only); past the last one ends it
+       */
+      advance: (id: string, position: number) =>
+        call(endpoints.playSessions.advance, { params: { id }, body: { position } }),
+    
+      /**
+       * Submit the raw answer with the question's nonce and timing; the server grades it
+       */
+      answer: (id: string, body: SubmitAnswerBody) => call(endpoints.playSessions.answer, { params: { id }, body }),
+
+      /**
+       * Join a team in the lobby (team mode); the host can pass a player to move them
+       */
+      setTeam: (id: string, teamId: string, playerId?: string) =>
+        call(endpoints.playSessions.setTeam, { params: { id }, body: { teamId, playerId } }),
+
+      /**
+       * Put several players in teams at once, e.g. after auto-balancing (host only)
+       */
+      assignTeams: (id: string, assignments: AssignTeamsBody['assignments']) =>
+        call(endpoints.playSessions.assignTeams, { params: { id }, body: { assignments } }),
+    
+      /**
+       * Kick a player from session (host/admin only)
+       */
+      kickPlayer: (sessionId: string, playerId: string) =>
+        call(endpoints.playSessions.kickPlayer, { params: { id: sessionId, playerId } }),
+    },
+
+    // ============================================================================
+    // Stats
+    // ============================================================================
+    stats: {
       /**
-       * Get a specific user (admin only)
+       * Get user statistics
        */
-      get: (id: string) => apiFetch(`/api/admin/users/${id}`),
+      get: () => call(endpoints.stats.get),
+    },
+
+    // ============================================================================
+    // Streak
+    // ============================================================================
+    streak: {
+      /**
+       * Spend a streak freeze on a missed day (premium); the streak carries over it
+       */
+      freeze: (date: string) => call(endpoints.streak.freeze, { body: { date } }),
+    },
+
+    // ============================================================================
+    // Study Events
+    // ============================================================================
+    studyEvents: {
+      /**
+       * List the current user's study events, oldest first (optionally for one deck)
+       */
+      list: (params?: StudyEventListQuery) => call(endpoints.studyEvents.list, { query: params }),
+
+      /**
+       * Record a study event
+       */
+      create: (data: CreateStudyEventBody) => call(endpoints.studyEvents.create, { body: data }),
+    },
+
+    // ============================================================================
+    // Admin
+    // ============================================================================
+    admin: {
+      users: {
+        /**
+         * List all users (admin only)
+         */
+        list: (params?: AdminUserListQuery) => call(endpoints.admin.users.list, { query: params }),
+      
+        /**
+         * Get a specific user (admin only)
+         */
+        get: (id: string) => call(endpoints.admin.users.get, { params: { id } }),
       
+        /**
+         * Update a user (admin only)
+         */
+        update: (id: string, data: UpdateUserAdminBody) =>
+          call(endpoints.admin.users.update, { params: { id }, body: data }),
+      
+        /**
+         * Delete a user (admin only)
+         */
+        delete: (id: string) => call(endpoints.admin.users.delete, { params: { id } }),
+      },
+    },
+
+    // ============================================================================
+    // Classrooms
+    // ============================================================================
+    classrooms: {
+      /**
+       * List all classrooms (teacher's own or student's joined)
+       */
+      list: () => call(endpoints.classrooms.list),
+    
+      /**
+       * Get a specific classroom with details
+       */
+      get: (id: string) => call(endpoints.classrooms.get, { params: { id } }),
+    
+      /**
+       * Create a new classroom (teacher only)
+       */
+      create: (data: CreateClassroomBody) => call(endpoints.classrooms.create, { body: data }),
+    
+      /**
+       * Update a classroom (teacher only)
+       */
+      update: (id: string, data: UpdateClassroomBody) =>
+        call(endpoints.classrooms.update, { params: { id }, body: data }),
+    
+      /**
+       * Delete a classroom (teacher only)
+       */
+      delete: (id: string) => call(endpoints.classrooms.delete, { params: { id } }),
+    
+      /**
+       * Join a classroom using a code (student)
+       */
+      join: (code: string) => call(endpoints.classrooms.join, { body: { code } }),
+    
+      /**
+       * Get students in a classroom
+       */
+      students: (classroomId: string) =>
+        call(endpoints.classrooms.students, { params: { id: classroomId } }),
+    
+      /**
+       * Remove a student from classroom (teacher only)
+       */
+      removeStudent: (classroomId: string, studentId: string) =>
+        call(endpoints.classrooms.removeStudent, { params: { id: classroomId, studentId } }),
+    
+      /**
+       * Get assignments for a classroom
+       */
+      assignments: (classroomId: string) =>
+        call(endpoints.classrooms.assignments, { params: { id: classroomId } }),
+    
+      /**
+       * Create an assignment
+       */
+      createAssignment: (classroomId: string, data: CreateAssignmentBody) =>
+        call(endpoints.classrooms.createAssignment, { params: { id: classroomId }, body: data }),
+    
       /**
-       * Update a user (admin only)
+       * Delete an assignment
        */
-      update: (id: string, data: {
-        role?: 'user' | 'admin';
-        is_premium?: boolean;
-        plan?: 'free' | 'premium';
-      }) =>
-        apiFetch(`/api/admin/users/${id}`, {
-          method: 'PATCH',
-          body: JSON.stringify(data),
+      deleteAssignment: (classroomId: string, assignmentId: string) =>
+        call(endpoints.classrooms.deleteAssignment, { params: { id: classroomId, assignmentId } }),
+    
+      /**
+       * Mark an assignment as completed (student)
+       */
+      completeAssignment: (classroomId: string, assignmentId: string, score?: number) =>
+        call(endpoints.classrooms.completeAssignment, {
+          params: { id: classroomId, assignmentId },
+          body: { score },
         }),
-      
+    },
+
+    // ============================================================================
+    // Text-to-Speech (TTS)
+    // ============================================================================
+    tts: {
+      /**
+       * Get list of available Google Cloud TTS voices
+       */
+      listVoices: () => call(endpoints.tts.listVoices),
+    
+      /**
+       * Check if Google Cloud TTS is configured
+       */
+      checkConfig: () => call(endpoints.tts.checkConfig),
+    
       /**
-       * Delete a user (admin only)
+       * Synthesize speech from text using Google Cloud TTS
        */
-      delete: (id: string) =>
-        apiFetch(`/api/admin/users/${id}`, { method: 'DELETE' }),
+      synthesize: (text: string, locale: string = 'es-ES', voice?: 'male' | 'female', rate?: string) =>
+        call(endpoints.tts.synthesize, { body: { text, locale, voice, ...(rate ? { rate } : {}) } }),
     },
-  },
-
-  // ============================================================================
-  // Classrooms
-  // ============================================================================
-  classrooms: {
-    /**
-     * List all classrooms (teacher's own or student's joined)
-     */
-    list: () => apiFetch('/api/classrooms'),
-    
-    /**
-     * Get a specific classroom with details
-     */
-    get: (id: string) => apiFetch(`/api/classrooms/${id}`),
-    
-    /**
-     * Create a new classroom (teacher only)
-     */
-    create: (data: { name: string; description?: string; color?: string }) =>
-      apiFetch('/api/classrooms', {
-        method: 'POST',
-        body: JSON.stringify(data),
-      }),
-    
-    /**
-     * Update a classroom (teacher only)
-     */
-    update: (id: string, data: { name?: string; description?: string; is_active?: boolean }) =>
-      apiFetch(`/api/classrooms/${id}`, {
-        method: 'PATCH',
-        body: JSON.stringify(data),
-      }),
-    
-    /**
-     * Delete a classroom (teacher only)
-     */
-    delete: (id: string) =>
-      apiFetch(`/api/classrooms/${id}`, {
-        method: 'DELETE',
-      }),
-    
-    /**
-     * Join a classroom using a code (student)
-     */
-    join: (code: string) =>
-      apiFetch('/api/classrooms/join', {
-        method: 'POST',
-        body: JSON.stringify({ code }),
-      }),
-    
-    /**
-     * Get students in a classroom
-     */
-    students: (classroomId: string) =>
-      apiFetch(`/api/classrooms/${classroomId}/students`),
-    
-    /**
-     * Remove a student from classroom (teacher only)
-     */
-    removeStudent: (classroomId: string, studentId: string) =>
-      apiFetch(`/api/classrooms/${classroomId}/students/${studentId}`, {
-        method: 'DELETE',
-      }),
-    
-    /**
-     * Get assignments for a classroom
-     */
-    assignments: (classroomId: string) =>
-      apiFetch(`/api/classrooms/${classroomId}/assignments`),
-    
-    /**
-     * Create an assignment
-     */
-    createAssignment: (classroomId: string, data: {
-      deck_id?: string;
-      title: string;
-      description?: string;
-      due_date?: string;
-      student_ids?: string[];
-      required_repetitions?: number;
-      xp_reward?: number;
-      xp_goal?: number;
-    }) =>
-      apiFetch(`/api/classrooms/${classroomId}/assignments`, {
-        method: 'POST',
-        body: JSON.stringify(data),
-      }),
-    
-    /**
-     * Delete an assignment
-     */
-    deleteAssignment: (classroomId: string, assignmentId: string) =>
-      apiFetch(`/api/classrooms/${classroomId}/assignments/${assignmentId}`, {
-        method: 'DELETE',
-      }),
-    
-    /**
-     * Mark an assignment as completed (student)
-     */
-    completeAssignment: (classroomId: string, assignmentId: string, score?: number) =>
-      apiFetch(`/api/classrooms/${classroomId}/assignments/${assignmentId}/complete`, {
-        method: 'POST',
-        body: JSON.stringify({ score }),
-      }),
-  },
-
-  // ============================================================================
-  // Text-to-Speech (TTS)
-  // ============================================================================
-  tts: {
-    /**
-     * Get list of available Google Cloud TTS voices
-     */
-    listVoices: () => apiFetch('/api/tts/voices'),
-    
-    /**
-     * Check if Google Cloud TTS is configured
-     */
-    checkConfig: () => apiFetch('/api/tts/config/check'),
-    
-    /**
-     * Synthesize speech from text using Google Cloud TTS
-     */
-    synthesize: (text: string, locale: string = 'es-ES', voice?: 'male' | 'female', rate?: string) => {
-      const body: Record<string, unknown> = { text, locale, voice };
-      if (rate) body.rate = rate;
-      return apiFetch('/api/tts/synthesize', {
-        method: 'POST',
-        body: JSON.stringify(body),
-      });
+
+    // ============================================================================
+    // XP (Experience Points)
+    // ============================================================================
+    xp: {
+      /**
+       * Award XP for completing Solo Blitz
+       */
+      awardSoloBlitz: (data: AwardSoloBlitzBody) => call(endpoints.xp.awardSoloBlitz, { body: data }),
+    
+      /**
+       * Award XP for completing Blitz Challenge (host only)
+       */
+      finalizeBlitzChallenge: (challengeId: string, results: FinalizeBlitzChallengeBody['results']) =>
+        call(endpoints.xp.finalizeBlitzChallenge, { body: { challengeId, results } }),
+    
+      /**
+       * Get XP leaderboard, optionally for a period and a scope (classroom, followed users)
+       */
+      leaderboard: (limit?: number, options: Omit<XpLeaderboardQuery, 'limit'> = {}) =>
+        call(endpoints.xp.leaderboard, { query: { limit, ...options } }),
+
+      /**
+       * Get the current user's rank on a leaderboard, even outside the top N
+       */
+      leaderboardPosition: (options: Omit<XpLeaderboardQuery, 'limit'> = {}) =>
+        call(endpoints.xp.leaderboardPosition, { query: options }),
+    
+      /**
+       * Get XP history for current user
+       */
+      history: (limit?: number) => call(endpoints.xp.history, { query: { limit } }),
     },
-  },
-
-  // ============================================================================
-  // XP (Experience Points)
-  // ============================================================================
-  xp: {
-    /**
-     * Award XP for completing Solo Blitz
-     */
-    awardSoloBlitz: (data: {
-      setId?: string;
-      sessionId?: string;
-      correctAnswers: number;
-    }) =>
-      apiFetch('/api/xp/solo-blitz/complete', {
-        method: 'POST',
-        body: JSON.stringify(data),
-      }),
-    
-    /**
-     * Award XP for completing Blitz Challenge (host only)
-     */
-    finalizeBlitzChallenge: (challengeId: string, results: Array<{
-      userId: string;
-      rank: number;
-      participated: boolean;
-    }>) =>
-      apiFetch('/api/xp/blitz-challenge/finalize', {
-        method: 'POST',
-        body: JSON.stringify({ challengeId, results }),
-      }),
-    
-    /**
-     * Get XP leaderboard
-     */
-    leaderboard: (limit?: number) => {
-      const query = limit ? `?limit=${limit}` : '';
-      return apiFetch(`/api/xp/leaderboard${query}`);
+
+    // ============================================================================
+    // Follows
+    // ============================================================================
+    follows: {
+      /**
+       * Get the users the current user follows
+       */
+      list: () => call(endpoints.follows.list),
+
+      /**
+       * Follow a user
+       */
+      add: (userId: string) => call(endpoints.follows.add, { body: { userId } }),
+
+      /**
+       * Unfollow a user
+       */
+      remove: (userId: string) => call(endpoints.follows.remove, { params: { userId } }),
     },
+
+    // ============================================================================
+    // Speech Recognition (for Brave compatibility)
+    // ============================================================================
+    speech: {
+      /**
+       * Transcribe audio using backend service (works in Brave)
+       * Fallback method for non-streaming transcription
+       */
+      transcribe: (audioBase64: string, locale: string = 'es-ES') =>
+        call(endpoints.speech.transcribe, { body: { audio: audioBase64, locale } }),
     
-    /**
-     * Get XP history for current user
-     */
-    history: (limit?: number) => {
-      const query = limit ? `?limit=${limit}` : '';
-      return apiFetch(`/api/xp/history${query}`);
-    },
-  },
-
-  // ============================================================================
-  // Speech Recognition (for Brave compatibility)
-  // ============================================================================
-  speech: {
-    /**
-     * Transcribe audio using backend service (works in Brave)
-     * Fallback method for non-streaming transcription
-     */
-    transcribe: (audioBase64: string, locale: string = 'es-ES') =>
-      apiFetch('/api/speech/transcribe', {
-        method: 'POST',
-        body: JSON.stringify({ audio: audioBase64, locale }),
-      }),
-    
-    /**
-     * Evaluate a speech transcript with lenient matching
-     */
-    evaluate: (transcript: string, target: string, confidence?: number) =>
-      apiFetch('/api/speech/evaluate', {
-        method: 'POST',
-        body: JSON.stringify({ transcript, target, confidence }),
-      }),
-    
-    /**
-     * Create a WebSocket connection for real-time speech streaming
-     * Returns WebSocket instance with event handlers
-     * Only works in browser (client-side)
-     */
-    createStream: (locale: string = 'es-ES') => {
-      if (typeof window === 'undefined') {
-        throw new Error('WebSocket streaming is only available in the browser');
-      }
-      const ws = createWebSocket();
-      const sessionId = `speech-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      /**
+       * Evaluate a speech transcript with lenient matching
+       */
+      evaluate: (transcript: string, target: string, confidence?: number) =>
+        call(endpoints.speech.evaluate, { body: { transcript, target, confidence } }),
+    
+      /**
+       * Create a WebSocket connection for real-time speech streaming
+       * Returns WebSocket instance with event handlers
+       * Only works in browser (client-side)
+       */
+      createStream: (locale: string = 'es-ES') => {
+        if (typeof window === 'undefined') {
+          throw new Error('WebSocket streaming is only available in the browser');
+        }
+        const ws = createWebSocket();
+        const sessionId = `speech-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
       
-      ws.onopen = () => {
-        ws.send(JSON.stringify({
-          type: 'speech:start',
-          sessionId,
-          locale,
-        }));
-      };
+        ws.onopen = () => {
+          ws.send(JSON.stringify({
+            type: 'speech:start',
+            sessionId,
+            locale,
+          }));
+        };
       
-      return { ws, sessionId };
+        return { ws, sessionId };
+      },
     },
-  },
-
-  // ============================================================================
-  // Felicitaciones (Teacher Recognition)
-  // ============================================================================
-  felicitaciones: {
-    send: (data: { student_id: string; assignment_id?: string; message?: string }) =>
-      apiFetch('/api/felicitaciones', {
-        method: 'POST',
-        body: JSON.stringify(data),
-      }),
-    pending: () => apiFetch('/api/felicitaciones/pending'),
-    markViewed: (id: string) =>
-      apiFetch(`/api/felicitaciones/${id}/viewed`, { method: 'PATCH' }),
-    teacherPending: () => apiFetch('/api/felicitaciones/teacher/pending'),
-  },
-};
+
+    // ============================================================================
+    // Felicitaciones (Teacher Recognition)
+    // ============================================================================
+    felicitaciones: {
+      send: (data: SendFelicitacionBody) => call(endpoints.felicitaciones.send, { body: data }),
+      pending: () => call(endpoints.felicitaciones.pending),
+      markViewed: (id: string) => call(endpoints.felicitaciones.markViewed, { params: { id } }),
+      teacherPending: () => call(endpoints.felicitaciones.teacherPending),
+    },
+
+    // ============================================================================
+    // Achievements
+    // ============================================================================
+    achievements: {
+      /**
+       * Get the badges the current user has unlocked
+       */
+      list: () => call(endpoints.achievements.list),
+
+      /**
+       * Record newly earned badges; returns every unlocked badge
+       */
+      unlock: (badgeIds: string[]) => call(endpoints.achievements.unlock, { body: { badgeIds } }),
+    },
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+
+/** Shared client without a cancellation scope */
+export const api = createApiClient();
 
 // ============================================================================
 // WebSocket Helper
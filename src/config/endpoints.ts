@@ -0,0 +1,282 @@
+/**
+ * Endpoint Registry
+ *
+ * Single declarative list of every REST endpoint the app calls: HTTP method,
+ * path template, request body/query types and the response schema. The `api`
+ * client in `api.ts` is built on top of this registry, so a response type
+ * only ever lives in one place.
+ */
+import type * as yup from 'yup';
+import {
+  achievementSchema,
+  adminUserSchema,
+  assignmentSchema,
+  authResponseSchema,
+  cardSchema,
+  classroomSchema,
+  classroomStudentSchema,
+  completeAssignmentSchema,
+  createPlaySessionSchema,
+  deckSchema,
+  felicitacionSchema,
+  followedUserSchema,
+  listOf,
+  messageSchema,
+  playSessionStateSchema,
+  speechEvaluateSchema,
+  speechTranscribeSchema,
+  statsSchema,
+  streakFreezeSchema,
+  studyEventSchema,
+  submitAnswerSchema,
+  ttsConfigSchema,
+  ttsSynthesizeSchema,
+  ttsVoiceSchema,
+  unknownSchema,
+  userSchema,
+  xpAwardSchema,
+  xpHistoryEntrySchema,
+  xpLeaderboardEntrySchema,
+  xpLeaderboardPositionSchema,
+} from './schemas';
+import type {
+  AdminUser,
+  AdminUserListQuery,
+  AdvancePlaySessionBody,
+  AssignTeamsBody,
+  AuthResponse,
+  AwardSoloBlitzBody,
+  BulkCreateCardsBody,
+  ClassroomStudent,
+  CompleteAssignmentBody,
+  CompleteAssignmentResponse,
+  CreateAssignmentBody,
+  CreateCardBody,
+  CreateClassroomBody,
+  CreateDeckBody,
+  CreatePlaySessionBody,
+  CreatePlaySessionResponse,
+  CreateStudyEventBody,
+  DbAchievement,
+  DbAssignment,
+  DbCard,
+  DbClassroom,
+  DbDeck,
+  DbStudyEvent,
+  DbUser,
+  DeckListQuery,
+  EvaluateSpeechBody,
+  Felicitacion,
+  FinalizeBlitzChallengeBody,
+  FollowedUser,
+  FollowUserBody,
+  JoinClassroomBody,
+  JoinPlaySessionBody,
+  MessageResponse,
+  PlaySessionStateResponse,
+  SendFelicitacionBody,
+  SetPlayerTeamBody,
+  SignUpBody,
+  SpeechEvaluateResponse,
+  SpeechTranscribeResponse,
+  StatsResponse,
+  StreakFreezeBody,
+  StreakFreezeResponse,
+  StudyEventListQuery,
+  SubmitAnswerBody,
+  SubmitAnswerResponse,
+  SynthesizeSpeechBody,
+  TtsConfigResponse,
+  TtsSynthesizeResponse,
+  TtsVoice,
+  UnlockAchievementsBody,
+  UpdateCardBody,
+  UpdateClassroomBody,
+  UpdateDeckBody,
+  UpdateUserAdminBody,
+  UpdateUserBody,
+  XpAwardResponse,
+  XpHistoryEntry,
+  XpLeaderboardEntry,
+  XpLeaderboardPosition,
+  XpLeaderboardQuery,
+} from '@/types/api.types';
+
+export type HttpMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+
+export interface Endpoint<TResponse, TBody = undefined, TQuery = undefined> {
+  method: HttpMethod;
+  /** Path template — `:name` segments are filled from the request params */
+  path: string;
+  /** Schema the response is validated against in development */
+  response: yup.Schema<TResponse>;
+  /** Overrides the default request timeout (slow upstream services) */
+  timeoutMs?: number;
+  /** Type-only markers carrying the request body and query types */
+  readonly _body?: TBody;
+  readonly _query?: TQuery;
+}
+
+/** Response type of an endpoint */
+export type ResponseOf<E> = E extends Endpoint<infer R, any, any> ? R : never;
+
+function endpoint<TResponse, TBody = undefined, TQuery = undefined>(
+  method: HttpMethod,
+  path: string,
+  response: yup.Schema<TResponse>,
+  options: { timeoutMs?: number } = {}
+): Endpoint<TResponse, TBody, TQuery> {
+  return { method, path, response, ...options };
+}
+
+// Speech services call out to Google Cloud and routinely take longer than a normal request
+const SPEECH_TIMEOUT_MS = 45_000;
+
+export const endpoints = {
+  health: endpoint<MessageResponse>('GET', '/api/health', messageSchema),
+
+  auth: {
+    signIn: endpoint<AuthResponse, { email: string; password: string }>('POST', '/api/auth/signin', authResponseSchema),
+    signUp: endpoint<AuthResponse, SignUpBody>('POST', '/api/auth/signup', authResponseSchema),
+    signOut: endpoint<MessageResponse>('POST', '/api/auth/signout', messageSchema),
+    token: endpoint<AuthResponse>('GET', '/api/auth/token', authResponseSchema),
+    forgotPassword: endpoint<MessageResponse, { email: string }>('POST', '/api/auth/forgot-password', messageSchema),
+    resetPassword: endpoint<MessageResponse, { email: string; token: string; newPassword: string }>(
+      'POST',
+      '/api/auth/reset-password',
+      messageSchema
+    ),
+  },
+
+  users: {
+    current: endpoint<DbUser>('GET', '/api/users/current', userSchema),
+    patch: endpoint<DbUser, UpdateUserBody>('PATCH', '/api/users/current', userSchema),
+    markWelcomeSeen: endpoint<MessageResponse>('POST', '/api/users/mark-welcome-seen', messageSchema),
+  },
+
+  decks: {
+    list: endpoint<DbDeck[], undefined, DeckListQuery>('GET', '/api/decks', listOf(deckSchema)),
+    get: endpoint<DbDeck>('GET', '/api/decks/:id', deckSchema),
+    create: endpoint<DbDeck, CreateDeckBody>('POST', '/api/decks', deckSchema),
+    update: endpoint<DbDeck, UpdateDeckBody>('PATCH', '/api/decks/:id', deckSchema),
+    delete: endpoint<MessageResponse>('DELETE', '/api/decks/:id', messageSchema),
+  },
+
+  cards: {
+    list: endpoint<DbCard[]>('GET', '/api/decks/:deckId/cards', listOf(cardSchema)),
+    get: endpoint<DbCard>('GET', '/api/cards/:id', cardSchema),
+    create: endpoint<DbCard, CreateCardBody>('POST', '/api/decks/:deckId/cards', cardSchema),
+    bulkCreate: endpoint<unknown, BulkCreateCardsBody>('POST', '/api/decks/:deckId/cards/bulk', unknownSchema),
+    update: endpoint<DbCard, UpdateCardBody>('PATCH', '/api/cards/:id', cardSchema),
+    delete: endpoint<MessageResponse>('DELETE', '/api/cards/:id', messageSchema),
+  },
+
+  playSessions: {
+    create: endpoint<CreatePlaySessionResponse, CreatePlaySessionBody>('POST', '/api/play-sessions', createPlaySessionSchema),
+    join: endpoint<PlaySessionStateResponse, JoinPlaySessionBody>('POST', '/api/play-sessions/join', playSessionStateSchema),
+    getState: endpoint<PlaySessionStateResponse>('GET', '/api/play-sessions/:id/state', playSessionStateSchema),
+    start: endpoint<MessageResponse>('POST', '/api/play-sessions/:id/start', messageSchema),
+    advance: endpoint<MessageResponse, AdvancePlaySessionBody>('POST', '/api/play-sessions/:id/advance', messageSchema),
+    answer: endpoint<SubmitAnswerResponse, SubmitAnswerBody>('POST', '/api/play-sessions/:id/answer', submitAnswerSchema),
+    setTeam: endpoint<MessageResponse, SetPlayerTeamBody>('POST', '/api/play-sessions/:id/team', messageSchema),
+    assignTeams: endpoint<MessageResponse, AssignTeamsBody>('POST', '/api/play-sessions/:id/teams', messageSchema),
+    kickPlayer: endpoint<MessageResponse>('DELETE', '/api/play-sessions/:id/players/:playerId', messageSchema),
+  },
+
+  stats: {
+    get: endpoint<StatsResponse>('GET', '/api/stats', statsSchema),
+  },
+
+  streak: {
+    freeze: endpoint<StreakFreezeResponse, StreakFreezeBody>('POST', '/api/streak/freeze', streakFreezeSchema),
+  },
+
+  studyEvents: {
+    list: endpoint<DbStudyEvent[], undefined, StudyEventListQuery>('GET', '/api/study-events', listOf(studyEventSchema)),
+    create: endpoint<MessageResponse, CreateStudyEventBody>('POST', '/api/study-events', messageSchema),
+  },
+
+  admin: {
+    users: {
+      list: endpoint<AdminUser[], undefined, AdminUserListQuery>('GET', '/api/admin/users', listOf(adminUserSchema)),
+      get: endpoint<DbUser>('GET', '/api/admin/users/:id', userSchema),
+      update: endpoint<DbUser, UpdateUserAdminBody>('PATCH', '/api/admin/users/:id', userSchema),
+      delete: endpoint<MessageResponse>('DELETE', '/api/admin/users/:id', messageSchema),
+    },
+  },
+
+  classrooms: {
+    list: endpoint<DbClassroom[]>('GET', '/api/classrooms', listOf(classroomSchema)),
+    get: endpoint<DbClassroom>('GET', '/api/classrooms/:id', classroomSchema),
+    create: endpoint<DbClassroom, CreateClassroomBody>('POST', '/api/classrooms', classroomSchema),
+    update: endpoint<DbClassroom, UpdateClassroomBody>('PATCH', '/api/classrooms/:id', classroomSchema),
+    delete: endpoint<MessageResponse>('DELETE', '/api/classrooms/:id', messageSchema),
+    join: endpoint<DbClassroom, JoinClassroomBody>('POST', '/api/classrooms/join', classroomSchema),
+    students: endpoint<ClassroomStudent[]>('GET', '/api/classrooms/:id/students', listOf(classroomStudentSchema)),
+    removeStudent: endpoint<MessageResponse>('DELETE', '/api/classrooms/:id/students/:studentId', messageSchema),
+    assignments: endpoint<DbAssignment[]>('GET', '/api/classrooms/:id/assignments', listOf(assignmentSchema)),
+    createAssignment: endpoint<DbAssignment, CreateAssignmentBody>('POST', '/api/classrooms/:id/assignments', assignmentSchema),
+    deleteAssignment: endpoint<MessageResponse>('DELETE', '/api/classrooms/:id/assignments/:assignmentId', messageSchema),
+    completeAssignment: endpoint<CompleteAssignmentResponse, CompleteAssignmentBody>(
+      'POST',
+      '/api/classrooms/:id/assignments/:assignmentId/complete',
+      completeAssignmentSchema
+    ),
+  },
+
+  tts: {
+    listVoices: endpoint<TtsVoice[]>('GET', '/api/tts/voices', listOf(ttsVoiceSchema)),
+    checkConfig: endpoint<TtsConfigResponse>('GET', '/api/tts/config/check', ttsConfigSchema),
+    synthesize: endpoint<TtsSynthesizeResponse, SynthesizeSpeechBody>('POST', '/api/tts/synthesize', ttsSynthesizeSchema, {
+      timeoutMs: SPEECH_TIMEOUT_MS,
+    }),
+  },
+
+  xp: {
+    awardSoloBlitz: endpoint<XpAwardResponse, AwardSoloBlitzBody>('POST', '/api/xp/solo-blitz/complete', xpAwardSchema),
+    finalizeBlitzChallenge: endpoint<MessageResponse, FinalizeBlitzChallengeBody>(
+      'POST',
+      '/api/xp/blitz-challenge/finalize',
+      messageSchema
+    ),
+    leaderboard: endpoint<XpLeaderboardEntry[], undefined, XpLeaderboardQuery>(
+      'GET',
+      '/api/xp/leaderboard',
+      listOf(xpLeaderboardEntrySchema)
+    ),
+    leaderboardPosition: endpoint<XpLeaderboardPosition, undefined, Omit<XpLeaderboardQuery, 'limit'>>(
+      'GET',
+      '/api/xp/leaderboard/me',
+      xpLeaderboardPositionSchema
+    ),
+    history: endpoint<XpHistoryEntry[], undefined, { limit?: number }>('GET', '/api/xp/history', listOf(xpHistoryEntrySchema)),
+  },
+
+  follows: {
+    list: endpoint<FollowedUser[]>('GET', '/api/follows', listOf(followedUserSchema)),
+    add: endpoint<MessageResponse, FollowUserBody>('POST', '/api/follows', messageSchema),
+    remove: endpoint<MessageResponse>('DELETE', '/api/follows/:userId', messageSchema),
+  },
+
+  speech: {
+    transcribe: endpoint<SpeechTranscribeResponse, { audio: string; locale: string }>(
+      'POST',
+      '/api/speech/transcribe',
+      speechTranscribeSchema,
+      { timeoutMs: SPEECH_TIMEOUT_MS }
+    ),
+    evaluate: endpoint<SpeechEvaluateResponse, EvaluateSpeechBody>('POST', '/api/speech/evaluate', speechEvaluateSchema),
+  },
+
+  felicitaciones: {
+    send: endpoint<MessageResponse, SendFelicitacionBody>('POST', '/api/felicitaciones', messageSchema),
+    pending: endpoint<Felicitacion[]>('GET', '/api/felicitaciones/pending', listOf(felicitacionSchema)),
+    markViewed: endpoint<MessageResponse>('PATCH', '/api/felicitaciones/:id/viewed', messageSchema),
+    teacherPending: endpoint<Felicitacion[]>('GET', '/api/felicitaciones/teacher/pending', listOf(felicitacionSchema)),
+  },
+
+  achievements: {
+    list: endpoint<DbAchievement[]>('GET', '/api/achievements', listOf(achievementSchema)),
+    unlock: endpoint<DbAchievement[], UnlockAchievementsBody>('POST', '/api/achievements', listOf(achievementSchema)),
+  },
+};
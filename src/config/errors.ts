@@ -0,0 +1,218 @@
+/**
+ * API error types
+ *
+ * `apiFetch` never throws a bare `Error`: HTTP failures become an `ApiError`
+ * subclass picked from the status code and response body, and transport
+ * failures become `NetworkError` or `TimeoutError`. Callers branch with
+ * `instanceof` instead of matching on message text.
+ */
+import type { ApiErrorBody } from '@/types/api.types';
+
+export interface PlanLimit {
+  /** What ran out, e.g. "deck" or "card" */
+  resource: string | null;
+  /** Maximum allowed on the current plan */
+  max: number | null;
+  /** How many the user already has */
+  current: number | null;
+  plan: string | null;
+}
+
+/**
+ * Base class for any non-2xx response
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string | null;
+  readonly details: unknown;
+  readonly endpoint: string;
+  /** Milliseconds the server asked us to wait before retrying (Retry-After) */
+  readonly retryAfterMs: number | null;
+
+  constructor(
+    message: string,
+    init: { status: number; endpoint: string; code?: string | null; details?: unknown; retryAfterMs?: number | null }
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = init.status;
+    this.endpoint = init.endpoint;
+    this.code = init.code ?? null;
+    this.details = init.details;
+    this.retryAfterMs = init.retryAfterMs ?? null;
+  }
+
+  /** Server-side failures and throttling are worth retrying; client errors are not */
+  get retryable(): boolean {
+    return this.status >= 500 || this.status === 429 || this.status === 408;
+  }
+}
+
+/** 400 / 422 — the request was rejected as invalid */
+export class ValidationApiError extends ApiError {
+  constructor(message: string, init: ConstructorParameters<typeof ApiError>[1]) {
+    super(message, init);
+    this.name = 'ValidationApiError';
+  }
+}
+
+/** 401 — missing or expired session */
+export class AuthenticationError extends ApiError {
+  constructor(init: ConstructorParameters<typeof ApiError>[1]) {
+    super('Not authenticated', init);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/** 403 — signed in but not allowed */
+export class ForbiddenError extends ApiError {
+  constructor(message: string, init: ConstructorParameters<typeof ApiError>[1]) {
+    super(message, init);
+    this.name = 'ForbiddenError';
+  }
+}
+
+/** 404 */
+export class NotFoundError extends ApiError {
+  constructor(message: string, init: ConstructorParameters<typeof ApiError>[1]) {
+    super(message, init);
+    this.name = 'NotFoundError';
+  }
+}
+
+/** The user's plan doesn't allow more of a resource (decks, cards, ...) */
+export class PlanLimitError extends ApiError {
+  readonly limit: PlanLimit;
+
+  constructor(message: string, init: ConstructorParameters<typeof ApiError>[1] & { limit: PlanLimit }) {
+    super(message, init);
+    this.name = 'PlanLimitError';
+    this.limit = init.limit;
+  }
+}
+
+/** 429 — too many requests; honour `retryAfterMs` */
+export class RateLimitError extends ApiError {
+  constructor(message: string, init: ConstructorParameters<typeof ApiError>[1]) {
+    super(message, init);
+    this.name = 'RateLimitError';
+  }
+}
+
+/** 5xx */
+export class ServerError extends ApiError {
+  constructor(message: string, init: ConstructorParameters<typeof ApiError>[1]) {
+    super(message, init);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * The request never got a response (offline, DNS, CORS, connection reset)
+ */
+export class NetworkError extends Error {
+  readonly endpoint: string;
+
+  constructor(endpoint: string, cause?: unknown) {
+    super('Network request failed — check your connection');
+    this.name = 'NetworkError';
+    this.endpoint = endpoint;
+    this.cause = cause;
+  }
+}
+
+/**
+ * The request took longer than its timeout and was aborted
+ */
+export class TimeoutError extends Error {
+  readonly endpoint: string;
+  readonly timeoutMs: number;
+
+  constructor(endpoint: string, timeoutMs: number) {
+    super(`Request timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'TimeoutError';
+    this.endpoint = endpoint;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * A response didn't match the schema declared in the endpoint registry.
+ * Only raised in development — production trusts the backend and skips validation.
+ */
+export class ApiSchemaError extends Error {
+  readonly endpoint: string;
+  readonly issues: string[];
+  readonly received: unknown;
+
+  constructor(endpoint: string, issues: string[], received: unknown) {
+    super(`Response from ${endpoint} does not match its schema: ${issues.join('; ')}`);
+    this.name = 'ApiSchemaError';
+    this.endpoint = endpoint;
+    this.issues = issues;
+    this.received = received;
+  }
+}
+
+// ─── Helpers ───────────────────────────────────────────────────────────────
+
+const PLAN_LIMIT_CODES = ['limit_exceeded', 'plan_limit', 'PLAN_LIMIT'];
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function detectPlanLimit(status: number, body: ApiErrorBody, message: string): PlanLimit | null {
+  const code = body.code ?? body.error;
+  const isLimit =
+    (code !== undefined && PLAN_LIMIT_CODES.includes(code)) ||
+    // Older endpoints only say so in the message
+    ((status === 402 || status === 403) && /limit/i.test(message));
+  if (!isLimit) return null;
+
+  const resource = body.resource ?? (/\bdecks?\b|\bsets?\b/i.test(message) ? 'deck' : /\bcards?\b/i.test(message) ? 'card' : null);
+  return {
+    resource,
+    max: typeof body.limit === 'number' ? body.limit : null,
+    current: typeof body.current === 'number' ? body.current : null,
+    plan: body.plan ?? null,
+  };
+}
+
+/**
+ * Map a failed response to the matching `ApiError` subclass
+ */
+export function createApiError(
+  status: number,
+  body: ApiErrorBody,
+  init: { endpoint: string; retryAfterMs?: number | null }
+): ApiError {
+  const rawMessage = body.message && body.error && PLAN_LIMIT_CODES.includes(body.error) ? body.message : body.error || body.message;
+  const message = rawMessage || `Request failed with status ${status}`;
+  const base = { status, endpoint: init.endpoint, code: body.code ?? null, details: body.details, retryAfterMs: init.retryAfterMs };
+
+  const limit = detectPlanLimit(status, body, message);
+  if (limit) return new PlanLimitError(message, { ...base, limit });
+
+  if (status === 401) return new AuthenticationError(base);
+  if (status === 403) return new ForbiddenError(message, base);
+  if (status === 404) return new NotFoundError(message, base);
+  if (status === 429) return new RateLimitError(message, base);
+  if (status === 400 || status === 422) return new ValidationApiError(message, base);
+  if (status >= 500) return new ServerError(message, base);
+  return new ApiError(message, base);
+}
+
+/**
+ * The caller cancelled the request (e.g. the page unmounted)
+ */
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
@@ -0,0 +1,460 @@
+/**
+ * Response schemas for the API client
+ *
+ * Each schema is typed against the interface it validates, so the compiler
+ * flags a schema that drifts from `api.types.ts`. Schemas only describe the
+ * fields the app relies on; unknown extra fields are allowed.
+ */
+import * as yup from 'yup';
+import type {
+  AdminUser,
+  AnswerFlag,
+  AuthResponse,
+  BlitzEventPayloads,
+  ClassroomStudent,
+  CompleteAssignmentResponse,
+  CreatePlaySessionResponse,
+  DailyGoalType,
+  DbAchievement,
+  DbAssignment,
+  DbCard,
+  DbClassroom,
+  DbDeck,
+  DbPlaySession,
+  DbPlaySessionPlayer,
+  DbPlaySessionTeam,
+  DbStudyEvent,
+  DbUser,
+  Felicitacion,
+  FollowedUser,
+  MasteryLevel,
+  MessageResponse,
+  PlaySessionAnswer,
+  PlaySessionPlayerAnswer,
+  PlaySessionQuestion,
+  PlaySessionStateResponse,
+  SpeechEvaluateResponse,
+  SpeechTranscribeResponse,
+  StatsResponse,
+  StreakFreezeResponse,
+  SubmitAnswerResponse,
+  TtsConfigResponse,
+  TtsSynthesizeResponse,
+  TtsVoice,
+  XpAwardResponse,
+  XpHistoryEntry,
+  XpLeaderboardEntry,
+  XpLeaderboardPosition,
+} from '@/types/api.types';
+
+// ─── Helpers ───────────────────────────────────────────────────────────────
+
+const optionalString = () => yup.string().nullable().optional();
+const optionalNumber = () => yup.number().nullable().optional();
+const optionalStringList = () => yup.array().of(yup.string().defined()).nullable().optional();
+
+/** Array of items that must all match `schema` */
+export function listOf<T>(schema: yup.Schema<T>): yup.Schema<T[]> {
+  return yup.array().of(schema).defined() as unknown as yup.Schema<T[]>;
+}
+
+/** For responses the app never reads — skips validation of the body */
+export const unknownSchema = yup.mixed() as yup.Schema<unknown>;
+
+// ─── Users ─────────────────────────────────────────────────────────────────
+
+export const userSchema: yup.ObjectSchema<DbUser> = yup.object({
+  id: yup.string().defined(),
+  email: yup.string().defined(),
+  display_name: optionalString(),
+  first_name: optionalString(),
+  last_name: optionalString(),
+  avatar_url: optionalString(),
+  role: yup.string<'user' | 'teacher' | 'admin'>().oneOf(['user', 'teacher', 'admin']).nullable().optional(),
+  preferred_locale: optionalString(),
+  preferred_voice_gender: yup.string<'male' | 'female'>().oneOf(['male', 'female']).nullable().optional(),
+  tts_voice_id: optionalString(),
+  is_premium: yup.boolean().nullable().optional(),
+  plan: yup.string<'free' | 'premium' | 'gold'>().oneOf(['free', 'premium', 'gold']).nullable().optional(),
+  has_seen_welcome: yup.boolean().nullable().optional(),
+  xp_total: yup.number().optional(),
+  daily_goal_type: yup.string<DailyGoalType>().oneOf(['cards', 'xp']).nullable().optional(),
+  daily_goal_target: optionalNumber(),
+  streak_freezes: optionalNumber(),
+  created_at: yup.string().optional(),
+  updated_at: yup.string().optional(),
+});
+
+export const adminUserSchema: yup.ObjectSchema<AdminUser> = yup.object({
+  id: yup.string().defined(),
+  email: yup.string().defined(),
+  display_name: yup.string().nullable().defined(),
+  role: yup.string<'user' | 'teacher' | 'admin'>().oneOf(['user', 'teacher', 'admin']).defined(),
+  plan: yup.string<'free' | 'premium' | 'gold'>().oneOf(['free', 'premium', 'gold']).nullable().defined(),
+  is_premium: yup.boolean().defined(),
+  created_at: yup.string().defined(),
+});
+
+export const authResponseSchema: yup.ObjectSchema<AuthResponse> = yup.object({
+  token: yup.string().optional(),
+  user: userSchema.default(undefined).optional(),
+});
+
+export const messageSchema: yup.ObjectSchema<MessageResponse> = yup.object({
+  success: yup.boolean().optional(),
+  message: yup.string().optional(),
+});
+
+// ─── Decks & Cards ─────────────────────────────────────────────────────────
+
+export const deckSchema: yup.ObjectSchema<DbDeck> = yup.object({
+  id: yup.string().defined(),
+  owner_id: optionalString(),
+  owner_user_id: optionalString(),
+  name: optionalString(),
+  title: yup.string().nullable().defined(),
+  description: optionalString(),
+  language: optionalString(),
+  is_public: yup.boolean().optional(),
+  primary_color_hex: optionalString(),
+  accent_sensitive: yup.boolean().nullable().optional(),
+  created_at: yup.string().optional(),
+  updated_at: yup.string().optional(),
+  card_count: yup.number().optional(),
+});
+
+const cardShape = {
+  id: yup.string().defined(),
+  deck_id: yup.string().defined(),
+  question: optionalString(),
+  answer: optionalString(),
+  prompt_es: optionalString(),
+  translation_en: optionalString(),
+  answer_es: optionalString(),
+  accepted_es: optionalStringList(),
+  accepted_en: optionalStringList(),
+  distractor_1_es: optionalString(),
+  distractor_2_es: optionalString(),
+  distractor_3_es: optionalString(),
+  notes: optionalString(),
+  type: yup.string<'text' | 'audio' | 'image'>().oneOf(['text', 'audio', 'image']).optional(),
+  audio_url: optionalString(),
+  image_url: optionalString(),
+  created_at: yup.string().optional(),
+  updated_at: yup.string().optional(),
+};
+
+export const cardSchema: yup.ObjectSchema<DbCard> = yup.object({
+  ...cardShape,
+  position: yup.number().optional(),
+});
+
+// ─── Study Events & Stats ──────────────────────────────────────────────────
+
+export const studyEventSchema: yup.ObjectSchema<DbStudyEvent> = yup.object({
+  id: yup.string().defined(),
+  user_id: yup.string().defined(),
+  card_id: yup.string().defined(),
+  deck_id: optionalString(),
+  result: yup.string<'correct' | 'incorrect'>().oneOf(['correct', 'incorrect']).defined(),
+  mode: optionalString(),
+  response_type: optionalString(),
+  transcript_es: optionalString(),
+  speech_confidence: optionalNumber(),
+  pronunciation_score: optionalNumber(),
+  response_time_ms: optionalNumber(),
+  created_at: yup.string().defined(),
+});
+
+const masteryLevelSchema: yup.ObjectSchema<MasteryLevel> = yup.object({
+  name: yup.string().defined(),
+  current: yup.number().defined(),
+  min: yup.number().defined(),
+  max: yup.number().defined(),
+  progress: yup.number().defined(),
+});
+
+export const statsSchema: yup.ObjectSchema<StatsResponse> = yup.object({
+  cardsStudied: yup.number().defined(),
+  accuracy: yup.number().defined(),
+  streak: yup.number().defined(),
+  streakName: yup.string().defined(),
+  wordsMastered: yup.number().defined(),
+  masteryLevel: masteryLevelSchema.defined(),
+  xpRank: yup.number().defined(),
+  setsCreated: yup.number().defined(),
+  frozenDays: yup.array().of(yup.string().defined()).optional(),
+  perfectBlitzes: yup.number().optional(),
+  assignmentsCompleted: yup.number().optional(),
+});
+
+export const streakFreezeSchema: yup.ObjectSchema<StreakFreezeResponse> = yup.object({
+  streak: yup.number().defined(),
+  streakFreezes: yup.number().defined(),
+  frozenDays: yup.array().of(yup.string().defined()).defined(),
+});
+
+// ─── Play Sessions ─────────────────────────────────────────────────────────
+
+const playSessionSchema: yup.ObjectSchema<DbPlaySession> = yup.object({
+  id: yup.string().defined(),
+  host_user_id: yup.string().optional(),
+  deck_id: yup.string().defined(),
+  deck_title: optionalString(),
+  mode: yup.string().optional(),
+  is_teacher: yup.boolean().defined(),
+  require_mic: yup.boolean().optional(),
+  pacing: yup.string<'self' | 'host'>().oneOf(['self', 'host']).nullable().optional(),
+  question_seconds: optionalNumber(),
+  accent_sensitive: yup.boolean().nullable().optional(),
+  question_count: yup.number().defined(),
+  time_limit_seconds: yup.number().nullable().defined(),
+  status: yup
+    .string<DbPlaySession['status']>()
+    .oneOf(['pending', 'active', 'completed', 'finished'])
+    .defined(),
+  started_at: optionalString(),
+  ends_at: yup.string().nullable().defined(),
+  current_position: optionalNumber(),
+  question_ends_at: optionalString(),
+  created_at: yup.string().optional(),
+  code: yup.string().nullable().defined(),
+});
+
+const playSessionPlayerSchema: yup.ObjectSchema<DbPlaySessionPlayer> = yup.object({
+  id: yup.string().defined(),
+  session_id: yup.string().optional(),
+  user_id: yup.string().defined(),
+  email: optionalString(),
+  display_name: yup.string().nullable().defined(),
+  score: yup.number().defined(),
+  is_host: yup.boolean().optional(),
+  answered: yup.boolean().optional(),
+  answered_count: yup.number().optional(),
+  progress: yup.number().optional(),
+  xp_earned: optionalNumber(),
+  streak: optionalNumber(),
+  best_streak: optionalNumber(),
+  team_id: optionalString(),
+  joined_at: yup.string().optional(),
+});
+
+const playSessionTeamSchema: yup.ObjectSchema<DbPlaySessionTeam> = yup.object({
+  id: yup.string().defined(),
+  session_id: yup.string().optional(),
+  name: yup.string().defined(),
+  color: yup.string().defined(),
+  position: yup.number().defined(),
+});
+
+const playSessionQuestionSchema: yup.ObjectSchema<PlaySessionQuestion> = yup.object({
+  ...cardShape,
+  position: yup.number().defined(),
+  nonce: optionalString(),
+});
+
+const answerFlagsSchema = yup
+  .array()
+  .of(yup.string<AnswerFlag>().oneOf(['too_fast', 'focus_lost']).defined())
+  .nullable()
+  .optional();
+
+const playSessionAnswerSchema: yup.ObjectSchema<PlaySessionAnswer> = yup.object({
+  question_id: yup.string().defined(),
+  is_correct: yup.boolean().optional(),
+  answer_text: optionalString(),
+  points: optionalNumber(),
+  response_time_ms: optionalNumber(),
+});
+
+const playSessionPlayerAnswerSchema: yup.ObjectSchema<PlaySessionPlayerAnswer> = yup.object({
+  player_id: yup.string().defined(),
+  question_id: yup.string().defined(),
+  is_correct: yup.boolean().optional(),
+  answer_text: optionalString(),
+  points: optionalNumber(),
+  response_time_ms: optionalNumber(),
+  flags: answerFlagsSchema,
+});
+
+export const playSessionStateSchema: yup.ObjectSchema<PlaySessionStateResponse> = yup.object({
+  session: playSessionSchema.defined(),
+  players: yup.array().of(playSessionPlayerSchema).defined(),
+  teams: yup.array().of(playSessionTeamSchema).optional(),
+  questions: yup.array().of(playSessionQuestionSchema).defined(),
+  totalQuestions: yup.number().optional(),
+  currentPlayerAnswers: yup.array().of(playSessionAnswerSchema).optional(),
+  questionAnswers: yup.array().of(playSessionPlayerAnswerSchema).optional(),
+  seq: yup.number().optional(),
+});
+
+export const submitAnswerSchema: yup.ObjectSchema<SubmitAnswerResponse> = yup.object({
+  isCorrect: yup.boolean().defined(),
+  points: yup.number().defined(),
+  score: yup.number().defined(),
+  streak: optionalNumber(),
+  flags: answerFlagsSchema,
+});
+
+export const createPlaySessionSchema: yup.ObjectSchema<CreatePlaySessionResponse> = yup.object({
+  id: yup.string().optional(),
+  code: yup.string().defined(),
+});
+
+// ─── Realtime (Blitz Challenge socket) ─────────────────────────────────────
+
+/** Payload schema for each realtime event type; `type`, `sessionId` and `seq` are checked by the client */
+export const blitzEventSchemas: { [K in keyof BlitzEventPayloads]: yup.ObjectSchema<BlitzEventPayloads[K]> } = {
+  'player:joined': yup.object({ player: playSessionPlayerSchema.defined() }),
+  'player:left': yup.object({ playerId: yup.string().defined() }),
+  'player:kicked': yup.object({ playerId: yup.string().defined() }),
+  'player:team': yup.object({ playerId: yup.string().defined(), teamId: yup.string().nullable().defined() }),
+  'answer:submitted': yup.object({
+    playerId: yup.string().defined(),
+    questionId: yup.string().defined(),
+    isCorrect: yup.boolean().defined(),
+    answerText: optionalString(),
+    points: optionalNumber(),
+    responseTimeMs: optionalNumber(),
+    flags: answerFlagsSchema,
+    answeredCount: yup.number().defined(),
+  }),
+  'score:delta': yup.object({
+    playerId: yup.string().defined(),
+    delta: yup.number().defined(),
+    score: yup.number().defined(),
+    streak: optionalNumber(),
+  }),
+  'question:advanced': yup.object({ position: yup.number().defined(), endsAt: yup.string().nullable().defined() }),
+  'session:started': yup.object({ startedAt: yup.string().nullable().defined(), endsAt: yup.string().nullable().defined() }),
+  'session:ended': yup.object({
+    status: yup.string<'completed' | 'finished'>().oneOf(['completed', 'finished']).defined(),
+  }),
+  'session:snapshot': yup.object({ state: playSessionStateSchema.defined() }),
+};
+
+// ─── Classrooms ────────────────────────────────────────────────────────────
+
+export const classroomSchema: yup.ObjectSchema<DbClassroom> = yup.object({
+  id: yup.string().defined(),
+  teacher_id: yup.string().defined(),
+  name: yup.string().defined(),
+  description: yup.string().nullable().defined(),
+  code: yup.string().defined(),
+  color: optionalString(),
+  is_active: yup.boolean().optional(),
+  created_at: yup.string().optional(),
+  updated_at: yup.string().optional(),
+  teacher_name: optionalString(),
+  student_count: yup.number().optional(),
+  assignment_count: yup.number().optional(),
+});
+
+export const classroomStudentSchema: yup.ObjectSchema<ClassroomStudent> = yup.object({
+  id: yup.string().defined(),
+  email: yup.string().defined(),
+  display_name: yup.string().nullable().defined(),
+  xp_total: yup.number().defined(),
+  joined_at: yup.string().defined(),
+  is_active: yup.boolean().defined(),
+});
+
+export const assignmentSchema: yup.ObjectSchema<DbAssignment> = yup.object({
+  id: yup.string().defined(),
+  classroom_id: optionalString(),
+  deck_id: yup.string().nullable().defined(),
+  deck_title: optionalString(),
+  title: yup.string().defined(),
+  description: yup.string().nullable().defined(),
+  due_date: yup.string().nullable().defined(),
+  created_at: yup.string().optional(),
+  required_repetitions: yup.number().defined(),
+  xp_reward: optionalNumber(),
+  xp_goal: optionalNumber(),
+  completed_count: yup.number().optional(),
+  total_students: yup.number().optional(),
+  completed: yup.boolean().optional(),
+  completed_at: optionalString(),
+  repetitions_completed: yup.number().optional(),
+  xp_progress: yup.number().optional(),
+  classroom_name: yup.string().optional(),
+  classroom_color: optionalString(),
+});
+
+export const completeAssignmentSchema: yup.ObjectSchema<CompleteAssignmentResponse> = yup.object({
+  repetitions_completed: yup.number().optional(),
+  completed: yup.boolean().optional(),
+});
+
+// ─── TTS, Speech, XP, Felicitaciones ───────────────────────────────────────
+
+export const ttsSynthesizeSchema: yup.ObjectSchema<TtsSynthesizeResponse> = yup.object({
+  audio: yup.string().defined(),
+});
+
+export const ttsConfigSchema: yup.ObjectSchema<TtsConfigResponse> = yup.object({
+  configured: yup.boolean().defined(),
+});
+
+export const ttsVoiceSchema: yup.ObjectSchema<TtsVoice> = yup.object({
+  name: yup.string().defined(),
+  locale: yup.string().optional(),
+  gender: yup.string().optional(),
+});
+
+export const speechTranscribeSchema: yup.ObjectSchema<SpeechTranscribeResponse> = yup.object({
+  transcript: yup.string().defined(),
+  confidence: yup.number().optional(),
+});
+
+export const speechEvaluateSchema: yup.ObjectSchema<SpeechEvaluateResponse> = yup.object({
+  accepted: yup.boolean().defined(),
+  score: yup.number().optional(),
+});
+
+export const xpAwardSchema: yup.ObjectSchema<XpAwardResponse> = yup.object({
+  xpEarned: yup.number().optional(),
+  xpTotal: yup.number().optional(),
+});
+
+export const xpLeaderboardEntrySchema: yup.ObjectSchema<XpLeaderboardEntry> = yup.object({
+  id: yup.string().defined(),
+  display_name: yup.string().nullable().defined(),
+  avatar_url: optionalString(),
+  xp_total: yup.number().defined(),
+  xp: yup.number().optional(),
+  rank: yup.number().optional(),
+});
+
+export const xpLeaderboardPositionSchema: yup.ObjectSchema<XpLeaderboardPosition> = yup.object({
+  rank: yup.number().nullable().defined(),
+  xp: yup.number().defined(),
+  players: yup.number().defined(),
+});
+
+export const followedUserSchema: yup.ObjectSchema<FollowedUser> = yup.object({
+  id: yup.string().defined(),
+  display_name: yup.string().nullable().defined(),
+  avatar_url: optionalString(),
+  followed_at: yup.string().defined(),
+});
+
+export const xpHistoryEntrySchema: yup.ObjectSchema<XpHistoryEntry> = yup.object({
+  id: yup.string().defined(),
+  amount: yup.number().defined(),
+  source: optionalString(),
+  description: optionalString(),
+  created_at: yup.string().defined(),
+});
+
+export const achievementSchema: yup.ObjectSchema<DbAchievement> = yup.object({
+  badge_id: yup.string().defined(),
+  unlocked_at: yup.string().defined(),
+});
+
+export const felicitacionSchema: yup.ObjectSchema<Felicitacion> = yup.object({
+  id: yup.string().defined(),
+  teacher_name: yup.string().defined(),
+  mission_name: optionalString(),
+  message: optionalString(),
+});
@@ -0,0 +1,116 @@
+/**
+ * Achievements
+ *
+ * Declarative badge catalog and the engine that checks it: each badge names
+ * one metric and the value that unlocks it. Metrics come from the stats
+ * endpoint and the study event history. Framework-free: callers pass the
+ * data in and persist unlocks themselves.
+ */
+import type { DbAchievement, DbStudyEvent, StatsResponse } from '@/types/api.types';
+
+export interface AchievementMetrics {
+  cardsStudied: number;
+  streak: number;
+  wordsMastered: number;
+  xpTotal: number;
+  perfectBlitzes: number;
+  /** Correct answers given by voice */
+  wordsSpoken: number;
+  assignmentsCompleted: number;
+}
+
+export type AchievementMetric = keyof AchievementMetrics;
+
+export type BadgeCategory = 'study' | 'streak' | 'blitz' | 'speaking' | 'classroom';
+
+export interface BadgeDefinition {
+  /** Stable: stored server-side once unlocked */
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  category: BadgeCategory;
+  metric: AchievementMetric;
+  threshold: number;
+}
+
+export const BADGES: readonly BadgeDefinition[] = [
+  { id: 'cards-1', name: 'First Steps', description: 'Study your first card', icon: '🌱', category: 'study', metric: 'cardsStudied', threshold: 1 },
+  { id: 'cards-100', name: 'First 100 Cards', description: 'Study 100 cards', icon: '📚', category: 'study', metric: 'cardsStudied', threshold: 100 },
+  { id: 'cards-1000', name: 'Card Shark', description: 'Study 1,000 cards', icon: '🦈', category: 'study', metric: 'cardsStudied', threshold: 1000 },
+  { id: 'mastered-50', name: 'Word Collector', description: 'Master 50 words', icon: '🧠', category: 'study', metric: 'wordsMastered', threshold: 50 },
+  { id: 'xp-1000', name: 'XP Hunter', description: 'Earn 1,000 XP', icon: '⚡', category: 'study', metric: 'xpTotal', threshold: 1000 },
+  { id: 'streak-3', name: 'On a Roll', description: 'Keep a 3-day streak', icon: '🔥', category: 'streak', metric: 'streak', threshold: 3 },
+  { id: 'streak-7', name: '7-Day Streak', description: 'Keep a 7-day streak', icon: '📅', category: 'streak', metric: 'streak', threshold: 7 },
+  { id: 'streak-30', name: 'Unstoppable', description: 'Keep a 30-day streak', icon: '🏔️', category: 'streak', metric: 'streak', threshold: 30 },
+  { id: 'blitz-perfect', name: 'Perfect Blitz', description: 'Answer every question right in a Blitz', icon: '🎯', category: 'blitz', metric: 'perfectBlitzes', threshold: 1 },
+  { id: 'blitz-perfect-10', name: 'Flawless', description: 'Play 10 perfect Blitz games', icon: '💎', category: 'blitz', metric: 'perfectBlitzes', threshold: 10 },
+  { id: 'spoken-10', name: 'First Words', description: 'Say 10 words correctly', icon: '🗣️', category: 'speaking', metric: 'wordsSpoken', threshold: 10 },
+  { id: 'spoken-50', name: 'Conversationalist', description: 'Say 50 words correctly', icon: '🎤', category: 'speaking', metric: 'wordsSpoken', threshold: 50 },
+  { id: 'assignments-1', name: 'Homework Done', description: 'Complete an assignment', icon: '✏️', category: 'classroom', metric: 'assignmentsCompleted', threshold: 1 },
+  { id: 'assignments-10', name: 'Star Student', description: 'Complete 10 assignments', icon: '⭐', category: 'classroom', metric: 'assignmentsCompleted', threshold: 10 },
+];
+
+export interface BadgeStatus {
+  badge: BadgeDefinition;
+  unlocked: boolean;
+  /** When it was stored; null if earned but not stored yet, or locked */
+  unlockedAt: string | null;
+  value: number;
+  /** 0–1, capped */
+  progress: number;
+}
+
+/**
+ * Metrics from the stats endpoint and the study event history
+ */
+export function buildAchievementMetrics(
+  stats: Pick<StatsResponse, 'cardsStudied' | 'streak' | 'wordsMastered' | 'perfectBlitzes' | 'assignmentsCompleted'>,
+  events: readonly Pick<DbStudyEvent, 'result' | 'response_type'>[],
+  xpTotal = 0,
+): AchievementMetrics {
+  return {
+    cardsStudied: stats.cardsStudied,
+    streak: stats.streak,
+    wordsMastered: stats.wordsMastered,
+    xpTotal,
+    perfectBlitzes: stats.perfectBlitzes ?? 0,
+    wordsSpoken: events.filter((e) => e.result === 'correct' && e.response_type === 'speech').length,
+    assignmentsCompleted: stats.assignmentsCompleted ?? 0,
+  };
+}
+
+/**
+ * Every badge in catalog order, unlocked if stored or earned by the metrics
+ */
+export function evaluateBadges(
+  metrics: AchievementMetrics,
+  stored: readonly DbAchievement[],
+  catalog: readonly BadgeDefinition[] = BADGES,
+): BadgeStatus[] {
+  const unlockedAt = new Map(stored.map((a) => [a.badge_id, a.unlocked_at]));
+  return catalog.map((badge) => {
+    const value = metrics[badge.metric];
+    const at = unlockedAt.get(badge.id) ?? null;
+    return {
+      badge,
+      unlocked: at !== null || value >= badge.threshold,
+      unlockedAt: at,
+      value,
+      progress: Math.min(1, value / badge.threshold),
+    };
+  });
+}
+
+/**
+ * Badges the metrics earn that aren't stored yet
+ */
+export function newlyEarned(
+  metrics: AchievementMetrics,
+  stored: readonly DbAchievement[],
+  catalog: readonly BadgeDefinition[] = BADGES,
+): BadgeDefinition[] {
+  return evaluateBadges(metrics, stored, catalog)
+    .filter((status) => status.unlocked && status.unlockedAt === null)
+    .map((status) => status.badge);
+}
@@ -0,0 +1,15 @@
+/**
+ * Achievements
+ *
+ * Export the badge catalog and the achievement engine
+ */
+
+export { BADGES, buildAchievementMetrics, evaluateBadges, newlyEarned } from './achievements';
+
+export type {
+  AchievementMetrics,
+  AchievementMetric,
+  BadgeCategory,
+  BadgeDefinition,
+  BadgeStatus,
+} from './achievements';
@@ -0,0 +1,9 @@
+/**
+ * Blitz Integrity
+ *
+ * Export the per-player summary of answer flags for the host
+ */
+
+export { INTEGRITY_DEFAULTS, flaggedPlayers } from './integrity';
+
+export type { FlaggableAnswer, PlayerIntegrity } from './integrity';
@@ -0,0 +1,46 @@
+/**
+ * Blitz Integrity
+ *
+ * The server flags answers that may not be the player's own work: too fast
+ * to have read the question, or given after leaving the tab. This sums the
+ * flags up per player for the host; they never change the score.
+ */
+import type { AnswerFlag } from '@/types/api.types';
+
+export const INTEGRITY_DEFAULTS = {
+  /** The server flags answers faster than this: nobody has read the question */
+  MIN_HUMAN_MS: 300,
+} as const;
+
+/**
+ * Minimal shape of an answer seen by the host; compatible with `PlaySessionPlayerAnswer`
+ */
+export interface FlaggableAnswer {
+  player_id: string;
+  flags?: readonly AnswerFlag[] | null;
+}
+
+export interface PlayerIntegrity {
+  playerId: string;
+  tooFast: number;
+  focusLost: number;
+  /** Flagged answers; one answer can carry both flags */
+  flagged: number;
+}
+
+/**
+ * Players with at least one flagged answer, most flagged first
+ */
+export function flaggedPlayers(answers: readonly FlaggableAnswer[]): PlayerIntegrity[] {
+  const byPlayer = new Map<string, PlayerIntegrity>();
+  for (const answer of answers) {
+    const flags = answer.flags ?? [];
+    if (flags.length === 0) continue;
+    const entry = byPlayer.get(answer.player_id) ?? { playerId: answer.player_id, tooFast: 0, focusLost: 0, flagged: 0 };
+    if (flags.includes('too_fast')) entry.tooFast += 1;
+    if (flags.includes('focus_lost')) entry.focusLost += 1;
+    entry.flagged += 1;
+    byPlayer.set(answer.player_id, entry);
+  }
+  return [...byPlayer.values()].sort((a, b) => b.flagged - a.flagged);
+}
@@ -0,0 +1,20 @@
+/**
+ * Blitz Report
+ *
+ * Export the post-game report builder
+ */
+
+export { ANSWER_CATEGORIES, buildGameReport, missedQuestions, accuracyPercent } from './report';
+
+export type {
+  AnswerCategory,
+  ReportQuestion,
+  ReportPlayer,
+  ReportAnswer,
+  WrongAnswerCount,
+  QuestionStats,
+  CategoryStats,
+  PlayerStats,
+  GameReport,
+  BuildGameReportInput,
+} from './report';
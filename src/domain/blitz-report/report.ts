@@ -0,0 +1,163 @@
+/**
+ * Blitz Report
+ *
+ * Post-game numbers for the host of a Blitz Challenge: which questions the
+ * room missed, how each player did per kind of question, and the wrong answers
+ * that came up more than once. Framework-free: callers describe the questions
+ * (prompt, expected answer, category) and pass every player's answers.
+ */
+
+/** How a question is answered, grouping the quiz question types */
+export type AnswerCategory = 'audio' | 'speech' | 'written' | 'mc';
+
+export const ANSWER_CATEGORIES: readonly AnswerCategory[] = ['audio', 'speech', 'written', 'mc'];
+
+export interface ReportQuestion {
+  id: string;
+  position: number;
+  prompt: string;
+  answer: string;
+  category: AnswerCategory;
+}
+
+export interface ReportPlayer {
+  id: string;
+  name: string;
+}
+
+/**
+ * Minimal shape of a submitted answer; compatible with `PlaySessionPlayerAnswer`
+ */
+export interface ReportAnswer {
+  player_id: string;
+  question_id: string;
+  is_correct?: boolean;
+  answer_text?: string | null;
+}
+
+export interface WrongAnswerCount {
+  /** As the first player typed or said it */
+  text: string;
+  count: number;
+}
+
+export interface QuestionStats extends ReportQuestion {
+  answered: number;
+  correct: number;
+  missed: number;
+  /** Share of answers that were wrong, 0–1 (0 when nobody answered) */
+  missRate: number;
+  /** Most common first */
+  wrongAnswers: WrongAnswerCount[];
+  /** Players who got it wrong */
+  missedBy: string[];
+}
+
+export interface CategoryStats {
+  answered: number;
+  correct: number;
+}
+
+export interface PlayerStats extends ReportPlayer {
+  answered: number;
+  correct: number;
+  /** 0–1, or null when the player answered nothing */
+  accuracy: number | null;
+  byCategory: Record<AnswerCategory, CategoryStats>;
+}
+
+export interface GameReport {
+  /** Most missed first, then in game order */
+  questions: QuestionStats[];
+  /** In the order given */
+  players: PlayerStats[];
+}
+
+export interface BuildGameReportInput {
+  questions: readonly ReportQuestion[];
+  players: readonly ReportPlayer[];
+  answers: readonly ReportAnswer[];
+}
+
+/** Wrong answers are grouped ignoring case and extra spaces */
+function answerKey(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLocaleLowerCase('es');
+}
+
+function emptyCategories(): Record<AnswerCategory, CategoryStats> {
+  return Object.fromEntries(
+    ANSWER_CATEGORIES.map((category) => [category, { answered: 0, correct: 0 }]),
+  ) as Record<AnswerCategory, CategoryStats>;
+}
+
+export function buildGameReport({ questions, players, answers }: BuildGameReportInput): GameReport {
+  const questionById = new Map(questions.map((q) => [q.id, q]));
+  const playerStats = new Map<string, PlayerStats>(
+    players.map((p) => [p.id, { ...p, answered: 0, correct: 0, accuracy: null, byCategory: emptyCategories() }]),
+  );
+  const questionStats = new Map<string, QuestionStats>(
+    questions.map((q) => [q.id, { ...q, answered: 0, correct: 0, missed: 0, missRate: 0, wrongAnswers: [], missedBy: [] }]),
+  );
+  const wrongByQuestion = new Map<string, Map<string, WrongAnswerCount>>();
+  // One answer per player and question, in case an event was applied twice
+  const seen = new Set<string>();
+
+  for (const answer of answers) {
+    const question = questionById.get(answer.question_id);
+    const player = playerStats.get(answer.player_id);
+    const key = `${answer.player_id}:${answer.question_id}`;
+    if (!question || !player || seen.has(key)) continue;
+    seen.add(key);
+
+    const stats = questionStats.get(question.id)!;
+    const correct = !!answer.is_correct;
+    stats.answered++;
+    player.answered++;
+    player.byCategory[question.category].answered++;
+    if (correct) {
+      stats.correct++;
+      player.correct++;
+      player.byCategory[question.category].correct++;
+      continue;
+    }
+
+    stats.missed++;
+    stats.missedBy.push(player.id);
+    const text = answer.answer_text?.trim();
+    if (!text) continue;
+    const wrong = wrongByQuestion.get(question.id) ?? new Map<string, WrongAnswerCount>();
+    wrongByQuestion.set(question.id, wrong);
+    const entry = wrong.get(answerKey(text));
+    if (entry) entry.count++;
+    else wrong.set(answerKey(text), { text, count: 1 });
+  }
+
+  for (const stats of questionStats.values()) {
+    stats.missRate = stats.answered ? stats.missed / stats.answered : 0;
+    stats.wrongAnswers = [...(wrongByQuestion.get(stats.id)?.values() ?? [])].sort((a, b) => b.count - a.count);
+  }
+  for (const player of playerStats.values()) {
+    player.accuracy = player.answered ? player.correct / player.answered : null;
+  }
+
+  return {
+    questions: [...questionStats.values()].sort(
+      (a, b) => b.missed - a.missed || b.missRate - a.missRate || a.position - b.position,
+    ),
+    players: [...playerStats.values()],
+  };
+}
+
+/**
+ * Questions at least one player got wrong, most missed first
+ */
+export function missedQuestions(report: GameReport): QuestionStats[] {
+  return report.questions.filter((q) => q.missed > 0);
+}
+
+/**
+ * Accuracy as a whole percentage, or null when there is nothing to measure
+ */
+export function accuracyPercent(stats: CategoryStats): number | null {
+  return stats.answered ? Math.round((stats.correct / stats.answered) * 100) : null;
+}
@@ -0,0 +1,9 @@
+/**
+ * Blitz Scoring
+ *
+ * Export the streak helpers
+ */
+
+export { SCORING_DEFAULTS, streakMultiplier, currentStreak, bestStreak } from './scorer';
+
+export type { ScoredAnswer } from './scorer';
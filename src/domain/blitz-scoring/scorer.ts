@@ -0,0 +1,50 @@
+/**
+ * Blitz Scoring
+ *
+ * Streaks for a Blitz Challenge: a run of correct answers multiplies the
+ * points the server awards, and a wrong answer breaks it. The points come
+ * from the server's verdict; this module only rebuilds streaks and the
+ * multiplier they are worth, for the streak meter and the "+N" animation.
+ * Framework-free.
+ */
+
+export const SCORING_DEFAULTS = {
+  /** Added to the multiplier for each correct answer in a row after the first */
+  STREAK_STEP: 0.1,
+  MAX_MULTIPLIER: 1.5,
+} as const;
+
+/**
+ * Minimal shape of a submitted answer; compatible with `PlaySessionAnswer`
+ */
+export interface ScoredAnswer {
+  is_correct?: boolean;
+}
+
+/**
+ * x1 for the first correct answer, +0.1 per answer in a row after that, up to x1.5
+ */
+export function streakMultiplier(streak: number): number {
+  const { STREAK_STEP, MAX_MULTIPLIER } = SCORING_DEFAULTS;
+  const multiplier = 1 + STREAK_STEP * Math.max(0, streak - 1);
+  return Math.min(MAX_MULTIPLIER, Math.round(multiplier * 10) / 10);
+}
+
+/**
+ * Correct answers in a row at the end of the list (answers in the order given)
+ */
+export function currentStreak(answers: readonly ScoredAnswer[]): number {
+  let streak = 0;
+  for (let i = answers.length - 1; i >= 0 && answers[i].is_correct; i--) streak++;
+  return streak;
+}
+
+export function bestStreak(answers: readonly ScoredAnswer[]): number {
+  let best = 0;
+  let run = 0;
+  for (const answer of answers) {
+    run = answer.is_correct ? run + 1 : 0;
+    best = Math.max(best, run);
+  }
+  return best;
+}
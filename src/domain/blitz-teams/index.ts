@@ -0,0 +1,16 @@
+/**
+ * Blitz Teams
+ *
+ * Export the team presets, auto-balance and standings
+ */
+
+export {
+  TEAM_LIMITS,
+  TEAM_PRESETS,
+  defaultTeams,
+  balanceTeams,
+  teamStandings,
+  teamRankByPlayer,
+} from './teams';
+
+export type { TeamPreset, TeamLike, TeamMember, TeamAssignment, TeamStanding } from './teams';
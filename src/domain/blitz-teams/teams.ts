@@ -0,0 +1,135 @@
+/**
+ * Blitz Teams
+ *
+ * Team mode for Blitz Challenge: the default team names and colours, the
+ * lobby auto-balance and the team standings built from member scores.
+ * Framework-free: callers pass players and teams and send the result on.
+ */
+
+export const TEAM_LIMITS = {
+  MIN: 2,
+  MAX: 6,
+} as const;
+
+export interface TeamPreset {
+  name: string;
+  /** Hex colour for chips, bars and the podium */
+  color: string;
+}
+
+export const TEAM_PRESETS: readonly TeamPreset[] = [
+  { name: 'Rojo', color: '#EF4444' },
+  { name: 'Azul', color: '#3B82F6' },
+  { name: 'Verde', color: '#22C55E' },
+  { name: 'Amarillo', color: '#EAB308' },
+  { name: 'Morado', color: '#A855F7' },
+  { name: 'Naranja', color: '#F97316' },
+];
+
+/**
+ * Minimal shape of a team; compatible with `DbPlaySessionTeam`
+ */
+export interface TeamLike {
+  id: string;
+  name: string;
+  color: string;
+  position?: number;
+}
+
+/**
+ * Minimal shape of a player; compatible with `DbPlaySessionPlayer`
+ */
+export interface TeamMember {
+  id: string;
+  team_id?: string | null;
+  score?: number;
+}
+
+export interface TeamAssignment {
+  playerId: string;
+  teamId: string;
+}
+
+export interface TeamStanding<T extends TeamLike = TeamLike, P extends TeamMember = TeamMember> {
+  team: T;
+  members: P[];
+  /** Sum of the member scores */
+  score: number;
+  /** 1-based; teams on the same score share a rank */
+  rank: number;
+}
+
+/**
+ * The first `count` presets, with `count` clamped to the team limits
+ */
+export function defaultTeams(count: number): TeamPreset[] {
+  const clamped = Math.min(TEAM_LIMITS.MAX, Math.max(TEAM_LIMITS.MIN, Math.round(count)));
+  return TEAM_PRESETS.slice(0, clamped).map((preset) => ({ ...preset }));
+}
+
+/**
+ * Moves that leave every team within one player of the others. Players who
+ * already picked a team stay put unless their team is too big; players
+ * without a team fill the smallest teams first. Only changed players are
+ * returned, in the order they should be applied.
+ */
+export function balanceTeams(players: readonly TeamMember[], teamIds: readonly string[]): TeamAssignment[] {
+  if (teamIds.length === 0) return [];
+  const known = new Set(teamIds);
+  const rosters = new Map<string, string[]>(teamIds.map((id) => [id, []]));
+  const unassigned: string[] = [];
+  for (const player of players) {
+    if (player.team_id && known.has(player.team_id)) rosters.get(player.team_id)!.push(player.id);
+    else unassigned.push(player.id);
+  }
+
+  const moves = new Map<string, string>();
+  const size = (teamId: string) => rosters.get(teamId)!.length;
+  // Ties go to the team listed first, so the result is stable
+  const bySize = (order: 1 | -1) =>
+    [...teamIds].sort((a, b) => order * (size(a) - size(b)) || teamIds.indexOf(a) - teamIds.indexOf(b));
+
+  for (const playerId of unassigned) {
+    const smallest = bySize(1)[0];
+    rosters.get(smallest)!.push(playerId);
+    moves.set(playerId, smallest);
+  }
+
+  for (;;) {
+    const [smallest] = bySize(1);
+    const [largest] = bySize(-1);
+    if (size(largest) - size(smallest) <= 1) break;
+    // Whoever joined the big team last moves
+    const playerId = rosters.get(largest)!.pop()!;
+    rosters.get(smallest)!.push(playerId);
+    moves.set(playerId, smallest);
+  }
+
+  return [...moves].map(([playerId, teamId]) => ({ playerId, teamId }));
+}
+
+/**
+ * Teams by total score, highest first. Players without a team are left out.
+ */
+export function teamStandings<T extends TeamLike, P extends TeamMember>(
+  teams: readonly T[],
+  players: readonly P[],
+): TeamStanding<T, P>[] {
+  const standings = teams.map((team) => {
+    const members = players.filter((p) => p.team_id === team.id);
+    return { team, members, score: members.reduce((sum, p) => sum + (p.score ?? 0), 0), rank: 0 };
+  });
+  standings.sort((a, b) => b.score - a.score || (a.team.position ?? 0) - (b.team.position ?? 0));
+  standings.forEach((standing, i) => {
+    const previous = standings[i - 1];
+    standing.rank = previous && previous.score === standing.score ? previous.rank : i + 1;
+  });
+  return standings;
+}
+
+/**
+ * Team rank of each player, for XP finalization
+ */
+export function teamRankByPlayer(standings: readonly TeamStanding[]): Map<string, number> {
+  return new Map(standings.flatMap((s) => s.members.map((member) => [member.id, s.rank] as const)));
+}
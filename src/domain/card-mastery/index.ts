@@ -0,0 +1,16 @@
+/**
+ * Card Mastery
+ *
+ * Export the per-card mastery states
+ */
+
+export {
+  MASTERY_DEFAULTS,
+  CARD_MASTERY_STATES,
+  masteryState,
+  buildCardMastery,
+  masteryFor,
+  masteryCounts,
+} from './mastery';
+
+export type { CardMasteryState, CardMastery } from './mastery';
@@ -0,0 +1,118 @@
+/**
+ * Card Mastery
+ *
+ * Per-card mastery states derived from study events, on top of the SRS
+ * schedule: new (never answered), learning (short intervals or just missed),
+ * reviewing (graduated, interval growing) and mastered (long interval).
+ * Framework-free: callers pass events in and get states out.
+ */
+import { buildSchedules, type CardSchedule, type ReviewEvent } from '../srs';
+
+export const MASTERY_DEFAULTS = {
+  /** Interval from which a card counts as mastered (SM-2's usual "mature" mark) */
+  MASTERED_INTERVAL_DAYS: 21,
+  /** Correct answers in a row (across days) that graduate a card out of learning */
+  GRADUATE_REPETITIONS: 2,
+  /** Below this share of correct answers a card is weak */
+  WEAK_ACCURACY: 0.6,
+} as const;
+
+export type CardMasteryState = 'new' | 'learning' | 'reviewing' | 'mastered';
+
+/** Weakest to strongest, for legends and sorting */
+export const CARD_MASTERY_STATES: readonly CardMasteryState[] = ['new', 'learning', 'reviewing', 'mastered'];
+
+export interface CardMastery {
+  cardId: string;
+  state: CardMasteryState;
+  reviews: number;
+  correct: number;
+  /** Share of correct answers, 0–1; null before the first answer */
+  accuracy: number | null;
+  lastResult: 'correct' | 'incorrect' | null;
+  lastReviewedAt: Date | null;
+  /** Still learning and last missed, or missed more often than not; "study only weak cards" picks these */
+  weak: boolean;
+}
+
+/**
+ * State for a card from its schedule and latest answer
+ */
+export function masteryState(
+  schedule: CardSchedule | undefined,
+  lastResult: 'correct' | 'incorrect' | null,
+): CardMasteryState {
+  if (!schedule?.lastReviewedAt) return 'new';
+  if (lastResult === 'incorrect' || schedule.repetitions < MASTERY_DEFAULTS.GRADUATE_REPETITIONS) return 'learning';
+  return schedule.intervalDays >= MASTERY_DEFAULTS.MASTERED_INTERVAL_DAYS ? 'mastered' : 'reviewing';
+}
+
+/**
+ * Mastery of every card that has events. Cards without events are `new`;
+ * use `masteryFor` to fill them in.
+ */
+export function buildCardMastery(events: readonly ReviewEvent[]): Map<string, CardMastery> {
+  const schedules = buildSchedules([...events]);
+  const sorted = [...events].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+  const tallies = new Map<string, { reviews: number; correct: number; lastResult: 'correct' | 'incorrect' }>();
+  for (const event of sorted) {
+    const tally = tallies.get(event.card_id) ?? { reviews: 0, correct: 0, lastResult: event.result };
+    tally.reviews += 1;
+    if (event.result === 'correct') tally.correct += 1;
+    tally.lastResult = event.result;
+    tallies.set(event.card_id, tally);
+  }
+
+  const mastery = new Map<string, CardMastery>();
+  for (const [cardId, tally] of tallies) {
+    const schedule = schedules.get(cardId);
+    const accuracy = tally.correct / tally.reviews;
+    const state = masteryState(schedule, tally.lastResult);
+    mastery.set(cardId, {
+      cardId,
+      state,
+      reviews: tally.reviews,
+      correct: tally.correct,
+      accuracy,
+      lastResult: tally.lastResult,
+      lastReviewedAt: schedule?.lastReviewedAt ?? null,
+      weak: state === 'learning' && (tally.lastResult === 'incorrect' || accuracy < MASTERY_DEFAULTS.WEAK_ACCURACY),
+    });
+  }
+  return mastery;
+}
+
+/**
+ * Mastery for one card, `new` when it has never been answered
+ */
+export function masteryFor(mastery: ReadonlyMap<string, CardMastery>, cardId: string): CardMastery {
+  return (
+    mastery.get(cardId) ?? {
+      cardId,
+      state: 'new',
+      reviews: 0,
+      correct: 0,
+      accuracy: null,
+      lastResult: null,
+      lastReviewedAt: null,
+      weak: false,
+    }
+  );
+}
+
+/**
+ * How many of `cards` are in each state, plus the weak ones
+ */
+export function masteryCounts<T extends { id: string }>(
+  cards: readonly T[],
+  mastery: ReadonlyMap<string, CardMastery>,
+): Record<CardMasteryState, number> & { weak: number } {
+  const counts = { new: 0, learning: 0, reviewing: 0, mastered: 0, weak: 0 };
+  for (const card of cards) {
+    const entry = masteryFor(mastery, card.id);
+    counts[entry.state] += 1;
+    if (entry.weak) counts.weak += 1;
+  }
+  return counts;
+}
@@ -0,0 +1,181 @@
+/**
+ * Daily Goals
+ *
+ * The daily goal (N different cards or N XP a day), progress towards it,
+ * the month calendar of study days and which missed day a streak freeze
+ * can still cover. Days are the user's local calendar days, keyed
+ * `YYYY-MM-DD`. Framework-free: callers pass study events and XP entries in.
+ */
+import type { DailyGoalType } from '@/types/api.types';
+
+export const DAILY_GOAL_DEFAULTS = {
+  TYPE: 'cards' as DailyGoalType,
+  TARGET: { cards: 20, xp: 50 } as Record<DailyGoalType, number>,
+};
+
+/** Targets offered in the goal picker */
+export const DAILY_GOAL_PRESETS: Record<DailyGoalType, readonly number[]> = {
+  cards: [10, 20, 30, 50],
+  xp: [20, 50, 100, 200],
+};
+
+export interface DailyGoal {
+  type: DailyGoalType;
+  target: number;
+}
+
+/**
+ * Minimal shape of the user's goal settings; compatible with `DbUser`
+ */
+export interface DailyGoalSettings {
+  daily_goal_type?: DailyGoalType | null;
+  daily_goal_target?: number | null;
+}
+
+export interface DayActivity {
+  /** Different cards answered that day */
+  cards: number;
+  xp: number;
+}
+
+export interface GoalProgress {
+  value: number;
+  target: number;
+  /** 0–1, capped */
+  ratio: number;
+  met: boolean;
+}
+
+export interface CalendarDay {
+  key: string;
+  date: Date;
+  /** False for the leading/trailing days of the neighbouring months */
+  inMonth: boolean;
+  activity: DayActivity;
+  /** 0 nothing studied, 1 under half the goal, 2 under the goal, 3 goal met, 4 twice the goal */
+  level: 0 | 1 | 2 | 3 | 4;
+  frozen: boolean;
+  future: boolean;
+  today: boolean;
+}
+
+const EMPTY_DAY: DayActivity = { cards: 0, xp: 0 };
+
+/**
+ * Local calendar day of a date, as `YYYY-MM-DD`
+ */
+export function dayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function addDays(date: Date, days: number): Date {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d;
+}
+
+/**
+ * The user's goal, falling back to the default for missing or invalid settings
+ */
+export function resolveDailyGoal(settings: DailyGoalSettings | null | undefined): DailyGoal {
+  const type = settings?.daily_goal_type === 'xp' ? 'xp' : DAILY_GOAL_DEFAULTS.TYPE;
+  const target = settings?.daily_goal_target;
+  return { type, target: target && target > 0 ? target : DAILY_GOAL_DEFAULTS.TARGET[type] };
+}
+
+/**
+ * Cards and XP per day from study events and XP history
+ */
+export function buildDailyActivity(
+  events: readonly { card_id: string; created_at: string | Date }[],
+  xpEntries: readonly { amount: number; created_at: string | Date }[],
+): Map<string, DayActivity> {
+  const cardsByDay = new Map<string, Set<string>>();
+  for (const event of events) {
+    const key = dayKey(new Date(event.created_at));
+    const cards = cardsByDay.get(key) ?? new Set<string>();
+    cards.add(event.card_id);
+    cardsByDay.set(key, cards);
+  }
+
+  const activity = new Map<string, DayActivity>();
+  for (const [key, cards] of cardsByDay) activity.set(key, { cards: cards.size, xp: 0 });
+  for (const entry of xpEntries) {
+    const key = dayKey(new Date(entry.created_at));
+    const day = activity.get(key) ?? { ...EMPTY_DAY };
+    day.xp += entry.amount;
+    activity.set(key, day);
+  }
+  return activity;
+}
+
+export function goalProgress(day: DayActivity | undefined, goal: DailyGoal): GoalProgress {
+  const value = (day ?? EMPTY_DAY)[goal.type];
+  return { value, target: goal.target, ratio: Math.min(1, value / goal.target), met: value >= goal.target };
+}
+
+function isActive(day: DayActivity | undefined): boolean {
+  return !!day && (day.cards > 0 || day.xp > 0);
+}
+
+/**
+ * The missed day a streak freeze can cover: yesterday, if nothing was studied
+ * and it isn't covered yet, and the day before kept the streak going.
+ * Otherwise null.
+ */
+export function freezableDay(
+  activity: ReadonlyMap<string, DayActivity>,
+  frozenDays: readonly string[],
+  today: Date = new Date(),
+): string | null {
+  const yesterday = dayKey(addDays(today, -1));
+  const before = dayKey(addDays(today, -2));
+  if (isActive(activity.get(yesterday)) || frozenDays.includes(yesterday)) return null;
+  const streakToSave = isActive(activity.get(before)) || frozenDays.includes(before);
+  return streakToSave ? yesterday : null;
+}
+
+/**
+ * Weeks (Monday first) covering the month `monthIndex` (0–11) of `year`
+ */
+export function calendarMonth(
+  year: number,
+  monthIndex: number,
+  options: {
+    activity: ReadonlyMap<string, DayActivity>;
+    goal: DailyGoal;
+    frozenDays?: readonly string[];
+    today?: Date;
+  },
+): CalendarDay[][] {
+  const todayKey = dayKey(options.today ?? new Date());
+  const frozen = new Set(options.frozenDays ?? []);
+  const first = new Date(year, monthIndex, 1);
+  // getDay() is 0 on Sunday; count back to Monday
+  const start = addDays(first, -((first.getDay() + 6) % 7));
+
+  const weeks: CalendarDay[][] = [];
+  for (let cursor = start; weeks.length === 0 || cursor.getMonth() === monthIndex; ) {
+    const week: CalendarDay[] = [];
+    for (let i = 0; i < 7; i++, cursor = addDays(cursor, 1)) {
+      const key = dayKey(cursor);
+      const activity = options.activity.get(key) ?? EMPTY_DAY;
+      const { value, target } = goalProgress(activity, options.goal);
+      const level = !isActive(activity) ? 0 : value >= target * 2 ? 4 : value >= target ? 3 : value >= target / 2 ? 2 : 1;
+      week.push({
+        key,
+        date: cursor,
+        inMonth: cursor.getMonth() === monthIndex,
+        activity,
+        level,
+        frozen: frozen.has(key),
+        future: key > todayKey,
+        today: key === todayKey,
+      });
+    }
+    weeks.push(week);
+  }
+  return weeks;
+}
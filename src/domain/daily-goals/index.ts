@@ -0,0 +1,18 @@
+/**
+ * Daily Goals
+ *
+ * Export the daily goal, activity calendar and streak freeze rules
+ */
+
+export {
+  DAILY_GOAL_DEFAULTS,
+  DAILY_GOAL_PRESETS,
+  dayKey,
+  resolveDailyGoal,
+  buildDailyActivity,
+  goalProgress,
+  freezableDay,
+  calendarMonth,
+} from './goals';
+
+export type { DailyGoal, DailyGoalSettings, DayActivity, GoalProgress, CalendarDay } from './goals';
@@ -0,0 +1,58 @@
+"""Regenerate the .apkg fixtures used by anki-package.test.ts.
+
+Run from this directory: python3 make-apkg-fixtures.py
+"""
+import json
+import os
+import sqlite3
+import zipfile
+
+COLLECTION = "collection.anki2"
+
+
+def build_collection(path, notes, page_size=1024):
+    if os.path.exists(path):
+        os.remove(path)
+    db = sqlite3.connect(path)
+    # Small pages so the notes table needs interior b-tree pages and overflow pages
+    db.execute(f"PRAGMA page_size={page_size}")
+    db.execute("CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, models text not null)")
+    models = {
+        "1001": {"name": "Basic", "flds": [{"name": "Front"}, {"name": "Back"}]},
+        "1002": {"name": "Cloze", "flds": [{"name": "Text"}]},
+    }
+    db.execute("INSERT INTO col VALUES (1, 0, 0, ?)", (json.dumps(models),))
+    db.execute(
+        "CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null,"
+        " usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null,"
+        " flags integer not null, data text not null)"
+    )
+    for i, (mid, fields) in enumerate(notes, start=1):
+        db.execute(
+            "INSERT INTO notes VALUES (?,?,?,?,?,?,?,?,?,?,?)",
+            (i, f"g{i}", mid, 0, 0, "", "\x1f".join(fields), 0, 0, 0, ""),
+        )
+    db.commit()
+    db.close()
+
+
+notes = [
+    (1001, ["el gato", "the cat"]),
+    (1001, ["<b>la casa</b>", "the house&nbsp;[sound:casa.mp3]"]),
+    (1001, ["el perro", "the dog<br>hound"]),
+    (1002, ["{{c1::hola}} amigo"]),
+]
+notes += [(1001, [f"palabra {i}", f"word {i}"]) for i in range(4, 80)]
+notes.append((1001, ["largo", "x" * 3000]))
+
+build_collection(COLLECTION, notes)
+with zipfile.ZipFile("sample.apkg", "w", zipfile.ZIP_DEFLATED) as package:
+    package.write(COLLECTION)
+    package.writestr("media", "{}")
+os.remove(COLLECTION)
+
+# Newer Anki export: zstd collection plus a placeholder legacy one
+with zipfile.ZipFile("modern.apkg", "w", zipfile.ZIP_STORED) as package:
+    package.writestr(COLLECTION, "placeholder")
+    package.writestr("collection.anki21b", "zstd")
+    package.writestr("media", "")
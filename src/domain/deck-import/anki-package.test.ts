@@ -0,0 +1,53 @@
+// @vitest-environment node
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { parseAnkiPackage } from './anki-package';
+import { ImportError } from './types';
+
+// Built by __fixtures__/make-apkg-fixtures.py
+function fixture(name: string): ArrayBuffer {
+  const file = readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url));
+  return file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength);
+}
+
+describe('parseAnkiPackage', () => {
+  it('reads every note of a deflated package, across interior b-tree pages', async () => {
+    const table = await parseAnkiPackage(fixture('sample.apkg'));
+
+    expect(table.format).toBe('anki-package');
+    expect(table.rows).toHaveLength(81);
+    expect(table.rows[0]).toEqual(['el gato', 'the cat']);
+    expect(table.rows[79]).toEqual(['palabra 79', 'word 79']);
+  });
+
+  it('names the columns after the most common note type', async () => {
+    const table = await parseAnkiPackage(fixture('sample.apkg'));
+
+    expect(table.headers).toEqual(['Front', 'Back']);
+    expect(table.columnCount).toBe(2);
+  });
+
+  it('strips HTML, entities and sound tags from fields', async () => {
+    const table = await parseAnkiPackage(fixture('sample.apkg'));
+
+    expect(table.rows[1]).toEqual(['la casa', 'the house']);
+    expect(table.rows[2]).toEqual(['el perro', 'the dog hound']);
+  });
+
+  it('follows overflow pages for notes larger than a page', async () => {
+    const table = await parseAnkiPackage(fixture('sample.apkg'));
+    const long = table.rows.find(([front]) => front === 'largo');
+
+    expect(long?.[1]).toBe('x'.repeat(3000));
+  });
+
+  it('explains how to re-export a newer-format package', async () => {
+    await expect(parseAnkiPackage(fixture('modern.apkg'))).rejects.toThrow(/Support older Anki versions/);
+  });
+
+  it('rejects a file that is not a zip', async () => {
+    const notZip = new TextEncoder().encode('hola\thello\n').buffer;
+
+    await expect(parseAnkiPackage(notZip)).rejects.toBeInstanceOf(ImportError);
+  });
+});
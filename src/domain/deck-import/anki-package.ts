@@ -0,0 +1,315 @@
+/**
+ * Anki package (.apkg) reader.
+ *
+ * An .apkg is a zip holding an SQLite collection. Only the notes are needed,
+ * so instead of shipping a zip library and a full SQLite build this reads the
+ * zip directory, inflates the collection with the browser's
+ * DecompressionStream, and walks the `notes` table b-tree directly.
+ */
+
+import { stripHtml } from './delimited';
+import { ImportError, type ImportTable } from './types';
+
+/** Anki separates the fields of a note with the unit separator */
+const FIELD_SEPARATOR = '\x1f';
+
+/**
+ * Newer zstd-compressed collection; can't be read without a zstd decoder.
+ * Packages that have it only carry a placeholder `collection.anki2`.
+ */
+const MODERN_COLLECTION = 'collection.anki21b';
+
+const NOT_A_PACKAGE = 'This file is not a valid Anki package.';
+
+// ─── Zip ───────────────────────────────────────────────────────────────────
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+function readZipDirectory(bytes: Uint8Array): ZipEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+
+  // The end-of-central-directory record sits in the last 64 KB (after an optional comment)
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new ImportError(NOT_A_PACKAGE);
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== 0x02014b50) {
+      throw new ImportError(NOT_A_PACKAGE);
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.push({
+      name: decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength)),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function readZipEntry(bytes: Uint8Array, entry: ZipEntry): Promise<Uint8Array> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const header = entry.localHeaderOffset;
+  if (view.getUint32(header, true) !== 0x04034b50) throw new ImportError(NOT_A_PACKAGE);
+
+  const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const data = bytes.slice(start, start + entry.compressedSize);
+  if (entry.method === 0) return data;
+  if (entry.method !== 8) throw new ImportError('This Anki package uses an unsupported compression method.');
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// ─── SQLite ────────────────────────────────────────────────────────────────
+
+type SqlValue = number | string | Uint8Array | null;
+
+function readVarint(bytes: Uint8Array, pos: number): [value: number, length: number] {
+  let value = 0;
+  for (let i = 0; i < 8; i++) {
+    const byte = bytes[pos + i];
+    value = value * 128 + (byte & 0x7f);
+    if (byte < 0x80) return [value, i + 1];
+  }
+  return [value * 256 + bytes[pos + 8], 9];
+}
+
+function readInt(view: DataView, pos: number, length: number): number {
+  if (length === 8) return Number(view.getBigInt64(pos));
+  let value = 0;
+  for (let i = 0; i < length; i++) value = value * 256 + view.getUint8(pos + i);
+  const limit = 2 ** (8 * length);
+  return value >= limit / 2 ? value - limit : value;
+}
+
+const INT_SIZES: Record<number, number> = { 1: 1, 2: 2, 3: 3, 4: 4, 5: 6, 6: 8 };
+
+/**
+ * Just enough of the SQLite file format to read every row of a rowid table
+ */
+class SqliteReader {
+  private readonly view: DataView;
+  private readonly pageSize: number;
+  private readonly usableSize: number;
+  private readonly decoder = new TextDecoder();
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    if (this.decoder.decode(bytes.subarray(0, 15)) !== 'SQLite format 3') {
+      throw new ImportError(NOT_A_PACKAGE);
+    }
+    const size = this.view.getUint16(16);
+    this.pageSize = size === 1 ? 65536 : size;
+    this.usableSize = this.pageSize - bytes[20];
+  }
+
+  /** Rows of the table whose b-tree starts at `rootPage`, in rowid order */
+  rows(rootPage: number): SqlValue[][] {
+    const rows: SqlValue[][] = [];
+    const visit = (page: number, depth: number) => {
+      if (depth > 64) throw new ImportError(NOT_A_PACKAGE);
+      const base = (page - 1) * this.pageSize;
+      const header = base + (page === 1 ? 100 : 0);
+      const type = this.bytes[header];
+      const cellCount = this.view.getUint16(header + 3);
+
+      if (type === 0x05) {
+        for (let i = 0; i < cellCount; i++) {
+          const cell = base + this.view.getUint16(header + 12 + i * 2);
+          visit(this.view.getUint32(cell), depth + 1);
+        }
+        visit(this.view.getUint32(header + 8), depth + 1);
+      } else if (type === 0x0d) {
+        for (let i = 0; i < cellCount; i++) {
+          rows.push(this.readRecord(this.readPayload(base + this.view.getUint16(header + 8 + i * 2))));
+        }
+      } else {
+        throw new ImportError(NOT_A_PACKAGE);
+      }
+    };
+    visit(rootPage, 0);
+    return rows;
+  }
+
+  /** Row payload of a leaf cell, following overflow pages for long rows */
+  private readPayload(cell: number): Uint8Array {
+    const [size, sizeLength] = readVarint(this.bytes, cell);
+    const [, rowidLength] = readVarint(this.bytes, cell + sizeLength);
+    const start = cell + sizeLength + rowidLength;
+
+    const usable = this.usableSize;
+    const maxLocal = usable - 35;
+    if (size <= maxLocal) return this.bytes.subarray(start, start + size);
+
+    const minLocal = Math.floor(((usable - 12) * 32) / 255) - 23;
+    const spill = minLocal + ((size - minLocal) % (usable - 4));
+    const local = spill <= maxLocal ? spill : minLocal;
+
+    const payload = new Uint8Array(size);
+    payload.set(this.bytes.subarray(start, start + local));
+    let written = local;
+    let next = this.view.getUint32(start + local);
+    while (next !== 0 && written < size) {
+      const base = (next - 1) * this.pageSize;
+      const chunk = Math.min(usable - 4, size - written);
+      payload.set(this.bytes.subarray(base + 4, base + 4 + chunk), written);
+      written += chunk;
+      next = this.view.getUint32(base);
+    }
+    return payload;
+  }
+
+  private readRecord(payload: Uint8Array): SqlValue[] {
+    const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+    const [headerSize, headerLength] = readVarint(payload, 0);
+    const types: number[] = [];
+    for (let pos = headerLength; pos < headerSize; ) {
+      const [type, length] = readVarint(payload, pos);
+      types.push(type);
+      pos += length;
+    }
+
+    const values: SqlValue[] = [];
+    let pos = headerSize;
+    for (const type of types) {
+      if (type === 0) {
+        values.push(null);
+      } else if (type in INT_SIZES) {
+        values.push(readInt(view, pos, INT_SIZES[type]));
+        pos += INT_SIZES[type];
+      } else if (type === 7) {
+        values.push(view.getFloat64(pos));
+        pos += 8;
+      } else if (type === 8 || type === 9) {
+        values.push(type - 8);
+      } else if (type >= 12) {
+        const length = Math.floor((type - 12) / 2);
+        const data = payload.subarray(pos, pos + length);
+        values.push(type % 2 === 1 ? this.decoder.decode(data) : data);
+        pos += length;
+      } else {
+        values.push(null);
+      }
+    }
+    return values;
+  }
+}
+
+/** Column names from a `CREATE TABLE name (...)` statement */
+function columnNames(sql: string): string[] {
+  const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+  const columns: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of body) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      columns.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  columns.push(current);
+  return columns
+    .map((column) => column.trim().split(/\s+/)[0].replace(/["`[\]]/g, '').toLowerCase())
+    .filter((name) => name && !['primary', 'unique', 'check', 'foreign', 'constraint'].includes(name));
+}
+
+interface TableInfo {
+  rootPage: number;
+  columns: string[];
+}
+
+function findTable(db: SqliteReader, name: string): TableInfo | null {
+  // sqlite_master: type, name, tbl_name, rootpage, sql
+  const entry = db.rows(1).find(([type, tableName]) => type === 'table' && tableName === name);
+  if (!entry || typeof entry[3] !== 'number' || typeof entry[4] !== 'string') return null;
+  return { rootPage: entry[3], columns: columnNames(entry[4]) };
+}
+
+/** Field names per note type id, from the legacy `col.models` JSON */
+function noteTypeFields(db: SqliteReader): Map<string, string[]> {
+  const fields = new Map<string, string[]>();
+  const col = findTable(db, 'col');
+  const modelsIndex = col?.columns.indexOf('models') ?? -1;
+  if (!col || modelsIndex < 0) return fields;
+
+  try {
+    const raw = db.rows(col.rootPage)[0]?.[modelsIndex];
+    const models = typeof raw === 'string' && raw ? JSON.parse(raw) : {};
+    for (const [id, model] of Object.entries<{ flds?: { name: string }[] }>(models)) {
+      if (Array.isArray(model.flds)) fields.set(id, model.flds.map((field) => field.name));
+    }
+  } catch {
+    // Newer collections keep note types in their own tables; fall back to unnamed columns
+  }
+  return fields;
+}
+
+/**
+ * Read the notes of an Anki package as a table: one row per note, one column
+ * per field. Field names come from the most common note type.
+ */
+export async function parseAnkiPackage(data: ArrayBuffer): Promise<ImportTable> {
+  const bytes = new Uint8Array(data);
+  const entries = readZipDirectory(bytes);
+  const find = (name: string) => entries.find((entry) => entry.name === name);
+  const isModern = find(MODERN_COLLECTION) !== undefined;
+  const collection = find('collection.anki21') ?? (isModern ? undefined : find('collection.anki2'));
+  if (!collection) {
+    throw new ImportError(
+      isModern
+        ? 'This Anki package uses the newer format. In Anki, export again with "Support older Anki versions" ticked, or export "Notes in Plain Text".'
+        : NOT_A_PACKAGE,
+    );
+  }
+
+  const db = new SqliteReader(await readZipEntry(bytes, collection));
+  const notes = findTable(db, 'notes');
+  const fieldsIndex = notes?.columns.indexOf('flds') ?? -1;
+  const typeIndex = notes?.columns.indexOf('mid') ?? -1;
+  if (!notes || fieldsIndex < 0) throw new ImportError('No notes were found in this Anki package.');
+
+  const rows: string[][] = [];
+  const typeCounts = new Map<string, number>();
+  for (const note of db.rows(notes.rootPage)) {
+    const fields = note[fieldsIndex];
+    if (typeof fields !== 'string') continue;
+    rows.push(fields.split(FIELD_SEPARATOR).map(stripHtml));
+    const type = String(note[typeIndex]);
+    typeCounts.set(type, (typeCounts.get(type) ?? 0) + 1);
+  }
+  if (rows.length === 0) throw new ImportError('No notes were found in this Anki package.');
+
+  const mainType = [...typeCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+  const headers = (mainType && noteTypeFields(db).get(mainType)) || null;
+  const nonEmpty = rows.filter((row) => row.some(Boolean));
+  return {
+    format: 'anki-package',
+    headers,
+    rows: nonEmpty,
+    columnCount: Math.max(headers?.length ?? 0, ...nonEmpty.map((row) => row.length)),
+    firstRow: 1,
+  };
+}
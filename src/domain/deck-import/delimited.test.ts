@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { detectTextFormat, parseAnkiText, parseDelimited, parseImportText, sniffDelimiter } from './delimited';
+import { ImportError } from './types';
+
+describe('parseDelimited', () => {
+  it('keeps delimiters and doubled quotes inside quoted cells', () => {
+    expect(parseDelimited('"hola, amigo","say ""hi"""\n', ',')).toEqual([['hola, amigo', 'say "hi"']]);
+  });
+
+  it('keeps newlines inside quoted cells', () => {
+    expect(parseDelimited('"línea uno\nlínea dos",lines\r\nperro,dog', ',')).toEqual([
+      ['línea uno\nlínea dos', 'lines'],
+      ['perro', 'dog'],
+    ]);
+  });
+
+  it('reads a last row without a trailing newline', () => {
+    expect(parseDelimited('gato\tcat\nperro\tdog', '\t')).toEqual([
+      ['gato', 'cat'],
+      ['perro', 'dog'],
+    ]);
+  });
+
+  it('leaves quotes in the middle of a cell alone', () => {
+    expect(parseDelimited('el "gato",cat', ',')).toEqual([['el "gato"', 'cat']]);
+  });
+});
+
+describe('sniffDelimiter', () => {
+  it('picks a tab over a semicolon when every line has a tab', () => {
+    expect(sniffDelimiter('hola; adiós\thello; bye\ngato\tcat')).toBe('\t');
+  });
+
+  it('picks a semicolon when the lines have no tabs', () => {
+    expect(sniffDelimiter('gato;cat\nperro;dog\n')).toBe(';');
+  });
+
+  it('prefers "=" so "hola, amigo = hello, friend" lines still work', () => {
+    expect(sniffDelimiter('hola, amigo = hello, friend\nadiós = bye')).toBe('=');
+  });
+});
+
+describe('parseImportText', () => {
+  it('drops a byte order mark', () => {
+    const table = parseImportText('\uFEFFspanish,english\ngato,cat\n', undefined, 'cards.csv');
+
+    expect(table.rows[0]).toEqual(['spanish', 'english']);
+  });
+
+  it('reads semicolon-separated CSV', () => {
+    const table = parseImportText('gato;cat\nperro;dog\n', 'csv');
+
+    expect(table.rows).toEqual([
+      ['gato', 'cat'],
+      ['perro', 'dog'],
+    ]);
+    expect(table.columnCount).toBe(2);
+  });
+
+  it('detects TSV from tabs without a file name', () => {
+    const table = parseImportText('gato\tcat; feline\nperro\tdog\n');
+
+    expect(table.format).toBe('tsv');
+    expect(table.rows[0]).toEqual(['gato', 'cat; feline']);
+  });
+
+  it('detects Quizlet rows on one line', () => {
+    const table = parseImportText('gato,cat;perro,dog;casa,house');
+
+    expect(table.format).toBe('quizlet');
+    expect(table.rows).toEqual([
+      ['gato', 'cat'],
+      ['perro', 'dog'],
+      ['casa', 'house'],
+    ]);
+  });
+
+  it('rejects empty text', () => {
+    expect(() => parseImportText('\uFEFF  \n')).toThrow(ImportError);
+  });
+});
+
+describe('Anki plain-text exports', () => {
+  const text = '#separator:tab\n#html:true\n#columns:Front\tBack\n<b>gato</b>\tcat&amp;dog\nperro\tdog\n';
+
+  it('is detected from its header lines', () => {
+    expect(detectTextFormat(text, 'deck.txt')).toBe('anki-text');
+  });
+
+  it('uses the header for the separator, HTML and column names', () => {
+    const table = parseAnkiText(text);
+
+    expect(table.headers).toEqual(['Front', 'Back']);
+    expect(table.rows).toEqual([
+      ['gato', 'cat&dog'],
+      ['perro', 'dog'],
+    ]);
+    expect(table.firstRow).toBe(4);
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Text import formats: CSV, TSV, Quizlet export text and Anki plain-text
+ * exports, plus the old "spanish = english" lines from the bulk-add box.
+ */
+
+import { ImportError, type ImportFormat, type ImportTable } from './types';
+
+/** Delimiters tried when the format isn't known, most specific first */
+const DELIMITER_CANDIDATES = ['\t', '=', ',', ';'] as const;
+
+/** Lines looked at when guessing the delimiter */
+const SNIFF_LINES = 20;
+
+const ANKI_SEPARATORS: Record<string, string> = {
+  tab: '\t',
+  comma: ',',
+  semicolon: ';',
+  space: ' ',
+  pipe: '|',
+  colon: ':',
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function toTable(format: ImportFormat, rows: string[][], headers: string[] | null = null): ImportTable {
+  const cleaned = rows
+    .map((row) => row.map((cell) => cell.trim()))
+    .filter((row) => row.some(Boolean));
+  const columnCount = Math.max(headers?.length ?? 0, ...cleaned.map((row) => row.length), 0);
+  return { format, headers, rows: cleaned, columnCount, firstRow: 1 };
+}
+
+/**
+ * Split delimited text into rows of cells. Handles RFC 4180 quoting:
+ * quoted cells may contain the delimiter, newlines and doubled quotes ("").
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && cell.trim() === '') {
+      quoted = true;
+      cell = '';
+    } else if (text.startsWith(delimiter, i)) {
+      row.push(cell);
+      cell = '';
+      i += delimiter.length;
+      continue;
+    } else if (char === '\n' || char === '\r') {
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+      if (char === '\r' && text[i + 1] === '\n') i++;
+    } else {
+      cell += char;
+    }
+    i++;
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Guess the delimiter of pasted text: the first candidate found on every line,
+ * otherwise the one found on most lines. "=" is tried before "," so the old
+ * "hola, amigo = hello, friend" lines keep working.
+ */
+export function sniffDelimiter(text: string): string {
+  const lines = text
+    .split(/\r?\n/)
+    .filter((line) => line.trim() && !line.startsWith('#'))
+    .slice(0, SNIFF_LINES);
+  if (lines.length === 0) return '\t';
+
+  let best: { delimiter: string; coverage: number } = { delimiter: '\t', coverage: 0 };
+  for (const delimiter of DELIMITER_CANDIDATES) {
+    const covered = lines.filter((line) => line.includes(delimiter)).length;
+    const coverage = covered / lines.length;
+    if (coverage > best.coverage) best = { delimiter, coverage };
+    if (coverage === 1) break;
+  }
+  return best.delimiter;
+}
+
+/**
+ * Quizlet lets you export with custom separators, e.g. "hola,hello;adiós,bye".
+ * Rows are split on `rowSeparator`, then each row on the first `termSeparator`.
+ */
+export function parseQuizlet(text: string, rowSeparator = ';', termSeparator = ','): string[][] {
+  return text
+    .split(rowSeparator)
+    .map((row) => row.trim())
+    .filter(Boolean)
+    .map((row) => {
+      const at = row.indexOf(termSeparator);
+      return at === -1 ? [row] : [row.slice(0, at), row.slice(at + termSeparator.length)];
+    });
+}
+
+/** "term,def;term,def" on one or a few lines, rather than one card per line */
+function looksLikeQuizletRows(text: string): boolean {
+  const segments = text.split(';').map((s) => s.trim()).filter(Boolean);
+  const lines = text.split(/\r?\n/).filter((l) => l.trim()).length;
+  return segments.length >= 2 && segments.length > lines && segments.every((s) => s.includes(',') || s.includes('\t'));
+}
+
+/**
+ * Strip the HTML and media references Anki stores in note fields
+ */
+export function stripHtml(value: string): string {
+  return value
+    .replace(/\[sound:[^\]]*\]/g, ' ')
+    .replace(/<(br|\/div|\/p|\/li)\b[^>]*>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Anki "Notes in Plain Text" export. Newer versions start with `#key:value`
+ * header lines describing the separator, HTML and column names.
+ */
+export function parseAnkiText(text: string): ImportTable {
+  const lines = text.split(/\r?\n/);
+  const meta: Record<string, string> = {};
+  let start = 0;
+  while (start < lines.length && lines[start].startsWith('#')) {
+    const match = lines[start].match(/^#([^:]+):(.*)$/);
+    if (match) meta[match[1].trim().toLowerCase()] = match[2];
+    start++;
+  }
+
+  const rawSeparator = meta.separator?.trim() ?? '';
+  const separator = ANKI_SEPARATORS[rawSeparator.toLowerCase()] ?? (rawSeparator || '\t');
+  const html = meta.html === undefined || meta.html.trim().toLowerCase() === 'true';
+  const body = lines.slice(start).join('\n');
+
+  const rows = parseDelimited(body, separator).map((row) => (html ? row.map(stripHtml) : row));
+  const headers = meta.columns ? meta.columns.split(separator).map((name) => name.trim()) : null;
+
+  // Data starts after the metadata lines
+  return { ...toTable('anki-text', rows, headers), firstRow: start + 1 };
+}
+
+/**
+ * Best guess at the format of some text, using the file name when there is one
+ */
+export function detectTextFormat(text: string, fileName = ''): ImportFormat {
+  const extension = fileName.toLowerCase().split('.').pop() ?? '';
+  if (/^#(separator|html|columns|notetype|deck|tags)/m.test(text.slice(0, 500))) return 'anki-text';
+  if (extension === 'tsv') return 'tsv';
+  if (extension === 'csv') return 'csv';
+  if (looksLikeQuizletRows(text)) return 'quizlet';
+  return sniffDelimiter(text) === '\t' ? 'tsv' : 'csv';
+}
+
+/**
+ * Parse import text into a table, detecting the format unless one is given
+ */
+export function parseImportText(text: string, format?: ImportFormat, fileName?: string): ImportTable {
+  const source = text.replace(/^\uFEFF/, '');
+  if (!source.trim()) throw new ImportError('There is nothing to import.');
+
+  const resolved = format ?? detectTextFormat(source, fileName);
+  switch (resolved) {
+    case 'anki-text':
+      return parseAnkiText(source);
+    case 'quizlet':
+      return toTable('quizlet', parseQuizlet(source, ';', source.includes('\t') ? '\t' : ','));
+    case 'tsv':
+      return toTable('tsv', parseDelimited(source, '\t'));
+    case 'csv': {
+      const delimiter = sniffDelimiter(source);
+      return toTable('csv', parseDelimited(source, delimiter === '\t' ? ',' : delimiter));
+    }
+    case 'anki-package':
+      throw new ImportError('Anki packages must be opened as a file.');
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Deck Import
+ *
+ * Reads CSV, TSV, Quizlet and Anki exports into a table, maps its columns to
+ * card fields and validates each row. Framework-free: uploading the cards is
+ * up to the caller.
+ */
+
+import { parseAnkiPackage } from './anki-package';
+import { parseImportText } from './delimited';
+import type { ImportFormat, ImportTable } from './types';
+
+export { parseImportText, parseDelimited, detectTextFormat, stripHtml } from './delimited';
+export { parseAnkiPackage } from './anki-package';
+export {
+  IMPORT_FIELDS,
+  NOTES_MAX_LENGTH,
+  looksLikeHeaderRow,
+  applyHeaderRow,
+  guessMapping,
+  buildImportRows,
+  isImportable,
+} from './mapping';
+export { ImportError } from './types';
+
+export type { ImportFormat, ImportTable, ImportField, ColumnMapping, ImportIssue, ImportRow } from './types';
+
+/** File extensions offered in the file picker */
+export const IMPORT_FILE_TYPES = '.csv,.tsv,.txt,.apkg';
+
+/**
+ * Read an uploaded file. `.apkg` files are opened as Anki packages; anything
+ * else is read as text, detecting the format unless one is given.
+ */
+export async function parseImportFile(file: File, format?: ImportFormat): Promise<ImportTable> {
+  if (format === 'anki-package' || (!format && file.name.toLowerCase().endsWith('.apkg'))) {
+    return parseAnkiPackage(await file.arrayBuffer());
+  }
+  return parseImportText(await file.text(), format, file.name);
+}
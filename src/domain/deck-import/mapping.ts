@@ -0,0 +1,192 @@
+/**
+ * Column mapping and row validation: turns a parsed table into card bodies,
+ * flagging rows that can't be imported and words the deck already has.
+ */
+
+import { normalizeAnswer, splitAlternates } from '@/lib/answer-matching';
+import type { CreateCardBody } from '@/types/api.types';
+import type { ColumnMapping, ImportField, ImportIssue, ImportRow, ImportTable } from './types';
+
+/** Same limit as the card editor */
+export const NOTES_MAX_LENGTH = 150;
+
+export const IMPORT_FIELDS: readonly { field: ImportField; label: string; required: boolean }[] = [
+  { field: 'spanish', label: 'Spanish', required: true },
+  { field: 'english', label: 'English', required: true },
+  { field: 'notes', label: 'Notes', required: false },
+  { field: 'distractor_1', label: 'Distractor 1', required: false },
+  { field: 'distractor_2', label: 'Distractor 2', required: false },
+  { field: 'distractor_3', label: 'Distractor 3', required: false },
+  { field: 'answer', label: 'Spanish answer', required: false },
+  { field: 'accepted_es', label: 'Also accept (Spanish)', required: false },
+  { field: 'accepted_en', label: 'Also accept (English)', required: false },
+];
+
+const DISTRACTOR_FIELDS = ['distractor_1', 'distractor_2', 'distractor_3'] as const;
+
+/**
+ * Header names recognised for each field. Names that say which language a
+ * column is in ("Spanish") are trusted; neutral ones ("Front") may be swapped
+ * if the content says otherwise.
+ */
+const HEADER_ALIASES: Record<ImportField, { named: string[]; neutral: string[] }> = {
+  spanish: { named: ['spanish', 'espanol', 'es', 'palabra'], neutral: ['term', 'front', 'word', 'prompt', 'question'] },
+  english: { named: ['english', 'ingles', 'en', 'traduccion'], neutral: ['definition', 'back', 'meaning', 'translation', 'answer'] },
+  notes: { named: ['notes', 'note', 'notas', 'extra', 'hint', 'example', 'comments'], neutral: [] },
+  distractor_1: { named: ['distractor1', 'wrong1'], neutral: [] },
+  distractor_2: { named: ['distractor2', 'wrong2'], neutral: [] },
+  distractor_3: { named: ['distractor3', 'wrong3'], neutral: [] },
+  // The deck export's own column names, so an exported CSV imports back in
+  answer: { named: ['spanishanswer', 'respuesta'], neutral: [] },
+  accepted_es: { named: ['alsoacceptspanish', 'acceptedspanish', 'alternatesspanish'], neutral: [] },
+  accepted_en: { named: ['alsoacceptenglish', 'acceptedenglish', 'alternatesenglish'], neutral: [] },
+};
+
+const SPANISH_HINT = /[áéíóúñ¿¡]|^(el|la|los|las|un|una|unos|unas|de|que|y|es|está)\s/i;
+
+function headerKey(name: string): string {
+  return normalizeAnswer(name).replace(/[^a-z0-9]/g, '');
+}
+
+function fieldForHeader(name: string): { field: ImportField; named: boolean } | null {
+  const key = headerKey(name);
+  for (const { field } of IMPORT_FIELDS) {
+    const aliases = HEADER_ALIASES[field];
+    if (aliases.named.includes(key)) return { field, named: true };
+    if (aliases.neutral.includes(key)) return { field, named: false };
+  }
+  return null;
+}
+
+/**
+ * Whether the first row reads like column names ("Spanish, English") rather than a card
+ */
+export function looksLikeHeaderRow(row: readonly string[] | undefined): boolean {
+  if (!row) return false;
+  const fields = new Set(row.map((cell) => fieldForHeader(cell)?.field).filter(Boolean));
+  return fields.size >= 2;
+}
+
+/**
+ * Use the table's first row as its column names
+ */
+export function applyHeaderRow(table: ImportTable, useFirstRow: boolean): ImportTable {
+  if (!useFirstRow || table.rows.length === 0) return table;
+  return { ...table, headers: table.rows[0], rows: table.rows.slice(1), firstRow: table.firstRow + 1 };
+}
+
+/** Share of a column's cells that look Spanish (accents, ñ, ¿¡, articles) */
+function spanishScore(table: ImportTable, column: number): number {
+  const sample = table.rows.slice(0, 50).map((row) => row[column] ?? '').filter(Boolean);
+  if (sample.length === 0) return 0;
+  return sample.filter((value) => SPANISH_HINT.test(value)).length / sample.length;
+}
+
+/**
+ * Best-guess mapping: columns named after a field go there, otherwise
+ * Spanish and English take the first two columns and a third becomes notes.
+ */
+export function guessMapping(table: ImportTable): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  let languageNamed = false;
+
+  table.headers?.forEach((name, column) => {
+    const match = fieldForHeader(name);
+    if (match && mapping[match.field] === undefined) {
+      mapping[match.field] = column;
+      if (match.named && (match.field === 'spanish' || match.field === 'english')) languageNamed = true;
+    }
+  });
+
+  const used = new Set(Object.values(mapping));
+  const nextFree = () => {
+    for (let column = 0; column < table.columnCount; column++) {
+      if (!used.has(column)) {
+        used.add(column);
+        return column;
+      }
+    }
+    return undefined;
+  };
+  if (mapping.spanish === undefined) mapping.spanish = nextFree();
+  if (mapping.english === undefined) mapping.english = nextFree();
+  if (mapping.notes === undefined && !table.headers && table.columnCount >= 3) mapping.notes = nextFree();
+
+  // "Front/Back" doesn't say which side is Spanish; look at the words themselves
+  if (!languageNamed && mapping.spanish !== undefined && mapping.english !== undefined) {
+    if (spanishScore(table, mapping.english) > spanishScore(table, mapping.spanish) + 0.2) {
+      [mapping.spanish, mapping.english] = [mapping.english, mapping.spanish];
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Apply a mapping and validate every row. Rows are flagged as duplicates when
+ * their Spanish matches `existingSpanish` (cards already in the deck) or an
+ * earlier row, ignoring case, punctuation and accents.
+ */
+export function buildImportRows(
+  table: ImportTable,
+  mapping: ColumnMapping,
+  existingSpanish: readonly string[] = [],
+): ImportRow[] {
+  const existing = new Set(existingSpanish.map(normalizeAnswer).filter(Boolean));
+  const seen = new Set<string>();
+
+  return table.rows.map((cells, index) => {
+    const value = (field: ImportField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (cells[column] ?? '').trim();
+    };
+    const issues: ImportIssue[] = [];
+
+    const spanish = value('spanish');
+    const english = value('english');
+    if (!spanish) issues.push({ level: 'error', message: 'Missing Spanish' });
+    if (!english) issues.push({ level: 'error', message: 'Missing English' });
+
+    const card: CreateCardBody = { prompt_es: spanish, translation_en: english };
+
+    let notes = value('notes');
+    if (notes.length > NOTES_MAX_LENGTH) {
+      notes = notes.slice(0, NOTES_MAX_LENGTH);
+      issues.push({ level: 'warning', message: `Notes cut to ${NOTES_MAX_LENGTH} characters` });
+    }
+    if (notes) card.notes = notes;
+
+    const answerKey = normalizeAnswer(spanish);
+    // Only kept when it differs from the prompt, like the card editor
+    const answer = value('answer');
+    if (answer && normalizeAnswer(answer) !== answerKey) card.answer_es = answer;
+
+    const acceptedEs = splitAlternates(value('accepted_es'));
+    const acceptedEn = splitAlternates(value('accepted_en'));
+    if (acceptedEs.length > 0) card.accepted_es = acceptedEs;
+    if (acceptedEn.length > 0) card.accepted_en = acceptedEn;
+
+    DISTRACTOR_FIELDS.forEach((field, i) => {
+      const distractor = value(field);
+      if (!distractor) return;
+      if (normalizeAnswer(distractor) === answerKey) {
+        issues.push({ level: 'warning', message: `Distractor ${i + 1} is the answer itself and was left out` });
+        return;
+      }
+      card[`${field}_es`] = distractor;
+    });
+
+    let duplicate: ImportRow['duplicate'] = null;
+    if (answerKey) {
+      if (existing.has(answerKey)) duplicate = 'existing';
+      else if (seen.has(answerKey)) duplicate = 'file';
+      seen.add(answerKey);
+    }
+
+    return { line: table.firstRow + index, card, issues, duplicate };
+  });
+}
+
+/** Rows without errors — the ones that can be imported */
+export function isImportable(row: ImportRow): boolean {
+  return !row.issues.some((issue) => issue.level === 'error');
+}
@@ -0,0 +1,58 @@
+import type { CreateCardBody } from '@/types/api.types';
+
+/**
+ * Source formats the importer understands.
+ * `quizlet` is Quizlet's "export" text with custom row separators
+ * (the default Quizlet export is plain TSV).
+ */
+export type ImportFormat = 'csv' | 'tsv' | 'quizlet' | 'anki-text' | 'anki-package';
+
+/** A parsed file before columns are mapped to card fields */
+export interface ImportTable {
+  format: ImportFormat;
+  /** Column names when the source has them (CSV header row, Anki field names) */
+  headers: string[] | null;
+  rows: string[][];
+  /** Widest row, so every column can be offered in the mapping step */
+  columnCount: number;
+  /** Source row number (1-based) of `rows[0]`, for messages */
+  firstRow: number;
+}
+
+/** Card fields a column can be mapped to */
+export type ImportField =
+  | 'spanish'
+  | 'english'
+  | 'notes'
+  | 'distractor_1'
+  | 'distractor_2'
+  | 'distractor_3'
+  | 'answer'
+  | 'accepted_es'
+  | 'accepted_en';
+
+/** Which column (0-based) feeds each card field; unmapped fields are left out */
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ImportIssue {
+  /** Errors keep the row out of the import; warnings are fixed up automatically */
+  level: 'error' | 'warning';
+  message: string;
+}
+
+export interface ImportRow {
+  /** 1-based row number in the source, for messages */
+  line: number;
+  card: CreateCardBody;
+  issues: ImportIssue[];
+  /** Same Spanish word as a card already in the deck, or as an earlier row */
+  duplicate: 'existing' | 'file' | null;
+}
+
+/** A file that can't be read as any supported format */
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * Leaderboard
+ *
+ * Export the leaderboard ranking and XP timeline helpers
+ */
+
+export { LEADERBOARD_DEFAULTS, rankEntries, leaderboardView, xpTimeline } from './leaderboard';
+
+export type { LeaderboardRow, LeaderboardView, TimelineDay } from './leaderboard';
@@ -0,0 +1,106 @@
+/**
+ * Leaderboard
+ *
+ * Ranked rows for the XP leaderboard, with the current user's place pinned
+ * underneath when they didn't make the top N, and the XP history grouped
+ * into a day-by-day timeline. Framework-free: callers pass the API entries in.
+ */
+import { dayKey } from '../daily-goals';
+import type { XpHistoryEntry, XpLeaderboardEntry, XpLeaderboardPosition } from '@/types/api.types';
+
+export const LEADERBOARD_DEFAULTS = {
+  LIMIT: 50,
+};
+
+export interface LeaderboardRow {
+  id: string;
+  displayName: string | null;
+  avatarUrl: string | null;
+  rank: number;
+  /** XP in the requested period */
+  xp: number;
+  isMe: boolean;
+}
+
+export interface LeaderboardView {
+  rows: LeaderboardRow[];
+  /** The current user's row when they aren't in `rows`, else null */
+  me: LeaderboardRow | null;
+}
+
+export interface TimelineDay {
+  key: string;
+  date: Date;
+  total: number;
+  /** Newest first */
+  entries: XpHistoryEntry[];
+}
+
+/**
+ * Rows in XP order. Uses the server's rank when given; otherwise tied XP
+ * shares a rank (1, 2, 2, 4).
+ */
+export function rankEntries(entries: readonly XpLeaderboardEntry[], currentUserId?: string | null): LeaderboardRow[] {
+  const sorted = [...entries].sort((a, b) => (b.xp ?? b.xp_total) - (a.xp ?? a.xp_total));
+  const rows: LeaderboardRow[] = [];
+  sorted.forEach((entry, i) => {
+    const xp = entry.xp ?? entry.xp_total;
+    const previous = rows[i - 1];
+    const rank = entry.rank ?? (previous && previous.xp === xp ? previous.rank : i + 1);
+    rows.push({
+      id: entry.id,
+      displayName: entry.display_name,
+      avatarUrl: entry.avatar_url ?? null,
+      rank,
+      xp,
+      isMe: entry.id === currentUserId,
+    });
+  });
+  return rows;
+}
+
+/**
+ * The ranked rows plus the current user's row, from their position, when
+ * they fall outside the top N. A user without XP in the period gets no row.
+ */
+export function leaderboardView(
+  entries: readonly XpLeaderboardEntry[],
+  currentUser: { id: string; display_name?: string | null; avatar_url?: string | null } | null,
+  position: XpLeaderboardPosition | null,
+): LeaderboardView {
+  const rows = rankEntries(entries, currentUser?.id);
+  if (!currentUser || rows.some((row) => row.isMe) || !position || position.rank === null) {
+    return { rows, me: null };
+  }
+  return {
+    rows,
+    me: {
+      id: currentUser.id,
+      displayName: currentUser.display_name ?? null,
+      avatarUrl: currentUser.avatar_url ?? null,
+      rank: position.rank,
+      xp: position.xp,
+      isMe: true,
+    },
+  };
+}
+
+/**
+ * XP history grouped by local day, newest day first
+ */
+export function xpTimeline(history: readonly XpHistoryEntry[]): TimelineDay[] {
+  const days = new Map<string, TimelineDay>();
+  const sorted = [...history].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+  for (const entry of sorted) {
+    const date = new Date(entry.created_at);
+    const key = dayKey(date);
+    let day = days.get(key);
+    if (!day) {
+      day = { key, date: new Date(date.getFullYear(), date.getMonth(), date.getDate()), total: 0, entries: [] };
+      days.set(key, day);
+    }
+    day.total += entry.amount;
+    day.entries.push(entry);
+  }
+  return [...days.values()];
+}
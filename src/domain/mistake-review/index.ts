@@ -0,0 +1,9 @@
+/**
+ * Mistake Review
+ *
+ * Export the recent-mistakes pool builder
+ */
+
+export { MISTAKE_REVIEW_DEFAULTS, buildMistakePool, pickMistakeCards } from './mistakes';
+
+export type { MistakeEvent, MistakeEntry, MistakePoolOptions } from './mistakes';
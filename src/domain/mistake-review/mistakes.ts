@@ -0,0 +1,116 @@
+/**
+ * Mistake Review
+ *
+ * Builds the "Review my mistakes" pool from study history: cards answered
+ * wrong recently, in any deck, weighted by how often and how recently they
+ * were missed. A card leaves the pool once it has been answered correctly
+ * enough times in a row. Framework-free: callers pass events in and get the
+ * pool out.
+ */
+
+export const MISTAKE_REVIEW_DEFAULTS = {
+  /** Only mistakes from this many days back count */
+  LOOKBACK_DAYS: 30,
+  /** Correct answers in a row that clear a card */
+  CLEAR_AFTER_CORRECT: 3,
+  /** A mistake this many days old weighs half as much as one made today */
+  HALF_LIFE_DAYS: 7,
+  /** Cards in one review session */
+  MAX_CARDS: 25,
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Minimal shape of a study event; compatible with `DbStudyEvent`
+ */
+export interface MistakeEvent {
+  card_id: string;
+  deck_id?: string | null;
+  result: 'correct' | 'incorrect';
+  created_at: string | Date;
+}
+
+export interface MistakeEntry {
+  cardId: string;
+  /** Deck of the most recent event that had one */
+  deckId: string | null;
+  /** Mistakes inside the lookback window */
+  errors: number;
+  lastMissedAt: Date;
+  /** Correct answers since the last mistake */
+  correctStreak: number;
+  /** Recency-weighted error count; higher comes first */
+  weight: number;
+}
+
+export interface MistakePoolOptions {
+  now?: Date;
+  lookbackDays?: number;
+  clearAfter?: number;
+  halfLifeDays?: number;
+}
+
+/**
+ * Cards still to review, heaviest first. Events can come in any order.
+ */
+export function buildMistakePool(events: readonly MistakeEvent[], options: MistakePoolOptions = {}): MistakeEntry[] {
+  const now = options.now ?? new Date();
+  const lookbackDays = options.lookbackDays ?? MISTAKE_REVIEW_DEFAULTS.LOOKBACK_DAYS;
+  const clearAfter = options.clearAfter ?? MISTAKE_REVIEW_DEFAULTS.CLEAR_AFTER_CORRECT;
+  const halfLifeDays = options.halfLifeDays ?? MISTAKE_REVIEW_DEFAULTS.HALF_LIFE_DAYS;
+  const windowStart = now.getTime() - lookbackDays * DAY_MS;
+
+  const sorted = [...events].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+  const entries = new Map<string, MistakeEntry>();
+
+  for (const event of sorted) {
+    const at = new Date(event.created_at);
+    const entry = entries.get(event.card_id);
+    if (entry && event.deck_id) entry.deckId = event.deck_id;
+
+    if (event.result === 'correct') {
+      if (entry) entry.correctStreak += 1;
+      continue;
+    }
+    if (at.getTime() < windowStart) continue;
+
+    const ageDays = Math.max(0, (now.getTime() - at.getTime()) / DAY_MS);
+    const weight = 0.5 ** (ageDays / halfLifeDays);
+    if (entry) {
+      entry.errors += 1;
+      entry.lastMissedAt = at;
+      entry.correctStreak = 0;
+      entry.weight += weight;
+    } else {
+      entries.set(event.card_id, {
+        cardId: event.card_id,
+        deckId: event.deck_id ?? null,
+        errors: 1,
+        lastMissedAt: at,
+        correctStreak: 0,
+        weight,
+      });
+    }
+  }
+
+  return [...entries.values()]
+    .filter((entry) => entry.correctStreak < clearAfter)
+    .sort((a, b) => b.weight - a.weight || b.lastMissedAt.getTime() - a.lastMissedAt.getTime());
+}
+
+/**
+ * The pool's cards in pool order, at most `max`. Pool entries whose card is
+ * missing (deleted, or the deck is no longer shared) are skipped.
+ */
+export function pickMistakeCards<T extends { id: string }>(
+  pool: readonly MistakeEntry[],
+  cards: readonly T[],
+  max: number = MISTAKE_REVIEW_DEFAULTS.MAX_CARDS,
+): T[] {
+  const byId = new Map(cards.map((card) => [card.id, card]));
+  return pool
+    .map((entry) => byId.get(entry.cardId))
+    .filter((card): card is T => !!card)
+    .slice(0, max);
+}
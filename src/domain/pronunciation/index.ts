@@ -0,0 +1,15 @@
+/**
+ * Pronunciation
+ *
+ * Export the pronunciation score and attempt history helpers
+ */
+
+export {
+  PRONUNCIATION_DEFAULTS,
+  pronunciationScore,
+  attemptsFromEvents,
+  cardAttempts,
+  attemptTrend,
+} from './pronunciation';
+
+export type { PronunciationAttempt, AttemptTrend } from './pronunciation';
@@ -0,0 +1,90 @@
+/**
+ * Pronunciation
+ *
+ * Scores a spoken answer from its word alignment against the target and
+ * keeps the per-card attempt history (from speech study events) that shows
+ * whether a student is improving. Framework-free: callers pass events in.
+ */
+import type { WordAlignment } from '@/lib/answer-matching';
+import type { DbStudyEvent } from '@/types/api.types';
+
+export const PRONUNCIATION_DEFAULTS = {
+  /** Attempts kept per card in the history strip */
+  HISTORY_SIZE: 8,
+  /** Below this the confidence meter warns that the recognizer wasn't sure */
+  LOW_CONFIDENCE: 0.6,
+};
+
+/** Credit per target word; extra words cost as much as a missed one */
+const WORD_CREDIT: Record<WordAlignment['status'], number> = { match: 1, close: 0.75, missed: 0, extra: 0 };
+
+export interface PronunciationAttempt {
+  cardId: string;
+  at: string;
+  transcript: string;
+  /** 0–100 */
+  score: number;
+  /** 0–1, null when the recognizer didn't report one */
+  confidence: number | null;
+  accepted: boolean;
+}
+
+export interface AttemptTrend {
+  latest: number;
+  best: number;
+  /** Latest score minus the first one in the history; 0 with a single attempt */
+  change: number;
+}
+
+/**
+ * 0–100: credit for each target word over the target and extra words
+ */
+export function pronunciationScore(alignment: readonly WordAlignment[]): number {
+  if (alignment.length === 0) return 0;
+  const credit = alignment.reduce((sum, word) => sum + WORD_CREDIT[word.status], 0);
+  return Math.round((credit / alignment.length) * 100);
+}
+
+/**
+ * Speech attempts from study events, oldest first. Events recorded before
+ * scores were stored count as 100 when correct and 0 otherwise.
+ */
+export function attemptsFromEvents(
+  events: readonly Pick<
+    DbStudyEvent,
+    'card_id' | 'result' | 'response_type' | 'transcript_es' | 'speech_confidence' | 'pronunciation_score' | 'created_at'
+  >[],
+): PronunciationAttempt[] {
+  return events
+    .filter((e) => e.response_type === 'speech' && e.transcript_es)
+    .map((e) => ({
+      cardId: e.card_id,
+      at: e.created_at,
+      transcript: e.transcript_es ?? '',
+      score: e.pronunciation_score ?? (e.result === 'correct' ? 100 : 0),
+      confidence: e.speech_confidence ?? null,
+      accepted: e.result === 'correct',
+    }))
+    .sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+}
+
+/**
+ * The card's latest attempts, oldest first
+ */
+export function cardAttempts(
+  attempts: readonly PronunciationAttempt[],
+  cardId: string,
+  limit = PRONUNCIATION_DEFAULTS.HISTORY_SIZE,
+): PronunciationAttempt[] {
+  return attempts.filter((a) => a.cardId === cardId).slice(-limit);
+}
+
+export function attemptTrend(attempts: readonly PronunciationAttempt[]): AttemptTrend | null {
+  if (attempts.length === 0) return null;
+  const latest = attempts[attempts.length - 1].score;
+  return {
+    latest,
+    best: Math.max(...attempts.map((a) => a.score)),
+    change: latest - attempts[0].score,
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * Spaced Repetition
+ *
+ * Export the SRS scheduler
+ */
+
+export {
+  SRS_DEFAULTS,
+  startOfDay,
+  createCardSchedule,
+  gradeFromEvent,
+  applyReview,
+  buildSchedules,
+  isDue,
+  planStudySession,
+} from './scheduler';
+
+export type { ReviewGrade, ReviewEvent, CardSchedule, StudyPlan } from './scheduler';
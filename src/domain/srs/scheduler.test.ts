@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { SRS_DEFAULTS, applyReview, createCardSchedule } from './scheduler';
+
+const at = (day: number, hour: number) => new Date(2026, 0, day, hour);
+
+describe('applyReview', () => {
+  it('ignores a correct repeat on the same day', () => {
+    const morning = applyReview(createCardSchedule('c1'), 4, at(5, 9));
+
+    expect(applyReview(morning, 5, at(5, 20))).toBe(morning);
+  });
+
+  it('counts a miss after a correct answer earlier the same day as a lapse', () => {
+    let schedule = applyReview(createCardSchedule('c1'), 4, at(1, 9));
+    schedule = applyReview(schedule, 4, at(2, 9));
+    schedule = applyReview(schedule, 4, at(8, 9));
+    expect(schedule.intervalDays).toBeGreaterThan(SRS_DEFAULTS.SECOND_INTERVAL_DAYS);
+
+    const missed = applyReview(schedule, 2, at(8, 20));
+
+    expect(missed.lapses).toBe(1);
+    expect(missed.repetitions).toBe(0);
+    expect(missed.intervalDays).toBe(SRS_DEFAULTS.FIRST_INTERVAL_DAYS);
+    expect(missed.due).toEqual(at(9, 0));
+  });
+
+  it('counts only one lapse for repeated misses on the same day', () => {
+    const missed = applyReview(applyReview(createCardSchedule('c1'), 4, at(5, 9)), 2, at(5, 12));
+
+    expect(applyReview(missed, 2, at(5, 18))).toBe(missed);
+  });
+});
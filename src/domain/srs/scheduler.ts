@@ -0,0 +1,217 @@
+/**
+ * Spaced Repetition Scheduler
+ *
+ * SM-2 style scheduler that derives per-card ease, interval and due date
+ * by replaying the user's study events. Framework-free: no React, no API
+ * access — callers pass events in and get schedules out.
+ */
+
+export const SRS_DEFAULTS = {
+  INITIAL_EASE: 2.5,
+  MIN_EASE: 1.3,
+  FIRST_INTERVAL_DAYS: 1,
+  SECOND_INTERVAL_DAYS: 6,
+  NEW_CARDS_PER_DAY: 20,
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * SM-2 quality grade (0-5). Anything below 3 counts as a lapse.
+ */
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+/**
+ * Minimal shape of a study event the scheduler needs.
+ * Compatible with `DbStudyEvent` and with the payload sent to `api.studyEvents.create`.
+ */
+export interface ReviewEvent {
+  card_id: string;
+  result: 'correct' | 'incorrect';
+  response_type?: string | null;
+  created_at: string | Date;
+}
+
+export interface CardSchedule {
+  cardId: string;
+  ease: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+  due: Date | null;
+  firstReviewedAt: Date | null;
+  lastReviewedAt: Date | null;
+}
+
+export interface StudyPlan<T> {
+  /** Reviewed cards whose due date is today or earlier, most overdue first */
+  due: T[];
+  /** Never-reviewed cards, limited to what's left of today's new-card allowance */
+  fresh: T[];
+  /** Everything else (not yet due, or new cards over today's cap), soonest due first */
+  ahead: T[];
+  /** How many new cards were already introduced today */
+  newIntroducedToday: number;
+}
+
+/**
+ * Start of the local calendar day for a given date
+ */
+export function startOfDay(date: Date): Date {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
+
+function addDays(date: Date, days: number): Date {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d;
+}
+
+function isSameDay(a: Date, b: Date): boolean {
+  return startOfDay(a).getTime() === startOfDay(b).getTime();
+}
+
+/**
+ * Schedule for a card that has never been reviewed
+ */
+export function createCardSchedule(cardId: string): CardSchedule {
+  return {
+    cardId,
+    ease: SRS_DEFAULTS.INITIAL_EASE,
+    intervalDays: 0,
+    repetitions: 0,
+    lapses: 0,
+    due: null,
+    firstReviewedAt: null,
+    lastReviewedAt: null,
+  };
+}
+
+/**
+ * Map a study event to an SM-2 grade.
+ * Producing the Spanish (speech or written) is a stronger signal than tapping "Got it".
+ */
+export function gradeFromEvent(event: Pick<ReviewEvent, 'result' | 'response_type'>): ReviewGrade {
+  if (event.result === 'incorrect') return 2;
+  return event.response_type === 'speech' || event.response_type === 'written' ? 5 : 4;
+}
+
+/**
+ * Apply a single review to a schedule and return the updated schedule.
+ *
+ * The Study page can show the same card several times in one session (hard
+ * cards, retries), so a correct repeat on the same day doesn't compound, and
+ * neither does a miss once the card has already lapsed that day. A miss after
+ * a correct answer earlier the same day is still a lapse. A correct answer
+ * given before the card is due keeps the current interval instead of growing it.
+ */
+export function applyReview(schedule: CardSchedule, grade: ReviewGrade, reviewedAt: Date): CardSchedule {
+  if (schedule.lastReviewedAt && isSameDay(schedule.lastReviewedAt, reviewedAt)) {
+    const lapsedToday = schedule.repetitions === 0;
+    if (grade >= 3 || lapsedToday) return schedule;
+  }
+
+  const next: CardSchedule = {
+    ...schedule,
+    firstReviewedAt: schedule.firstReviewedAt ?? reviewedAt,
+    lastReviewedAt: reviewedAt,
+  };
+
+  const reviewDay = startOfDay(reviewedAt);
+
+  if (grade < 3) {
+    next.repetitions = 0;
+    next.lapses = schedule.lapses + 1;
+    next.intervalDays = SRS_DEFAULTS.FIRST_INTERVAL_DAYS;
+  } else if (schedule.due && reviewDay < startOfDay(schedule.due)) {
+    // Early review — keep the interval, just push the due date out from today
+    next.intervalDays = Math.max(schedule.intervalDays, SRS_DEFAULTS.FIRST_INTERVAL_DAYS);
+  } else {
+    next.repetitions = schedule.repetitions + 1;
+    if (next.repetitions === 1) {
+      next.intervalDays = SRS_DEFAULTS.FIRST_INTERVAL_DAYS;
+    } else if (next.repetitions === 2) {
+      next.intervalDays = SRS_DEFAULTS.SECOND_INTERVAL_DAYS;
+    } else {
+      next.intervalDays = Math.round(schedule.intervalDays * schedule.ease);
+    }
+  }
+
+  const q = 5 - grade;
+  next.ease = Math.max(SRS_DEFAULTS.MIN_EASE, schedule.ease + (0.1 - q * (0.08 + q * 0.02)));
+  next.due = addDays(reviewDay, next.intervalDays);
+
+  return next;
+}
+
+/**
+ * Replay a stream of study events (any order) into per-card schedules
+ */
+export function buildSchedules(events: ReviewEvent[]): Map<string, CardSchedule> {
+  const sorted = [...events].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+
+  const schedules = new Map<string, CardSchedule>();
+  for (const event of sorted) {
+    const current = schedules.get(event.card_id) ?? createCardSchedule(event.card_id);
+    schedules.set(event.card_id, applyReview(current, gradeFromEvent(event), new Date(event.created_at)));
+  }
+  return schedules;
+}
+
+/**
+ * Whether a card should be reviewed today
+ */
+export function isDue(schedule: CardSchedule | undefined, now: Date = new Date()): boolean {
+  if (!schedule?.due) return false;
+  return schedule.due.getTime() < startOfDay(now).getTime() + DAY_MS;
+}
+
+/**
+ * Split a deck into due, new and ahead-of-schedule cards for today's session
+ */
+export function planStudySession<T extends { id: string }>(
+  cards: T[],
+  schedules: Map<string, CardSchedule>,
+  options: { now?: Date; newCardsPerDay?: number } = {}
+): StudyPlan<T> {
+  const now = options.now ?? new Date();
+  const newCardsPerDay = options.newCardsPerDay ?? SRS_DEFAULTS.NEW_CARDS_PER_DAY;
+
+  const due: T[] = [];
+  const unseen: T[] = [];
+  const ahead: T[] = [];
+  let newIntroducedToday = 0;
+
+  for (const card of cards) {
+    const schedule = schedules.get(card.id);
+    if (!schedule?.due) {
+      unseen.push(card);
+      continue;
+    }
+    if (schedule.firstReviewedAt && isSameDay(schedule.firstReviewedAt, now)) {
+      newIntroducedToday++;
+    }
+    if (isDue(schedule, now)) {
+      due.push(card);
+    } else {
+      ahead.push(card);
+    }
+  }
+
+  const dueTime = (card: T) => schedules.get(card.id)?.due?.getTime() ?? 0;
+  due.sort((a, b) => dueTime(a) - dueTime(b));
+  ahead.sort((a, b) => dueTime(a) - dueTime(b));
+
+  const allowance = Math.max(0, newCardsPerDay - newIntroducedToday);
+
+  return {
+    due,
+    fresh: unseen.slice(0, allowance),
+    ahead: [...ahead, ...unseen.slice(allowance)],
+    newIntroducedToday,
+  };
+}
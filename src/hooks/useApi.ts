@@ -1,12 +1,30 @@
 /**
  * Custom hook for using the API client
- * Provides easy access to all API endpoints with proper typing
+ * Provides easy access to all API endpoints with proper typing.
+ * Requests made through the returned client are cancelled when the
+ * component unmounts, so late responses never update a dead page.
  */
-import { api } from '@/config/api';
+import { useEffect, useRef, useState } from 'react';
+import { createApiClient, isAbortError, type ApiClient } from '@/config/api';
 
-export function useApi() {
-  return api;
+export function useApi(): ApiClient {
+  const controllerRef = useRef<AbortController | null>(null);
+  const [client] = useState(() =>
+    createApiClient({
+      getSignal: () => (controllerRef.current ??= new AbortController()).signal,
+    })
+  );
+
+  useEffect(() => {
+    // StrictMode unmounts and remounts the same instance — start a fresh scope
+    if (controllerRef.current?.signal.aborted) controllerRef.current = new AbortController();
+    const controller = (controllerRef.current ??= new AbortController());
+    return () => controller.abort();
+  }, []);
+
+  return client;
 }
 
-export default useApi;
+export { isAbortError };
 
+export default useApi;
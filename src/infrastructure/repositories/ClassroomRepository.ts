@@ -5,7 +5,7 @@
  * Abstracts the API client and provides a clean interface for use cases.
  */
 
-import { api } from '../../config/api';
+import { api, NotFoundError } from '../../config/api';
 import type { DbClassroom } from '../../types/api.types';
 import type { IClassroomRepository as ICreateClassroomRepository } from '../../domain/use-cases/classroom/CreateClassroom';
 import type { IClassroomRepository as IJoinClassroomRepository } from '../../domain/use-cases/classroom/JoinClassroom';
@@ -50,8 +50,8 @@ export class ClassroomRepository implements IClassroomRepository {
       teacher_id: '',
       color: '#8B5CF6',
       is_active: true,
-      created_at: new Date(),
-      updated_at: new Date(),
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
     };
   }
 
@@ -62,7 +62,7 @@ export class ClassroomRepository implements IClassroomRepository {
     try {
       return await api.classrooms.get(id);
     } catch (error) {
-      if (error instanceof Error && error.message.includes('not found')) {
+      if (error instanceof NotFoundError) {
         return null;
       }
       throw error;
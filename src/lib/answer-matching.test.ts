@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { matchAnswer } from './answer-matching';
+
+describe('matchAnswer', () => {
+  it('forgives a typo and a missing accent on a regular deck', () => {
+    expect(matchAnswer('estaa', 'está')).toMatchObject({ grade: 'typo', isCorrect: true });
+    expect(matchAnswer('cancionn', 'canción')).toMatchObject({ grade: 'typo', isCorrect: true });
+  });
+
+  describe('on an accent-sensitive deck', () => {
+    const options = { accentSensitive: true };
+
+    it('rejects a missing accent', () => {
+      expect(matchAnswer('esta', 'está', options)).toMatchObject({ grade: 'accent-missing', isCorrect: false });
+    });
+
+    it('rejects a missing accent hidden behind an extra letter', () => {
+      expect(matchAnswer('estaa', 'está', options)).toMatchObject({ grade: 'wrong', isCorrect: false });
+      expect(matchAnswer('cancionn', 'canción', options)).toMatchObject({ grade: 'wrong', isCorrect: false });
+    });
+
+    it('still forgives a typo when every accent is right', () => {
+      expect(matchAnswer('cancióon', 'canción', options)).toMatchObject({ grade: 'typo', isCorrect: true });
+      expect(matchAnswer('la canciónn', 'la canción', options)).toMatchObject({ grade: 'typo', isCorrect: true });
+    });
+
+    it('checks the accents behind a different article', () => {
+      expect(matchAnswer('una cancionn', 'la canción', options)).toMatchObject({ isCorrect: false });
+    });
+  });
+
+  it('grades an article of the wrong gender or number as wrong', () => {
+    expect(matchAnswer('el casa', 'la casa').grade).toBe('wrong');
+    expect(matchAnswer('las gatos', 'los gatos').grade).toBe('wrong');
+    expect(matchAnswer('un gato', 'el gato')).toMatchObject({ grade: 'typo', isCorrect: true });
+  });
+});
@@ -0,0 +1,492 @@
+/**
+ * Answer Matching
+ *
+ * The one place that decides whether a typed or spoken Spanish answer matches
+ * a card. Used by Study, Solo and Blitz so every mode grades the same way.
+ *
+ * A card answer may list alternatives ("gato / minino", "hola; buenas") and
+ * optional parts in parentheses ("(el) gato", "irse (de)"), and cards can also
+ * carry a separate list of accepted alternates. Leading articles may be left
+ * out, but one of the wrong gender or number makes the answer wrong. Accents
+ * are forgiven unless the deck is accent-sensitive, and small typos are
+ * tolerated (on an accent-sensitive deck, only with every accent right).
+ */
+
+export type MatchGrade = 'exact' | 'accent-missing' | 'typo' | 'wrong';
+
+export interface MatchOptions {
+  /** Per-deck setting: a missing or wrong accent makes the answer incorrect */
+  accentSensitive?: boolean;
+}
+
+/** One run of a character-level diff between the learner's answer and the expected one */
+export interface DiffSegment {
+  /** `match`: typed correctly · `missing`: should have been typed · `extra`: typed but shouldn't be */
+  type: 'match' | 'missing' | 'extra';
+  text: string;
+}
+
+export type AnswerHintKind = 'accent' | 'swapped-letters' | 'missing-word' | 'extra-word' | 'article';
+
+/** A specific, human-readable mistake, e.g. "missing accent on ó" */
+export interface AnswerHint {
+  kind: AnswerHintKind;
+  message: string;
+}
+
+export interface MatchResult {
+  grade: MatchGrade;
+  /** Whether the answer counts as correct for scoring */
+  isCorrect: boolean;
+  /** The accepted answer the input was compared against (closest alternative) */
+  matchedAnswer: string;
+  /** Edit distance with accents folded (0 for exact and accent-missing) */
+  distance: number;
+  diff: DiffSegment[];
+  /** What specifically went wrong (empty for exact answers) */
+  hints: AnswerHint[];
+}
+
+const ARTICLE_PATTERN = /^(el|la|los|las|un|una|unos|unas)\s+/;
+const FEMININE_ARTICLES = ['la', 'las', 'una', 'unas'];
+const PLURAL_ARTICLES = ['los', 'las', 'unos', 'unas'];
+// Parenthesised groups only expand up to this many (2^n variants)
+const MAX_OPTIONAL_GROUPS = 3;
+
+// ─── Normalization ─────────────────────────────────────────────────────────
+
+/**
+ * Lowercase, drop punctuation and collapse whitespace. Accents and ñ are kept.
+ */
+export function foldCase(text: string): string {
+  return text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[¿?¡!.,;:"'`´\-()[\]]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Remove accents (á→a, ü→u) but keep ñ — it's a different letter, not an accent.
+ */
+export function stripAccents(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/n\u0303/g, 'ñ')
+    .replace(/N\u0303/g, 'Ñ')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFC');
+}
+
+export function stripArticle(text: string): string {
+  return text.replace(ARTICLE_PATTERN, '');
+}
+
+function leadingArticle(text: string): string | null {
+  return text.match(ARTICLE_PATTERN)?.[1] ?? null;
+}
+
+/**
+ * Canonical comparison key: case, punctuation and accents folded.
+ * Use this for equality checks (e.g. "are these two options the same?").
+ */
+export function normalizeAnswer(text: string): string {
+  return stripAccents(foldCase(text));
+}
+
+// ─── Accepted answers ──────────────────────────────────────────────────────
+
+function expandOptionalParts(answer: string): string[] {
+  const groups = answer.match(/\([^)]*\)/g) ?? [];
+  if (groups.length === 0 || groups.length > MAX_OPTIONAL_GROUPS) return [answer];
+
+  let variants = [answer];
+  for (const group of groups) {
+    variants = variants.flatMap((v) => [v.replace(group, group.slice(1, -1)), v.replace(group, '')]);
+  }
+  return variants.map((v) => v.replace(/\s+/g, ' ').trim()).filter(Boolean);
+}
+
+/**
+ * Every answer a card accepts: alternatives split on "/" or ";",
+ * each with and without its parenthesised parts.
+ */
+export function parseAcceptedAnswers(raw: string): string[] {
+  const alternatives = raw
+    .split(/[/;]/)
+    .map((a) => a.trim())
+    .filter(Boolean)
+    .flatMap(expandOptionalParts);
+  return Array.from(new Set(alternatives));
+}
+
+/** Split an editor field like "estar / quedar" into separate alternates */
+export function splitAlternates(text: string): string[] {
+  const alternates = text
+    .split(/[/;]/)
+    .map((a) => a.trim())
+    .filter(Boolean);
+  return Array.from(new Set(alternates));
+}
+
+/** Inverse of `splitAlternates`, for filling an editor field */
+export function joinAlternates(alternates?: readonly string[] | null): string {
+  return (alternates ?? []).join(' / ');
+}
+
+// ─── Distance & diff ───────────────────────────────────────────────────────
+
+/**
+ * Edit distance between two strings, counting two swapped neighbouring
+ * letters as a single typo (optimal string alignment)
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 0; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+/**
+ * Character-level diff from `actual` (what was typed) to `expected`,
+ * based on the longest common subsequence.
+ */
+export function diffAnswer(actual: string, expected: string): DiffSegment[] {
+  const m = actual.length;
+  const n = expected.length;
+  const lcs: number[][] = Array.from({ length: m + 1 }, () => Array(n + 1).fill(0));
+  for (let i = m - 1; i >= 0; i--) {
+    for (let j = n - 1; j >= 0; j--) {
+      lcs[i][j] = actual[i] === expected[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], char: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) last.text += char;
+    else segments.push({ type, text: char });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < m && j < n) {
+    if (actual[i] === expected[j]) {
+      push('match', actual[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('extra', actual[i++]);
+    } else {
+      push('missing', expected[j++]);
+    }
+  }
+  while (i < m) push('extra', actual[i++]);
+  while (j < n) push('missing', expected[j++]);
+  return segments;
+}
+
+// ─── Hints ─────────────────────────────────────────────────────────────────
+
+function isAccented(char: string): boolean {
+  return stripAccents(char) !== char;
+}
+
+/** Hints read straight off the character diff: accents and swapped letters */
+function characterHints(diff: DiffSegment[]): AnswerHint[] {
+  const hints: AnswerHint[] = [];
+  for (let k = 0; k < diff.length - 1; k++) {
+    const a = diff[k];
+    const b = diff[k + 1];
+
+    // A single character replaced by another: extra "o" + missing "ó" (either order)
+    if (a.text.length === 1 && b.text.length === 1 && a.type !== 'match' && b.type !== 'match' && a.type !== b.type) {
+      const typed = a.type === 'extra' ? a.text : b.text;
+      const wanted = a.type === 'missing' ? a.text : b.text;
+      if (stripAccents(typed) === stripAccents(wanted)) {
+        hints.push({
+          kind: 'accent',
+          message: isAccented(wanted)
+            ? isAccented(typed)
+              ? `wrong accent: ${wanted}, not ${typed}`
+              : `missing accent on ${wanted}`
+            : `no accent on ${wanted}`,
+        });
+      } else if (wanted === 'ñ' && typed === 'n') {
+        hints.push({ kind: 'accent', message: 'use ñ, not n' });
+      }
+      k++;
+      continue;
+    }
+
+    // Two letters typed in the wrong order: extra "b" + match "a" + missing "b"
+    const c = diff[k + 2];
+    if (
+      c &&
+      b.type === 'match' &&
+      b.text.length === 1 &&
+      a.text.length === 1 &&
+      a.text === c.text &&
+      a.type !== 'match' &&
+      c.type !== 'match' &&
+      a.type !== c.type
+    ) {
+      const typed = a.type === 'extra' ? a.text + b.text : b.text + a.text;
+      hints.push({ kind: 'swapped-letters', message: `swapped letters: "${typed.split('').reverse().join('')}", not "${typed}"` });
+      k += 2;
+    }
+  }
+  return hints;
+}
+
+/** Words that are missing or extra (a misspelled word counts as present) */
+function wordHints(actual: string, expected: string): AnswerHint[] {
+  const typed = actual.split(' ').filter(Boolean);
+  const wanted = expected.split(' ').filter(Boolean);
+  if (typed.length === wanted.length) return [];
+
+  const same = (x: string, y: string) => editDistance(stripAccents(x), stripAccents(y)) <= typoTolerance(y.length);
+  // Word-level LCS
+  const lcs: number[][] = Array.from({ length: typed.length + 1 }, () => Array(wanted.length + 1).fill(0));
+  for (let i = typed.length - 1; i >= 0; i--) {
+    for (let j = wanted.length - 1; j >= 0; j--) {
+      lcs[i][j] = same(typed[i], wanted[j]) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const hints: AnswerHint[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < typed.length || j < wanted.length) {
+    if (i < typed.length && j < wanted.length && same(typed[i], wanted[j])) {
+      i++;
+      j++;
+    } else if (j >= wanted.length || (i < typed.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      hints.push({ kind: 'extra-word', message: `extra word "${typed[i++]}"` });
+    } else {
+      hints.push({ kind: 'missing-word', message: `missing word "${wanted[j++]}"` });
+    }
+  }
+  return hints;
+}
+
+function articleHint(actual: string, expected: string): AnswerHint | null {
+  const typed = leadingArticle(actual);
+  const wanted = leadingArticle(expected);
+  if (!typed || !wanted || typed === wanted) return null;
+
+  const noun = stripArticle(expected);
+  const wantedFeminine = FEMININE_ARTICLES.includes(wanted);
+  if (wantedFeminine === FEMININE_ARTICLES.includes(typed)) {
+    return { kind: 'article', message: `use "${wanted} ${noun}", not "${typed} ${noun}"` };
+  }
+  return {
+    kind: 'article',
+    message: `"${noun}" is ${wantedFeminine ? 'feminine' : 'masculine'}: ${wanted} ${noun}, not ${typed} ${noun}`,
+  };
+}
+
+/**
+ * Explain a wrong or almost-right answer: wrong article, missing/extra words,
+ * accents and swapped letters
+ */
+export function describeMistakes(actual: string, expected: string, diff: DiffSegment[]): AnswerHint[] {
+  const article = articleHint(actual, expected);
+  const hints = [
+    ...(article ? [article] : []),
+    ...wordHints(stripArticle(actual), stripArticle(expected)),
+    ...characterHints(diff),
+  ];
+  // The same accent can be missed twice ("está está"); say it once
+  return hints.filter((hint, index) => hints.findIndex((h) => h.message === hint.message) === index);
+}
+
+// ─── Word alignment ────────────────────────────────────────────────────────
+
+/** One word of the target lined up against what the recognizer heard */
+export interface WordAlignment {
+  /** The target word as written; null for an extra word */
+  expected: string | null;
+  /** What was heard in its place; null when the word was skipped */
+  heard: string | null;
+  /** `match`: same word · `close`: a slip (small typo) · `missed`: wrong or skipped · `extra`: not in the target */
+  status: 'match' | 'close' | 'missed' | 'extra';
+}
+
+function words(text: string): { raw: string; key: string }[] {
+  return text
+    .split(/\s+/)
+    .map((raw) => ({ raw: raw.replace(/^[¿¡"'(]+|[?!.,;:"')]+$/g, ''), key: foldCase(raw) }))
+    .filter((word) => word.key !== '');
+}
+
+// Written accents can't be heard, and recognizers drop them: a word that
+// differs only in accents is a match
+function wordStatus(heard: string, expected: string): WordAlignment['status'] {
+  const a = stripAccents(heard);
+  const b = stripAccents(expected);
+  if (a === b) return 'match';
+  return editDistance(a, b) <= typoTolerance(b.length) ? 'close' : 'missed';
+}
+
+const ALIGN_COST: Record<WordAlignment['status'], number> = { match: 0, close: 1, missed: 2, extra: 2 };
+
+/**
+ * Word-by-word alignment of a spoken answer against the target (minimum
+ * edit cost; a wrong word is lined up with the word it replaced)
+ */
+export function alignWords(heard: string, target: string): WordAlignment[] {
+  const said = words(heard);
+  const wanted = words(target);
+  const m = said.length;
+  const n = wanted.length;
+
+  // cost[i][j]: aligning said[i..] with wanted[j..]
+  const cost: number[][] = Array.from({ length: m + 1 }, () => Array(n + 1).fill(0));
+  for (let i = m; i >= 0; i--) {
+    for (let j = n; j >= 0; j--) {
+      if (i === m && j === n) continue;
+      const options: number[] = [];
+      if (i < m && j < n) options.push(ALIGN_COST[wordStatus(said[i].key, wanted[j].key)] + cost[i + 1][j + 1]);
+      if (i < m) options.push(ALIGN_COST.extra + cost[i + 1][j]);
+      if (j < n) options.push(ALIGN_COST.missed + cost[i][j + 1]);
+      cost[i][j] = Math.min(...options);
+    }
+  }
+
+  const alignment: WordAlignment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < m || j < n) {
+    if (i < m && j < n) {
+      const status = wordStatus(said[i].key, wanted[j].key);
+      if (cost[i][j] === ALIGN_COST[status] + cost[i + 1][j + 1]) {
+        alignment.push({ expected: wanted[j].raw, heard: said[i].raw, status });
+        i++;
+        j++;
+        continue;
+      }
+    }
+    if (j < n && (i >= m || cost[i][j] === ALIGN_COST.missed + cost[i][j + 1])) {
+      alignment.push({ expected: wanted[j++].raw, heard: null, status: 'missed' });
+    } else {
+      alignment.push({ expected: null, heard: said[i++].raw, status: 'extra' });
+    }
+  }
+  return alignment;
+}
+
+// ─── Grading ───────────────────────────────────────────────────────────────
+
+const GRADE_RANK: Record<MatchGrade, number> = { exact: 0, 'accent-missing': 1, typo: 2, wrong: 3 };
+
+/** Typos allowed: 1 for short answers, 2 for longer ones, none for tiny words */
+function typoTolerance(length: number): number {
+  if (length <= 3) return 0;
+  return length <= 6 ? 1 : 2;
+}
+
+function gradePair(actual: string, expected: string, accentSensitive = false): { grade: MatchGrade; distance: number } {
+  if (actual === expected) return { grade: 'exact', distance: 0 };
+
+  const foldedActual = stripAccents(actual);
+  const foldedExpected = stripAccents(expected);
+  if (foldedActual === foldedExpected) return { grade: 'accent-missing', distance: 0 };
+
+  const distance = editDistance(foldedActual, foldedExpected);
+  if (distance > typoTolerance(foldedExpected.length)) return { grade: 'wrong', distance };
+  // Accent-sensitive decks: a typo doesn't excuse a wrong accent next to it ("estaa" for "está")
+  const accentSlip = accentSensitive && editDistance(actual, expected) > distance;
+  return { grade: accentSlip ? 'wrong' : 'typo', distance };
+}
+
+/** Whether two articles agree in gender and number ("el"/"un", "las"/"unas") */
+function articlesAgree(typed: string, wanted: string): boolean {
+  return (
+    FEMININE_ARTICLES.includes(typed) === FEMININE_ARTICLES.includes(wanted) &&
+    PLURAL_ARTICLES.includes(typed) === PLURAL_ARTICLES.includes(wanted)
+  );
+}
+
+/**
+ * Both answers start with an article and the articles differ: grade the rest
+ * on its own, never better than a typo, and wrong if the article disagrees.
+ */
+function gradeArticleClash(
+  actual: string,
+  expected: string,
+  accentSensitive = false,
+): { grade: MatchGrade; distance: number } {
+  const { distance } = gradePair(actual, expected);
+  const rest = gradePair(stripArticle(actual), stripArticle(expected), accentSensitive);
+  const agrees = articlesAgree(leadingArticle(actual)!, leadingArticle(expected)!);
+  return { grade: agrees && rest.grade !== 'wrong' ? 'typo' : 'wrong', distance };
+}
+
+/**
+ * Grade an answer against a card's accepted answers. Pass a list to grade
+ * against the card's main answer and its alternates at once.
+ */
+export function matchAnswer(input: string, answer: string | readonly string[], options: MatchOptions = {}): MatchResult {
+  const actual = foldCase(input);
+  const answers = typeof answer === 'string' ? [answer] : answer;
+  const accepted = Array.from(new Set(answers.flatMap(parseAcceptedAnswers)));
+
+  let best: (MatchResult & { rank: number }) | null = null;
+  for (const candidate of accepted.length > 0 ? accepted : [answers[0] ?? '']) {
+    const expected = foldCase(candidate);
+    // Compare with and without leading articles: "gato" answers "el gato".
+    // A different article is graded on its own: the wrong gender or number
+    // ("el casa", "las gatos") is wrong, "un gato" for "el gato" is at best a typo.
+    const typedArticle = leadingArticle(actual);
+    const wantedArticle = leadingArticle(expected);
+    const articleClash = typedArticle !== null && wantedArticle !== null && typedArticle !== wantedArticle;
+    const pairs: [string, string][] = articleClash
+      ? [[actual, expected]]
+      : [
+          [actual, expected],
+          [stripArticle(actual), stripArticle(expected)],
+        ];
+    for (const [a, e] of pairs) {
+      const { grade, distance } = articleClash
+        ? gradeArticleClash(a, e, options.accentSensitive)
+        : gradePair(a, e, options.accentSensitive);
+      const rank = GRADE_RANK[grade];
+      if (!best || rank < best.rank || (rank === best.rank && distance < best.distance)) {
+        const diff = diffAnswer(a, e);
+        best = {
+          grade,
+          distance,
+          rank,
+          isCorrect: false,
+          matchedAnswer: candidate.trim(),
+          diff,
+          hints: grade === 'exact' ? [] : describeMistakes(actual, expected, diff),
+        };
+      }
+    }
+  }
+
+  const { rank: _rank, ...result } = best!;
+  if (result.grade === 'accent-missing' && !result.hints.some((h) => h.kind === 'accent')) {
+    result.hints.push({ kind: 'accent', message: `check the accents: ${result.matchedAnswer}` });
+  }
+  result.isCorrect =
+    result.grade === 'exact' ||
+    result.grade === 'typo' ||
+    (result.grade === 'accent-missing' && !options.accentSensitive);
+  return result;
+}
@@ -1,6 +1,9 @@
 import { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
 import { api } from '@/config/api';
-import { setStoredToken, clearStoredToken } from '@/config/api';
+import { setStoredToken, clearStoredToken, AuthenticationError } from '@/config/api';
+import { flushOutbox, getOutboxState, setOutboxUser } from './outbox';
+import { clearOfflineCache } from './offline-cache';
+import { purgeShadowAttempts } from './shadowing-store';
 import type { DbUser } from '@/types/api.types';
 
 interface AuthContextType {
@@ -21,17 +24,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const fetchUser = async (): Promise<boolean> => {
     try {
       const userData = await api.users.current();
+      setOutboxUser(userData.id);
       setUser(userData);
       return true;
-    } catch (error: any) {
+    } catch (error) {
       // 401/Not authenticated is expected when user is not logged in
       // Silently set user to null without logging error
-      const isAuthError = 
-        error?.message?.includes('401') || 
-        error?.message?.includes('Unauthorized') ||
-        error?.message?.includes('Not authenticated');
-      
-      if (!isAuthError) {
+      if (!(error instanceof AuthenticationError)) {
         console.error('Error fetching user:', error);
       }
       
@@ -71,11 +70,22 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const signOut = async () => {
     try {
+      // Give queued offline writes one last chance before the token goes away
+      await flushOutbox();
       await api.auth.signOut();
     } catch (error) {
       console.error('Sign out error:', error);
     } finally {
       clearStoredToken();
+      // Whatever couldn't be sent stays in this user's queue for their next sign-in
+      const { pending } = getOutboxState();
+      if (pending > 0) {
+        console.warn(`[Auth] Signed out with ${pending} unsynced changes; they'll sync on next sign-in`);
+      }
+      setOutboxUser(null);
+      clearOfflineCache();
+      // Voice recordings stay on the device; don't leave them for the next user
+      await purgeShadowAttempts();
       setUser(null);
       window.location.href = '/';
     }
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createBlitzRealtime, type BlitzRealtimeClient } from './blitz-realtime';
+import type { PlaySessionStateResponse } from '@/types/api.types';
+
+class FakeSocket {
+  static OPEN = 1;
+  static latest: FakeSocket | null = null;
+  readyState = 0;
+  sent: unknown[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor() {
+    FakeSocket.latest = this;
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = 3;
+  }
+
+  open() {
+    this.readyState = FakeSocket.OPEN;
+    this.onopen?.();
+  }
+
+  push(message: Record<string, unknown>) {
+    this.onmessage?.({ data: JSON.stringify({ sessionId: 's1', ...message }) });
+  }
+}
+
+const scoreDelta = (seq: number) => ({ type: 'score:delta', seq, playerId: 'p1', delta: 100, score: seq * 100 });
+
+function snapshot(seq: number): PlaySessionStateResponse {
+  return { seq, players: [], questions: [], session: {} as PlaySessionStateResponse['session'] };
+}
+
+describe('createBlitzRealtime', () => {
+  let client: BlitzRealtimeClient;
+  const onEvent = vi.fn();
+  const onState = vi.fn();
+  const fetchState = vi.fn(async () => snapshot(9));
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('WebSocket', FakeSocket);
+    onEvent.mockClear();
+    onState.mockClear();
+    fetchState.mockClear();
+    client = createBlitzRealtime('s1', { onEvent, onState }, { initialSeq: 3, fetchState });
+    FakeSocket.latest!.open();
+  });
+
+  afterEach(() => {
+    client.close();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('applies events in sequence order', () => {
+    FakeSocket.latest!.push(scoreDelta(4));
+    FakeSocket.latest!.push(scoreDelta(5));
+    FakeSocket.latest!.push(scoreDelta(5));
+
+    expect(onEvent.mock.calls.map(([event]) => event.seq)).toEqual([4, 5]);
+  });
+
+  it('fetches a snapshot when a gap right after subscribing is never replayed', async () => {
+    expect(FakeSocket.latest!.sent).toEqual([{ type: 'subscribe', sessionId: 's1', since: 3 }]);
+
+    FakeSocket.latest!.push(scoreDelta(6));
+    expect(onEvent).not.toHaveBeenCalled();
+    expect(fetchState).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(fetchState).toHaveBeenCalledTimes(1);
+    expect(onState).toHaveBeenCalledWith(snapshot(9));
+
+    // Back in step with the server
+    FakeSocket.latest!.push(scoreDelta(10));
+    expect(onEvent.mock.calls.map(([event]) => event.seq)).toEqual([10]);
+  });
+
+  it('asks for a replay on a later gap and skips the snapshot if it arrives', async () => {
+    FakeSocket.latest!.push(scoreDelta(4));
+    FakeSocket.latest!.push(scoreDelta(6));
+    expect(FakeSocket.latest!.sent).toContainEqual({ type: 'subscribe', sessionId: 's1', since: 4 });
+
+    FakeSocket.latest!.push(scoreDelta(5));
+    FakeSocket.latest!.push(scoreDelta(6));
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(onEvent.mock.calls.map(([event]) => event.seq)).toEqual([4, 5, 6]);
+    expect(fetchState).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,363 @@
+/**
+ * Blitz Challenge realtime client
+ *
+ * Keeps a play session in sync over the backend WebSocket. The server pushes
+ * numbered events (players joining, answers, score changes, the session
+ * starting or ending) and the client applies each one to its local copy of the
+ * state instead of refetching everything. When the socket drops, the client
+ * reconnects with backoff and asks the server to replay what it missed from
+ * the last sequence number it saw; a gap the server can't replay is filled
+ * with a REST snapshot. Only while the socket is down does it fall back to
+ * polling the REST state.
+ */
+import { api, createWebSocket } from '@/config/api';
+import { blitzEventSchemas } from '@/config/schemas';
+import type {
+  BlitzClientMessage,
+  BlitzEvent,
+  BlitzEventType,
+  BlitzServerMessage,
+  DbPlaySessionPlayer,
+  PlaySessionStateResponse,
+} from '@/types/api.types';
+
+const POLL_INTERVAL_MS = 5000;
+const MAX_RECONNECT_DELAY_MS = 8000;
+// How long to wait for a requested replay before fetching a snapshot instead
+const REPLAY_TIMEOUT_MS = 2000;
+
+/**
+ * `live`: socket open and subscribed. `polling`: socket down, reconnecting
+ * while the state is polled. `closed`: the client was shut down.
+ */
+export type RealtimeConnection = 'connecting' | 'live' | 'polling' | 'closed';
+
+export interface BlitzRealtimeHandlers {
+  /** Apply an event to the local state (see `applyBlitzEvent`) */
+  onEvent: (event: BlitzEvent) => void;
+  /** Replace the local state with a full snapshot */
+  onState: (state: PlaySessionStateResponse) => void;
+  onConnectionChange?: (connection: RealtimeConnection) => void;
+}
+
+export interface BlitzRealtimeOptions {
+  /** Sequence number of the state the caller already has, e.g. from joining */
+  initialSeq?: number | null;
+  /** Defaults to the shared API client */
+  fetchState?: (sessionId: string) => Promise<PlaySessionStateResponse>;
+}
+
+export interface BlitzRealtimeClient {
+  /** Fetch the full state over REST and replace the local copy */
+  refresh: () => Promise<void>;
+  close: () => void;
+}
+
+// ─── Messages ──────────────────────────────────────────────────────────────
+
+const CONTROL_TYPES = new Set(['subscribed', 'session:resync', 'session:refresh']);
+
+function isEventType(type: string): type is BlitzEventType {
+  return Object.prototype.hasOwnProperty.call(blitzEventSchemas, type);
+}
+
+/**
+ * Parse and validate one socket message. Returns null for anything malformed
+ * or of a type this client doesn't know, so newer servers can add events.
+ */
+export function parseBlitzMessage(data: unknown): BlitzServerMessage | null {
+  if (typeof data !== 'string') return null;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (!raw || typeof raw !== 'object') return null;
+  const message = raw as Record<string, unknown>;
+  const { type, sessionId, seq } = message;
+  if (typeof type !== 'string' || typeof sessionId !== 'string') return null;
+
+  if (CONTROL_TYPES.has(type)) {
+    return type === 'subscribed'
+      ? { type, sessionId, seq: typeof seq === 'number' ? seq : null }
+      : ({ type, sessionId } as BlitzServerMessage);
+  }
+
+  if (!isEventType(type) || typeof seq !== 'number') return null;
+  try {
+    const payload = blitzEventSchemas[type].validateSync(message);
+    return { ...payload, type, sessionId, seq } as BlitzEvent;
+  } catch (err) {
+    console.warn(`[Blitz] Ignoring malformed ${type} event:`, err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+// ─── State diffs ───────────────────────────────────────────────────────────
+
+function updatePlayer(
+  state: PlaySessionStateResponse,
+  playerId: string,
+  update: (player: DbPlaySessionPlayer) => DbPlaySessionPlayer,
+): PlaySessionStateResponse {
+  return { ...state, players: state.players.map((p) => (p.id === playerId ? update(p) : p)) };
+}
+
+function reduceEvent(
+  state: PlaySessionStateResponse,
+  event: BlitzEvent,
+  selfPlayerId: string | null | undefined,
+): PlaySessionStateResponse {
+  switch (event.type) {
+    case 'player:joined':
+      return { ...state, players: [...state.players.filter((p) => p.id !== event.player.id), event.player] };
+    case 'player:left':
+    case 'player:kicked':
+      return { ...state, players: state.players.filter((p) => p.id !== event.playerId) };
+    case 'player:team':
+      return updatePlayer(state, event.playerId, (p) => ({ ...p, team_id: event.teamId }));
+    case 'answer:submitted': {
+      const next = updatePlayer(state, event.playerId, (p) => ({
+        ...p,
+        answered: true,
+        answered_count: event.answeredCount,
+      }));
+      const answer = {
+        question_id: event.questionId,
+        is_correct: event.isCorrect,
+        answer_text: event.answerText ?? null,
+        points: event.points ?? null,
+        response_time_ms: event.responseTimeMs ?? null,
+      };
+      // The host's state lists everyone's answers (for the answer chart)
+      if (next.questionAnswers) {
+        const seen = next.questionAnswers.some(
+          (a) => a.player_id === event.playerId && a.question_id === event.questionId,
+        );
+        if (!seen) {
+          next.questionAnswers = [
+            ...next.questionAnswers,
+            { ...answer, player_id: event.playerId, flags: event.flags ?? null },
+          ];
+        }
+      }
+      const answers = state.currentPlayerAnswers ?? [];
+      if (event.playerId !== selfPlayerId || answers.some((a) => a.question_id === event.questionId)) return next;
+      return { ...next, currentPlayerAnswers: [...answers, answer] };
+    }
+    case 'score:delta':
+      return updatePlayer(state, event.playerId, (p) =>
+        event.streak == null
+          ? { ...p, score: event.score }
+          : { ...p, score: event.score, streak: event.streak, best_streak: Math.max(p.best_streak ?? 0, event.streak) },
+      );
+    case 'question:advanced':
+      return {
+        ...state,
+        session: { ...state.session, current_position: event.position, question_ends_at: event.endsAt },
+      };
+    case 'session:started':
+      return {
+        ...state,
+        session: { ...state.session, status: 'active', started_at: event.startedAt, ends_at: event.endsAt },
+      };
+    case 'session:ended':
+      return { ...state, session: { ...state.session, status: event.status } };
+    case 'session:snapshot':
+      return event.state;
+  }
+}
+
+/**
+ * Apply one event to a session state without mutating it. Events carry
+ * absolute values (new score, new answered count), so applying the same event
+ * twice leaves the state unchanged.
+ */
+export function applyBlitzEvent(
+  state: PlaySessionStateResponse,
+  event: BlitzEvent,
+  selfPlayerId?: string | null,
+): PlaySessionStateResponse {
+  const next = reduceEvent(state, event, selfPlayerId);
+  return { ...next, seq: Math.max(next.seq ?? 0, event.seq) };
+}
+
+// ─── Connection ────────────────────────────────────────────────────────────
+
+/**
+ * Subscribe to a play session. Events are handed to `onEvent` in sequence
+ * order; a gap triggers a resubscribe so the server replays the missing ones,
+ * and if the replay doesn't arrive the state is fetched over REST instead.
+ */
+export function createBlitzRealtime(
+  sessionId: string,
+  handlers: BlitzRealtimeHandlers,
+  options: BlitzRealtimeOptions = {},
+): BlitzRealtimeClient {
+  const fetchState = options.fetchState ?? ((id: string) => api.playSessions.getState(id));
+
+  let socket: WebSocket | null = null;
+  let lastSeq: number | null = options.initialSeq ?? null;
+  let attempts = 0;
+  let connection: RealtimeConnection = 'connecting';
+  let closed = false;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  let refreshing: Promise<void> | null = null;
+  let resumeRequestedFrom: number | null = null;
+  let replayTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const send = (message: BlitzClientMessage) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const setConnection = (next: RealtimeConnection) => {
+    if (connection === next) return;
+    connection = next;
+    handlers.onConnectionChange?.(next);
+
+    const shouldPoll = next === 'polling';
+    if (shouldPoll && !pollTimer) {
+      pollTimer = setInterval(() => void refresh(), POLL_INTERVAL_MS);
+    } else if (!shouldPoll && pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = null;
+    }
+  };
+
+  const clearReplayTimer = () => {
+    if (replayTimer) clearTimeout(replayTimer);
+    replayTimer = null;
+  };
+
+  const acceptSnapshot = (state: PlaySessionStateResponse) => {
+    // A snapshot fetched before events we've since applied would roll them back
+    if (state.seq != null && lastSeq != null && state.seq < lastSeq) return;
+    if (state.seq != null) lastSeq = state.seq;
+    clearReplayTimer();
+    handlers.onState(state);
+  };
+
+  function refresh(): Promise<void> {
+    if (refreshing) return refreshing;
+    refreshing = fetchState(sessionId)
+      .then((state) => {
+        if (!closed) acceptSnapshot(state);
+      })
+      .catch(() => {
+        // Ignored: the next poll or event tries again
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+    return refreshing;
+  }
+
+  const handleEvent = (event: BlitzEvent) => {
+    if (lastSeq != null && event.seq <= lastSeq) return; // replayed, already applied
+    if (lastSeq != null && event.seq > lastSeq + 1) {
+      // Missed something: ask once for a replay from where we are; it resends this one too.
+      // (Already asked, e.g. right after subscribing: the server couldn't replay.)
+      if (resumeRequestedFrom !== lastSeq) {
+        resumeRequestedFrom = lastSeq;
+        send({ type: 'subscribe', sessionId, since: lastSeq });
+      }
+      // Still stuck when the timer fires: a snapshot catches us up
+      if (!replayTimer) {
+        const stuckAt = lastSeq;
+        replayTimer = setTimeout(() => {
+          replayTimer = null;
+          if (!closed && lastSeq === stuckAt) void refresh();
+        }, REPLAY_TIMEOUT_MS);
+      }
+      return;
+    }
+    lastSeq = event.seq;
+    clearReplayTimer();
+    if (event.type === 'session:snapshot') {
+      handlers.onState({ ...event.state, seq: event.seq });
+    } else {
+      handlers.onEvent(event);
+    }
+  };
+
+  const handleMessage = (message: BlitzServerMessage) => {
+    if (message.sessionId !== sessionId) return;
+    switch (message.type) {
+      case 'subscribed':
+        // Nothing to resume from yet: take a snapshot as the starting point
+        if (lastSeq == null) void refresh();
+        return;
+      case 'session:resync':
+      case 'session:refresh':
+        void refresh();
+        return;
+      default:
+        handleEvent(message);
+    }
+  };
+
+  const scheduleReconnect = () => {
+    const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** attempts);
+    attempts += 1;
+    reconnectTimer = setTimeout(connect, delay);
+  };
+
+  function connect() {
+    reconnectTimer = null;
+    if (closed) return;
+
+    let ws: WebSocket;
+    try {
+      ws = createWebSocket();
+    } catch (err) {
+      console.error('[Blitz] Could not open realtime socket:', err);
+      setConnection('polling');
+      scheduleReconnect();
+      return;
+    }
+    socket = ws;
+
+    ws.onopen = () => {
+      attempts = 0;
+      resumeRequestedFrom = lastSeq;
+      setConnection('live');
+      send({ type: 'subscribe', sessionId, since: lastSeq });
+    };
+
+    ws.onmessage = (event) => {
+      const message = parseBlitzMessage(event.data);
+      if (message) handleMessage(message);
+    };
+
+    ws.onclose = () => {
+      if (socket === ws) socket = null;
+      if (closed) return;
+      setConnection('polling');
+      void refresh();
+      scheduleReconnect();
+    };
+
+    ws.onerror = () => {
+      ws.close();
+    };
+  }
+
+  connect();
+
+  return {
+    refresh,
+    close: () => {
+      if (closed) return;
+      send({ type: 'unsubscribe', sessionId });
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      clearReplayTimer();
+      setConnection('closed');
+      socket?.close();
+      socket = null;
+    },
+  };
+}
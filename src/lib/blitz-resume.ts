@@ -0,0 +1,92 @@
+/**
+ * Blitz Resume
+ *
+ * Per-tab record (sessionStorage) of the Blitz Challenge a player is in, so a
+ * reload mid-game can rejoin on its own, keep the question timer running and
+ * resend an answer that was still in flight. sessionStorage keeps it to this
+ * tab: closing the tab forgets it, and a second tab joining the same code
+ * starts clean.
+ */
+import type { SubmitAnswerBody } from '@/types/api.types';
+
+const KEY_PREFIX = 'sb-blitz-resume:';
+
+// A record this old belongs to a game that is long over
+const MAX_AGE_MS = 6 * 60 * 60 * 1000;
+
+/** An answer submitted but not yet confirmed by the server */
+export type PendingBlitzAnswer = SubmitAnswerBody;
+
+export interface BlitzResumeRecord {
+  code: string;
+  sessionId: string | null;
+  playerId: string | null;
+  /** Name used to join, so the rejoin matches the original player */
+  displayName: string | null;
+  /** Question on screen and when it first appeared (epoch ms), for speed scoring */
+  question: { id: string; shownAt: number } | null;
+  pendingAnswer: PendingBlitzAnswer | null;
+  updatedAt: number;
+}
+
+const storageKey = (code: string) => KEY_PREFIX + code.toUpperCase();
+
+export function loadBlitzResume(code: string): BlitzResumeRecord | null {
+  try {
+    const raw = sessionStorage.getItem(storageKey(code));
+    if (!raw) return null;
+    const record = JSON.parse(raw) as BlitzResumeRecord;
+    if (Date.now() - record.updatedAt > MAX_AGE_MS) {
+      sessionStorage.removeItem(storageKey(code));
+      return null;
+    }
+    return record;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Merge `patch` into the stored record, creating it if needed
+ */
+export function updateBlitzResume(
+  code: string,
+  patch: Partial<Omit<BlitzResumeRecord, 'code' | 'updatedAt'>>,
+): BlitzResumeRecord {
+  const record: BlitzResumeRecord = {
+    code: code.toUpperCase(),
+    sessionId: null,
+    playerId: null,
+    displayName: null,
+    question: null,
+    pendingAnswer: null,
+    ...loadBlitzResume(code),
+    ...patch,
+    updatedAt: Date.now(),
+  };
+  try {
+    sessionStorage.setItem(storageKey(code), JSON.stringify(record));
+  } catch (err) {
+    console.error('[BlitzResume] Failed to persist record:', err);
+  }
+  return record;
+}
+
+export function clearBlitzResume(code: string): void {
+  try {
+    sessionStorage.removeItem(storageKey(code));
+  } catch {
+    // Storage unavailable: nothing was saved either
+  }
+}
+
+/**
+ * When a question first appeared. The first call for a question stamps it;
+ * later calls, including after a reload, return the same time.
+ */
+export function questionShownAt(code: string, questionId: string, now: number = Date.now()): number {
+  const question = loadBlitzResume(code)?.question;
+  if (question?.id === questionId) return question.shownAt;
+  updateBlitzResume(code, { question: { id: questionId, shownAt: now } });
+  return now;
+}
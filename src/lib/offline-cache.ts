@@ -0,0 +1,66 @@
+/**
+ * Offline Read Cache
+ *
+ * Keeps the last successful response for decks and cards in localStorage so
+ * a set that was opened once can still be studied without a connection.
+ */
+import { api, type ApiClient } from '@/config/api';
+import { isNetworkError } from './outbox';
+import type { DbCard, DbDeck } from '@/types/api.types';
+
+const CACHE_PREFIX = 'sb-cache:';
+
+function readCache<T>(key: string): T | null {
+  try {
+    const raw = localStorage.getItem(CACHE_PREFIX + key);
+    return raw ? (JSON.parse(raw).data as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeCache<T>(key: string, data: T): void {
+  try {
+    localStorage.setItem(CACHE_PREFIX + key, JSON.stringify({ data, cachedAt: new Date().toISOString() }));
+  } catch (err) {
+    // Quota exceeded — offline copy is best-effort
+    console.warn('[OfflineCache] Failed to cache', key, err);
+  }
+}
+
+/**
+ * Fetch from the network and refresh the cache; fall back to the cached copy
+ * only when the request failed because we're offline.
+ */
+async function cachedRead<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+  try {
+    const data = await fetcher();
+    writeCache(key, data);
+    return data;
+  } catch (err) {
+    const cached = isNetworkError(err) ? readCache<T>(key) : null;
+    if (cached !== null) return cached;
+    throw err;
+  }
+}
+
+export function getDeckCached(deckId: string, client: ApiClient = api): Promise<DbDeck> {
+  return cachedRead(`deck:${deckId}`, () => client.decks.get(deckId));
+}
+
+export function listCardsCached(deckId: string, client: ApiClient = api): Promise<DbCard[]> {
+  return cachedRead(`cards:${deckId}`, () => client.cards.list(deckId));
+}
+
+/**
+ * Drop every cached deck and card list (e.g. on logout)
+ */
+export function clearOfflineCache(): void {
+  try {
+    Object.keys(localStorage)
+      .filter((key) => key.startsWith(CACHE_PREFIX))
+      .forEach((key) => localStorage.removeItem(key));
+  } catch {
+    /* noop */
+  }
+}
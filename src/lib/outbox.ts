@@ -0,0 +1,243 @@
+/**
+ * Offline Outbox
+ *
+ * Persistent queue (localStorage) for writes that must not be lost on a flaky
+ * network: study events, assignment completions and XP awards. Writes go
+ * straight to the API when possible; when the network is down they are queued
+ * and replayed in order once connectivity returns.
+ *
+ * The queue is kept per user: signing out (even offline, with writes still
+ * pending) leaves it in place, and it is sent when that user signs in again.
+ * Another account on the same device never sees or sends it.
+ */
+import { api, AuthenticationError, NetworkError, TimeoutError } from '@/config/api';
+
+const OUTBOX_KEY = 'sb-outbox';
+// Whose queue is active; remembered so a reload while offline still finds it
+const OWNER_KEY = 'sb-outbox-owner';
+
+// Entries that keep failing with a server error are dropped after this many
+// attempts so one bad payload can't block the queue forever.
+const MAX_ATTEMPTS = 5;
+
+export interface OutboxPayloads {
+  study_event: Parameters<typeof api.studyEvents.create>[0];
+  assignment_complete: { classroomId: string; assignmentId: string; score?: number };
+  xp_solo_blitz: Parameters<typeof api.xp.awardSoloBlitz>[0];
+}
+
+export type OutboxKind = keyof OutboxPayloads;
+
+export interface OutboxEntry<K extends OutboxKind = OutboxKind> {
+  id: string;
+  kind: K;
+  payload: OutboxPayloads[K];
+  createdAt: string;
+  attempts: number;
+}
+
+export interface OutboxState {
+  pending: number;
+  syncing: boolean;
+  lastSyncedAt: string | null;
+}
+
+/**
+ * Result of a write sent through the outbox.
+ * `queued` means the write was stored for later and `data` is undefined.
+ */
+export type DeliveryResult<T = any> = { queued: false; data: T } | { queued: true; data: undefined };
+
+const senders: { [K in OutboxKind]: (payload: OutboxPayloads[K]) => Promise<any> } = {
+  study_event: (payload) => api.studyEvents.create(payload),
+  assignment_complete: ({ classroomId, assignmentId, score }) =>
+    api.classrooms.completeAssignment(classroomId, assignmentId, score),
+  xp_solo_blitz: (payload) => api.xp.awardSoloBlitz(payload),
+};
+
+// ─── Storage ───────────────────────────────────────────────────────────────
+
+function readOwner(): string | null {
+  try {
+    return localStorage.getItem(OWNER_KEY);
+  } catch {
+    return null;
+  }
+}
+
+let owner: string | null = readOwner();
+
+// Signed out: the unkeyed queue, handed to whoever signs in next
+function storageKey(): string {
+  return owner ? `${OUTBOX_KEY}:${owner}` : OUTBOX_KEY;
+}
+
+function readEntries(key: string = storageKey()): OutboxEntry[] {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as OutboxEntry[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeEntries(entries: OutboxEntry[], key: string = storageKey()): void {
+  try {
+    if (entries.length === 0) localStorage.removeItem(key);
+    else localStorage.setItem(key, JSON.stringify(entries));
+  } catch (err) {
+    console.error('[Outbox] Failed to persist queue:', err);
+  }
+}
+
+// ─── Subscriptions ─────────────────────────────────────────────────────────
+
+let state: OutboxState = { pending: readEntries().length, syncing: false, lastSyncedAt: null };
+const listeners = new Set<() => void>();
+
+function setState(patch: Partial<OutboxState>) {
+  state = { ...state, ...patch };
+  listeners.forEach((listener) => listener());
+}
+
+export function getOutboxState(): OutboxState {
+  return state;
+}
+
+export function subscribeOutbox(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// ─── Queue ─────────────────────────────────────────────────────────────────
+
+/**
+ * The write never reached the server (offline, DNS, timeout), as opposed to an
+ * `ApiError` where the server answered and rejected it.
+ */
+export function isNetworkError(err: unknown): boolean {
+  return (
+    err instanceof NetworkError ||
+    err instanceof TimeoutError ||
+    (typeof navigator !== 'undefined' && navigator.onLine === false)
+  );
+}
+
+export function enqueue<K extends OutboxKind>(kind: K, payload: OutboxPayloads[K]): OutboxEntry<K> {
+  const entry: OutboxEntry<K> = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+    kind,
+    payload,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+  };
+  const entries = [...readEntries(), entry];
+  writeEntries(entries);
+  setState({ pending: entries.length });
+  return entry;
+}
+
+function removeEntry(id: string): void {
+  const entries = readEntries().filter((e) => e.id !== id);
+  writeEntries(entries);
+  setState({ pending: entries.length });
+}
+
+/**
+ * Switch to `userId`'s queue (null on logout). Writes queued while signed
+ * out move into the signed-in user's queue; whatever is pending is sent.
+ */
+export function setOutboxUser(userId: string | null): void {
+  if (userId === owner) return;
+  owner = userId;
+  try {
+    if (userId) localStorage.setItem(OWNER_KEY, userId);
+    else localStorage.removeItem(OWNER_KEY);
+  } catch {
+    /* noop */
+  }
+
+  if (userId) {
+    const unowned = readEntries(OUTBOX_KEY);
+    if (unowned.length > 0) {
+      writeEntries([...readEntries(), ...unowned]);
+      writeEntries([], OUTBOX_KEY);
+    }
+  }
+  const pending = readEntries().length;
+  setState({ pending });
+  if (userId && pending > 0) void flushOutbox();
+}
+
+let flushing: Promise<void> | null = null;
+
+/**
+ * Replay queued writes in order. Stops at the first network failure so
+ * ordering is preserved; safe to call repeatedly.
+ */
+export function flushOutbox(): Promise<void> {
+  if (flushing) return flushing;
+
+  flushing = (async () => {
+    if (readEntries().length === 0) return;
+
+    setState({ syncing: true });
+    try {
+      // Re-read storage every iteration — new writes may be queued while we're sending
+      let entry: OutboxEntry | undefined;
+      while ((entry = readEntries()[0])) {
+        const current = entry;
+        try {
+          await senders[current.kind](current.payload as never);
+          removeEntry(current.id);
+        } catch (err) {
+          if (isNetworkError(err) || err instanceof AuthenticationError) {
+            break;
+          }
+          const attempts = current.attempts + 1;
+          if (attempts >= MAX_ATTEMPTS) {
+            console.error(`[Outbox] Dropping ${current.kind} after ${attempts} attempts:`, err);
+            removeEntry(current.id);
+          } else {
+            writeEntries(readEntries().map((e) => (e.id === current.id ? { ...e, attempts } : e)));
+            break;
+          }
+        }
+      }
+      if (readEntries().length === 0) {
+        setState({ lastSyncedAt: new Date().toISOString() });
+      }
+    } finally {
+      setState({ syncing: false, pending: readEntries().length });
+    }
+  })().finally(() => {
+    flushing = null;
+  });
+
+  return flushing;
+}
+
+/**
+ * Send a write now, or queue it when offline.
+ * Anything already waiting in the outbox goes first so the server sees writes in order.
+ */
+export async function deliver<K extends OutboxKind>(kind: K, payload: OutboxPayloads[K]): Promise<DeliveryResult> {
+  if (readEntries().length > 0 || (typeof navigator !== 'undefined' && navigator.onLine === false)) {
+    enqueue(kind, payload);
+    void flushOutbox();
+    return { queued: true, data: undefined };
+  }
+
+  try {
+    const data = await senders[kind](payload);
+    return { queued: false, data };
+  } catch (err) {
+    if (isNetworkError(err)) {
+      enqueue(kind, payload);
+      return { queued: true, data: undefined };
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Shadowing Attempts
+ *
+ * Recordings from Study's shadowing mode, kept per card in IndexedDB so a
+ * student can compare with earlier attempts on the next visit. The audio
+ * never leaves the device. Everything fails soft: without IndexedDB (some
+ * private modes) attempts just aren't kept between visits.
+ */
+
+const DB_NAME = 'sb-shadowing';
+const DB_VERSION = 1;
+const STORE = 'attempts';
+const KEEP_KEY = 'sb-shadowing-keep';
+
+/** Older attempts on a card are dropped past this many */
+export const MAX_ATTEMPTS_PER_CARD = 5;
+
+export interface ShadowAttempt {
+  id: string;
+  cardId: string;
+  createdAt: string;
+  audio: Blob;
+  /** Level envelope captured while recording, 0–100 */
+  waveform: number[];
+  durationMs: number;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') return resolve(null);
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('cardId', 'cardId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('[Shadowing] IndexedDB unavailable', request.error);
+        resolve(null);
+      };
+    } catch (err) {
+      console.warn('[Shadowing] IndexedDB unavailable', err);
+      resolve(null);
+    }
+  });
+  return dbPromise;
+}
+
+function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | null> {
+  return openDb().then(
+    (db) =>
+      new Promise((resolve) => {
+        if (!db) return resolve(null);
+        try {
+          const request = action(db.transaction(STORE, mode).objectStore(STORE));
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => {
+            console.warn('[Shadowing] IndexedDB request failed', request.error);
+            resolve(null);
+          };
+        } catch (err) {
+          console.warn('[Shadowing] IndexedDB request failed', err);
+          resolve(null);
+        }
+      }),
+  );
+}
+
+/**
+ * The card's kept attempts, newest first
+ */
+export async function listShadowAttempts(cardId: string): Promise<ShadowAttempt[]> {
+  const attempts = await run<ShadowAttempt[]>('readonly', (store) => store.index('cardId').getAll(cardId));
+  return (attempts ?? []).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Keep an attempt, dropping the card's oldest beyond `MAX_ATTEMPTS_PER_CARD`
+ */
+export async function saveShadowAttempt(attempt: ShadowAttempt): Promise<void> {
+  await run('readwrite', (store) => store.put(attempt));
+  const attempts = await listShadowAttempts(attempt.cardId);
+  for (const old of attempts.slice(MAX_ATTEMPTS_PER_CARD)) {
+    await deleteShadowAttempt(old.id);
+  }
+}
+
+export async function deleteShadowAttempt(id: string): Promise<void> {
+  await run('readwrite', (store) => store.delete(id));
+}
+
+/**
+ * Delete every kept recording (the setting's "purge", and on logout)
+ */
+export async function purgeShadowAttempts(): Promise<void> {
+  await run('readwrite', (store) => store.clear());
+}
+
+/** Whether attempts are kept between visits; on by default */
+export function getKeepShadowAttempts(): boolean {
+  try {
+    return localStorage.getItem(KEEP_KEY) !== 'false';
+  } catch {
+    return true;
+  }
+}
+
+export function setKeepShadowAttempts(keep: boolean): void {
+  try {
+    localStorage.setItem(KEEP_KEY, String(keep));
+  } catch {
+    /* noop */
+  }
+}
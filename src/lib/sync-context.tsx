@@ -0,0 +1,72 @@
+import { createContext, useContext, useEffect, useState, useSyncExternalStore, type ReactNode } from 'react';
+import { flushOutbox, getOutboxState, subscribeOutbox } from './outbox';
+
+// How often to retry the outbox while writes are pending and we're online
+const RETRY_INTERVAL_MS = 30_000;
+
+interface SyncContextValue {
+  /** Browser connectivity as reported by `navigator.onLine` */
+  online: boolean;
+  /** Number of writes waiting in the offline outbox */
+  pending: number;
+  /** Whether the outbox is currently being replayed */
+  syncing: boolean;
+  /** ISO timestamp of the last time the outbox drained completely */
+  lastSyncedAt: string | null;
+  /** Replay the outbox now */
+  syncNow: () => Promise<void>;
+}
+
+const SyncContext = createContext<SyncContextValue | null>(null);
+
+export function SyncProvider({ children }: { children: ReactNode }) {
+  const [online, setOnline] = useState(() => (typeof navigator !== 'undefined' ? navigator.onLine : true));
+  const outbox = useSyncExternalStore(subscribeOutbox, getOutboxState);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      flushOutbox();
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    // Drain anything left over from a previous visit
+    if (navigator.onLine) flushOutbox();
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // `online` events aren't reliable on every network (captive portals, flaky Wi-Fi),
+  // so keep retrying while something is pending.
+  useEffect(() => {
+    if (!online || outbox.pending === 0) return;
+    const interval = setInterval(() => flushOutbox(), RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [online, outbox.pending]);
+
+  return (
+    <SyncContext.Provider
+      value={{
+        online,
+        pending: outbox.pending,
+        syncing: outbox.syncing,
+        lastSyncedAt: outbox.lastSyncedAt,
+        syncNow: flushOutbox,
+      }}
+    >
+      {children}
+    </SyncContext.Provider>
+  );
+}
+
+export function useSync() {
+  const ctx = useContext(SyncContext);
+  if (!ctx) throw new Error('useSync must be used within SyncProvider');
+  return ctx;
+}
@@ -0,0 +1,46 @@
+import type { AnswerHint, DiffSegment } from '@/lib/answer-matching';
+
+const SEGMENT_STYLES: Record<DiffSegment['type'], string> = {
+  match: 'text-gray-900 dark:text-gray-100',
+  missing: 'text-emerald-700 dark:text-emerald-300 bg-emerald-100 dark:bg-emerald-900/50 rounded-sm underline decoration-2 underline-offset-4',
+  extra: 'text-red-600 dark:text-red-400 bg-red-100 dark:bg-red-900/40 rounded-sm line-through decoration-2',
+};
+
+interface AnswerDiffProps {
+  diff: DiffSegment[];
+  hints?: AnswerHint[];
+  className?: string;
+}
+
+/**
+ * Shows where a typed answer went wrong: letters that should be there are
+ * underlined in green, letters that shouldn't are struck through in red.
+ */
+export default function AnswerDiff({ diff, hints = [], className = '' }: AnswerDiffProps) {
+  if (diff.length === 0) return null;
+
+  return (
+    <div className={className}>
+      <p className="font-mono text-lg tracking-wide whitespace-pre-wrap break-words" aria-label="Your answer compared with the correct answer">
+        {diff.map((segment, index) => (
+          <span
+            key={index}
+            className={SEGMENT_STYLES[segment.type]}
+            title={segment.type === 'missing' ? 'Missing' : segment.type === 'extra' ? 'Not needed' : undefined}
+          >
+            {segment.text}
+          </span>
+        ))}
+      </p>
+      {hints.length > 0 && (
+        <ul className="mt-2 space-y-0.5">
+          {hints.map((hint) => (
+            <li key={hint.message} className="text-sm text-gray-600 dark:text-gray-400">
+              • {hint.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
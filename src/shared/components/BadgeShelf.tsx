@@ -0,0 +1,57 @@
+import type { BadgeStatus } from '@/domain/achievements';
+
+interface BadgeShelfProps {
+  badges: BadgeStatus[];
+}
+
+function badgeTitle(status: BadgeStatus): string {
+  const { badge } = status;
+  if (status.unlocked) {
+    const when = status.unlockedAt ? ` · ${new Date(status.unlockedAt).toLocaleDateString()}` : '';
+    return `${badge.name}: ${badge.description}${when}`;
+  }
+  return `${badge.name}: ${badge.description} (${Math.min(status.value, badge.threshold)}/${badge.threshold})`;
+}
+
+/**
+ * Every badge in the catalog: unlocked ones in colour, locked ones greyed out
+ * with a progress bar towards their threshold.
+ */
+export default function BadgeShelf({ badges }: BadgeShelfProps) {
+  const unlockedCount = badges.filter((status) => status.unlocked).length;
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        {unlockedCount} of {badges.length} badges unlocked
+      </p>
+      <ul className="grid grid-cols-3 sm:grid-cols-4 lg:grid-cols-7 gap-4" aria-label="Badges">
+        {badges.map((status) => (
+          <li key={status.badge.id} title={badgeTitle(status)} className="flex flex-col items-center text-center">
+            <span
+              className={`w-14 h-14 rounded-full flex items-center justify-center text-2xl mb-1.5 ${
+                status.unlocked
+                  ? 'bg-gradient-to-br from-yellow-100 to-orange-200 dark:from-yellow-900/40 dark:to-orange-900/40 ring-2 ring-yellow-300 dark:ring-yellow-600'
+                  : 'bg-gray-100 dark:bg-gray-700 grayscale opacity-40'
+              }`}
+            >
+              {status.badge.icon}
+            </span>
+            <span
+              className={`text-xs font-medium leading-tight ${
+                status.unlocked ? 'text-gray-900 dark:text-gray-100' : 'text-gray-400 dark:text-gray-500'
+              }`}
+            >
+              {status.badge.name}
+            </span>
+            {!status.unlocked && (
+              <span className="w-12 h-1 mt-1 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden" aria-hidden="true">
+                <span className="block h-full bg-[#10A5C3]" style={{ width: `${status.progress * 100}%` }} />
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { Check } from 'lucide-react';
+import type { PlaySessionPlayerAnswer } from '@/types/api.types';
+
+export type ProjectorOption = { text: string; correct: boolean };
+
+type Bar = { key: string; label: string; count: number; correct: boolean | null; color: string };
+
+export const OPTION_COLORS = ['bg-rose-500', 'bg-sky-500', 'bg-amber-500', 'bg-emerald-500'];
+
+/**
+ * One bar per option for multiple choice; typed and spoken answers can't be
+ * grouped by text, so they split into right and wrong.
+ */
+export function distributionBars(options: ProjectorOption[], answers: PlaySessionPlayerAnswer[]): Bar[] {
+  if (options.length === 0) {
+    const correct = answers.filter((a) => a.is_correct).length;
+    return [
+      { key: 'correct', label: 'Correcta', count: correct, correct: true, color: 'bg-emerald-500' },
+      { key: 'incorrect', label: 'Incorrecta', count: answers.length - correct, correct: false, color: 'bg-rose-500' },
+    ];
+  }
+
+  const bars: Bar[] = options.map((option, index) => ({
+    key: option.text,
+    label: option.text,
+    count: answers.filter((a) => a.answer_text === option.text).length,
+    correct: option.correct,
+    color: OPTION_COLORS[index % OPTION_COLORS.length],
+  }));
+  // Players whose question type was swapped (no mic) answer outside these options
+  const other = answers.length - bars.reduce((sum, bar) => sum + bar.count, 0);
+  if (other > 0) {
+    bars.push({ key: 'other', label: 'Otra respuesta', count: other, correct: null, color: 'bg-gray-400' });
+  }
+  return bars;
+}
+
+type AnswerDistributionProps = {
+  options: ProjectorOption[];
+  answers: PlaySessionPlayerAnswer[];
+  /** Mark the right answer and dim the rest */
+  revealed: boolean;
+};
+
+/**
+ * Live bar chart of how the room answered the current question
+ */
+export default function AnswerDistribution({ options, answers, revealed }: AnswerDistributionProps) {
+  const bars = distributionBars(options, answers);
+  const max = Math.max(1, ...bars.map((bar) => bar.count));
+
+  return (
+    <div className="flex items-end justify-center gap-4 h-48">
+      {bars.map((bar, index) => (
+        <div key={bar.key} className="flex flex-col items-center justify-end h-full w-24">
+          <span className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-1">{bar.count}</span>
+          <div
+            className={`w-full rounded-t-lg transition-all duration-500 ${bar.color} ${
+              revealed && bar.correct === false ? 'opacity-30' : ''
+            }`}
+            style={{ height: `${Math.max(4, (bar.count / max) * 100)}%` }}
+          />
+          <span
+            className="mt-2 text-xs text-center text-gray-700 dark:text-gray-300 truncate w-full flex items-center justify-center gap-1"
+            title={bar.label}
+          >
+            {revealed && bar.correct && <Check size={14} className="text-emerald-600 dark:text-emerald-400 flex-shrink-0" />}
+            {options.length > 0 && bar.key !== 'other' ? String.fromCharCode(65 + index) : bar.label}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
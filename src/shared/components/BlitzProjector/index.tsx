@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { ChevronRight, Eye, Loader2, Timer, Users } from 'lucide-react';
+import TTSButton from '@/shared/components/TTSButton';
+import useCountdown from '@/shared/hooks/useCountdown';
+import type { PlaySessionPlayerAnswer } from '@/types/api.types';
+import AnswerDistribution, { OPTION_COLORS, type ProjectorOption } from './AnswerDistribution';
+
+type BlitzProjectorProps = {
+  position: number;
+  totalQuestions: number;
+  typeLabel: string;
+  prompt: string;
+  /** Spanish to play aloud for listening questions */
+  audioText?: string | null;
+  locale: string;
+  /** Empty for typed and spoken answers */
+  options: ProjectorOption[];
+  correctAnswer: string;
+  /** Answers to this question so far */
+  answers: PlaySessionPlayerAnswer[];
+  playerCount: number;
+  endsAt: string | null;
+  onAdvance: () => void;
+  advancing: boolean;
+};
+
+/**
+ * The teacher's screen in a host-paced Blitz Challenge, made to be projected:
+ * the question, its countdown, how the room is answering, and the button that
+ * moves everyone to the next question. Students only see answer controls.
+ */
+export default function BlitzProjector({
+  position,
+  totalQuestions,
+  typeLabel,
+  prompt,
+  audioText,
+  locale,
+  options,
+  correctAnswer,
+  answers,
+  playerCount,
+  endsAt,
+  onAdvance,
+  advancing,
+}: BlitzProjectorProps) {
+  const secondsLeft = useCountdown(endsAt);
+  // Reset per question: the parent keys this component by question
+  const [showAnswer, setShowAnswer] = useState(false);
+
+  const timeUp = secondsLeft === 0;
+  const everyoneAnswered = playerCount > 0 && answers.length >= playerCount;
+  const revealed = showAnswer || timeUp || everyoneAnswered;
+  const isLast = position >= totalQuestions;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-300">
+        <span className="font-semibold">
+          Pregunta {position} de {totalQuestions}
+        </span>
+        <span className="flex items-center gap-1">
+          <Users size={16} /> {answers.length}/{playerCount} respuestas
+        </span>
+      </div>
+
+      <div className="text-center space-y-4">
+        <span className="inline-block px-3 py-1 bg-purple-100 dark:bg-purple-900/40 text-purple-800 dark:text-purple-300 rounded-full text-sm font-medium">
+          {typeLabel}
+        </span>
+        {prompt && <h2 className="text-3xl sm:text-5xl font-bold text-gray-900 dark:text-gray-100">{prompt}</h2>}
+        {audioText && (
+          <div className="flex justify-center">
+            <TTSButton text={audioText} locale={locale} size="large" />
+          </div>
+        )}
+        {secondsLeft !== null && (
+          <div
+            className={`inline-flex items-center gap-2 px-5 py-2 rounded-full text-2xl font-bold tabular-nums ${
+              secondsLeft <= 5
+                ? 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200'
+            }`}
+          >
+            <Timer size={24} /> {timeUp ? '¡Tiempo!' : secondsLeft}
+          </div>
+        )}
+      </div>
+
+      {options.length > 0 && (
+        <div className="grid sm:grid-cols-2 gap-3">
+          {options.map((option, index) => (
+            <div
+              key={option.text}
+              className={`flex items-center gap-3 rounded-xl px-4 py-4 text-white text-lg sm:text-xl font-semibold transition-opacity ${
+                OPTION_COLORS[index % OPTION_COLORS.length]
+              } ${revealed && !option.correct ? 'opacity-40' : ''}`}
+            >
+              <span className="w-9 h-9 rounded-full bg-white/25 flex items-center justify-center flex-shrink-0">
+                {String.fromCharCode(65 + index)}
+              </span>
+              {option.text}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 rounded-xl p-4">
+        <AnswerDistribution options={options} answers={answers} revealed={revealed} />
+        {revealed && options.length === 0 && (
+          <p className="text-center text-lg text-gray-800 dark:text-gray-200 mt-4">
+            Respuesta: <strong>{correctAnswer}</strong>
+          </p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-3">
+        {!revealed && (
+          <button
+            type="button"
+            onClick={() => setShowAnswer(true)}
+            className="inline-flex items-center gap-2 px-5 py-3 rounded-lg border-2 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 font-semibold"
+          >
+            <Eye size={20} /> Mostrar respuesta
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onAdvance}
+          disabled={advancing}
+          className="inline-flex items-center gap-2 px-6 py-3 rounded-lg bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-60 font-semibold text-lg shadow"
+        >
+          {advancing ? <Loader2 size={20} className="animate-spin" /> : <ChevronRight size={20} />}
+          {isLast ? 'Ver resultados' : 'Siguiente pregunta'}
+        </button>
+      </div>
+    </div>
+  );
+}
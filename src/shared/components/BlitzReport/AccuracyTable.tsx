@@ -0,0 +1,78 @@
+import {
+  ANSWER_CATEGORIES,
+  accuracyPercent,
+  type AnswerCategory,
+  type PlayerStats,
+} from '@/domain/blitz-report';
+
+export const CATEGORY_LABELS: Record<AnswerCategory, string> = {
+  audio: 'Audio',
+  speech: 'Habla',
+  written: 'Escrita',
+  mc: 'Opción múltiple',
+};
+
+function cellClass(percent: number | null): string {
+  if (percent === null) return 'text-gray-400';
+  if (percent >= 80) return 'bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-300';
+  if (percent >= 50) return 'bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-300';
+  return 'bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-300';
+}
+
+type AccuracyTableProps = {
+  players: PlayerStats[];
+};
+
+/**
+ * Per-player accuracy, overall and by kind of question. Only the categories
+ * that came up in the game get a column.
+ */
+export default function AccuracyTable({ players }: AccuracyTableProps) {
+  const categories = ANSWER_CATEGORIES.filter((c) => players.some((p) => p.byCategory[c].answered > 0));
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50 dark:bg-gray-700 text-xs uppercase text-gray-600 dark:text-gray-400">
+          <tr>
+            <th className="px-3 py-2 text-left font-semibold">Jugador</th>
+            <th className="px-3 py-2 text-center font-semibold">Total</th>
+            {categories.map((c) => (
+              <th key={c} className="px-3 py-2 text-center font-semibold">
+                {CATEGORY_LABELS[c]}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+          {players.map((p) => {
+            const total = p.accuracy === null ? null : Math.round(p.accuracy * 100);
+            return (
+              <tr key={p.id}>
+                <td className="px-3 py-2 font-medium text-gray-900 dark:text-gray-100">{p.name}</td>
+                <td className="px-3 py-2 text-center">
+                  <span className={`inline-block min-w-[3rem] px-2 py-0.5 rounded font-semibold tabular-nums ${cellClass(total)}`}>
+                    {total === null ? '—' : `${total}%`}
+                  </span>
+                </td>
+                {categories.map((c) => {
+                  const percent = accuracyPercent(p.byCategory[c]);
+                  return (
+                    <td key={c} className="px-3 py-2 text-center">
+                      <span
+                        className={`inline-block min-w-[3rem] px-2 py-0.5 rounded tabular-nums ${cellClass(percent)}`}
+                        title={`${p.byCategory[c].correct}/${p.byCategory[c].answered}`}
+                      >
+                        {percent === null ? '—' : `${percent}%`}
+                      </span>
+                    </td>
+                  );
+                })}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { Check, ClipboardList, Loader2 } from 'lucide-react';
+import type { DbClassroom } from '@/types/api.types';
+
+export type AssignMissedWordsInput = {
+  classroomId: string;
+  /** Only the students who missed at least one of the words, instead of the whole class */
+  onlyMissedBy: boolean;
+  dueDate?: string;
+};
+
+type AssignMissedWordsProps = {
+  wordCount: number;
+  /** null while loading */
+  classrooms: DbClassroom[] | null;
+  onAssign: (input: AssignMissedWordsInput) => Promise<void>;
+};
+
+/**
+ * "Assign missed words as practice": picks the classroom, who gets it and an
+ * optional due date; the caller builds the deck and creates the assignment.
+ */
+export default function AssignMissedWords({ wordCount, classrooms, onAssign }: AssignMissedWordsProps) {
+  const [classroomId, setClassroomId] = useState('');
+  const [onlyMissedBy, setOnlyMissedBy] = useState(true);
+  const [dueDate, setDueDate] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedId = classroomId || classrooms?.[0]?.id || '';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedId || saving) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await onAssign({ classroomId: selectedId, onlyMissedBy, dueDate: dueDate || undefined });
+      setDone(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No se pudo crear la tarea');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (done) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-green-700 dark:text-green-400 font-medium">
+        <Check size={18} /> Tarea creada con {wordCount} {wordCount === 1 ? 'palabra' : 'palabras'}.
+      </p>
+    );
+  }
+
+  if (classrooms !== null && classrooms.length === 0) {
+    return (
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Crea una clase para poder asignar las palabras falladas como práctica.
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="grid sm:grid-cols-2 gap-3">
+        <label className="text-sm text-gray-700 dark:text-gray-300">
+          Clase
+          <select
+            value={selectedId}
+            onChange={(e) => setClassroomId(e.target.value)}
+            disabled={!classrooms}
+            className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+          >
+            {(classrooms ?? []).map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700 dark:text-gray-300">
+          Fecha límite (opcional)
+          <input
+            type="date"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+          />
+        </label>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+        <input type="checkbox" checked={onlyMissedBy} onChange={(e) => setOnlyMissedBy(e.target.checked)} />
+        Solo a los alumnos que fallaron alguna
+      </label>
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      <button
+        type="submit"
+        disabled={!selectedId || saving}
+        className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-60 font-semibold"
+      >
+        {saving ? <Loader2 size={18} className="animate-spin" /> : <ClipboardList size={18} />}
+        Asignar {wordCount} {wordCount === 1 ? 'palabra fallada' : 'palabras falladas'} como práctica
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import type { QuestionStats } from '@/domain/blitz-report';
+import { CATEGORY_LABELS } from './AccuracyTable';
+
+/** Shown before "Ver todas" */
+const INITIAL_ROWS = 8;
+
+type MissedQuestionsProps = {
+  /** Most missed first */
+  questions: QuestionStats[];
+};
+
+/**
+ * Questions the room got wrong, with a miss-rate bar and the wrong answers
+ * players gave (most common first)
+ */
+export default function MissedQuestions({ questions }: MissedQuestionsProps) {
+  const [showAll, setShowAll] = useState(false);
+  const missed = questions.filter((q) => q.missed > 0);
+  const visible = showAll ? missed : missed.slice(0, INITIAL_ROWS);
+
+  if (missed.length === 0) {
+    return <p className="text-sm text-gray-600 dark:text-gray-400">Nadie falló ninguna pregunta. 🎉</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {visible.map((q) => {
+        const missPercent = Math.round(q.missRate * 100);
+        return (
+          <div key={q.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3 space-y-2">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+              <p className="font-semibold text-gray-900 dark:text-gray-100">
+                <span className="text-gray-400 mr-2">#{q.position}</span>
+                {q.prompt} <span className="font-normal text-gray-500 dark:text-gray-400">→ {q.answer}</span>
+              </p>
+              <span className="px-2 py-0.5 rounded-full bg-purple-100 dark:bg-purple-900/40 text-purple-700 dark:text-purple-300 text-xs font-medium">
+                {CATEGORY_LABELS[q.category]}
+              </span>
+            </div>
+            <div className="flex items-center gap-3">
+              <div className="flex-1 h-2 rounded-full bg-gray-200 dark:bg-gray-600 overflow-hidden">
+                <div className="h-2 bg-rose-500" style={{ width: `${missPercent}%` }} />
+              </div>
+              <span className="text-xs text-gray-600 dark:text-gray-300 tabular-nums whitespace-nowrap">
+                {q.missed}/{q.answered} fallaron ({missPercent}%)
+              </span>
+            </div>
+            {q.wrongAnswers.length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {q.wrongAnswers.map((w) => (
+                  <span
+                    key={w.text}
+                    className="px-2 py-0.5 rounded bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300 text-xs"
+                  >
+                    “{w.text}”{w.count > 1 && <strong className="ml-1">×{w.count}</strong>}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {missed.length > INITIAL_ROWS && (
+        <button
+          type="button"
+          onClick={() => setShowAll((v) => !v)}
+          className="text-sm font-semibold text-purple-600 dark:text-purple-400 hover:underline"
+        >
+          {showAll ? 'Ver menos' : `Ver todas (${missed.length})`}
+        </button>
+      )}
+    </div>
+  );
+}
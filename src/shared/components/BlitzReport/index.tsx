@@ -0,0 +1,64 @@
+import { BarChart3, Download } from 'lucide-react';
+import { missedQuestions, type GameReport } from '@/domain/blitz-report';
+import type { DbClassroom } from '@/types/api.types';
+import AccuracyTable from './AccuracyTable';
+import AssignMissedWords, { type AssignMissedWordsInput } from './AssignMissedWords';
+import MissedQuestions from './MissedQuestions';
+
+type BlitzReportProps = {
+  report: GameReport;
+  onDownloadCsv: () => void;
+  /** Left out for hosts who can't create assignments */
+  assign?: {
+    classrooms: DbClassroom[] | null;
+    onAssign: (input: AssignMissedWordsInput) => Promise<void>;
+  };
+};
+
+/**
+ * Post-game report for the host of a Blitz Challenge: most missed questions
+ * with the wrong answers given, accuracy per player and kind of question, and
+ * the "assign missed words as practice" action.
+ */
+export default function BlitzReport({ report, onDownloadCsv, assign }: BlitzReportProps) {
+  const missedCount = missedQuestions(report).length;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-4 sm:p-6 space-y-8 text-left">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="flex items-center gap-2 text-2xl font-bold text-gray-900 dark:text-gray-100">
+          <BarChart3 size={24} /> Informe de la partida
+        </h3>
+        <button
+          type="button"
+          onClick={onDownloadCsv}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 font-medium"
+        >
+          <Download size={18} /> Descargar CSV
+        </button>
+      </div>
+
+      <section className="space-y-3">
+        <h4 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Preguntas más falladas</h4>
+        <MissedQuestions questions={report.questions} />
+      </section>
+
+      <section className="space-y-3">
+        <h4 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Precisión por tipo de pregunta</h4>
+        <AccuracyTable players={report.players} />
+      </section>
+
+      {assign && missedCount > 0 && (
+        <section className="space-y-3 border-t border-gray-200 dark:border-gray-700 pt-6">
+          <h4 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Practicar lo fallado</h4>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Crea un conjunto con las palabras falladas y lo asigna a tu clase.
+          </p>
+          <AssignMissedWords wordCount={missedCount} classrooms={assign.classrooms} onAssign={assign.onAssign} />
+        </section>
+      )}
+    </div>
+  );
+}
+
+export type { AssignMissedWordsInput };
@@ -0,0 +1,72 @@
+import { DAILY_GOAL_PRESETS, type DailyGoal } from '@/domain/daily-goals';
+import type { DailyGoalType } from '@/types/api.types';
+
+const GOAL_TYPES: { type: DailyGoalType; label: string }[] = [
+  { type: 'cards', label: 'Cards' },
+  { type: 'xp', label: 'XP' },
+];
+
+interface DailyGoalPickerProps {
+  goal: DailyGoal;
+  onChange: (goal: DailyGoal) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Choose what the daily goal counts (different cards studied or XP earned)
+ * and how much of it. Switching the type picks that type's nearest preset.
+ */
+export default function DailyGoalPicker({ goal, onChange, disabled = false }: DailyGoalPickerProps) {
+  const presets = DAILY_GOAL_PRESETS[goal.type];
+
+  const switchType = (type: DailyGoalType) => {
+    if (type === goal.type) return;
+    const index = Math.max(0, presets.indexOf(goal.target));
+    const next = DAILY_GOAL_PRESETS[type];
+    onChange({ type, target: next[Math.min(index, next.length - 1)] });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="inline-flex rounded-xl bg-gray-100 dark:bg-gray-700 p-1" role="radiogroup" aria-label="Goal type">
+        {GOAL_TYPES.map(({ type, label }) => (
+          <button
+            key={type}
+            type="button"
+            role="radio"
+            aria-checked={goal.type === type}
+            disabled={disabled}
+            onClick={() => switchType(type)}
+            className={`px-4 py-1.5 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 ${
+              goal.type === type
+                ? 'bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 shadow-sm'
+                : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Daily target">
+        {presets.map((target) => (
+          <button
+            key={target}
+            type="button"
+            role="radio"
+            aria-checked={goal.target === target}
+            disabled={disabled}
+            onClick={() => onChange({ type: goal.type, target })}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors disabled:opacity-50 ${
+              goal.target === target
+                ? 'border-[#10A5C3] bg-[#10A5C3]/10 text-[#084178] dark:text-sky-300'
+                : 'border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-[#10A5C3]'
+            }`}
+          >
+            {target} {goal.type === 'xp' ? 'XP' : 'cards'}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
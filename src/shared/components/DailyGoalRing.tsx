@@ -0,0 +1,87 @@
+import { useMemo, type MouseEvent } from 'react';
+import { Link } from 'react-router-dom';
+import useUser from '@/shared/hooks/useUser';
+import useStudyActivity from '@/shared/hooks/useStudyActivity';
+import { useNavigationGuard } from '@/lib/navigation-guard-context';
+import { dayKey, goalProgress, resolveDailyGoal } from '@/domain/daily-goals';
+import { startOfDay } from '@/domain/srs';
+
+const RADIUS = 15;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+function Ring({ ratio, met, size }: { ratio: number; met: boolean; size: number }) {
+  return (
+    <svg width={size} height={size} viewBox="0 0 36 36" className="-rotate-90 flex-shrink-0" aria-hidden="true">
+      <circle cx="18" cy="18" r={RADIUS} fill="none" strokeWidth="4" className="stroke-gray-200 dark:stroke-gray-700" />
+      <circle
+        cx="18"
+        cy="18"
+        r={RADIUS}
+        fill="none"
+        strokeWidth="4"
+        strokeLinecap="round"
+        strokeDasharray={`${ratio * CIRCUMFERENCE} ${CIRCUMFERENCE}`}
+        className={`transition-all duration-500 ${met ? 'stroke-green-500' : 'stroke-[#10A5C3]'}`}
+      />
+    </svg>
+  );
+}
+
+/**
+ * Today's progress towards the daily goal, for the dashboard layout.
+ * Links to the profile, where the goal is set. `compact` renders just the
+ * ring for the mobile header.
+ */
+export default function DailyGoalRing({
+  compact = false,
+  onClick,
+}: {
+  compact?: boolean;
+  onClick?: (e: MouseEvent) => void;
+}) {
+  const { data: user } = useUser();
+  const { tryNavigate } = useNavigationGuard();
+  // From local midnight, so cards studied earlier today count
+  const today = useMemo(() => startOfDay(new Date()), []);
+  const { activity, loading } = useStudyActivity(today, !!user);
+
+  if (!user || loading) return null;
+
+  const goal = resolveDailyGoal(user);
+  const progress = goalProgress(activity.get(dayKey(today)), goal);
+  const unit = goal.type === 'xp' ? 'XP' : 'cards';
+  const label = progress.met
+    ? `Daily goal reached: ${progress.value}/${progress.target} ${unit}`
+    : `Daily goal: ${progress.value}/${progress.target} ${unit}`;
+
+  const guardedClick = (e: MouseEvent) => {
+    if (onClick) onClick(e);
+    else if (!tryNavigate()) e.preventDefault();
+  };
+
+  if (compact) {
+    return (
+      <Link to="/profile#daily-goal" onClick={guardedClick} title={label} aria-label={label} className="flex items-center">
+        <Ring ratio={progress.ratio} met={progress.met} size={28} />
+      </Link>
+    );
+  }
+
+  return (
+    <Link
+      to="/profile#daily-goal"
+      onClick={guardedClick}
+      className="flex items-center gap-3 px-3 py-2 rounded-xl text-xs font-medium text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+    >
+      <Ring ratio={progress.ratio} met={progress.met} size={32} />
+      <span className="min-w-0">
+        <span className="block text-gray-900 dark:text-gray-100 font-semibold">
+          {progress.met ? 'Goal reached! 🎉' : 'Daily goal'}
+        </span>
+        <span className="block truncate">
+          {progress.value}/{progress.target} {unit} today
+        </span>
+      </span>
+    </Link>
+  );
+}
@@ -2,11 +2,13 @@ import { useState, useCallback, type ReactNode, type MouseEvent } from "react";
 import { Link, useLocation, useNavigate } from "react-router-dom";
 import {
   LayoutDashboard, Swords, Gamepad2, Users, GraduationCap, Shield,
-  User, LogOut, Sun, Moon, PanelLeft, Menu,
+  User, LogOut, Sun, Moon, PanelLeft, Menu, Trophy,
 } from "lucide-react";
 import useUser from "@/shared/hooks/useUser";
 import { useTheme } from "@/lib/theme-context";
 import { useNavigationGuard } from "@/lib/navigation-guard-context";
+import SyncStatus from "@/shared/components/SyncStatus";
+import DailyGoalRing from "@/shared/components/DailyGoalRing";
 
 const DARK_BLUE = "#084178";
 const LIGHT_BLUE = "#10A5C3";
@@ -22,6 +24,7 @@ function Sidebar({ open, onClose }: { open: boolean; onClose: () => void }) {
     { to: "/dashboard", icon: LayoutDashboard, label: "Dashboard" },
     { to: "/blitz-challenge", icon: Swords, label: "Blitz Challenge" },
     { to: "/play/solo", icon: Gamepad2, label: "Solo Blitz" },
+    { to: "/leaderboard", icon: Trophy, label: "Leaderboard" },
     { to: "/profile", icon: User, label: "Profile" },
   ];
 
@@ -102,6 +105,12 @@ function Sidebar({ open, onClose }: { open: boolean; onClose: () => void }) {
 
         {/* Bottom section */}
         <div className="border-t border-gray-200 dark:border-gray-700 p-3 space-y-2 flex-shrink-0">
+          {/* Today's goal progress */}
+          <DailyGoalRing onClick={guardedClick} />
+
+          {/* Offline / sync status */}
+          <SyncStatus />
+
           {/* Theme toggle */}
           <button
             onClick={toggleTheme}
@@ -173,6 +182,10 @@ export default function DashboardLayout({ children }: { children: ReactNode }) {
               The Spanish <span className="text-[#10A5C3]">Blitz</span>
             </span>
           </div>
+          <div className="ml-auto flex items-center gap-2">
+            <DailyGoalRing compact />
+            <SyncStatus compact />
+          </div>
         </header>
 
         <div className="flex-1 p-4 md:p-8 overflow-x-hidden">
@@ -0,0 +1,61 @@
+import { IMPORT_FIELDS, type ColumnMapping as Mapping, type ImportField, type ImportTable } from '@/domain/deck-import';
+
+type ColumnMappingProps = {
+  table: ImportTable;
+  mapping: Mapping;
+  onChange: (mapping: Mapping) => void;
+};
+
+function columnLabel(table: ImportTable, column: number): string {
+  const header = table.headers?.[column];
+  if (header) return `Column ${column + 1}: ${header}`;
+  const sample = table.rows.find((row) => row[column])?.[column];
+  return sample ? `Column ${column + 1} (e.g. "${sample.length > 24 ? `${sample.slice(0, 24)}…` : sample}")` : `Column ${column + 1}`;
+}
+
+/**
+ * One dropdown per card field, choosing which column of the file fills it
+ */
+export default function ColumnMapping({ table, mapping, onChange }: ColumnMappingProps) {
+  const setColumn = (field: ImportField, value: string) => {
+    const next = { ...mapping };
+    if (value === '') {
+      delete next[field];
+    } else {
+      const column = Number(value);
+      // A column feeds one field; moving it clears the old one
+      for (const key of Object.keys(next) as ImportField[]) {
+        if (next[key] === column) delete next[key];
+      }
+      next[field] = column;
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="grid sm:grid-cols-2 gap-3">
+      {IMPORT_FIELDS.map(({ field, label, required }) => (
+        <label key={field} className="block">
+          <span className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+            {label}
+            {required && <span className="text-red-500"> *</span>}
+          </span>
+          <select
+            value={mapping[field] ?? ''}
+            onChange={(e) => setColumn(field, e.target.value)}
+            className="w-full px-3 py-2 border border-gray-200 dark:border-gray-600 rounded-lg text-sm
+              bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+              focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">{required ? 'Choose a column…' : 'Not imported'}</option>
+            {Array.from({ length: table.columnCount }, (_, column) => (
+              <option key={column} value={column}>
+                {columnLabel(table, column)}
+              </option>
+            ))}
+          </select>
+        </label>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { AlertCircle, AlertTriangle, Copy } from 'lucide-react';
+import { isImportable, type ImportRow } from '@/domain/deck-import';
+
+/** Rows rendered in the table; the rest are still imported */
+const PREVIEW_LIMIT = 200;
+
+type ImportPreviewProps = {
+  rows: ImportRow[];
+  isIncluded: (index: number) => boolean;
+  onToggle: (index: number, included: boolean) => void;
+  /** Only list rows with errors, warnings or duplicates */
+  problemsOnly?: boolean;
+};
+
+const DUPLICATE_LABELS: Record<NonNullable<ImportRow['duplicate']>, string> = {
+  existing: 'Already in this set',
+  file: 'Repeated in this file',
+};
+
+/**
+ * The rows about to be imported, with a checkbox each and their validation issues
+ */
+export default function ImportPreview({ rows, isIncluded, onToggle, problemsOnly = false }: ImportPreviewProps) {
+  const visible = rows
+    .map((row, index) => ({ row, index }))
+    .filter(({ row }) => !problemsOnly || row.issues.length > 0 || row.duplicate !== null);
+  const shown = visible.slice(0, PREVIEW_LIMIT);
+
+  if (visible.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">
+        {problemsOnly ? 'No problems found.' : 'No rows to preview.'}
+      </p>
+    );
+  }
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-xl overflow-hidden">
+      <div className="overflow-auto max-h-[360px]">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-700/50 text-left text-xs text-gray-500 dark:text-gray-400 sticky top-0">
+            <tr>
+              <th className="px-3 py-2 w-8" aria-label="Include" />
+              <th className="px-3 py-2 w-12">Row</th>
+              <th className="px-3 py-2">Spanish</th>
+              <th className="px-3 py-2">English</th>
+              <th className="px-3 py-2">Notes</th>
+              <th className="px-3 py-2">Distractors</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+            {shown.map(({ row, index }) => {
+              const importable = isImportable(row);
+              const included = importable && isIncluded(index);
+              const distractors = [row.card.distractor_1_es, row.card.distractor_2_es, row.card.distractor_3_es]
+                .filter(Boolean)
+                .join(', ');
+              return (
+                <tr
+                  key={index}
+                  className={
+                    !importable
+                      ? 'bg-red-50 dark:bg-red-900/10'
+                      : !included
+                        ? 'bg-gray-50 dark:bg-gray-800/60 text-gray-400 dark:text-gray-500'
+                        : 'text-gray-900 dark:text-gray-100'
+                  }
+                >
+                  <td className="px-3 py-2 align-top">
+                    <input
+                      type="checkbox"
+                      checked={included}
+                      disabled={!importable}
+                      onChange={(e) => onToggle(index, e.target.checked)}
+                      aria-label={`Import row ${row.line}`}
+                    />
+                  </td>
+                  <td className="px-3 py-2 align-top text-xs text-gray-400">{row.line}</td>
+                  <td className="px-3 py-2 align-top">
+                    {row.card.prompt_es || <span className="italic text-gray-400">empty</span>}
+                    {row.duplicate && (
+                      <span className="mt-1 flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400">
+                        <Copy size={12} />
+                        {DUPLICATE_LABELS[row.duplicate]}
+                      </span>
+                    )}
+                    {row.issues.map((issue) => (
+                      <span
+                        key={issue.message}
+                        className={`mt-1 flex items-center gap-1 text-xs ${
+                          issue.level === 'error' ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400'
+                        }`}
+                      >
+                        {issue.level === 'error' ? <AlertCircle size={12} /> : <AlertTriangle size={12} />}
+                        {issue.message}
+                      </span>
+                    ))}
+                  </td>
+                  <td className="px-3 py-2 align-top">
+                    {row.card.translation_en || <span className="italic text-gray-400">empty</span>}
+                  </td>
+                  <td className="px-3 py-2 align-top text-xs">{row.card.notes}</td>
+                  <td className="px-3 py-2 align-top text-xs">{distractors}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {visible.length > shown.length && (
+        <p className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-700/50 border-t border-gray-200 dark:border-gray-700">
+          Showing the first {PREVIEW_LIMIT} of {visible.length} rows. All selected rows will be imported.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,297 @@
+import { useMemo, useRef, useState } from 'react';
+import { ArrowLeft, CheckCircle, FileUp, Loader2 } from 'lucide-react';
+import { PlanLimitError } from '@/config/api';
+import {
+  IMPORT_FILE_TYPES,
+  ImportError,
+  applyHeaderRow,
+  buildImportRows,
+  guessMapping,
+  isImportable,
+  looksLikeHeaderRow,
+  parseImportFile,
+  parseImportText,
+  type ColumnMapping as Mapping,
+  type ImportFormat,
+  type ImportTable,
+} from '@/domain/deck-import';
+import useCardImport from '@/shared/hooks/useCardImport';
+import type { CreateCardBody } from '@/types/api.types';
+import ColumnMapping from './ColumnMapping';
+import ImportPreview from './ImportPreview';
+
+const FORMAT_OPTIONS: { value: ImportFormat | 'auto'; label: string }[] = [
+  { value: 'auto', label: 'Detect automatically' },
+  { value: 'csv', label: 'CSV (comma or semicolon)' },
+  { value: 'tsv', label: 'TSV / Quizlet default export' },
+  { value: 'quizlet', label: 'Quizlet custom export (term,definition;…)' },
+  { value: 'anki-text', label: 'Anki notes in plain text (.txt)' },
+  { value: 'anki-package', label: 'Anki package (.apkg)' },
+];
+
+type DeckImportProps = {
+  /** Spanish of the cards already in the set, for duplicate detection */
+  existingSpanish: string[];
+  /** Upload confirmed rows to this set; without one they're handed to `onRows` */
+  deckId?: string;
+  onImported?: (count: number) => void;
+  onRows?: (cards: CreateCardBody[]) => void;
+  /** Called when the plan's card limit stops the upload */
+  onPlanLimit?: (error: PlanLimitError) => void;
+};
+
+/**
+ * Import cards from CSV, TSV, Quizlet or Anki exports: pick a file or paste
+ * text, map its columns, review the rows, then import them in chunks.
+ */
+export default function DeckImport({ existingSpanish, deckId, onImported, onRows, onPlanLimit }: DeckImportProps) {
+  const { importCards, progress, importing, reset } = useCardImport();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [format, setFormat] = useState<ImportFormat | 'auto'>('auto');
+  const [text, setText] = useState('');
+  const [source, setSource] = useState<ImportTable | null>(null);
+  const [useHeaderRow, setUseHeaderRow] = useState(false);
+  const [mapping, setMapping] = useState<Mapping>({});
+  const [overrides, setOverrides] = useState<Map<number, boolean>>(new Map());
+  const [problemsOnly, setProblemsOnly] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [created, setCreated] = useState<number | null>(null);
+
+  const table = useMemo(() => (source ? applyHeaderRow(source, useHeaderRow) : null), [source, useHeaderRow]);
+  const rows = useMemo(
+    () => (table ? buildImportRows(table, mapping, existingSpanish) : []),
+    [table, mapping, existingSpanish],
+  );
+
+  // Duplicates start unticked; rows with errors can't be ticked at all
+  const isIncluded = (index: number) => overrides.get(index) ?? rows[index].duplicate === null;
+  const selected = rows.filter((row, index) => isImportable(row) && isIncluded(index));
+  const errorCount = rows.filter((row) => !isImportable(row)).length;
+  const duplicateCount = rows.filter((row) => row.duplicate !== null).length;
+
+  const openTable = (parsed: ImportTable) => {
+    const headerRow = !parsed.headers && looksLikeHeaderRow(parsed.rows[0]);
+    setSource(parsed);
+    setUseHeaderRow(headerRow);
+    setMapping(guessMapping(applyHeaderRow(parsed, headerRow)));
+    setOverrides(new Map());
+    setCreated(null);
+    setError(null);
+    reset();
+  };
+
+  const showParseError = (err: unknown) => {
+    if (!(err instanceof ImportError)) console.error('Error reading import:', err);
+    setError(err instanceof ImportError ? err.message : 'This file could not be read.');
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      openTable(await parseImportFile(file, format === 'auto' ? undefined : format));
+    } catch (err) {
+      showParseError(err);
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handlePaste = () => {
+    try {
+      openTable(parseImportText(text, format === 'auto' ? undefined : format));
+    } catch (err) {
+      showParseError(err);
+    }
+  };
+
+  const handleHeaderToggle = (checked: boolean) => {
+    if (!source) return;
+    setUseHeaderRow(checked);
+    setMapping(guessMapping(applyHeaderRow(source, checked)));
+    setOverrides(new Map());
+  };
+
+  const handleMappingChange = (next: Mapping) => {
+    setMapping(next);
+    setOverrides(new Map());
+  };
+
+  const handleToggle = (index: number, included: boolean) => {
+    setOverrides((prev) => new Map(prev).set(index, included));
+  };
+
+  const handleConfirm = async () => {
+    const cards = selected.map((row) => row.card);
+    if (cards.length === 0) return;
+    setError(null);
+
+    if (!deckId) {
+      onRows?.(cards);
+      setSource(null);
+      setText('');
+      return;
+    }
+
+    const result = await importCards(deckId, cards);
+    if (result.created > 0) onImported?.(result.created);
+    if (result.error) {
+      if (result.error instanceof PlanLimitError) onPlanLimit?.(result.error);
+      const reason = result.error instanceof Error ? result.error.message : 'Something went wrong.';
+      setError(`Imported ${result.created} of ${cards.length} cards before stopping. ${reason}`);
+      return;
+    }
+    setCreated(result.created);
+    setSource(null);
+    setText('');
+  };
+
+  if (created !== null) {
+    return (
+      <div className="text-center py-8 space-y-4">
+        <CheckCircle size={40} className="mx-auto text-emerald-500" />
+        <p className="font-semibold text-gray-900 dark:text-gray-100">
+          Imported {created} {created === 1 ? 'card' : 'cards'}
+        </p>
+        <button
+          type="button"
+          onClick={() => setCreated(null)}
+          className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          Import more
+        </button>
+      </div>
+    );
+  }
+
+  if (!table) {
+    return (
+      <div className="space-y-4">
+        <label className="block">
+          <span className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Format</span>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ImportFormat | 'auto')}
+            className="w-full px-3 py-2 border border-gray-200 dark:border-gray-600 rounded-lg text-sm
+              bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+              focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {FORMAT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full flex flex-col items-center gap-2 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-xl
+            py-6 text-gray-600 dark:text-gray-300 hover:border-blue-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+        >
+          <FileUp size={28} />
+          <span className="font-medium text-sm">Choose a file</span>
+          <span className="text-xs text-gray-400">CSV, TSV, Quizlet export, Anki .txt or .apkg</span>
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={IMPORT_FILE_TYPES}
+          className="hidden"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+
+        <div className="flex items-center gap-3 text-xs text-gray-400">
+          <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+          or paste
+          <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+        </div>
+
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={6}
+          placeholder={'hola = hello\nadiós\tgoodbye\n"el gato","the cat","a note"'}
+          className="w-full px-3 py-2 border border-gray-200 dark:border-gray-600 rounded-lg font-mono text-sm
+            bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100
+            focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <button
+          type="button"
+          onClick={handlePaste}
+          disabled={!text.trim()}
+          className="w-full bg-blue-600 text-white px-4 py-2.5 rounded-lg hover:bg-blue-700 font-medium text-sm disabled:opacity-50"
+        >
+          Preview pasted text
+        </button>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <button
+          type="button"
+          onClick={() => setSource(null)}
+          disabled={importing}
+          className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100"
+        >
+          <ArrowLeft size={16} />
+          Back
+        </button>
+        {source && !source.headers && (
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input type="checkbox" checked={useHeaderRow} onChange={(e) => handleHeaderToggle(e.target.checked)} />
+            First row is a header
+          </label>
+        )}
+      </div>
+
+      <ColumnMapping table={table} mapping={mapping} onChange={handleMappingChange} />
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <p className="text-gray-600 dark:text-gray-400">
+          <strong className="text-gray-900 dark:text-gray-100">{selected.length}</strong> of {rows.length} rows selected
+          {errorCount > 0 && <span className="text-red-600 dark:text-red-400"> · {errorCount} with errors</span>}
+          {duplicateCount > 0 && <span className="text-amber-600 dark:text-amber-400"> · {duplicateCount} duplicates</span>}
+        </p>
+        <label className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
+          <input type="checkbox" checked={problemsOnly} onChange={(e) => setProblemsOnly(e.target.checked)} />
+          Only show problems
+        </label>
+      </div>
+
+      <ImportPreview rows={rows} isIncluded={isIncluded} onToggle={handleToggle} problemsOnly={problemsOnly} />
+
+      {progress && importing && (
+        <div>
+          <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-blue-600 transition-all"
+              style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            Importing {progress.done} / {progress.total}…
+          </p>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <button
+        type="button"
+        onClick={handleConfirm}
+        disabled={importing || selected.length === 0}
+        className="w-full flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-3 rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50"
+      >
+        {importing && <Loader2 size={18} className="animate-spin" />}
+        {deckId ? `Import ${selected.length} ${selected.length === 1 ? 'card' : 'cards'}` : `Add ${selected.length} ${selected.length === 1 ? 'card' : 'cards'}`}
+      </button>
+    </div>
+  );
+}
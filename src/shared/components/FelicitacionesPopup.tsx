@@ -1,21 +1,17 @@
 /**
  * FelicitacionesPopup
  * Shows a celebratory popup with confetti when a student receives
- * a teacher recognition (felicitación) for completing a mission.
+ * a teacher recognition (felicitación) for completing a mission,
+ * or unlocks achievement badges (shown after the recognitions).
  */
 import { useState, useEffect, useCallback } from "react";
 import { api } from "@/config/api";
+import type { Felicitacion } from "@/types/api.types";
+import type { BadgeDefinition } from "@/domain/achievements";
 
 const DARK_BLUE = "#084178";
 const LIGHT_BLUE = "#10A5C3";
 
-interface Felicitacion {
-  id: string;
-  teacher_name: string;
-  mission_name?: string;
-  message?: string;
-}
-
 // ─── Simple confetti particles ──────────────────────────────────────
 function ConfettiCanvas() {
   useEffect(() => {
@@ -88,86 +84,122 @@ function ConfettiCanvas() {
   );
 }
 
+type Celebration =
+  | { kind: "felicitacion"; felicitacion: Felicitacion }
+  | { kind: "badge"; badge: BadgeDefinition };
+
+interface FelicitacionesPopupProps {
+  /** Newly unlocked badges, celebrated after any pending felicitaciones */
+  badges?: BadgeDefinition[];
+  /** Called once every badge has been dismissed */
+  onBadgesSeen?: () => void;
+}
+
 // ─── Main Popup ─────────────────────────────────────────────────────
-export default function FelicitacionesPopup() {
+export default function FelicitacionesPopup({ badges = [], onBadgesSeen }: FelicitacionesPopupProps) {
   const [felicitaciones, setFelicitaciones] = useState<Felicitacion[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
-  const [showConfetti, setShowConfetti] = useState(false);
 
   useEffect(() => {
     let mounted = true;
     api.felicitaciones.pending().then((data: Felicitacion[]) => {
       if (mounted && data && data.length > 0) {
         setFelicitaciones(data);
-        setShowConfetti(true);
       }
     }).catch(() => {});
     return () => { mounted = false; };
   }, []);
 
+  const queue: Celebration[] = [
+    ...felicitaciones.map((felicitacion) => ({ kind: "felicitacion" as const, felicitacion })),
+    ...badges.map((badge) => ({ kind: "badge" as const, badge })),
+  ];
+
   const handleDismiss = useCallback(async () => {
-    const current = felicitaciones[currentIndex];
-    if (current) {
-      try { await api.felicitaciones.markViewed(current.id); } catch {}
+    const current = queue[currentIndex];
+    if (current?.kind === "felicitacion") {
+      try { await api.felicitaciones.markViewed(current.felicitacion.id); } catch {}
     }
 
-    if (currentIndex < felicitaciones.length - 1) {
+    if (currentIndex < queue.length - 1) {
       setCurrentIndex(prev => prev + 1);
     } else {
       setFelicitaciones([]);
-      setShowConfetti(false);
+      setCurrentIndex(0);
+      if (badges.length > 0) onBadgesSeen?.();
     }
-  }, [currentIndex, felicitaciones]);
+  }, [currentIndex, queue, badges.length, onBadgesSeen]);
 
-  if (felicitaciones.length === 0) return null;
+  if (queue.length === 0) return null;
 
-  const current = felicitaciones[currentIndex];
+  const current = queue[Math.min(currentIndex, queue.length - 1)];
 
   return (
     <>
-      {showConfetti && <ConfettiCanvas />}
+      <ConfettiCanvas />
 
       {/* Overlay */}
       <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4" style={{ zIndex: 9998 }}>
         <div
           className="bg-white dark:bg-gray-800 rounded-3xl shadow-2xl max-w-md w-full p-8 text-center animate-in fade-in zoom-in duration-300"
         >
-          {/* Trophy */}
-          <div className="text-6xl mb-4">🎉</div>
-
-          <h2 className="text-2xl font-bold mb-2" style={{ color: DARK_BLUE }}>
-            <span className="dark:text-blue-300">¡Felicitaciones!</span>
-          </h2>
-
-          <p className="text-gray-600 dark:text-gray-300 mb-1">
-            Your teacher <span className="font-semibold" style={{ color: LIGHT_BLUE }}>{current.teacher_name}</span> recognized you
-          </p>
-
-          {current.mission_name && (
-            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
-              for completing <span className="font-medium">{current.mission_name}</span>
-            </p>
+          {current.kind === "badge" ? (
+            <>
+              {/* Badge */}
+              <div className="w-24 h-24 mx-auto mb-4 rounded-full flex items-center justify-center text-5xl bg-gradient-to-br from-yellow-100 to-orange-200 dark:from-yellow-900/40 dark:to-orange-900/40 ring-4 ring-yellow-300 dark:ring-yellow-600">
+                {current.badge.icon}
+              </div>
+
+              <h2 className="text-2xl font-bold mb-2" style={{ color: DARK_BLUE }}>
+                <span className="dark:text-blue-300">¡Nuevo logro!</span>
+              </h2>
+
+              <p className="text-lg font-semibold mb-1" style={{ color: LIGHT_BLUE }}>
+                {current.badge.name}
+              </p>
+
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">{current.badge.description}</p>
+            </>
+          ) : (
+            <>
+              {/* Trophy */}
+              <div className="text-6xl mb-4">🎉</div>
+
+              <h2 className="text-2xl font-bold mb-2" style={{ color: DARK_BLUE }}>
+                <span className="dark:text-blue-300">¡Felicitaciones!</span>
+              </h2>
+
+              <p className="text-gray-600 dark:text-gray-300 mb-1">
+                Your teacher <span className="font-semibold" style={{ color: LIGHT_BLUE }}>{current.felicitacion.teacher_name}</span> recognized you
+              </p>
+
+              {current.felicitacion.mission_name && (
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                  for completing <span className="font-medium">{current.felicitacion.mission_name}</span>
+                </p>
+              )}
+
+              {current.felicitacion.message && (
+                <div className="bg-blue-50 dark:bg-blue-900/30 rounded-xl p-4 mb-6 text-sm text-gray-700 dark:text-gray-300 italic">
+                  "{current.felicitacion.message}"
+                </div>
+              )}
+
+              {!current.felicitacion.message && <div className="mb-6" />}
+            </>
           )}
 
-          {current.message && (
-            <div className="bg-blue-50 dark:bg-blue-900/30 rounded-xl p-4 mb-6 text-sm text-gray-700 dark:text-gray-300 italic">
-              "{current.message}"
-            </div>
-          )}
-
-          {!current.message && <div className="mb-6" />}
-
           <button
             onClick={handleDismiss}
             className="w-full py-3 rounded-xl text-white font-bold text-lg transition-opacity hover:opacity-90"
             style={{ background: `linear-gradient(135deg, ${DARK_BLUE} 0%, ${LIGHT_BLUE} 100%)` }}
           >
-            {currentIndex < felicitaciones.length - 1 ? "Next →" : "¡Gracias!"}
+            {currentIndex < queue.length - 1 ? "Next →" : current.kind === "badge" ? "¡Genial!" : "¡Gracias!"}
           </button>
 
-          {felicitaciones.length > 1 && (
+          {queue.length > 1 && (
             <p className="text-xs text-gray-400 mt-3">
-              {currentIndex + 1} of {felicitaciones.length}
+              {currentIndex + 1} of {queue.length}
             </p>
           )}
         </div>
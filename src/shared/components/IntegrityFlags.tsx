@@ -0,0 +1,50 @@
+import { AlertTriangle, EyeOff, Zap } from 'lucide-react';
+import { INTEGRITY_DEFAULTS, flaggedPlayers } from '@/domain/blitz-integrity';
+import type { DbPlaySessionPlayer, PlaySessionPlayerAnswer } from '@/types/api.types';
+
+interface IntegrityFlagsProps {
+  players: Pick<DbPlaySessionPlayer, 'id' | 'display_name' | 'email'>[];
+  /** Everyone's answers so far (the host's `questionAnswers`) */
+  answers: PlaySessionPlayerAnswer[];
+  className?: string;
+}
+
+/**
+ * Host-only list of players with suspicious answers: answered faster than
+ * anyone can read, or left the tab while a question was up. Renders nothing
+ * while nobody is flagged. Flags don't change scores; the host decides.
+ */
+export default function IntegrityFlags({ players, answers, className = '' }: IntegrityFlagsProps) {
+  const flagged = flaggedPlayers(answers);
+  if (flagged.length === 0) return null;
+  const names = new Map(players.map((p) => [p.id, p.display_name || p.email]));
+
+  return (
+    <div
+      className={`rounded-lg border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 p-3 ${className}`}
+    >
+      <h4 className="flex items-center gap-2 text-sm font-semibold text-amber-800 dark:text-amber-300 mb-2">
+        <AlertTriangle size={16} /> Respuestas sospechosas
+      </h4>
+      <ul className="space-y-1.5 text-sm">
+        {flagged.map((entry) => (
+          <li key={entry.playerId} className="flex items-center justify-between gap-2">
+            <span className="truncate text-gray-900 dark:text-gray-100">{names.get(entry.playerId) ?? 'Jugador'}</span>
+            <span className="flex items-center gap-3 flex-shrink-0 text-xs text-amber-800 dark:text-amber-300">
+              {entry.tooFast > 0 && (
+                <span className="inline-flex items-center gap-1" title={`Respondió en menos de ${INTEGRITY_DEFAULTS.MIN_HUMAN_MS} ms`}>
+                  <Zap size={12} /> {entry.tooFast}
+                </span>
+              )}
+              {entry.focusLost > 0 && (
+                <span className="inline-flex items-center gap-1" title="Salió de la pestaña durante la pregunta">
+                  <EyeOff size={12} /> {entry.focusLost}
+                </span>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import {
+  CARD_MASTERY_STATES,
+  masteryCounts,
+  masteryFor,
+  type CardMastery,
+  type CardMasteryState,
+} from '@/domain/card-mastery';
+import type { DbCard } from '@/types/api.types';
+
+export const MASTERY_STYLES: Record<CardMasteryState, { label: string; cell: string; chip: string }> = {
+  new: {
+    label: 'New',
+    cell: 'bg-gray-200 dark:bg-gray-600',
+    chip: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  },
+  learning: {
+    label: 'Learning',
+    cell: 'bg-amber-400',
+    chip: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+  },
+  reviewing: {
+    label: 'Reviewing',
+    cell: 'bg-sky-500',
+    chip: 'bg-sky-100 text-sky-800 dark:bg-sky-900/40 dark:text-sky-300',
+  },
+  mastered: {
+    label: 'Mastered',
+    cell: 'bg-green-500',
+    chip: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  },
+};
+
+interface MasteryHeatmapProps {
+  cards: Pick<DbCard, 'id' | 'question' | 'prompt_es' | 'translation_en'>[];
+  mastery: ReadonlyMap<string, CardMastery>;
+  /** Fade the cards that aren't weak */
+  weakOnly?: boolean;
+}
+
+function cellTitle(card: MasteryHeatmapProps['cards'][number], entry: CardMastery): string {
+  const text = `${card.prompt_es || card.question}${card.translation_en ? ` → ${card.translation_en}` : ''}`;
+  if (entry.reviews === 0) return `${text}\nNot studied yet`;
+  const accuracy = Math.round((entry.accuracy ?? 0) * 100);
+  return `${text}\n${MASTERY_STYLES[entry.state].label} · ${entry.correct}/${entry.reviews} correct (${accuracy}%)`;
+}
+
+/**
+ * One square per card, coloured by mastery state (new, learning, reviewing,
+ * mastered); weak cards get a red ring. Hover a square for the card and its
+ * record. Legend counts sit underneath.
+ */
+export default function MasteryHeatmap({ cards, mastery, weakOnly = false }: MasteryHeatmapProps) {
+  const counts = masteryCounts(cards, mastery);
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-1.5" role="list" aria-label="Card mastery">
+        {cards.map((card) => {
+          const entry = masteryFor(mastery, card.id);
+          return (
+            <span
+              key={card.id}
+              role="listitem"
+              title={cellTitle(card, entry)}
+              className={`w-5 h-5 rounded ${MASTERY_STYLES[entry.state].cell} ${
+                entry.weak ? 'ring-2 ring-red-500 ring-offset-1 dark:ring-offset-gray-800' : ''
+              } ${weakOnly && !entry.weak ? 'opacity-25' : ''}`}
+            />
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 mt-3 text-xs text-gray-600 dark:text-gray-400">
+        {CARD_MASTERY_STATES.map((state) => (
+          <span key={state} className="inline-flex items-center gap-1.5">
+            <span className={`w-3 h-3 rounded-sm ${MASTERY_STYLES[state].cell}`} />
+            {MASTERY_STYLES[state].label} ({counts[state]})
+          </span>
+        ))}
+        <span className="inline-flex items-center gap-1.5">
+          <span className="w-3 h-3 rounded-sm ring-2 ring-red-500" />
+          Weak ({counts.weak})
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { AnimatePresence, motion } from 'motion/react';
+
+interface PointsBurstProps {
+  /** Changes for every answer so the animation replays */
+  burstKey: string | null;
+  points: number;
+  multiplier?: number;
+}
+
+/**
+ * Floating "+N" after an answer, drifting up and fading out
+ */
+export default function PointsBurst({ burstKey, points, multiplier = 1 }: PointsBurstProps) {
+  return (
+    <AnimatePresence>
+      {burstKey && (
+        <motion.div
+          key={burstKey}
+          initial={{ opacity: 0, y: 8, scale: 0.8 }}
+          animate={{ opacity: [0, 1, 1, 0], y: -28, scale: 1 }}
+          transition={{ duration: 1.6, times: [0, 0.15, 0.7, 1], ease: 'easeOut' }}
+          className="pointer-events-none absolute -top-2 right-0 flex flex-col items-end"
+          aria-live="polite"
+        >
+          <span
+            className={`text-2xl font-extrabold drop-shadow ${
+              points > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+            }`}
+          >
+            {points >= 0 ? `+${points}` : points}
+          </span>
+          {multiplier > 1 && (
+            <span className="text-xs font-bold text-orange-600 dark:text-orange-400">racha x{multiplier.toFixed(1)}</span>
+          )}
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,151 @@
+import type { WordAlignment } from '@/lib/answer-matching';
+import { PRONUNCIATION_DEFAULTS, attemptTrend, type PronunciationAttempt } from '@/domain/pronunciation';
+import TTSButton from '@/shared/components/TTSButton';
+
+const WORD_STYLES: Record<WordAlignment['status'], string> = {
+  match: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  close: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+  missed: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+  extra: 'bg-gray-100 text-gray-500 line-through dark:bg-gray-700 dark:text-gray-400',
+};
+
+interface PronunciationFeedbackProps {
+  /** The accepted answer the transcript was aligned against */
+  target: string;
+  alignment: WordAlignment[];
+  score: number;
+  /** 0–1, null when the recognizer didn't report one */
+  confidence: number | null;
+  accepted: boolean;
+  /** This card's recent attempts, oldest first, including this one */
+  history: PronunciationAttempt[];
+  locale?: string;
+}
+
+function wordTitle(word: WordAlignment): string {
+  if (word.status === 'extra') return `Not in the answer: "${word.heard}"`;
+  if (!word.heard) return `Not heard: "${word.expected}"`;
+  if (word.status === 'missed') return `Heard "${word.heard}" instead of "${word.expected}"`;
+  if (word.status === 'close') return `Almost: heard "${word.heard}"`;
+  return 'Correct';
+}
+
+/**
+ * Word-by-word result of a spoken answer: each target word coloured by how
+ * it was heard, the recognizer's confidence as a meter, "listen" buttons for
+ * the missed words and the card's recent scores.
+ */
+export default function PronunciationFeedback({
+  target,
+  alignment,
+  score,
+  confidence,
+  accepted,
+  history,
+  locale,
+}: PronunciationFeedbackProps) {
+  const missed = alignment.filter(
+    (word): word is WordAlignment & { expected: string } => word.expected !== null && word.status !== 'match',
+  );
+  const trend = attemptTrend(history);
+  const lowConfidence = confidence !== null && confidence < PRONUNCIATION_DEFAULTS.LOW_CONFIDENCE;
+
+  return (
+    <div
+      className={`mt-4 p-4 rounded-lg text-left border ${
+        accepted
+          ? 'bg-green-50 border-green-200 dark:bg-green-900/20 dark:border-green-800'
+          : 'bg-yellow-50 border-yellow-200 dark:bg-yellow-900/20 dark:border-yellow-800'
+      }`}
+    >
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <p className={`font-medium ${accepted ? 'text-green-800 dark:text-green-300' : 'text-yellow-800 dark:text-yellow-300'}`}>
+          {accepted ? '✓ Correct!' : 'Try again - keep practicing!'}
+        </p>
+        <span className="text-sm font-bold text-gray-700 dark:text-gray-300">{score}/100</span>
+      </div>
+
+      {/* Target words, coloured by how they were heard */}
+      <div className="flex flex-wrap gap-1.5 mb-3" aria-label="Word by word">
+        {alignment.map((word, i) => (
+          <span key={i} title={wordTitle(word)} className={`px-2 py-0.5 rounded text-sm font-medium ${WORD_STYLES[word.status]}`}>
+            {word.expected ?? word.heard}
+          </span>
+        ))}
+      </div>
+
+      {/* Confidence meter */}
+      {confidence !== null && (
+        <div className="mb-3">
+          <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400 mb-1">
+            <span>Recognizer confidence</span>
+            <span>{Math.round(confidence * 100)}%</span>
+          </div>
+          <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+            <div
+              className={`h-full rounded-full transition-all duration-500 ${lowConfidence ? 'bg-amber-500' : 'bg-green-500'}`}
+              style={{ width: `${Math.round(confidence * 100)}%` }}
+            />
+          </div>
+          {lowConfidence && (
+            <p className="text-xs text-amber-700 dark:text-amber-400 mt-1">
+              The recognizer wasn't sure what it heard — try speaking a little slower and clearer.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Listen to the words that need work */}
+      {missed.length > 0 && (
+        <div className="mb-3">
+          <p className="text-xs font-semibold text-gray-600 dark:text-gray-400 mb-2">Listen and repeat</p>
+          <ul className="space-y-2">
+            {missed.map((word, i) => (
+              <li key={`${word.expected}-${i}`} className="flex items-center justify-between gap-3">
+                <span className="text-sm text-gray-900 dark:text-gray-100">
+                  <span className="font-semibold">{word.expected}</span>
+                  {word.heard && <span className="text-gray-500 dark:text-gray-400"> · heard "{word.heard}"</span>}
+                </span>
+                <TTSButton text={word.expected} locale={locale} />
+              </li>
+            ))}
+            {alignment.length > 1 && (
+              <li className="flex items-center justify-between gap-3 pt-2 border-t border-gray-200 dark:border-gray-700">
+                <span className="text-sm text-gray-600 dark:text-gray-400">Whole answer: {target}</span>
+                <TTSButton text={target} locale={locale} />
+              </li>
+            )}
+          </ul>
+        </div>
+      )}
+
+      {/* This card's recent attempts */}
+      {trend && history.length > 1 && (
+        <div>
+          <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400 mb-1">
+            <span>Your last {history.length} tries</span>
+            <span>
+              Best {trend.best}
+              {trend.change !== 0 && (
+                <span className={trend.change > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                  {' '}· {trend.change > 0 ? '+' : ''}
+                  {trend.change} since first
+                </span>
+              )}
+            </span>
+          </div>
+          <div className="flex items-end gap-1 h-10" aria-label="Recent scores">
+            {history.map((attempt) => (
+              <span
+                key={attempt.at}
+                title={`${new Date(attempt.at).toLocaleString()}: ${attempt.score}/100 — "${attempt.transcript}"`}
+                className={`flex-1 rounded-t ${attempt.accepted ? 'bg-green-400' : 'bg-amber-400'}`}
+                style={{ height: `${Math.max(8, attempt.score)}%` }}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
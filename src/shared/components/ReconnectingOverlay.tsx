@@ -0,0 +1,33 @@
+import { Loader2, WifiOff } from 'lucide-react';
+
+interface ReconnectingOverlayProps {
+  /** An answer is waiting to be resent */
+  pendingAnswer?: boolean;
+}
+
+/**
+ * Covers a Blitz game while the player is rejoining after a reload or a lost
+ * connection, instead of an error. Nothing is lost: the game resumes where it
+ * was once the connection is back.
+ */
+export default function ReconnectingOverlay({ pendingAnswer = false }: ReconnectingOverlayProps) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" role="alert" aria-live="assertive">
+      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl max-w-sm w-full p-6 text-center border border-gray-200 dark:border-gray-700">
+        <div className="flex justify-center mb-4">
+          <div className="relative">
+            <WifiOff className="text-amber-500" size={40} />
+            <Loader2 className="absolute -bottom-1 -right-2 text-purple-600 animate-spin" size={20} />
+          </div>
+        </div>
+        <h3 className="text-lg font-bold text-gray-900 dark:text-gray-100 mb-2">Reconectando…</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Tu partida está guardada. Seguirás donde lo dejaste en cuanto vuelva la conexión.
+        </p>
+        {pendingAnswer && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">Tu última respuesta se enviará al reconectar.</p>
+        )}
+      </div>
+    </div>
+  );
+}
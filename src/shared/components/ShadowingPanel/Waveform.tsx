@@ -0,0 +1,95 @@
+/** Bars drawn per waveform */
+export const WAVEFORM_BARS = 48;
+
+/**
+ * Squeeze (or stretch) a level envelope to `bars` values, each scaled 0–1
+ * against the envelope's own peak so a quiet recording still reads clearly.
+ */
+export function resampleLevels(levels: number[], bars: number = WAVEFORM_BARS): number[] {
+  if (levels.length === 0) return [];
+  const out: number[] = [];
+  for (let i = 0; i < bars; i++) {
+    const start = Math.floor((i * levels.length) / bars);
+    const end = Math.max(start + 1, Math.floor(((i + 1) * levels.length) / bars));
+    let peak = 0;
+    for (let j = start; j < end && j < levels.length; j++) peak = Math.max(peak, levels[j]);
+    out.push(peak);
+  }
+  const max = Math.max(...out);
+  return max > 0 ? out.map((level) => level / max) : out;
+}
+
+/**
+ * The RMS envelope of an audio file, for audio we didn't record ourselves
+ * (the model's TTS). Empty when the browser can't decode it.
+ */
+export async function decodeWaveform(audio: Blob, bars: number = WAVEFORM_BARS): Promise<number[]> {
+  try {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    const context: AudioContext = new AudioContextClass();
+    try {
+      const buffer = await context.decodeAudioData(await audio.arrayBuffer());
+      const samples = buffer.getChannelData(0);
+      const size = Math.max(1, Math.floor(samples.length / bars));
+      const levels: number[] = [];
+      for (let start = 0; start < samples.length; start += size) {
+        let sum = 0;
+        const end = Math.min(samples.length, start + size);
+        for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+        levels.push(Math.sqrt(sum / (end - start)));
+      }
+      return resampleLevels(levels, bars);
+    } finally {
+      context.close().catch(() => {});
+    }
+  } catch (err) {
+    console.warn('[Shadowing] Could not decode audio for waveform', err);
+    return [];
+  }
+}
+
+type WaveformProps = {
+  label: string;
+  /** 0–1 per bar, from `resampleLevels`/`decodeWaveform` */
+  levels: number[];
+  /** 0–1 while this audio is playing */
+  progress: number | null;
+  tone: 'model' | 'attempt';
+};
+
+const TONES = {
+  model: { played: 'bg-blue-500 dark:bg-blue-400', rest: 'bg-blue-200 dark:bg-blue-900' },
+  attempt: { played: 'bg-purple-500 dark:bg-purple-400', rest: 'bg-purple-200 dark:bg-purple-900' },
+};
+
+/**
+ * One recording as a row of bars; bars behind the playhead are filled in.
+ */
+export default function Waveform({ label, levels, progress, tone }: WaveformProps) {
+  const colors = TONES[tone];
+
+  return (
+    <div>
+      <p className="text-xs font-semibold text-gray-600 dark:text-gray-400 mb-1">{label}</p>
+      <div
+        className="flex items-center gap-px h-16 rounded-lg bg-gray-50 dark:bg-gray-900/40 px-2"
+        role="img"
+        aria-label={`${label} waveform`}
+      >
+        {levels.length === 0 ? (
+          <span className="w-full text-center text-xs text-gray-400">—</span>
+        ) : (
+          levels.map((level, i) => (
+            <span
+              key={i}
+              className={`flex-1 rounded-full ${
+                progress !== null && i / levels.length <= progress ? colors.played : colors.rest
+              }`}
+              style={{ height: `${Math.max(6, level * 100)}%` }}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,376 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Headphones, Loader2, Mic, Play, Repeat, Square, Trash2, Volume2 } from 'lucide-react';
+import { api } from '@/config/api';
+import { useUser } from '@/shared/hooks/useUser';
+import { useAudioRecording } from '@/shared/components/SpeechRecognition/hooks/useAudioRecording';
+import { useAudioVisualizer } from '@/shared/components/SpeechRecognition/hooks/useAudioVisualizer';
+import { TIMING } from '@/shared/components/SpeechRecognition/constants';
+import {
+  MAX_ATTEMPTS_PER_CARD,
+  deleteShadowAttempt,
+  getKeepShadowAttempts,
+  listShadowAttempts,
+  purgeShadowAttempts,
+  saveShadowAttempt,
+  setKeepShadowAttempts,
+  type ShadowAttempt,
+} from '@/lib/shadowing-store';
+import Waveform, { decodeWaveform, resampleLevels } from './Waveform';
+
+type Playing = { source: 'model' | 'attempt'; progress: number } | null;
+
+type ShadowingPanelProps = {
+  cardId: string;
+  /** The Spanish text the student shadows */
+  text: string;
+  locale?: string;
+};
+
+function base64ToBlob(base64: string, type = 'audio/mp3'): Blob {
+  const bytes = atob(base64);
+  const array = new Uint8Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) array[i] = bytes.charCodeAt(i);
+  return new Blob([array], { type });
+}
+
+/**
+ * Shadowing: play the model audio, record an attempt, then hear both back
+ * to back with their waveforms side by side. Attempts are kept per card on
+ * this device (see `@/lib/shadowing-store`) unless the student turns it off.
+ */
+export default function ShadowingPanel({ cardId, text, locale }: ShadowingPanelProps) {
+  const { user } = useUser();
+  const voice = (user?.preferred_voice_gender as 'male' | 'female') || 'female';
+
+  const [modelUrl, setModelUrl] = useState<string | null>(null);
+  const [modelLevels, setModelLevels] = useState<number[]>([]);
+  const [modelState, setModelState] = useState<'loading' | 'ready' | 'unavailable'>('loading');
+  const [attempts, setAttempts] = useState<ShadowAttempt[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [playing, setPlaying] = useState<Playing>(null);
+  const [keep, setKeep] = useState(getKeepShadowAttempts);
+  const [error, setError] = useState<string | null>(null);
+
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const attemptUrlRef = useRef<string | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const levelsRef = useRef<number[]>([]);
+  const startedAtRef = useRef(0);
+  const stopTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const selected = attempts.find((attempt) => attempt.id === selectedId) ?? null;
+
+  // Model audio, decoded once for its waveform
+  useEffect(() => {
+    let cancelled = false;
+    let url: string | null = null;
+    setModelState('loading');
+    api.tts
+      .synthesize(text, locale, voice)
+      .then(async (response) => {
+        if (!response.audio) throw new Error('No audio data');
+        const blob = base64ToBlob(response.audio);
+        const levels = await decodeWaveform(blob);
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setModelUrl(url);
+        setModelLevels(levels);
+        setModelState('ready');
+      })
+      .catch((err) => {
+        console.warn('[Shadowing] Model audio unavailable', err);
+        if (!cancelled) setModelState('unavailable');
+      });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [text, locale, voice]);
+
+  // Attempts kept from earlier visits
+  useEffect(() => {
+    let cancelled = false;
+    listShadowAttempts(cardId).then((kept) => {
+      if (cancelled) return;
+      setAttempts(kept);
+      setSelectedId(kept[0]?.id ?? null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [cardId]);
+
+  const stopPlayback = useCallback(() => {
+    const audio = audioRef.current;
+    if (audio) {
+      audio.onended = null;
+      audio.ontimeupdate = null;
+      audio.pause();
+    }
+    if (attemptUrlRef.current) {
+      URL.revokeObjectURL(attemptUrlRef.current);
+      attemptUrlRef.current = null;
+    }
+    setPlaying(null);
+  }, []);
+
+  const play = useCallback(
+    (source: 'model' | 'attempt', attempt: ShadowAttempt | null, then?: () => void) => {
+      stopPlayback();
+      let src = modelUrl;
+      if (source === 'attempt') {
+        if (!attempt) return;
+        src = URL.createObjectURL(attempt.audio);
+        attemptUrlRef.current = src;
+      }
+      if (!src) return;
+
+      const audio = audioRef.current ?? new Audio();
+      audioRef.current = audio;
+      audio.src = src;
+      // Recorded webm often reports an Infinity duration; fall back to what we measured
+      const duration = () =>
+        Number.isFinite(audio.duration) && audio.duration > 0 ? audio.duration : (attempt?.durationMs ?? 0) / 1000;
+      audio.ontimeupdate = () => {
+        const total = duration();
+        setPlaying({ source, progress: total > 0 ? Math.min(1, audio.currentTime / total) : 0 });
+      };
+      audio.onended = () => {
+        stopPlayback();
+        then?.();
+      };
+      setPlaying({ source, progress: 0 });
+      audio.play().catch((err) => {
+        console.warn('[Shadowing] Playback failed', err);
+        stopPlayback();
+      });
+    },
+    [modelUrl, stopPlayback],
+  );
+
+  const handleRecordingStop = useCallback(() => {
+    const chunks = chunksRef.current;
+    chunksRef.current = [];
+    setRecording(false);
+    if (chunks.length === 0) return;
+
+    const attempt: ShadowAttempt = {
+      id: `${cardId}-${Date.now()}`,
+      cardId,
+      createdAt: new Date().toISOString(),
+      audio: new Blob(chunks, { type: chunks[0].type }),
+      waveform: resampleLevels(levelsRef.current),
+      durationMs: Date.now() - startedAtRef.current,
+    };
+    setAttempts((prev) => [attempt, ...prev].slice(0, MAX_ATTEMPTS_PER_CARD));
+    setSelectedId(attempt.id);
+    if (getKeepShadowAttempts()) saveShadowAttempt(attempt);
+  }, [cardId]);
+
+  const handleAudioChunk = useCallback((blob: Blob) => {
+    chunksRef.current.push(blob);
+  }, []);
+  const handleRecordingStart = useCallback(() => setRecording(true), []);
+  const handleRecordingError = useCallback(() => {
+    setRecording(false);
+    setError('Could not use the microphone. Check your browser permissions and try again.');
+  }, []);
+
+  const { startRecording, stopRecording } = useAudioRecording({
+    onAudioChunk: handleAudioChunk,
+    onRecordingStart: handleRecordingStart,
+    onRecordingStop: handleRecordingStop,
+    onError: handleRecordingError,
+  });
+  const { audioLevel, setupVisualizer, stopVisualizer, getLevelHistory } = useAudioVisualizer();
+
+  const stopAttempt = useCallback(() => {
+    if (stopTimerRef.current) {
+      clearTimeout(stopTimerRef.current);
+      stopTimerRef.current = null;
+    }
+    levelsRef.current = getLevelHistory();
+    stopVisualizer();
+    stopRecording();
+  }, [getLevelHistory, stopVisualizer, stopRecording]);
+
+  const startAttempt = async () => {
+    setError(null);
+    stopPlayback();
+    chunksRef.current = [];
+    const stream = await startRecording();
+    if (!stream) return;
+    startedAtRef.current = Date.now();
+    setupVisualizer(stream);
+    stopTimerRef.current = setTimeout(stopAttempt, TIMING.MAX_DURATION);
+  };
+
+  // Leaving the card mid-recording or mid-playback
+  useEffect(() => {
+    return () => {
+      if (stopTimerRef.current) clearTimeout(stopTimerRef.current);
+      stopVisualizer();
+      stopRecording();
+      stopPlayback();
+    };
+  }, [stopVisualizer, stopRecording, stopPlayback]);
+
+  const handleCompare = () => {
+    if (!selected) return;
+    play('model', null, () => play('attempt', selected));
+  };
+
+  const handleDelete = async (id: string) => {
+    if (playing) stopPlayback();
+    await deleteShadowAttempt(id);
+    setAttempts((prev) => prev.filter((attempt) => attempt.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const handleKeepChange = async (next: boolean) => {
+    setKeep(next);
+    setKeepShadowAttempts(next);
+    if (!next) await purgeShadowAttempts();
+  };
+
+  const handlePurge = async () => {
+    stopPlayback();
+    await purgeShadowAttempts();
+    setAttempts([]);
+    setSelectedId(null);
+  };
+
+  const buttonClass =
+    'flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="p-4 rounded-xl text-left border border-purple-200 bg-purple-50/60 dark:bg-purple-900/10 dark:border-purple-800">
+      <div className="flex items-center gap-2 mb-1">
+        <Headphones size={18} className="text-purple-600 dark:text-purple-400" />
+        <p className="font-semibold text-gray-900 dark:text-gray-100">Shadowing</p>
+      </div>
+      <p className="text-xs text-gray-600 dark:text-gray-400 mb-4">
+        Listen to the model, record yourself saying it the same way, then compare the two back to back.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <button
+          onClick={() => (playing?.source === 'model' ? stopPlayback() : play('model', null))}
+          disabled={modelState !== 'ready' || recording}
+          className={`${buttonClass} bg-blue-100 text-blue-800 hover:bg-blue-200 dark:bg-blue-900/40 dark:text-blue-200`}
+        >
+          {modelState === 'loading' ? <Loader2 size={16} className="animate-spin" /> : <Volume2 size={16} />}
+          Listen
+        </button>
+        {recording ? (
+          <button onClick={stopAttempt} className={`${buttonClass} bg-red-500 text-white hover:bg-red-600`}>
+            <Square size={16} />
+            Stop
+            <span className="w-10 h-1.5 rounded-full bg-red-300 overflow-hidden" aria-hidden="true">
+              <span className="block h-full bg-white" style={{ width: `${audioLevel}%` }} />
+            </span>
+          </button>
+        ) : (
+          <button onClick={startAttempt} className={`${buttonClass} bg-purple-600 text-white hover:bg-purple-700`}>
+            <Mic size={16} />
+            Record
+          </button>
+        )}
+        <button
+          onClick={handleCompare}
+          disabled={modelState !== 'ready' || !selected || recording}
+          className={`${buttonClass} bg-white text-gray-800 border border-gray-200 hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-100 dark:border-gray-700`}
+        >
+          <Repeat size={16} />
+          Compare
+        </button>
+      </div>
+
+      {modelState === 'unavailable' && (
+        <p className="text-xs text-amber-700 dark:text-amber-400 mb-3">
+          Model audio isn't available right now — you can still record and replay your attempts.
+        </p>
+      )}
+      {error && <p className="text-xs text-red-600 dark:text-red-400 mb-3">{error}</p>}
+
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        <Waveform
+          label="Model"
+          levels={modelLevels}
+          progress={playing?.source === 'model' ? playing.progress : null}
+          tone="model"
+        />
+        <Waveform
+          label="You"
+          levels={selected?.waveform ?? []}
+          progress={playing?.source === 'attempt' ? playing.progress : null}
+          tone="attempt"
+        />
+      </div>
+
+      {attempts.length > 0 && (
+        <div className="mb-4">
+          <p className="text-xs font-semibold text-gray-600 dark:text-gray-400 mb-2">Your attempts</p>
+          <ul className="space-y-1">
+            {attempts.map((attempt) => (
+              <li
+                key={attempt.id}
+                className={`flex items-center gap-2 rounded-lg px-2 py-1 ${
+                  attempt.id === selectedId ? 'bg-purple-100 dark:bg-purple-900/30' : ''
+                }`}
+              >
+                <button
+                  onClick={() => setSelectedId(attempt.id)}
+                  className="flex-1 text-left text-sm text-gray-800 dark:text-gray-200"
+                  aria-pressed={attempt.id === selectedId}
+                >
+                  {new Date(attempt.createdAt).toLocaleString(undefined, {
+                    month: 'short',
+                    day: 'numeric',
+                    hour: 'numeric',
+                    minute: '2-digit',
+                  })}
+                  <span className="text-gray-500 dark:text-gray-400"> · {(attempt.durationMs / 1000).toFixed(1)}s</span>
+                </button>
+                <button
+                  onClick={() => {
+                    setSelectedId(attempt.id);
+                    play('attempt', attempt);
+                  }}
+                  disabled={recording}
+                  className="p-1.5 rounded text-purple-700 hover:bg-purple-200 dark:text-purple-300 dark:hover:bg-purple-900/50"
+                  aria-label="Play attempt"
+                >
+                  <Play size={14} />
+                </button>
+                <button
+                  onClick={() => handleDelete(attempt.id)}
+                  className="p-1.5 rounded text-gray-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30"
+                  aria-label="Delete attempt"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2 pt-3 border-t border-purple-200 dark:border-purple-800">
+        <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={keep}
+            onChange={(e) => handleKeepChange(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Keep my recordings on this device
+        </label>
+        <button onClick={handlePurge} className="text-xs font-medium text-red-600 dark:text-red-400 hover:underline">
+          Delete all recordings
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -24,4 +24,5 @@ export const VISUALIZER_CONFIG = {
   fftSize: 256,
   smoothingTimeConstant: 0.8,
   minLevelThreshold: 10,
+  maxHistoryFrames: (TIMING.MAX_DURATION / 1000) * 120, // a max-length recording at up to 120 fps
 } as const;
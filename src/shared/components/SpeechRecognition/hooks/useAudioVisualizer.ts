@@ -10,6 +10,8 @@ export function useAudioVisualizer() {
   const analyserRef = useRef<AnalyserNode | null>(null);
   const animationFrameRef = useRef<number | null>(null);
   const isActiveRef = useRef(false);
+  // Each frame's level since setup, capped at maxHistoryFrames, for drawing the recording's waveform afterwards
+  const historyRef = useRef<number[]>([]);
 
   const setupVisualizer = useCallback((stream: MediaStream) => {
     try {
@@ -25,6 +27,7 @@ export function useAudioVisualizer() {
       audioContextRef.current = audioContext;
       analyserRef.current = analyser;
       isActiveRef.current = true;
+      historyRef.current = [];
 
       // Animate audio level
       const updateAudioLevel = () => {
@@ -34,7 +37,10 @@ export function useAudioVisualizer() {
         analyserRef.current.getByteFrequencyData(dataArray);
 
         const average = dataArray.reduce((a, b) => a + b) / dataArray.length;
-        setAudioLevel(Math.min(100, average));
+        const level = Math.min(100, average);
+        historyRef.current.push(level);
+        if (historyRef.current.length > VISUALIZER_CONFIG.maxHistoryFrames) historyRef.current.shift();
+        setAudioLevel(level);
 
         animationFrameRef.current = requestAnimationFrame(updateAudioLevel);
       };
@@ -69,9 +75,12 @@ export function useAudioVisualizer() {
     };
   }, [stopVisualizer]);
 
+  const getLevelHistory = useCallback(() => historyRef.current.slice(), []);
+
   return {
     audioLevel,
     setupVisualizer,
     stopVisualizer,
+    getLevelHistory,
   };
 }
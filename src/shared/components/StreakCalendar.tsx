@@ -0,0 +1,147 @@
+import { useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, Lock, Snowflake } from 'lucide-react';
+import { calendarMonth, type CalendarDay, type DailyGoal, type DayActivity } from '@/domain/daily-goals';
+
+const LEVEL_STYLES: Record<CalendarDay['level'], string> = {
+  0: 'bg-gray-100 dark:bg-gray-700/60 text-gray-500 dark:text-gray-400',
+  1: 'bg-emerald-100 dark:bg-emerald-900/40 text-emerald-900 dark:text-emerald-200',
+  2: 'bg-emerald-300 dark:bg-emerald-700 text-emerald-950 dark:text-white',
+  3: 'bg-emerald-500 text-white',
+  4: 'bg-emerald-700 text-white',
+};
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+interface StreakCalendarProps {
+  activity: ReadonlyMap<string, DayActivity>;
+  goal: DailyGoal;
+  frozenDays: readonly string[];
+  /** Earliest month that can be shown (activity isn't loaded before it) */
+  minMonth: Date;
+  /** Missed day a freeze can still cover, from `freezableDay` */
+  freezable: string | null;
+  freezesLeft: number;
+  isPremium: boolean;
+  onFreeze: (day: string) => void;
+  freezing?: boolean;
+}
+
+function dayTitle(day: CalendarDay, goal: DailyGoal): string {
+  const date = day.date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+  if (day.frozen) return `${date}\nStreak freeze used`;
+  if (day.level === 0) return `${date}\nNo study`;
+  const value = day.activity[goal.type];
+  return `${date}\n${day.activity.cards} cards · ${day.activity.xp} XP (${value}/${goal.target} ${goal.type === 'xp' ? 'XP' : 'cards'} goal)`;
+}
+
+/**
+ * Month grid of study days, shaded by progress towards the daily goal; days
+ * covered by a streak freeze show a snowflake. Underneath, premium users can
+ * spend a freeze on yesterday if they missed it.
+ */
+export default function StreakCalendar({
+  activity,
+  goal,
+  frozenDays,
+  minMonth,
+  freezable,
+  freezesLeft,
+  isPremium,
+  onFreeze,
+  freezing = false,
+}: StreakCalendarProps) {
+  const today = useMemo(() => new Date(), []);
+  const [month, setMonth] = useState(() => new Date(today.getFullYear(), today.getMonth(), 1));
+
+  const weeks = useMemo(
+    () => calendarMonth(month.getFullYear(), month.getMonth(), { activity, goal, frozenDays, today }),
+    [month, activity, goal, frozenDays, today],
+  );
+
+  const canGoBack = month > new Date(minMonth.getFullYear(), minMonth.getMonth(), 1);
+  const canGoForward = month < new Date(today.getFullYear(), today.getMonth(), 1);
+  const shiftMonth = (delta: number) => setMonth((m) => new Date(m.getFullYear(), m.getMonth() + delta, 1));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <button
+          onClick={() => shiftMonth(-1)}
+          disabled={!canGoBack}
+          aria-label="Previous month"
+          className="p-1.5 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent"
+        >
+          <ChevronLeft size={18} />
+        </button>
+        <span className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+          {month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+        </span>
+        <button
+          onClick={() => shiftMonth(1)}
+          disabled={!canGoForward}
+          aria-label="Next month"
+          className="p-1.5 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent"
+        >
+          <ChevronRight size={18} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center text-[11px] font-medium text-gray-500 dark:text-gray-400 mb-1">
+        {WEEKDAYS.map((d) => (
+          <span key={d}>{d}</span>
+        ))}
+      </div>
+      <div className="grid grid-cols-7 gap-1" role="grid" aria-label="Study days">
+        {weeks.flat().map((day) => (
+          <span
+            key={day.key}
+            role="gridcell"
+            title={day.inMonth && !day.future ? dayTitle(day, goal) : undefined}
+            className={`relative aspect-square flex items-center justify-center rounded-md text-xs font-medium ${
+              !day.inMonth || day.future
+                ? 'text-gray-300 dark:text-gray-600'
+                : day.frozen
+                  ? 'bg-sky-100 dark:bg-sky-900/40 text-sky-700 dark:text-sky-300'
+                  : LEVEL_STYLES[day.level]
+            } ${day.today ? 'ring-2 ring-[#10A5C3]' : ''}`}
+          >
+            {day.inMonth && day.frozen ? <Snowflake size={14} aria-label="Streak freeze" /> : day.inMonth ? day.date.getDate() : ''}
+          </span>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-3 text-xs text-gray-600 dark:text-gray-400">
+        <span>Less</span>
+        {([0, 1, 2, 3, 4] as const).map((level) => (
+          <span key={level} className={`w-3 h-3 rounded-sm ${LEVEL_STYLES[level]}`} />
+        ))}
+        <span>Goal ×2</span>
+        <span className="inline-flex items-center gap-1 ml-2">
+          <Snowflake size={12} className="text-sky-500" /> Freeze
+        </span>
+      </div>
+
+      {freezable && (
+        <div className="mt-4 rounded-xl border border-sky-200 dark:border-sky-800 bg-sky-50 dark:bg-sky-900/20 p-3 text-sm">
+          <p className="text-gray-800 dark:text-gray-200 mb-2">
+            You missed yesterday. A streak freeze keeps your streak going.
+          </p>
+          {isPremium ? (
+            <button
+              onClick={() => onFreeze(freezable)}
+              disabled={freezing || freezesLeft <= 0}
+              className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg bg-sky-600 text-white font-medium hover:bg-sky-700 disabled:opacity-50"
+            >
+              <Snowflake size={16} />
+              {freezing ? 'Freezing...' : freezesLeft > 0 ? `Use a freeze (${freezesLeft} left)` : 'No freezes left'}
+            </button>
+          ) : (
+            <span className="inline-flex items-center gap-1.5 text-gray-600 dark:text-gray-400">
+              <Lock size={14} /> Streak freezes are a Premium feature
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
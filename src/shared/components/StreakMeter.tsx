@@ -0,0 +1,46 @@
+import { Flame } from 'lucide-react';
+import { SCORING_DEFAULTS, streakMultiplier } from '@/domain/blitz-scoring';
+
+/** Streak at which the multiplier stops growing */
+const FULL_STREAK =
+  Math.round((SCORING_DEFAULTS.MAX_MULTIPLIER - 1) / SCORING_DEFAULTS.STREAK_STEP) + 1;
+
+interface StreakMeterProps {
+  streak: number;
+  /** Label in front of the meter, e.g. "Mejor racha" on the results screen */
+  label?: string;
+  className?: string;
+}
+
+/**
+ * Correct answers in a row as a row of segments, with the points multiplier
+ * the streak is worth. Fills up at the maximum multiplier.
+ */
+export default function StreakMeter({ streak, label = 'Racha', className = '' }: StreakMeterProps) {
+  const multiplier = streakMultiplier(streak);
+  const active = streak >= 2;
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`} title={`${streak} seguidas · x${multiplier.toFixed(1)} puntos`}>
+      <Flame
+        size={18}
+        className={active ? 'text-orange-500 dark:text-orange-400' : 'text-gray-300 dark:text-gray-600'}
+      />
+      <span className="text-xs text-gray-500 dark:text-gray-400">{label}</span>
+      <div className="flex gap-0.5">
+        {Array.from({ length: FULL_STREAK }, (_, i) => (
+          <span
+            key={i}
+            className={`w-3 h-2 rounded-sm transition-colors ${
+              i < streak ? 'bg-gradient-to-r from-amber-400 to-orange-500' : 'bg-gray-200 dark:bg-gray-600'
+            }`}
+          />
+        ))}
+      </div>
+      <span className={`text-sm font-bold tabular-nums ${active ? 'text-orange-600 dark:text-orange-400' : 'text-gray-400'}`}>
+        {streak}
+        {multiplier > 1 && <span className="ml-1 text-xs font-semibold">x{multiplier.toFixed(1)}</span>}
+      </span>
+    </div>
+  );
+}
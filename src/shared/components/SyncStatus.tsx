@@ -0,0 +1,64 @@
+import { Cloud, CloudOff, CloudUpload, RefreshCw } from "lucide-react";
+import { useSync } from "@/lib/sync-context";
+
+/**
+ * Offline/sync indicator for the dashboard layout.
+ * `compact` renders an icon-only pill for the mobile header.
+ */
+export default function SyncStatus({ compact = false }: { compact?: boolean }) {
+  const { online, pending, syncing, syncNow } = useSync();
+
+  const status = !online
+    ? {
+        icon: CloudOff,
+        label: pending > 0 ? `Offline · ${pending} pending` : "Offline",
+        className: "text-amber-700 bg-amber-50 dark:text-amber-300 dark:bg-amber-900/30",
+      }
+    : syncing
+      ? {
+          icon: RefreshCw,
+          label: "Syncing progress...",
+          className: "text-blue-700 bg-blue-50 dark:text-blue-300 dark:bg-blue-900/30",
+        }
+      : pending > 0
+        ? {
+            icon: CloudUpload,
+            label: `${pending} waiting to sync`,
+            className: "text-amber-700 bg-amber-50 dark:text-amber-300 dark:bg-amber-900/30",
+          }
+        : {
+            icon: Cloud,
+            label: "All progress saved",
+            className: "text-gray-500 dark:text-gray-400",
+          };
+
+  const Icon = status.icon;
+  const canRetry = online && !syncing && pending > 0;
+
+  if (compact) {
+    // Nothing to tell on mobile when everything is synced
+    if (online && pending === 0 && !syncing) return null;
+    return (
+      <button
+        onClick={canRetry ? () => syncNow() : undefined}
+        className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs font-semibold ${status.className}`}
+        title={status.label}
+      >
+        <Icon size={14} className={syncing ? "animate-spin" : undefined} />
+        {pending > 0 && <span>{pending}</span>}
+      </button>
+    );
+  }
+
+  return (
+    <div className={`flex items-center gap-3 px-3 py-2 rounded-xl text-xs font-medium ${status.className}`}>
+      <Icon size={16} className={`flex-shrink-0 ${syncing ? "animate-spin" : ""}`} />
+      <span className="flex-1 truncate">{status.label}</span>
+      {canRetry && (
+        <button onClick={() => syncNow()} className="font-semibold underline hover:no-underline">
+          Retry
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { Loader2, Shuffle } from 'lucide-react';
+import type { DbPlaySessionPlayer, DbPlaySessionTeam } from '@/types/api.types';
+
+interface TeamPickerProps {
+  teams: DbPlaySessionTeam[];
+  /** Everyone who can be on a team (teacher-spectators left out) */
+  players: DbPlaySessionPlayer[];
+  /** Shows "Unirme" buttons for this player */
+  myPlayerId?: string | null;
+  onPick: (teamId: string) => void;
+  /** Team being joined, while the request is in flight */
+  pickingTeamId?: string | null;
+  /** Host only: put everyone without a team in one and even out the sizes */
+  onBalance?: () => void;
+  balancing?: boolean;
+}
+
+/**
+ * Lobby team cards for team mode: who is on each team, a join button for the
+ * current player and, for the host, auto-balance
+ */
+export default function TeamPicker({
+  teams,
+  players,
+  myPlayerId,
+  onPick,
+  pickingTeamId,
+  onBalance,
+  balancing = false,
+}: TeamPickerProps) {
+  const myTeamId = players.find((p) => p.id === myPlayerId)?.team_id ?? null;
+  const unassigned = players.filter((p) => !p.team_id || !teams.some((t) => t.id === p.team_id));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg sm:text-xl font-bold text-gray-900 dark:text-gray-100">Equipos</h3>
+        {onBalance && (
+          <button
+            type="button"
+            onClick={onBalance}
+            disabled={balancing || players.length === 0}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 font-medium text-sm"
+          >
+            {balancing ? <Loader2 size={16} className="animate-spin" /> : <Shuffle size={16} />}
+            Equilibrar equipos
+          </button>
+        )}
+      </div>
+
+      <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+        {teams.map((team) => {
+          const members = players.filter((p) => p.team_id === team.id);
+          const isMine = team.id === myTeamId;
+          return (
+            <div
+              key={team.id}
+              className={`rounded-lg border-2 p-3 bg-white dark:bg-gray-800 ${isMine ? '' : 'border-gray-200 dark:border-gray-700'}`}
+              style={isMine ? { borderColor: team.color } : undefined}
+            >
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <span className="flex items-center gap-2 font-bold text-gray-900 dark:text-gray-100">
+                  <span className="w-3 h-3 rounded-full" style={{ backgroundColor: team.color }} />
+                  {team.name}
+                </span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">{members.length}</span>
+              </div>
+              <ul className="space-y-1 min-h-[1.5rem] text-sm text-gray-700 dark:text-gray-300">
+                {members.map((p) => (
+                  <li key={p.id} className="truncate">
+                    {p.display_name || p.email}
+                    {p.id === myPlayerId && ' (Tú)'}
+                  </li>
+                ))}
+              </ul>
+              {myPlayerId && !isMine && (
+                <button
+                  type="button"
+                  onClick={() => onPick(team.id)}
+                  disabled={!!pickingTeamId}
+                  className="mt-3 w-full inline-flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-white text-sm font-semibold disabled:opacity-60"
+                  style={{ backgroundColor: team.color }}
+                >
+                  {pickingTeamId === team.id && <Loader2 size={14} className="animate-spin" />}
+                  Unirme
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {unassigned.length > 0 && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Sin equipo: {unassigned.map((p) => p.display_name || p.email).join(', ')}
+          {onBalance && ' · Se repartirán al iniciar.'}
+        </p>
+      )}
+    </div>
+  );
+}
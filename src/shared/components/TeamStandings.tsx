@@ -0,0 +1,88 @@
+import { Crown } from 'lucide-react';
+import type { TeamStanding } from '@/domain/blitz-teams';
+import type { DbPlaySessionPlayer, DbPlaySessionTeam } from '@/types/api.types';
+
+type Standing = TeamStanding<DbPlaySessionTeam, DbPlaySessionPlayer>;
+
+interface TeamStandingsProps {
+  /** Highest score first, from `teamStandings` */
+  standings: Standing[];
+  /** Highlighted as "Tu equipo" */
+  myTeamId?: string | null;
+  /** `board`: ranked rows with score bars. `podium`: top three on steps, the rest below. */
+  variant?: 'board' | 'podium';
+  className?: string;
+}
+
+const PODIUM_HEIGHTS: Record<number, string> = { 1: 'h-24', 2: 'h-16', 3: 'h-12' };
+
+function memberLabel(count: number) {
+  return `${count} ${count === 1 ? 'jugador' : 'jugadores'}`;
+}
+
+/**
+ * Team scores (the sum of each team's member scores) for the lobby, the
+ * in-game scoreboard and the final podium
+ */
+export default function TeamStandings({ standings, myTeamId, variant = 'board', className = '' }: TeamStandingsProps) {
+  const topScore = Math.max(1, ...standings.map((s) => s.score));
+
+  const rows = (list: Standing[]) =>
+    list.map((s) => (
+      <div
+        key={s.team.id}
+        className={`rounded-lg border p-3 ${
+          s.team.id === myTeamId ? 'border-purple-400 dark:border-purple-500' : 'border-gray-200 dark:border-gray-700'
+        }`}
+      >
+        <div className="flex items-center gap-3">
+          <span className="w-6 text-center font-bold text-gray-500 dark:text-gray-400">{s.rank}</span>
+          <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: s.team.color }} />
+          <div className="flex-1 min-w-0">
+            <p className="font-semibold text-gray-900 dark:text-gray-100 truncate">
+              {s.team.name}
+              {s.team.id === myTeamId && <span className="ml-2 text-xs text-purple-600 dark:text-purple-400">Tu equipo</span>}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">{memberLabel(s.members.length)}</p>
+          </div>
+          <span className="text-lg font-bold tabular-nums text-gray-900 dark:text-gray-100">{s.score}</span>
+        </div>
+        <div className="mt-2 h-1.5 rounded-full bg-gray-200 dark:bg-gray-600 overflow-hidden">
+          <div
+            className="h-1.5 rounded-full transition-all"
+            style={{ width: `${Math.max(0, (s.score / topScore) * 100)}%`, backgroundColor: s.team.color }}
+          />
+        </div>
+      </div>
+    ));
+
+  if (variant === 'board') {
+    return <div className={`space-y-2 ${className}`}>{rows(standings)}</div>;
+  }
+
+  // Podium order: 2nd, 1st, 3rd
+  const podium = [standings[1], standings[0], standings[2]].filter(Boolean);
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <div className="flex items-end justify-center gap-3 sm:gap-6 max-w-3xl mx-auto">
+        {podium.map((s) => (
+          <div key={s.team.id} className="flex flex-col items-center flex-1 max-w-[180px]">
+            {s.rank === 1 && <Crown className="text-yellow-500 mb-1" size={28} />}
+            <p className="font-bold text-gray-900 dark:text-gray-100 text-center truncate w-full">{s.team.name}</p>
+            <p className="text-sm text-gray-600 dark:text-gray-400">{s.score} pts</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">{memberLabel(s.members.length)}</p>
+            <div
+              className={`w-full rounded-t-lg flex items-start justify-center pt-2 text-white text-2xl font-bold ${
+                PODIUM_HEIGHTS[s.rank] ?? 'h-10'
+              }`}
+              style={{ backgroundColor: s.team.color }}
+            >
+              {s.rank}
+            </div>
+          </div>
+        ))}
+      </div>
+      {standings.length > 3 && <div className="space-y-2 max-w-xl mx-auto">{rows(standings.slice(3))}</div>}
+    </div>
+  );
+}
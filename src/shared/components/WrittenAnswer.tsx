@@ -1,109 +1,72 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { Check, X, PenLine, ArrowRight, CornerDownLeft, Send } from 'lucide-react';
+import { matchAnswer, type AnswerHint, type DiffSegment, type MatchGrade, type MatchOptions } from '@/lib/answer-matching';
+import AnswerDiff from './AnswerDiff';
 
 const ACCENT_CHARS = ['á', 'é', 'í', 'ó', 'ú', 'ü', 'ñ'];
 
-/**
- * Normalize text for flexible Spanish comparison.
- * - Lowercase
- * - Strip accents (á→a, é→e, í→i, ó→o, ú→u, ü→u)
- * - Strip punctuation (¿?¡!.,;:"')
- * - Collapse whitespace
- * - Keep ñ intact
- */
-function normalize(text: string): string {
-  return text
-    .toLowerCase()
-    .trim()
-    .replace(/[¿?¡!.,;:\-"'()]/g, '')
-    .replace(/á/g, 'a')
-    .replace(/é/g, 'e')
-    .replace(/í/g, 'i')
-    .replace(/ó/g, 'o')
-    .replace(/ú/g, 'u')
-    .replace(/ü/g, 'u')
-    .replace(/\s+/g, ' ');
-}
-
-/**
- * Strip optional Spanish articles for more lenient matching.
- * "el gato" → "gato", "la casa" → "casa"
- */
-function stripArticles(text: string): string {
-  return text.replace(/^(el|la|los|las|un|una|unos|unas)\s+/i, '').trim();
-}
-
-/**
- * Levenshtein distance for typo tolerance.
- */
-function levenshtein(a: string, b: string): number {
-  const m = a.length;
-  const n = b.length;
-  const dp: number[][] = Array.from({ length: m + 1 }, () => Array(n + 1).fill(0));
-  for (let i = 0; i <= m; i++) dp[i][0] = i;
-  for (let j = 0; j <= n; j++) dp[0][j] = j;
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      dp[i][j] = a[i - 1] === b[j - 1]
-        ? dp[i - 1][j - 1]
-        : 1 + Math.min(dp[i - 1][j], dp[i][j - 1], dp[i - 1][j - 1]);
-    }
-  }
-  return dp[m][n];
-}
-
 export type WrittenResult = {
   isCorrect: boolean;
   isAlmostCorrect: boolean;
   userAnswer: string;
   correctAnswer: string;
+  /** How close the answer was — see `matchAnswer` */
+  grade: MatchGrade;
+  /** The accepted alternative the answer was graded against */
+  matchedAnswer: string;
+  diff: DiffSegment[];
+  hints: AnswerHint[];
 };
 
 /**
- * Compare user input against the correct Spanish answer with flexible matching.
+ * Whether the character diff is worth showing — for a completely different
+ * word it's just noise
  */
-export function evaluateWrittenAnswer(userInput: string, correctAnswer: string): WrittenResult {
-  const normUser = normalize(userInput);
-  const normCorrect = normalize(correctAnswer);
-
-  // Exact match (after normalization)
-  if (normUser === normCorrect) {
-    return { isCorrect: true, isAlmostCorrect: false, userAnswer: userInput, correctAnswer };
-  }
-
-  // Match ignoring articles
-  if (stripArticles(normUser) === stripArticles(normCorrect)) {
-    return { isCorrect: true, isAlmostCorrect: false, userAnswer: userInput, correctAnswer };
-  }
-
-  // Typo tolerance: allow 1 error for words ≤6 chars, 2 for longer
-  const maxDistance = normCorrect.length <= 6 ? 1 : 2;
-  const dist = levenshtein(normUser, normCorrect);
-  if (dist <= maxDistance) {
-    return { isCorrect: true, isAlmostCorrect: true, userAnswer: userInput, correctAnswer };
-  }
-
-  // Also check without articles + typo tolerance
-  const distNoArticles = levenshtein(stripArticles(normUser), stripArticles(normCorrect));
-  if (distNoArticles <= maxDistance) {
-    return { isCorrect: true, isAlmostCorrect: true, userAnswer: userInput, correctAnswer };
-  }
+export function hasUsefulDiff(result: WrittenResult): boolean {
+  return result.grade !== 'exact' && (result.grade !== 'wrong' || result.hints.length > 0);
+}
 
-  return { isCorrect: false, isAlmostCorrect: false, userAnswer: userInput, correctAnswer };
+/**
+ * Compare user input against the correct Spanish answer with flexible matching.
+ * Pass a list to accept any of the card's alternates; the first is the main answer.
+ */
+export function evaluateWrittenAnswer(
+  userInput: string,
+  answer: string | readonly string[],
+  options: MatchOptions = {},
+): WrittenResult {
+  const match = matchAnswer(userInput, answer, options);
+  const correctAnswer = typeof answer === 'string' ? answer : (answer[0] ?? '');
+  return {
+    isCorrect: match.isCorrect,
+    isAlmostCorrect: match.isCorrect && match.grade !== 'exact',
+    userAnswer: userInput,
+    correctAnswer,
+    grade: match.grade,
+    matchedAnswer: match.matchedAnswer,
+    diff: match.diff,
+    hints: match.hints,
+  };
 }
 
 interface WrittenAnswerProps {
   correctAnswer: string;
+  /** Other answers that also count as correct */
+  alternates?: readonly string[];
   onResult: (result: WrittenResult) => void;
   disabled?: boolean;
   autoFocus?: boolean;
+  /** Deck setting: missing accents count as wrong */
+  accentSensitive?: boolean;
 }
 
 export default function WrittenAnswer({
   correctAnswer,
+  alternates,
   onResult,
   disabled = false,
   autoFocus = true,
+  accentSensitive = false,
 }: WrittenAnswerProps) {
   const [input, setInput] = useState('');
   const [result, setResult] = useState<WrittenResult | null>(null);
@@ -129,7 +92,7 @@ export default function WrittenAnswer({
   const handleSubmit = useCallback(() => {
     if (disabled || !input.trim() || result) return;
 
-    const evaluation = evaluateWrittenAnswer(input, correctAnswer);
+    const evaluation = evaluateWrittenAnswer(input, [correctAnswer, ...(alternates ?? [])], { accentSensitive });
     setResult(evaluation);
 
     if (!evaluation.isCorrect) {
@@ -138,7 +101,7 @@ export default function WrittenAnswer({
     }
 
     onResult(evaluation);
-  }, [input, correctAnswer, disabled, result, onResult]);
+  }, [input, correctAnswer, alternates, disabled, result, onResult, accentSensitive]);
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
@@ -150,6 +113,7 @@ export default function WrittenAnswer({
   const hasResult = result !== null;
   const isCorrect = result?.isCorrect ?? false;
   const isAlmostCorrect = result?.isAlmostCorrect ?? false;
+  const otherAnswers = (alternates ?? []).filter((answer) => answer !== correctAnswer);
 
   const insertAccentChar = useCallback((char: string) => {
     if (disabled || hasResult) return;
@@ -289,10 +253,13 @@ export default function WrittenAnswer({
             <div>
               <div className="flex items-center gap-2 mb-1">
                 <span className="text-lg">👍</span>
-                <p className="font-bold text-amber-700 dark:text-amber-400">Almost correct!</p>
+                <p className="font-bold text-amber-700 dark:text-amber-400">
+                  {result.grade === 'accent-missing' ? 'Watch the accents!' : 'Almost correct!'}
+                </p>
               </div>
+              <AnswerDiff diff={result.diff} hints={result.hints} className="my-2" />
               <p className="text-sm text-amber-600 dark:text-amber-400">
-                Correct spelling: <strong className="text-amber-800 dark:text-amber-300">{correctAnswer}</strong>
+                Correct spelling: <strong className="text-amber-800 dark:text-amber-300">{result.matchedAnswer}</strong>
               </p>
             </div>
           )}
@@ -300,12 +267,20 @@ export default function WrittenAnswer({
             <div>
               <div className="flex items-center gap-2 mb-2">
                 <span className="text-lg">💡</span>
-                <p className="font-bold text-red-700 dark:text-red-400">Not quite</p>
+                <p className="font-bold text-red-700 dark:text-red-400">
+                  {result.grade === 'accent-missing' ? 'Accents count in this set' : 'Not quite'}
+                </p>
               </div>
+              {hasUsefulDiff(result) && <AnswerDiff diff={result.diff} hints={result.hints} className="mb-3" />}
               <p className="text-sm text-gray-600 dark:text-gray-400">
                 Correct answer:
               </p>
               <p className="font-bold text-gray-900 dark:text-gray-100 text-lg mt-0.5">{correctAnswer}</p>
+              {otherAnswers.length > 0 && (
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                  Also accepted: {otherAnswers.join(', ')}
+                </p>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useXpHistoryQuery } from '@/shared/hooks/useUserQuery';
+import { dayKey } from '@/domain/daily-goals';
+import { xpTimeline } from '@/domain/leaderboard';
+import type { XpHistoryEntry } from '@/types/api.types';
+
+/** Days shown before "Show more" */
+const INITIAL_DAYS = 7;
+
+const SOURCE_LABELS: Record<string, string> = {
+  solo_blitz: 'Solo Blitz',
+  blitz_challenge: 'Blitz Challenge',
+  study: 'Study session',
+  assignment: 'Assignment',
+};
+
+function entryLabel(entry: XpHistoryEntry): string {
+  if (entry.description) return entry.description;
+  if (!entry.source) return 'XP earned';
+  return SOURCE_LABELS[entry.source] ?? entry.source.replace(/[_-]+/g, ' ').replace(/^\w/, (c) => c.toUpperCase());
+}
+
+function dayLabel(date: Date): string {
+  const today = new Date();
+  const yesterday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1);
+  if (dayKey(date) === dayKey(today)) return 'Today';
+  if (dayKey(date) === dayKey(yesterday)) return 'Yesterday';
+  return date.toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' });
+}
+
+/**
+ * The user's recent XP, one group per day with the day's total and what
+ * each award was for.
+ */
+export default function XpTimeline() {
+  const { data: history = [], isLoading } = useXpHistoryQuery();
+  const [showAll, setShowAll] = useState(false);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="animate-spin text-gray-400" size={24} />
+      </div>
+    );
+  }
+
+  const days = xpTimeline(history);
+  if (days.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">No XP earned yet. Play a Blitz to get started!</p>;
+  }
+  const visible = showAll ? days : days.slice(0, INITIAL_DAYS);
+
+  return (
+    <div>
+      <ol className="relative border-l-2 border-gray-200 dark:border-gray-700 ml-2 space-y-5">
+        {visible.map((day) => (
+          <li key={day.key} className="pl-5 relative">
+            <span className="absolute -left-[7px] top-1.5 w-3 h-3 rounded-full bg-[#10A5C3]" aria-hidden="true" />
+            <div className="flex items-baseline justify-between gap-2 mb-1">
+              <span className="text-sm font-semibold text-gray-900 dark:text-gray-100">{dayLabel(day.date)}</span>
+              <span className="text-sm font-bold text-[#084178] dark:text-blue-300">+{day.total} XP</span>
+            </div>
+            <ul className="space-y-0.5">
+              {day.entries.map((entry) => (
+                <li key={entry.id} className="flex justify-between gap-2 text-xs text-gray-600 dark:text-gray-400">
+                  <span className="truncate">{entryLabel(entry)}</span>
+                  <span className="flex-shrink-0">
+                    {entry.amount >= 0 ? '+' : ''}
+                    {entry.amount}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ol>
+      {days.length > INITIAL_DAYS && (
+        <button
+          onClick={() => setShowAll((v) => !v)}
+          className="mt-4 text-sm font-medium text-[#10A5C3] hover:underline"
+        >
+          {showAll ? 'Show less' : `Show ${days.length - INITIAL_DAYS} more days`}
+        </button>
+      )}
+    </div>
+  );
+}
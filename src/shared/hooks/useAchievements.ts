@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { api, createApiClient } from '@/config/api';
+import useUser from '@/shared/hooks/useUser';
+import {
+  buildAchievementMetrics,
+  evaluateBadges,
+  newlyEarned,
+  type BadgeDefinition,
+} from '@/domain/achievements';
+import type { DbAchievement, DbStudyEvent, StatsResponse } from '@/types/api.types';
+
+interface AchievementData {
+  stats: StatsResponse;
+  events: DbStudyEvent[];
+  stored: DbAchievement[];
+}
+
+const ACHIEVEMENTS_KEY = ['achievements'];
+
+/**
+ * Every badge with its progress. With `unlock`, badges earned since the last
+ * visit are stored and returned in `celebrate` until dismissed; only the page
+ * that shows the celebration should pass it, or the unlock is spent unseen.
+ */
+function useAchievements({ unlock = false }: { unlock?: boolean } = {}) {
+  const { data: user } = useUser();
+  const queryClient = useQueryClient();
+  const [celebrate, setCelebrate] = useState<BadgeDefinition[]>([]);
+  const unlocking = useRef(false);
+
+  const query = useQuery<AchievementData>({
+    queryKey: ACHIEVEMENTS_KEY,
+    queryFn: async ({ signal }) => {
+      const client = createApiClient({ signal });
+      const [stats, events, stored] = await Promise.all([
+        client.stats.get(),
+        client.studyEvents.list(),
+        client.achievements.list(),
+      ]);
+      return { stats, events, stored };
+    },
+    enabled: !!user,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  const metrics = useMemo(
+    () => (query.data ? buildAchievementMetrics(query.data.stats, query.data.events, user?.xp_total ?? 0) : null),
+    [query.data, user?.xp_total],
+  );
+
+  const badges = useMemo(
+    () => (metrics && query.data ? evaluateBadges(metrics, query.data.stored) : []),
+    [metrics, query.data],
+  );
+
+  useEffect(() => {
+    if (!unlock || !metrics || !query.data || unlocking.current) return;
+    const earned = newlyEarned(metrics, query.data.stored);
+    if (earned.length === 0) return;
+
+    unlocking.current = true;
+    api.achievements
+      .unlock(earned.map((badge) => badge.id))
+      .then((stored) => {
+        queryClient.setQueryData<AchievementData>(ACHIEVEMENTS_KEY, (prev) => (prev ? { ...prev, stored } : prev));
+        setCelebrate((prev) => [...prev, ...earned]);
+      })
+      .catch((error) => console.error('Error unlocking achievements:', error))
+      .finally(() => {
+        unlocking.current = false;
+      });
+  }, [unlock, metrics, query.data, queryClient]);
+
+  const dismissCelebration = useCallback(() => setCelebrate([]), []);
+
+  return { badges, celebrate, dismissCelebration, loading: query.isLoading };
+}
+
+export { useAchievements };
+export default useAchievements;
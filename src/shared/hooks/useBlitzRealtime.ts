@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react';
+import { useApi } from '@/hooks/useApi';
+import {
+  applyBlitzEvent,
+  createBlitzRealtime,
+  type BlitzRealtimeClient,
+  type RealtimeConnection,
+} from '@/lib/blitz-realtime';
+import type { BlitzEvent, PlaySessionStateResponse } from '@/types/api.types';
+
+interface UseBlitzRealtimeOptions {
+  sessionId: string | null | undefined;
+  /** Setter of the page's session state; events are applied to it as diffs */
+  setState: Dispatch<SetStateAction<PlaySessionStateResponse | null>>;
+  /** Seq of the state the page already has (from joining) */
+  initialSeq?: number | null;
+  /** The current user's player row, so their own answers are recorded */
+  selfPlayerId?: string | null;
+  /** Called after each event is applied, e.g. to react to being kicked */
+  onEvent?: (event: BlitzEvent) => void;
+}
+
+/**
+ * Keep a Blitz Challenge session state live through `createBlitzRealtime`.
+ * Returns the connection status and a `refresh` for when a full refetch is
+ * needed (e.g. the timer ran out).
+ */
+function useBlitzRealtime({ sessionId, setState, initialSeq, selfPlayerId, onEvent }: UseBlitzRealtimeOptions) {
+  const api = useApi();
+  const clientRef = useRef<BlitzRealtimeClient | null>(null);
+  const [connection, setConnection] = useState<RealtimeConnection>('connecting');
+
+  // Read through refs so a new player id or callback doesn't reopen the socket
+  const selfPlayerIdRef = useRef(selfPlayerId);
+  selfPlayerIdRef.current = selfPlayerId;
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+  const initialSeqRef = useRef(initialSeq);
+  initialSeqRef.current = initialSeq;
+
+  useEffect(() => {
+    if (!sessionId) return;
+    setConnection('connecting');
+
+    const client = createBlitzRealtime(
+      sessionId,
+      {
+        onEvent: (event) => {
+          setState((prev) => (prev ? applyBlitzEvent(prev, event, selfPlayerIdRef.current) : prev));
+          onEventRef.current?.(event);
+        },
+        onState: (state) => setState(state),
+        onConnectionChange: setConnection,
+      },
+      { initialSeq: initialSeqRef.current, fetchState: (id) => api.playSessions.getState(id) },
+    );
+    clientRef.current = client;
+
+    return () => {
+      client.close();
+      if (clientRef.current === client) clientRef.current = null;
+    };
+  }, [sessionId, setState, api]);
+
+  const refresh = useCallback(async () => {
+    await clientRef.current?.refresh();
+  }, []);
+
+  return { connection, refresh };
+}
+
+export { useBlitzRealtime };
+export default useBlitzRealtime;
@@ -0,0 +1,177 @@
+import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react';
+import { useApi } from '@/hooks/useApi';
+import {
+  clearBlitzResume,
+  loadBlitzResume,
+  questionShownAt,
+  updateBlitzResume,
+  type PendingBlitzAnswer,
+} from '@/lib/blitz-resume';
+import { isNetworkError } from '@/lib/outbox';
+import type { PlaySessionStateResponse, SubmitAnswerResponse } from '@/types/api.types';
+
+/** Retry delays while the network is down: 1s, 2s, 4s, then every 8s */
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 8000;
+
+interface UseBlitzResumeOptions {
+  /** Join code from the URL */
+  code: string | null | undefined;
+  /** Name to join with the first time; a rejoin reuses the stored one */
+  displayName: string;
+  /** False until the user is loaded */
+  enabled: boolean;
+  setState: Dispatch<SetStateAction<PlaySessionStateResponse | null>>;
+  /** Errors the server answered with (not network drops, which are retried) */
+  onError: (message: string) => void;
+  /** After an answer reaches the server, e.g. to refetch when the socket is down */
+  onAnswerSent?: () => void;
+}
+
+/**
+ * Join a Blitz Challenge and survive reloads and dropped connections.
+ * Joining and answering go through here: a network failure keeps the answer
+ * in sessionStorage and retries (rejoin, then resend) with backoff instead of
+ * failing, and `reconnecting` is true until it gets through.
+ */
+function useBlitzResume({ code, displayName, enabled, setState, onError, onAnswerSent }: UseBlitzResumeOptions) {
+  const api = useApi();
+  const [loading, setLoading] = useState(true);
+  const [reconnecting, setReconnecting] = useState(false);
+  const [hasPendingAnswer, setHasPendingAnswer] = useState(() => !!(code && loadBlitzResume(code)?.pendingAnswer));
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const attemptRef = useRef(0);
+
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+  const onAnswerSentRef = useRef(onAnswerSent);
+  onAnswerSentRef.current = onAnswerSent;
+  const displayNameRef = useRef(displayName);
+  displayNameRef.current = displayName;
+  const joinRef = useRef<() => Promise<void>>(async () => {});
+
+  const scheduleRetry = useCallback(() => {
+    if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+    const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** attemptRef.current);
+    attemptRef.current += 1;
+    setReconnecting(true);
+    retryTimerRef.current = setTimeout(() => void joinRef.current(), delay);
+  }, []);
+
+  const setPending = useCallback(
+    (answer: PendingBlitzAnswer | null) => {
+      if (!code) return;
+      updateBlitzResume(code, { pendingAnswer: answer });
+      setHasPendingAnswer(!!answer);
+    },
+    [code],
+  );
+
+  /**
+   * Resolves with the server's verdict, or null when the answer has been kept
+   * for a retry (a resent answer's verdict arrives with the next state)
+   */
+  const send = useCallback(
+    async (sessionId: string, answer: PendingBlitzAnswer): Promise<SubmitAnswerResponse | null> => {
+      setPending(answer);
+      try {
+        const verdict = await api.playSessions.answer(sessionId, answer);
+        setPending(null);
+        onAnswerSentRef.current?.();
+        return verdict;
+      } catch (err) {
+        if (isNetworkError(err)) {
+          scheduleRetry();
+          return null;
+        }
+        setPending(null);
+        throw err;
+      }
+    },
+    [api, setPending, scheduleRetry],
+  );
+
+  const join = useCallback(async () => {
+    if (!code) return;
+    if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+    const record = loadBlitzResume(code);
+    const name = record?.displayName || displayNameRef.current;
+    try {
+      const data = await api.playSessions.join(code, name);
+      attemptRef.current = 0;
+      updateBlitzResume(code, { sessionId: data.session.id, displayName: name });
+      setState(data);
+      setReconnecting(false);
+
+      // Resend an answer the reload or the drop cut off, unless the server already has it
+      const pending = record?.pendingAnswer;
+      if (pending) {
+        const received = (data.currentPlayerAnswers ?? []).some((a) => a.question_id === pending.questionId);
+        if (received || data.session.status !== 'active') setPending(null);
+        else await send(data.session.id, pending);
+      }
+    } catch (err) {
+      if (isNetworkError(err)) {
+        scheduleRetry();
+        return;
+      }
+      onErrorRef.current(err instanceof Error ? err.message : 'Failed to join session');
+    } finally {
+      setLoading(false);
+    }
+  }, [api, code, setState, send, setPending, scheduleRetry]);
+  joinRef.current = join;
+
+  useEffect(() => {
+    if (!enabled || !code) return;
+    setLoading(true);
+    void join();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enabled, code]);
+
+  // Back online: don't wait for the next backoff step
+  useEffect(() => {
+    if (!reconnecting) return;
+    const handleOnline = () => void joinRef.current();
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [reconnecting]);
+
+  useEffect(
+    () => () => {
+      if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+    },
+    [],
+  );
+
+  const submitAnswer = useCallback(
+    (sessionId: string, answer: PendingBlitzAnswer) => send(sessionId, answer),
+    [send],
+  );
+
+  /** Remember which player row is ours once the page has found it */
+  const rememberPlayer = useCallback(
+    (playerId: string) => {
+      if (code && loadBlitzResume(code)?.playerId !== playerId) updateBlitzResume(code, { playerId });
+    },
+    [code],
+  );
+
+  const shownAt = useCallback(
+    (questionId: string) => (code ? questionShownAt(code, questionId) : Date.now()),
+    [code],
+  );
+
+  /** Forget the game: left on purpose, kicked, or it ended */
+  const forget = useCallback(() => {
+    if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+    if (code) clearBlitzResume(code);
+    setHasPendingAnswer(false);
+    setReconnecting(false);
+  }, [code]);
+
+  return { loading, reconnecting, hasPendingAnswer, join, submitAnswer, rememberPlayer, shownAt, forget };
+}
+
+export { useBlitzResume };
+export default useBlitzResume;
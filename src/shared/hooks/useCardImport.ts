@@ -0,0 +1,57 @@
+import { useCallback, useState } from 'react';
+import { useApi } from '@/hooks/useApi';
+import type { CreateCardBody } from '@/types/api.types';
+
+/** Cards sent per bulk request, small enough to keep each request quick */
+export const IMPORT_CHUNK_SIZE = 50;
+
+export interface ImportProgress {
+  done: number;
+  total: number;
+}
+
+export interface CardImportResult {
+  created: number;
+  /** Why the import stopped early, or null if every card was created */
+  error: unknown;
+}
+
+/**
+ * Create many cards through `api.cards.bulkCreate`, a chunk at a time,
+ * reporting progress. Stops at the first failed chunk, so the result says
+ * how many cards made it in before the error.
+ */
+function useCardImport() {
+  const api = useApi();
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const importCards = useCallback(
+    async (deckId: string, cards: CreateCardBody[]): Promise<CardImportResult> => {
+      setImporting(true);
+      let created = 0;
+      setProgress({ done: created, total: cards.length });
+      try {
+        for (let start = 0; start < cards.length; start += IMPORT_CHUNK_SIZE) {
+          const chunk = cards.slice(start, start + IMPORT_CHUNK_SIZE);
+          await api.cards.bulkCreate(deckId, chunk);
+          created += chunk.length;
+          setProgress({ done: created, total: cards.length });
+        }
+        return { created, error: null };
+      } catch (error) {
+        return { created, error };
+      } finally {
+        setImporting(false);
+      }
+    },
+    [api],
+  );
+
+  const reset = useCallback(() => setProgress(null), []);
+
+  return { importCards, progress, importing, reset };
+}
+
+export { useCardImport };
+export default useCardImport;
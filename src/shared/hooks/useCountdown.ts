@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+
+function secondsUntil(endsAt: string): number {
+  return Math.max(0, Math.ceil((new Date(endsAt).getTime() - Date.now()) / 1000));
+}
+
+/**
+ * Whole seconds left until `endsAt` (an ISO timestamp), ticking every second.
+ * Null when there is no deadline.
+ */
+function useCountdown(endsAt: string | null | undefined): number | null {
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(() => (endsAt ? secondsUntil(endsAt) : null));
+
+  useEffect(() => {
+    if (!endsAt) {
+      setSecondsLeft(null);
+      return;
+    }
+    setSecondsLeft(secondsUntil(endsAt));
+    const interval = setInterval(() => {
+      const left = secondsUntil(endsAt);
+      setSecondsLeft(left);
+      if (left === 0) clearInterval(interval);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [endsAt]);
+
+  return secondsLeft;
+}
+
+export { useCountdown };
+export default useCountdown;
@@ -0,0 +1,43 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { createApiClient } from '@/config/api';
+import { buildDailyActivity, dayKey, type DayActivity } from '@/domain/daily-goals';
+
+/** XP history is only paged by count; this covers a few months of play */
+const XP_HISTORY_LIMIT = 500;
+
+/**
+ * Cards studied and XP earned per local day since `since`, from the study
+ * events and the XP history. Shared between the layout's goal ring and the
+ * profile calendar through the query cache.
+ */
+function useStudyActivity(since: Date, enabled = true) {
+  const sinceKey = dayKey(since);
+  const query = useQuery({
+    queryKey: ['study-activity', sinceKey],
+    queryFn: async ({ signal }) => {
+      const client = createApiClient({ signal });
+      const [events, xpHistory] = await Promise.all([
+        client.studyEvents.list({ since: since.toISOString() }),
+        client.xp.history(XP_HISTORY_LIMIT),
+      ]);
+      return { events, xpHistory };
+    },
+    enabled,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  const activity = useMemo(
+    () =>
+      query.data
+        ? buildDailyActivity(query.data.events, query.data.xpHistory)
+        : new Map<string, DayActivity>(),
+    [query.data],
+  );
+
+  return { activity, loading: query.isLoading, refetch: query.refetch };
+}
+
+export { useStudyActivity };
+export default useStudyActivity;
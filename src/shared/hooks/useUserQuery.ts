@@ -1,11 +1,11 @@
 import { useQuery } from '@tanstack/react-query';
-import { api } from '@/config/api';
-import type { DbUser } from '@/types/api.types';
+import { createApiClient } from '@/config/api';
+import type { DbUser, XpLeaderboardQuery } from '@/types/api.types';
 
 export function useUserQuery() {
   return useQuery<DbUser>({
     queryKey: ['user', 'current'],
-    queryFn: () => api.users.current(),
+    queryFn: ({ signal }) => createApiClient({ signal }).users.current(),
     staleTime: 1000 * 60 * 5, // 5 minutes
     gcTime: 1000 * 60 * 30, // 30 minutes
     retry: 1,
@@ -16,7 +16,7 @@ export function useUserQuery() {
 export function useStatsQuery() {
   return useQuery({
     queryKey: ['stats'],
-    queryFn: () => api.stats.get(),
+    queryFn: ({ signal }) => createApiClient({ signal }).stats.get(),
     staleTime: 1000 * 60 * 2, // 2 minutes
     retry: 1,
     refetchOnWindowFocus: false,
@@ -26,7 +26,7 @@ export function useStatsQuery() {
 export function useDecksQuery(params?: { search?: string; filter?: 'all' | 'owned' | 'assigned' | 'public' }) {
   return useQuery({
     queryKey: ['decks', params],
-    queryFn: () => api.decks.list(params),
+    queryFn: ({ signal }) => createApiClient({ signal }).decks.list(params),
     staleTime: 1000 * 30, // 30 seconds
     retry: 1,
     refetchOnWindowFocus: false,
@@ -36,9 +36,50 @@ export function useDecksQuery(params?: { search?: string; filter?: 'all' | 'owne
 export function useClassroomsQuery() {
   return useQuery({
     queryKey: ['classrooms'],
-    queryFn: () => api.classrooms.list(),
+    queryFn: ({ signal }) => createApiClient({ signal }).classrooms.list(),
     staleTime: 1000 * 60 * 2, // 2 minutes
     retry: 1,
     refetchOnWindowFocus: false,
   });
 }
+
+export function useLeaderboardQuery(query: XpLeaderboardQuery, enabled = true) {
+  return useQuery({
+    queryKey: ['leaderboard', query],
+    queryFn: async ({ signal }) => {
+      const client = createApiClient({ signal });
+      const { limit, ...options } = query;
+      // The position only pins the user under the list; don't fail the page over it
+      const [entries, position] = await Promise.all([
+        client.xp.leaderboard(limit, options),
+        client.xp.leaderboardPosition(options).catch(() => null),
+      ]);
+      return { entries, position };
+    },
+    enabled,
+    staleTime: 1000 * 60, // 1 minute
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+}
+
+export function useFollowsQuery(enabled = true) {
+  return useQuery({
+    queryKey: ['follows'],
+    queryFn: ({ signal }) => createApiClient({ signal }).follows.list(),
+    enabled,
+    staleTime: 1000 * 60 * 2, // 2 minutes
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+}
+
+export function useXpHistoryQuery(limit = 100) {
+  return useQuery({
+    queryKey: ['xp-history', limit],
+    queryFn: ({ signal }) => createApiClient({ signal }).xp.history(limit),
+    staleTime: 1000 * 60, // 1 minute
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+}
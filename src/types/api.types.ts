@@ -10,9 +10,19 @@ export interface ApiContext {
   params: Record<string, string>;
 }
 
-export interface ApiError {
-  error: string;
+/**
+ * Body of a non-2xx response. Plan-limit rejections also carry the
+ * resource, the plan's limit and the current usage.
+ */
+export interface ApiErrorBody {
+  error?: string;
+  message?: string;
+  code?: string;
   details?: unknown;
+  resource?: string;
+  limit?: number;
+  current?: number;
+  plan?: string;
 }
 
 export interface ApiSuccess<T = unknown> {
@@ -23,6 +33,7 @@ export interface ApiSuccess<T = unknown> {
 // ============================================================================
 // Database Types
 // ============================================================================
+// Timestamps arrive as ISO strings over JSON — wrap in `new Date()` to use them.
 
 export interface DbUser {
   id: string;
@@ -39,71 +50,166 @@ export interface DbUser {
   plan?: 'free' | 'premium' | 'gold' | null;
   has_seen_welcome?: boolean | null;
   xp_total?: number;
-  created_at?: Date;
-  updated_at?: Date;
+  daily_goal_type?: DailyGoalType | null;
+  daily_goal_target?: number | null;
+  /** Streak freezes left to spend on a missed day (premium) */
+  streak_freezes?: number | null;
+  created_at?: string;
+  updated_at?: string;
 }
 
+/** What the daily goal counts: different cards studied, or XP earned (see `domain/daily-goals`) */
+export type DailyGoalType = 'cards' | 'xp';
+
 export interface DbDeck {
   id: string;
-  owner_id: string | null;
-  owner_user_id: string | null;
-  name: string;
+  owner_id?: string | null;
+  owner_user_id?: string | null;
+  name?: string | null;
   title: string | null;
-  description: string | null;
-  language: string;
-  is_public: boolean;
-  primary_color_hex: string | null;
-  created_at: Date;
-  updated_at: Date;
+  description?: string | null;
+  language?: string | null;
+  is_public?: boolean;
+  primary_color_hex?: string | null;
+  /** Typed answers must get accents right (otherwise missing accents are forgiven) */
+  accent_sensitive?: boolean | null;
+  created_at?: string;
+  updated_at?: string;
   card_count?: number;
 }
 
 export interface DbCard {
   id: string;
   deck_id: string;
-  question: string; // Spanish text (also referred as prompt_es)
-  answer: string; // English text (also referred as translation_en)
-  prompt_es?: string; // Alias for question
-  translation_en?: string; // Alias for answer
+  question?: string | null; // Spanish text (legacy column, mirrors prompt_es)
+  answer?: string | null; // English text (legacy column, mirrors translation_en)
+  prompt_es?: string | null; // Spanish prompt shown on the card
+  translation_en?: string | null; // English meaning
+  answer_es?: string | null; // Spanish answer when it differs from the prompt
+  accepted_es?: string[] | null; // Other Spanish answers that also count as correct
+  accepted_en?: string[] | null; // Other English meanings that also count as correct
+  distractor_1_es?: string | null;
+  distractor_2_es?: string | null;
+  distractor_3_es?: string | null;
   notes?: string | null; // Optional notes (max 150 chars)
+  position?: number; // Question order inside a Blitz session
   type?: 'text' | 'audio' | 'image';
   audio_url?: string | null;
   image_url?: string | null;
-  created_at?: Date;
-  updated_at?: Date;
+  created_at?: string;
+  updated_at?: string;
 }
 
 export interface DbStudyEvent {
   id: string;
   user_id: string;
   card_id: string;
+  deck_id?: string | null;
   result: 'correct' | 'incorrect';
-  response_time_ms: number | null;
-  created_at: Date;
+  mode?: string | null;
+  response_type?: string | null;
+  transcript_es?: string | null;
+  /** Speech answers: the recognizer's confidence, 0–1 */
+  speech_confidence?: number | null;
+  /** Speech answers: word-level pronunciation score, 0–100 */
+  pronunciation_score?: number | null;
+  response_time_ms?: number | null;
+  created_at: string;
 }
 
+/** `self`: everyone plays at their own pace. `host`: the host moves the whole room from question to question. */
+export type SessionPacing = 'self' | 'host';
+
 export interface DbPlaySession {
   id: string;
-  host_user_id: string;
+  host_user_id?: string;
   deck_id: string;
-  mode: string;
+  deck_title?: string | null;
+  mode?: string;
   is_teacher: boolean;
+  require_mic?: boolean;
+  pacing?: SessionPacing | null;
+  /** Countdown per question in host-paced sessions */
+  question_seconds?: number | null;
+  /** Copied from the deck when the session is created */
+  accent_sensitive?: boolean | null;
   question_count: number;
   time_limit_seconds: number | null;
-  status: 'pending' | 'active' | 'finished';
-  started_at: Date | null;
-  ends_at: Date | null;
-  created_at: Date;
+  status: 'pending' | 'active' | 'completed' | 'finished';
+  started_at?: string | null;
+  ends_at: string | null;
+  /** Position of the question on screen, when the host moves everyone on together */
+  current_position?: number | null;
+  /** When the countdown for `current_position` runs out */
+  question_ends_at?: string | null;
+  created_at?: string;
   code: string | null;
 }
 
 export interface DbPlaySessionPlayer {
   id: string;
-  session_id: string;
+  session_id?: string;
   user_id: string;
-  display_name: string;
+  email?: string | null;
+  display_name: string | null;
   score: number;
-  joined_at: Date;
+  is_host?: boolean;
+  answered?: boolean;
+  answered_count?: number;
+  progress?: number;
+  xp_earned?: number | null;
+  /** Correct answers in a row right now, and the longest run this game */
+  streak?: number | null;
+  best_streak?: number | null;
+  /** Team mode only; null until the player picks or is balanced into a team */
+  team_id?: string | null;
+  joined_at?: string;
+}
+
+/** A team in a team-mode play session (see `domain/blitz-teams`) */
+export interface DbPlaySessionTeam {
+  id: string;
+  session_id?: string;
+  name: string;
+  /** Hex colour */
+  color: string;
+  position: number;
+}
+
+export interface PlaySessionQuestion extends DbCard {
+  position: number;
+  /** Per-player token for this question; the answer must echo it */
+  nonce?: string | null;
+}
+
+export interface PlaySessionAnswer {
+  question_id: string;
+  is_correct?: boolean;
+  answer_text?: string | null;
+  points?: number | null;
+  response_time_ms?: number | null;
+}
+
+export interface PlaySessionPlayerAnswer extends PlaySessionAnswer {
+  player_id: string;
+  /** Why the answer looks suspicious; only in the host's state */
+  flags?: AnswerFlag[] | null;
+}
+
+/**
+ * Suspicious-answer markers the server sets and the host sees (summarised by `domain/blitz-integrity`).
+ * `too_fast`: answered quicker than a person can read. `focus_lost`: left the tab while the question was up.
+ */
+export type AnswerFlag = 'too_fast' | 'focus_lost';
+
+export interface AdminUser {
+  id: string;
+  email: string;
+  display_name: string | null;
+  role: 'user' | 'teacher' | 'admin';
+  plan: 'free' | 'premium' | 'gold' | null;
+  is_premium: boolean;
+  created_at: string;
 }
 
 // ============================================================================
@@ -121,77 +227,234 @@ export interface AuthSession {
   expires?: string;
 }
 
+export interface AuthResponse {
+  token?: string;
+  user?: DbUser;
+}
+
 // ============================================================================
 // API Request Body Types
 // ============================================================================
 
+export interface SignUpBody {
+  email: string;
+  password: string;
+  firstName?: string;
+  lastName?: string;
+  displayName?: string;
+}
+
+export interface UpdateUserBody {
+  display_name?: string;
+  first_name?: string;
+  last_name?: string;
+  avatar_url?: string;
+  preferred_locale?: string;
+  preferred_voice_gender?: 'male' | 'female';
+  daily_goal_type?: DailyGoalType;
+  daily_goal_target?: number;
+}
+
+export interface UpdateUserAdminBody {
+  role?: 'user' | 'admin';
+  is_premium?: boolean;
+  plan?: 'free' | 'premium';
+}
+
 export interface CreateDeckBody {
   title: string;
   description?: string;
   is_public?: boolean;
   primary_color_hex?: string;
+  accent_sensitive?: boolean;
 }
 
-export interface UpdateDeckBody {
-  title?: string;
-  description?: string;
-  is_public?: boolean;
-  primary_color_hex?: string;
+export type UpdateDeckBody = Partial<CreateDeckBody>;
+
+export interface DeckListQuery {
+  search?: string;
+  filter?: 'all' | 'owned' | 'assigned' | 'public';
 }
 
 export interface CreateCardBody {
-  spanish_text: string;
-  english_text: string;
-  audio_url?: string;
-  image_url?: string;
-  order_index?: number;
+  prompt_es: string;
+  translation_en: string;
+  /** Spanish answer when it differs from the prompt */
+  answer_es?: string;
+  distractor_1_es?: string;
+  distractor_2_es?: string;
+  distractor_3_es?: string;
+  notes?: string;
+  accepted_es?: string[];
+  accepted_en?: string[];
+}
+
+export interface UpdateCardBody extends Partial<CreateCardBody> {
+  answer_es?: string;
 }
 
 export interface BulkCreateCardsBody {
-  cards: Array<{
-    spanish_text: string;
-    english_text: string;
-    audio_url?: string;
-    image_url?: string;
-  }>;
+  cards: CreateCardBody[];
 }
 
-export interface UpdateUserBody {
-  display_name?: string;
-  preferred_locale?: string;
+export interface CreatePlaySessionBody {
+  deckId: string;
+  questionCount?: number;
+  timeLimitMinutes?: number;
+  isTeacher?: boolean;
+  requireMic?: boolean;
+  /** Host pacing requires `isTeacher` */
+  pacing?: SessionPacing;
+  questionSeconds?: number;
+  /** 2–6 teams for team mode; leave out for an individual game */
+  teams?: PlaySessionTeamBody[];
+}
+
+export interface PlaySessionTeamBody {
+  name: string;
+  color: string;
 }
 
-export interface UpdateUserAdminBody {
-  role?: 'user' | 'admin';
-  is_premium?: boolean;
-  plan?: 'free' | 'premium';
+export interface SetPlayerTeamBody {
+  teamId: string;
+  /** Host moving someone else; players can only move themselves */
+  playerId?: string;
 }
 
-export interface CreatePlaySessionBody {
-  deck_id: string;
+export interface AssignTeamsBody {
+  assignments: Array<{ playerId: string; teamId: string }>;
 }
 
 export interface JoinPlaySessionBody {
   code: string;
-  display_name: string;
+  displayName: string;
 }
 
+export interface AdvancePlaySessionBody {
+  /** Position to move to; past the last question ends the session. Repeats of the same position are ignored. */
+  position: number;
+}
+
+/** How the answer was given: a multiple-choice option, typed text or a speech transcript */
+export type AnswerKind = 'option' | 'text' | 'speech';
+
+/**
+ * The raw answer only. The server checks the nonce, grades the answer, works
+ * out the points and any integrity flags from the timing, and its
+ * `SubmitAnswerResponse` is final.
+ */
 export interface SubmitAnswerBody {
-  card_id: string;
-  answer: string;
-  response_time_ms?: number;
+  questionId: string;
+  answerText: string | null;
+  answerKind: AnswerKind;
+  /** Question type the player saw, so the server grades in the right direction */
+  questionType?: string | null;
+  /** Echo of `PlaySessionQuestion.nonce` */
+  nonce?: string | null;
+  /** From the question appearing to the answer being given */
+  responseTimeMs?: number;
+  /** Times the tab was hidden or lost focus while the question was up */
+  focusLosses?: number;
+}
+
+/** The server's verdict on an answer */
+export interface SubmitAnswerResponse {
+  isCorrect: boolean;
+  points: number;
+  /** The player's new total */
+  score: number;
+  streak?: number | null;
+  flags?: AnswerFlag[] | null;
 }
 
 export interface CreateStudyEventBody {
+  deck_id?: string;
   card_id: string;
   result: 'correct' | 'incorrect';
-  response_time_ms?: number;
+  mode?: string;
+  response_type?: string;
+  transcript_es?: string;
+  speech_confidence?: number;
+  pronunciation_score?: number;
+}
+
+export interface StudyEventListQuery {
+  deck_id?: string;
+  since?: string;
+  limit?: number;
+}
+
+export type LeaderboardPeriod = 'week' | 'month' | 'all';
+export type LeaderboardScope = 'global' | 'classroom' | 'following';
+
+export interface XpLeaderboardQuery {
+  limit?: number;
+  /** Default 'all' */
+  period?: LeaderboardPeriod;
+  /** Default 'global' */
+  scope?: LeaderboardScope;
+  /** Required for the 'classroom' scope */
+  classroomId?: string;
+}
+
+export interface FollowUserBody {
+  userId: string;
+}
+
+export interface AdminUserListQuery {
+  search?: string;
+  role?: string;
+  plan?: string;
+}
+
+export interface AwardSoloBlitzBody {
+  setId?: string;
+  sessionId?: string;
+  correctAnswers: number;
+  /** Questions in the game, so the server can count perfect games */
+  totalQuestions?: number;
+}
+
+export interface FinalizeBlitzChallengeBody {
+  challengeId: string;
+  results: Array<{
+    userId: string;
+    rank: number;
+    participated: boolean;
+    /** Team mode: the rank of the player's team, shared by its members */
+    teamRank?: number;
+  }>;
+}
+
+export interface SynthesizeSpeechBody {
+  text: string;
+  locale: string;
+  voice?: 'male' | 'female';
+  rate?: string;
+}
+
+export interface EvaluateSpeechBody {
+  transcript: string;
+  target: string;
+  confidence?: number;
+}
+
+export interface SendFelicitacionBody {
+  student_id: string;
+  assignment_id?: string;
+  message?: string;
 }
 
 // ============================================================================
 // API Response Types
 // ============================================================================
 
+/** Generic acknowledgement returned by deletes and other fire-and-forget writes */
+export interface MessageResponse {
+  success?: boolean;
+  message?: string;
+}
+
 export interface MasteryLevel {
   name: string;
   current: number;
@@ -209,13 +472,126 @@ export interface StatsResponse {
   masteryLevel: MasteryLevel;
   xpRank: number;
   setsCreated: number;
+  /** Days (YYYY-MM-DD) a streak freeze covered */
+  frozenDays?: string[];
+  /** Solo or Challenge Blitz games with every answer right */
+  perfectBlitzes?: number;
+  assignmentsCompleted?: number;
+}
+
+export interface StreakFreezeBody {
+  /** The missed day to protect (YYYY-MM-DD, the user's local date) */
+  date: string;
+}
+
+export interface StreakFreezeResponse {
+  streak: number;
+  /** Freezes left */
+  streakFreezes: number;
+  frozenDays: string[];
 }
 
 export interface PlaySessionStateResponse {
   session: DbPlaySession;
   players: DbPlaySessionPlayer[];
-  current_card?: DbCard;
-  deck: DbDeck;
+  /** Empty or missing unless the session is in team mode */
+  teams?: DbPlaySessionTeam[];
+  questions: PlaySessionQuestion[];
+  totalQuestions?: number;
+  currentPlayerAnswers?: PlaySessionAnswer[];
+  /** Every player's answers, only sent to the host */
+  questionAnswers?: PlaySessionPlayerAnswer[];
+  /** Sequence number of the last realtime event this state already includes */
+  seq?: number;
+}
+
+export interface CreatePlaySessionResponse {
+  id?: string;
+  code: string;
+}
+
+export interface XpAwardResponse {
+  xpEarned?: number;
+  xpTotal?: number;
+}
+
+export interface XpLeaderboardEntry {
+  id: string;
+  display_name: string | null;
+  avatar_url?: string | null;
+  xp_total: number;
+  /** XP earned in the requested period (equals xp_total for all-time) */
+  xp?: number;
+  rank?: number;
+}
+
+/** The current user's place on a leaderboard, wherever it falls */
+export interface XpLeaderboardPosition {
+  /** Null when the user has no XP in the period */
+  rank: number | null;
+  xp: number;
+  /** Players ranked in this scope and period */
+  players: number;
+}
+
+export interface FollowedUser {
+  id: string;
+  display_name: string | null;
+  avatar_url?: string | null;
+  followed_at: string;
+}
+
+export interface XpHistoryEntry {
+  id: string;
+  amount: number;
+  source?: string | null;
+  description?: string | null;
+  created_at: string;
+}
+
+export interface TtsSynthesizeResponse {
+  audio: string;
+}
+
+export interface TtsConfigResponse {
+  configured: boolean;
+}
+
+export interface TtsVoice {
+  name: string;
+  locale?: string;
+  gender?: string;
+}
+
+export interface SpeechTranscribeResponse {
+  transcript: string;
+  confidence?: number;
+}
+
+export interface SpeechEvaluateResponse {
+  accepted: boolean;
+  score?: number;
+}
+
+export interface Felicitacion {
+  id: string;
+  teacher_name: string;
+  mission_name?: string | null;
+  message?: string | null;
+}
+
+export interface DbAchievement {
+  badge_id: string;
+  unlocked_at: string;
+}
+
+export interface UnlockAchievementsBody {
+  badgeIds: string[];
+}
+
+export interface CompleteAssignmentResponse {
+  repetitions_completed?: number;
+  completed?: boolean;
 }
 
 // ============================================================================
@@ -228,47 +604,52 @@ export interface DbClassroom {
   name: string;
   description: string | null;
   code: string;
-  color?: string;
-  is_active: boolean;
-  created_at: Date;
-  updated_at: Date;
+  color?: string | null;
+  is_active?: boolean;
+  created_at?: string;
+  updated_at?: string;
   teacher_name?: string | null;
   student_count?: number;
   assignment_count?: number;
 }
 
-export interface DbClassroomMembership {
+export interface ClassroomStudent {
   id: string;
-  classroom_id: string;
-  student_id: string;
-  joined_at: Date;
+  email: string;
+  display_name: string | null;
+  xp_total: number;
+  joined_at: string;
   is_active: boolean;
 }
 
 export interface DbAssignment {
   id: string;
-  classroom_id: string;
-  deck_id: string;
+  classroom_id?: string | null;
+  deck_id: string | null;
+  deck_title?: string | null;
   title: string;
   description: string | null;
-  due_date: Date | null;
-  created_at: Date;
+  due_date: string | null;
+  created_at?: string;
+  required_repetitions: number;
+  xp_reward?: number | null;
+  xp_goal?: number | null;
+  // Teacher view
   completed_count?: number;
   total_students?: number;
-}
-
-export interface DbAssignmentSubmission {
-  id: string;
-  assignment_id: string;
-  student_id: string;
-  score: number | null;
-  completed_at: Date | null;
-  created_at: Date;
+  // Student view
+  completed?: boolean;
+  completed_at?: string | null;
+  repetitions_completed?: number;
+  xp_progress?: number;
+  classroom_name?: string;
+  classroom_color?: string | null;
 }
 
 export interface CreateClassroomBody {
   name: string;
   description?: string;
+  color?: string;
 }
 
 export interface UpdateClassroomBody {
@@ -282,24 +663,67 @@ export interface JoinClassroomBody {
 }
 
 export interface CreateAssignmentBody {
-  deck_id: string;
+  deck_id?: string;
   title: string;
   description?: string;
   due_date?: string;
+  student_ids?: string[];
+  required_repetitions?: number;
+  xp_reward?: number;
+  xp_goal?: number;
 }
 
-export interface ClassroomWithDetails extends DbClassroom {
-  teacher: {
-    id: string;
-    display_name: string | null;
-    email: string;
-  };
-  students?: Array<{
-    id: string;
-    display_name: string | null;
-    email: string;
-    joined_at: Date;
-  }>;
-  assignments?: DbAssignment[];
+export interface CompleteAssignmentBody {
+  score?: number;
 }
 
+// ============================================================================
+// Realtime Types (Blitz Challenge socket)
+// ============================================================================
+
+/** Payload of each event the server pushes for a play session */
+export interface BlitzEventPayloads {
+  'player:joined': { player: DbPlaySessionPlayer };
+  'player:left': { playerId: string };
+  'player:kicked': { playerId: string };
+  'player:team': { playerId: string; teamId: string | null };
+  'answer:submitted': {
+    playerId: string;
+    questionId: string;
+    isCorrect: boolean;
+    answerText?: string | null;
+    points?: number | null;
+    responseTimeMs?: number | null;
+    flags?: AnswerFlag[] | null;
+    /** The player's answered count after this answer */
+    answeredCount: number;
+  };
+  /** `score` is the new total, so a repeated delta can't count twice */
+  'score:delta': { playerId: string; delta: number; score: number; streak?: number | null };
+  'question:advanced': { position: number; endsAt: string | null };
+  'session:started': { startedAt: string | null; endsAt: string | null };
+  'session:ended': { status: 'completed' | 'finished' };
+  /** Full state, sent instead of a replay when the resume point is too old */
+  'session:snapshot': { state: PlaySessionStateResponse };
+}
+
+export type BlitzEventType = keyof BlitzEventPayloads;
+
+/** An event as it arrives: numbered per session, starting at 1 */
+export type BlitzEvent<K extends BlitzEventType = BlitzEventType> = K extends BlitzEventType
+  ? { type: K; sessionId: string; seq: number } & BlitzEventPayloads[K]
+  : never;
+
+/** Unnumbered messages about the subscription itself */
+export type BlitzControlMessage =
+  | { type: 'subscribed'; sessionId: string; seq: number | null }
+  | { type: 'session:resync'; sessionId: string }
+  /** Sent by servers without the event stream: just refetch the state */
+  | { type: 'session:refresh'; sessionId: string };
+
+export type BlitzServerMessage = BlitzEvent | BlitzControlMessage;
+
+export type BlitzClientMessage =
+  /** `since` asks the server to replay every event after that sequence number */
+  | { type: 'subscribe'; sessionId: string; since?: number | null }
+  | { type: 'unsubscribe'; sessionId: string };